@@ -0,0 +1,6 @@
+-- Rolling summary of the messages that no longer fit into the model's context window.
+-- Messages created up to summarized_until are covered by the summary and are not sent to the model.
+
+ALTER TABLE public.conversations
+    ADD COLUMN IF NOT EXISTS summary text,
+    ADD COLUMN IF NOT EXISTS summarized_until timestamp with time zone;
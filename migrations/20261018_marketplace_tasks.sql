@@ -0,0 +1,34 @@
+-- Asynchronous marketplace uploads (Wildberries cards and price tasks) started from a conversation.
+-- The background poller checks pending tasks and posts the outcome into the conversation.
+
+CREATE TABLE IF NOT EXISTS public.marketplace_tasks (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    conversation_id uuid NOT NULL,
+    service text NOT NULL,
+    task_type text NOT NULL,
+    reference jsonb NOT NULL, -- vendorCodes of the cards or uploadID of the price task
+    status text DEFAULT 'pending'::text NOT NULL,
+    result jsonb,
+    attempts integer DEFAULT 0 NOT NULL,
+    next_check_at timestamp with time zone DEFAULT now() NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT marketplace_tasks_pkey PRIMARY KEY (id),
+    CONSTRAINT marketplace_tasks_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+    CONSTRAINT marketplace_tasks_conversation_id_fkey FOREIGN KEY (conversation_id) REFERENCES public.conversations(id) ON DELETE CASCADE,
+    CONSTRAINT marketplace_tasks_task_type_check CHECK ((task_type = ANY (ARRAY['card_upload'::text, 'price_upload'::text]))),
+    CONSTRAINT marketplace_tasks_status_check CHECK ((status = ANY (ARRAY['pending'::text, 'completed'::text, 'failed'::text, 'expired'::text])))
+);
+
+CREATE INDEX IF NOT EXISTS idx_marketplace_tasks_pending ON public.marketplace_tasks USING btree (next_check_at) WHERE (status = 'pending'::text);
+
+CREATE TRIGGER update_marketplace_tasks_updated_at BEFORE UPDATE ON public.marketplace_tasks FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.marketplace_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own marketplace tasks" ON public.marketplace_tasks FOR SELECT
+    USING ((( SELECT auth.uid() AS uid) = user_id));
+
+GRANT SELECT,INSERT,UPDATE ON TABLE public.marketplace_tasks TO authenticated;
+GRANT SELECT,INSERT,UPDATE ON TABLE public.marketplace_tasks TO service_role;
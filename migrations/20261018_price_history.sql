@@ -0,0 +1,30 @@
+-- Every price change submitted to a marketplace, with the operation that triggered it.
+
+CREATE TABLE IF NOT EXISTS public.price_history (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    service text NOT NULL,
+    nm_id bigint NOT NULL,
+    vendor_code text,
+    old_price integer NOT NULL,
+    new_price integer NOT NULL,
+    old_discount integer NOT NULL,
+    new_discount integer NOT NULL,
+    source text NOT NULL, -- agent: price tool approved in a conversation, import: uploaded price file
+    upload_id bigint, -- Wildberries price upload task
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT price_history_pkey PRIMARY KEY (id),
+    CONSTRAINT price_history_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+    CONSTRAINT price_history_source_check CHECK ((source = ANY (ARRAY['agent'::text, 'import'::text])))
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_history_user_id_created_at ON public.price_history USING btree (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_price_history_user_id_nm_id ON public.price_history USING btree (user_id, nm_id);
+
+ALTER TABLE public.price_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own price history" ON public.price_history FOR SELECT
+    USING ((( SELECT auth.uid() AS uid) = user_id));
+
+GRANT SELECT,INSERT ON TABLE public.price_history TO authenticated;
+GRANT SELECT,INSERT ON TABLE public.price_history TO service_role;
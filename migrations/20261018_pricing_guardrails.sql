@@ -0,0 +1,26 @@
+-- Per-user safety rules checked before any Wildberries price change is submitted.
+-- Prices are compared with discount applied; empty columns mean no limit.
+
+CREATE TABLE IF NOT EXISTS public.pricing_guardrails (
+    user_id uuid NOT NULL,
+    min_price integer,
+    max_price integer,
+    max_change_percent numeric(5,2), -- Largest change of the price with discount in one operation
+    forbidden_nm_ids bigint[] DEFAULT '{}'::bigint[] NOT NULL, -- Goods whose price can't be changed
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT pricing_guardrails_pkey PRIMARY KEY (user_id),
+    CONSTRAINT pricing_guardrails_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+    CONSTRAINT pricing_guardrails_price_range_check CHECK (((min_price IS NULL) OR (max_price IS NULL) OR (min_price <= max_price))),
+    CONSTRAINT pricing_guardrails_max_change_percent_check CHECK (((max_change_percent IS NULL) OR ((max_change_percent > (0)::numeric) AND (max_change_percent <= (100)::numeric))))
+);
+
+CREATE TRIGGER update_pricing_guardrails_updated_at BEFORE UPDATE ON public.pricing_guardrails FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.pricing_guardrails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own pricing guardrails" ON public.pricing_guardrails
+    USING ((( SELECT auth.uid() AS uid) = user_id));
+
+GRANT SELECT,INSERT,UPDATE ON TABLE public.pricing_guardrails TO authenticated;
+GRANT SELECT,INSERT,UPDATE ON TABLE public.pricing_guardrails TO service_role;
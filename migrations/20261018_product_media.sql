@@ -0,0 +1,34 @@
+-- Photos and videos uploaded by sellers for their product cards.
+-- Files are kept in the public product-media bucket under <user_id>/, so marketplaces can download them by URL.
+
+INSERT INTO storage.buckets (id, name, public)
+    VALUES ('product-media', 'product-media', true)
+    ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.product_media (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    file_name text NOT NULL,
+    content_type text NOT NULL,
+    media_type text NOT NULL,
+    size_bytes bigint NOT NULL,
+    storage_path text NOT NULL,
+    public_url text NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT product_media_pkey PRIMARY KEY (id),
+    CONSTRAINT product_media_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+    CONSTRAINT product_media_media_type_check CHECK ((media_type = ANY (ARRAY['photo'::text, 'video'::text])))
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_media_user_id ON public.product_media USING btree (user_id);
+
+ALTER TABLE public.product_media ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own product media" ON public.product_media
+    USING ((( SELECT auth.uid() AS uid) = user_id));
+
+GRANT SELECT,INSERT,DELETE ON TABLE public.product_media TO authenticated;
+GRANT SELECT,INSERT,DELETE ON TABLE public.product_media TO service_role;
+
+CREATE POLICY "Users can upload their own product media" ON storage.objects FOR INSERT TO authenticated
+    WITH CHECK ((bucket_id = 'product-media') AND ((storage.foldername(name))[1] = (( SELECT auth.uid() AS uid))::text));
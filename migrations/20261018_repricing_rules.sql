@@ -0,0 +1,66 @@
+-- Automated repricing: rules evaluated on a schedule against Wildberries stock and sales,
+-- and the audit log of their runs. Price changes made by rules are recorded in price_history too.
+
+CREATE TABLE IF NOT EXISTS public.repricing_rules (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    name text NOT NULL,
+    nm_ids bigint[] DEFAULT '{}'::bigint[] NOT NULL, -- Goods the rule applies to, empty means all goods
+    condition jsonb NOT NULL, -- { type: always | stock_above | stock_below | sells_out_within, quantity?, days? }
+    action jsonb NOT NULL, -- { type: set_discount | change_price | set_price, discount?, percent?, price? }
+    dry_run boolean DEFAULT true NOT NULL, -- Only record what would change
+    is_active boolean DEFAULT true NOT NULL,
+    interval_hours integer DEFAULT 24 NOT NULL,
+    last_run_at timestamp with time zone,
+    next_run_at timestamp with time zone DEFAULT now() NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT repricing_rules_pkey PRIMARY KEY (id),
+    CONSTRAINT repricing_rules_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+    CONSTRAINT repricing_rules_interval_hours_check CHECK (((interval_hours >= 1) AND (interval_hours <= 168)))
+);
+
+CREATE INDEX IF NOT EXISTS idx_repricing_rules_user_id ON public.repricing_rules USING btree (user_id);
+CREATE INDEX IF NOT EXISTS idx_repricing_rules_due ON public.repricing_rules USING btree (next_run_at) WHERE is_active;
+
+CREATE TRIGGER update_repricing_rules_updated_at BEFORE UPDATE ON public.repricing_rules FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.repricing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own repricing rules" ON public.repricing_rules
+    USING ((( SELECT auth.uid() AS uid) = user_id));
+
+GRANT SELECT,INSERT,UPDATE,DELETE ON TABLE public.repricing_rules TO authenticated;
+GRANT SELECT,INSERT,UPDATE,DELETE ON TABLE public.repricing_rules TO service_role;
+
+CREATE TABLE IF NOT EXISTS public.repricing_runs (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    rule_id uuid NOT NULL,
+    user_id uuid NOT NULL,
+    trigger text NOT NULL,
+    dry_run boolean NOT NULL,
+    status text NOT NULL,
+    changes jsonb DEFAULT '[]'::jsonb NOT NULL, -- Old and new prices of the matched goods
+    errors jsonb DEFAULT '[]'::jsonb NOT NULL,
+    upload_ids bigint[] DEFAULT '{}'::bigint[] NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT repricing_runs_pkey PRIMARY KEY (id),
+    CONSTRAINT repricing_runs_rule_id_fkey FOREIGN KEY (rule_id) REFERENCES public.repricing_rules(id) ON DELETE CASCADE,
+    CONSTRAINT repricing_runs_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+    CONSTRAINT repricing_runs_trigger_check CHECK ((trigger = ANY (ARRAY['schedule'::text, 'manual'::text]))),
+    CONSTRAINT repricing_runs_status_check CHECK ((status = ANY (ARRAY['applied'::text, 'dry_run'::text, 'no_changes'::text, 'blocked'::text, 'failed'::text])))
+);
+
+CREATE INDEX IF NOT EXISTS idx_repricing_runs_rule_id_created_at ON public.repricing_runs USING btree (rule_id, created_at DESC);
+
+ALTER TABLE public.repricing_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own repricing runs" ON public.repricing_runs FOR SELECT
+    USING ((( SELECT auth.uid() AS uid) = user_id));
+
+GRANT SELECT,INSERT ON TABLE public.repricing_runs TO authenticated;
+GRANT SELECT,INSERT ON TABLE public.repricing_runs TO service_role;
+
+ALTER TABLE public.price_history DROP CONSTRAINT IF EXISTS price_history_source_check;
+ALTER TABLE public.price_history ADD CONSTRAINT price_history_source_check
+    CHECK ((source = ANY (ARRAY['agent'::text, 'import'::text, 'repricing'::text])));
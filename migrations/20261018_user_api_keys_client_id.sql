@@ -0,0 +1,9 @@
+-- Ozon Seller API authenticates with a Client-Id header in addition to the Api-Key.
+-- Client-Id is not a secret, so it is stored as plain text next to the encrypted key.
+
+ALTER TABLE public.user_api_keys
+    ADD COLUMN IF NOT EXISTS client_id text;
+
+ALTER TABLE public.user_api_keys
+    ADD CONSTRAINT user_api_keys_ozon_client_id_check
+    CHECK ((service <> 'ozon'::text) OR (client_id IS NOT NULL)) NOT VALID;
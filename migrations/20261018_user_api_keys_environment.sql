@@ -0,0 +1,18 @@
+-- Marketplace API environment of the key. Wildberries has separate sandbox hosts,
+-- the other marketplaces only have production.
+-- Existing Wildberries keys were used against the sandbox, so they keep it; new keys default to production.
+
+ALTER TABLE public.user_api_keys
+    ADD COLUMN IF NOT EXISTS environment text NOT NULL DEFAULT 'production';
+
+UPDATE public.user_api_keys
+    SET environment = 'sandbox'
+    WHERE service = 'wildberries';
+
+ALTER TABLE public.user_api_keys
+    ADD CONSTRAINT user_api_keys_environment_check
+    CHECK (environment IN ('sandbox', 'production'));
+
+ALTER TABLE public.user_api_keys
+    ADD CONSTRAINT user_api_keys_sandbox_service_check
+    CHECK ((environment <> 'sandbox') OR (service = 'wildberries'));
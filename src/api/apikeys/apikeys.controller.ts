@@ -19,17 +19,27 @@ export const apiKeysController = {
         throw new UnauthorizedError('User not authenticated');
       }
       
-      const { service, api_key } = req.body;
+      const { service, api_key, client_id, environment } = req.body;
       
       // Basic validation
       if (!service || !api_key) {
         throw new BadRequestError('Service and API key are required');
       }
+
+      if (service.trim().toLowerCase() === 'ozon' && !client_id) {
+        throw new BadRequestError('Client ID is required for Ozon');
+      }
+
+      if (environment !== undefined && environment !== 'sandbox' && environment !== 'production') {
+        throw new BadRequestError('Environment must be either sandbox or production');
+      }
       
       // Create the API key data object
       const apiKeyData: CreateApiKeyData = {
         service: service.trim(),
-        api_key: api_key.trim()
+        api_key: api_key.trim(),
+        ...(client_id !== undefined && { client_id: String(client_id).trim() }),
+        ...(environment !== undefined && { environment })
       };
       
       // Upsert the API key
@@ -1,5 +1,5 @@
 import express, { Request, Response } from 'express';
-import { asyncHandler, authenticate } from '../../shared/middleware';
+import { asyncHandler, authenticate, loadConversation } from '../../shared/middleware';
 import * as databaseService from '../../infrastructure/database/database.service';
 import * as conversationService from '../../core/conversations/conversations.service';
 import { getLangChainService } from '../../core/ai/langchain.service';
@@ -7,19 +7,11 @@ import { Conversation } from '../../infrastructure/database/supabase.client';
 import { convertConversationToUi, convertMessageToUi } from '../../shared/utils/ui-converters';
 import { handleErrorResponse, validateRequiredFields } from '../../shared/utils/response-handlers';
 import { handleStreamingResponse } from '../../core/conversations/streaming.utils';
-import { BadRequestError, NotFoundError } from '../../shared/utils/errors';
+import { getConversationSettings, SETTINGS_FIELDS } from '../../core/conversations/conversation-settings.utils';
+import { BadRequestError } from '../../shared/utils/errors';
 import { WILDBERRIES_SYSTEM_PROMPT } from '../../core/ai/prompts';
 import logger from '../../shared/utils/logger';
 
-// Extend the Express Request type to include the conversation property
-declare global {
-  namespace Express {
-    interface Request {
-      conversation?: Conversation;
-    }
-  }
-}
-
 const router = express.Router();
 
 // Apply authentication to all routes
@@ -46,16 +38,14 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // Get a specific conversation with its messages
-router.get('/:conversationId', asyncHandler(async (req: Request, res: Response) => {
+router.get('/:conversationId', loadConversation, asyncHandler(async (req: Request, res: Response) => {
   try {
-    const { conversationId } = req.params;
-    const [messages, conversation] = await Promise.all([
-      databaseService.getMessagesByConversationId(conversationId),
-      databaseService.getConversationById(conversationId)
-    ]);
+    const conversation = req.conversation!;
+    const messages = await databaseService.getMessagesByConversationId(conversation.id);
     
     res.json({ 
-      conversation: conversation ? convertConversationToUi(conversation) : null,
+      conversation: convertConversationToUi(conversation),
+      settings: getConversationSettings(conversation),
       messages: messages.map(convertMessageToUi)
     });
   } catch (error) {
@@ -73,7 +63,7 @@ router.get('/:conversationId', asyncHandler(async (req: Request, res: Response)
  * 
  * Supports both POST /conversation and POST /conversation/:conversationId
  */
-router.post(['/', '/:conversationId'], asyncHandler(async (req: Request, res: Response) => {
+router.post(['/', '/:conversationId'], loadConversation, asyncHandler(async (req: Request, res: Response) => {
   try {
     const userId = req.user.id;
     const conversationIdFromParams = req.params.conversationId;
@@ -112,14 +102,8 @@ router.post(['/', '/:conversationId'], asyncHandler(async (req: Request, res: Re
     let finalSystemPrompt: string;
     
     if (targetConversationId) {
-      // Try to get existing conversation
-      const existingConversation = await databaseService.getConversationById(targetConversationId);
-      
-      if (!existingConversation) {
-        throw new NotFoundError('Conversation not found');
-      }
-      
-      conversation = existingConversation;
+      // Existing conversation was loaded and checked for ownership by loadConversation
+      conversation = req.conversation!;
       // Use existing conversation's system prompt, or provided one as fallback
       finalSystemPrompt = conversation.system_prompt || systemPrompt;
     } else {
@@ -182,29 +166,93 @@ router.post(['/', '/:conversationId'], asyncHandler(async (req: Request, res: Re
   }
 }));
 
-// Update a conversation's title
-router.patch('/:conversationId', asyncHandler(async (req: Request, res: Response) => {
+/**
+ * Approve or reject a mutating tool call that waits for the user's approval
+ * Body: { toolCallId: string, approved: boolean, stream?: boolean }
+ * The agent continues without a new user message once no tool calls are pending
+ */
+router.post('/:conversationId/tool-approval', loadConversation, asyncHandler(async (req: Request, res: Response) => {
   try {
-    const { conversationId } = req.params;
-    const { title } = req.body;
-    
-    const validationError = validateRequiredFields(req.body, ['title']);
+    const userId = req.user.id;
+    const conversation = req.conversation!;
+    const { toolCallId, approved, stream = false } = req.body;
+
+    const validationError = validateRequiredFields(req.body, ['toolCallId']);
     if (validationError) {
       throw new BadRequestError(validationError);
     }
-    
-    await databaseService.updateConversationTitle(conversationId, title);
-    res.json({ success: true });
+    if (typeof approved !== 'boolean') {
+      throw new BadRequestError('approved must be a boolean');
+    }
+
+    const abortController = new AbortController();
+    req.on('close', () => {
+      abortController.abort();
+    });
+
+    const result = await conversationService.resolveToolApproval(
+      userId,
+      conversation.id,
+      toolCallId,
+      approved,
+      conversation.system_prompt || WILDBERRIES_SYSTEM_PROMPT,
+      stream,
+      abortController.signal
+    );
+
+    // Handle streaming response when the agent was resumed
+    if (stream && result.response) {
+      await handleStreamingResponse(res, result, convertConversationToUi(conversation));
+      return;
+    }
+
+    const history = await conversationService.getConversationHistory(conversation.id);
+    res.json({
+      messages: history.map(convertMessageToUi)
+    });
+  } catch (error) {
+    handleErrorResponse(error, res, 'resolve tool approval');
+  }
+}));
+
+/**
+ * Update a conversation's title and/or its model and generation settings
+ * Body: { title?: string, modelName?: string, temperature?: number, maxTokens?: number, contextLength?: number }
+ */
+router.patch('/:conversationId', loadConversation, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { title } = req.body;
+    const settingsUpdate = Object.fromEntries(
+      SETTINGS_FIELDS.filter(field => req.body[field] !== undefined).map(field => [field, req.body[field]])
+    );
+    const hasSettings = Object.keys(settingsUpdate).length > 0;
+
+    if (title === undefined && !hasSettings) {
+      throw new BadRequestError(`At least one of title, ${SETTINGS_FIELDS.join(', ')} is required`);
+    }
+    if (title !== undefined && (typeof title !== 'string' || title.trim() === '')) {
+      throw new BadRequestError('title must be a non-empty string');
+    }
+
+    // Validate the settings before changing anything
+    const settings = hasSettings
+      ? await conversationService.updateConversationSettings(req.user.id, req.conversation!, settingsUpdate)
+      : undefined;
+
+    if (title !== undefined) {
+      await databaseService.updateConversationTitle(req.conversation!.id, req.user.id, title);
+    }
+
+    res.json({ success: true, ...(settings && { settings }) });
   } catch (error) {
     handleErrorResponse(error, res, 'update conversation');
   }
 }));
 
 // Archive a conversation
-router.post('/:conversationId/archive', asyncHandler(async (req: Request, res: Response) => {
+router.post('/:conversationId/archive', loadConversation, asyncHandler(async (req: Request, res: Response) => {
   try {
-    const { conversationId } = req.params;
-    await databaseService.archiveConversation(conversationId);
+    await databaseService.archiveConversation(req.conversation!.id, req.user.id);
     res.json({ success: true });
   } catch (error) {
     handleErrorResponse(error, res, 'archive conversation');
@@ -212,10 +260,9 @@ router.post('/:conversationId/archive', asyncHandler(async (req: Request, res: R
 }));
 
 // Unarchive a conversation
-router.post('/:conversationId/unarchive', asyncHandler(async (req: Request, res: Response) => {
+router.post('/:conversationId/unarchive', loadConversation, asyncHandler(async (req: Request, res: Response) => {
   try {
-    const { conversationId } = req.params;
-    await databaseService.unarchiveConversation(conversationId);
+    await databaseService.unarchiveConversation(req.conversation!.id, req.user.id);
     res.json({ success: true });
   } catch (error) {
     handleErrorResponse(error, res, 'unarchive conversation');
@@ -223,10 +270,9 @@ router.post('/:conversationId/unarchive', asyncHandler(async (req: Request, res:
 }));
 
 // Delete a conversation
-router.delete('/:conversationId', asyncHandler(async (req: Request, res: Response) => {
+router.delete('/:conversationId', loadConversation, asyncHandler(async (req: Request, res: Response) => {
   try {
-    const { conversationId } = req.params;
-    await databaseService.deleteConversation(conversationId);
+    await databaseService.deleteConversation(req.conversation!.id, req.user.id);
     res.json({ success: true });
   } catch (error) {
     handleErrorResponse(error, res, 'delete conversation');
@@ -6,6 +6,9 @@ import metricsRoutes from './metrics/metrics.routes';
 import conversationsRoutes from './conversations/conversations.routes';
 import plansRoutes from './plans/plans.routes';
 import apiKeysRoutes from './apikeys/apikeys.routes';
+import mediaRoutes from './media/media.routes';
+import pricesRoutes from './prices/prices.routes';
+import repricingRoutes from './repricing/repricing.routes';
 
 const router = Router();
 
@@ -19,5 +22,8 @@ router.use('/metrics', metricsRoutes);
 router.use('/conversation', conversationsRoutes);
 router.use('/plans', plansRoutes);
 router.use('/api-keys', apiKeysRoutes);
+router.use('/media', mediaRoutes);
+router.use('/prices', pricesRoutes);
+router.use('/repricing', repricingRoutes);
 
 export default router; 
\ No newline at end of file
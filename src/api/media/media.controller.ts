@@ -0,0 +1,93 @@
+import { Request, Response, NextFunction } from 'express';
+import { mediaService } from '../../core/media/media.service';
+import { matchesMediaSignature, validateMediaFile } from '../../core/media/media.utils';
+import { BadRequestError, UnauthorizedError } from '../../shared/utils/errors';
+import logger from '../../shared/utils/logger';
+
+/**
+ * Media controller for product photos and videos
+ */
+export const mediaController = {
+  /**
+   * Upload a photo or video. The file is the raw request body, its name is sent in the X-File-Name header.
+   * POST /api/media
+   */
+  uploadMedia: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = req.user;
+
+      if (!user) {
+        throw new UnauthorizedError('User not authenticated');
+      }
+
+      const contentType = req.headers['content-type'] || '';
+      const data: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+      // Validate locally before anything is stored
+      const validationError = validateMediaFile(contentType, data.length);
+      if (validationError) {
+        throw new BadRequestError(validationError);
+      }
+      if (!matchesMediaSignature(contentType, data)) {
+        throw new BadRequestError(`The file content doesn't match its format ${contentType}`);
+      }
+
+      const fileNameHeader = req.headers['x-file-name'];
+      let fileName = 'upload';
+      if (typeof fileNameHeader === 'string' && fileNameHeader.trim()) {
+        try {
+          fileName = decodeURIComponent(fileNameHeader.trim());
+        } catch {
+          throw new BadRequestError('X-File-Name must be a URL-encoded file name');
+        }
+      }
+
+      const media = await mediaService.uploadMedia(user.id, { fileName, contentType, data });
+
+      logger.info('Media uploaded via controller', {
+        userId: user.id,
+        mediaId: media.id,
+        ip: req.ip
+      });
+
+      return res.status(201).json({
+        message: 'Media uploaded successfully',
+        data: media
+      });
+    } catch (error) {
+      logger.error('Error in uploadMedia controller', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.id,
+        ip: req.ip
+      });
+      next(error);
+    }
+  },
+
+  /**
+   * Get the uploaded media of the user
+   * GET /api/media
+   */
+  getUserMedia: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = req.user;
+
+      if (!user) {
+        throw new UnauthorizedError('User not authenticated');
+      }
+
+      const media = await mediaService.getUserMedia(user.id);
+
+      return res.status(200).json({
+        data: media
+      });
+    } catch (error) {
+      logger.error('Error in getUserMedia controller', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.id,
+        ip: req.ip
+      });
+      next(error);
+    }
+  }
+};
@@ -0,0 +1,46 @@
+import express, { Router } from 'express';
+import { mediaController } from './media.controller';
+import {
+  asyncHandler,
+  authenticate,
+  csrfProtection,
+  globalRateLimiter,
+  mediaUploadRateLimiter
+} from '../../shared/middleware';
+import { MEDIA_CONTENT_TYPES, MEDIA_FORMATS } from '../../core/media/media.utils';
+
+const router = Router();
+
+// Files are sent as the raw request body, the largest allowed file is a video
+const rawMediaBody = express.raw({
+  type: MEDIA_CONTENT_TYPES,
+  limit: MEDIA_FORMATS.video.maxBytes
+});
+
+/**
+ * @route POST /api/media
+ * @desc Upload a product photo or video
+ * @access Private
+ */
+router.post(
+  '/',
+  authenticate,
+  mediaUploadRateLimiter,
+  csrfProtection,
+  rawMediaBody,
+  asyncHandler(mediaController.uploadMedia)
+);
+
+/**
+ * @route GET /api/media
+ * @desc Get the product media uploaded by the user
+ * @access Private
+ */
+router.get(
+  '/',
+  authenticate,
+  globalRateLimiter,
+  asyncHandler(mediaController.getUserMedia)
+);
+
+export default router;
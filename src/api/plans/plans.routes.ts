@@ -1,30 +1,12 @@
 import express, { Request, Response } from 'express';
 import { asyncHandler, authenticate, requireAdmin, verifyPaymentSignature } from '../../shared/middleware';
 import * as userPlansService from '../../core/plans/user-plans.service';
+import { getPlanPermittedModels } from '../../core/plans/validation.utils';
+import { getReservedCredits } from '../../core/plans/credit-reservation.service';
+import { planDetailsMap } from '../../config/plans.config';
 
 const router = express.Router();
 
-/**
- * Plan details lookup by plan ID
- */
-export const planDetailsMap: Record<string, { name: string; creditsPerDay: number; creditsPerMonth: number }> = {
-  free: {
-    name: "Free",
-    creditsPerDay: 0.50,
-    creditsPerMonth: 5.00
-  },
-  standard: {
-    name: "Standard",
-    creditsPerDay: 2.00,
-    creditsPerMonth: 20.00
-  },
-  premium: {
-    name: "Premium",
-    creditsPerDay: 10.00,
-    creditsPerMonth: 100.00
-  }
-};
-
 // Apply authentication to all plan routes
 router.use(authenticate);
 
@@ -46,11 +28,12 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
     
     return res.json({
       plan: defaultPlan,
+      models: getPlanPermittedModels(defaultPlan.plan_name),
       message: 'Default plan created'
     });
   }
   
-  res.json({ plan: userPlan });
+  res.json({ plan: userPlan, models: getPlanPermittedModels(userPlan.plan_name) });
 }));
 
 // Check the current user's usage against limits
@@ -60,7 +43,8 @@ router.get('/usage', asyncHandler(async (req: Request, res: Response) => {
   // Check usage
   const usageInfo = await userPlansService.checkUserDailyUsage(userId);
   
-  res.json(usageInfo);
+  // Credits held by responses being generated right now
+  res.json({ ...usageInfo, reservedCredits: getReservedCredits(userId) });
 }));
 
 // Update a user's plan (admin only)
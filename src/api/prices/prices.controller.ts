@@ -0,0 +1,194 @@
+import { Request, Response, NextFunction } from 'express';
+import { submitPriceChanges } from '../../core/prices/prices.service';
+import { parsePriceRows, readPriceFileRows } from '../../core/prices/prices.utils';
+import { getWildberriesClient } from '../../core/tools/wildberries.service';
+import * as databaseService from '../../infrastructure/database/database.service';
+import { BadRequestError, UnauthorizedError } from '../../shared/utils/errors';
+import logger from '../../shared/utils/logger';
+
+/**
+ * Prices controller for bulk price and discount changes
+ */
+export const pricesController = {
+  /**
+   * Import price and discount changes from a CSV or XLSX file sent as the raw request body.
+   * Returns the diff against the current prices, the changes are only submitted with ?dryRun=false.
+   * POST /api/prices/import
+   */
+  importPrices: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = req.user;
+
+      if (!user) {
+        throw new UnauthorizedError('User not authenticated');
+      }
+
+      const data: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      if (data.length === 0) {
+        throw new BadRequestError('Upload a CSV or XLSX file with nmID, price and discount columns');
+      }
+
+      let rows: string[][];
+      try {
+        rows = readPriceFileRows(req.headers['content-type'] || '', data);
+      } catch (error) {
+        throw new BadRequestError(error instanceof Error ? error.message : 'The file could not be read');
+      }
+
+      const parsed = parsePriceRows(rows);
+      if (parsed.errors.length > 0) {
+        return res.status(400).json({
+          message: 'The file has invalid rows, nothing was submitted',
+          errors: parsed.errors
+        });
+      }
+
+      const client = await getWildberriesClient(user.id);
+      if (!client) {
+        throw new BadRequestError('Add your Wildberries API key first');
+      }
+
+      const dryRun = req.query.dryRun !== 'false';
+      const result = await submitPriceChanges(user.id, client, parsed.changes, { dryRun, source: 'import' });
+
+      if (result.errors.length > 0) {
+        return res.status(400).json({
+          message: 'Some price changes are invalid, nothing was submitted',
+          errors: result.errors,
+          diff: result.diff
+        });
+      }
+
+      logger.info('Price changes imported via controller', {
+        userId: user.id,
+        dryRun,
+        changesCount: result.diff.length,
+        uploadsCount: result.uploads.length,
+        ip: req.ip
+      });
+
+      const failedUploads = result.uploads.filter(upload => upload.error).length;
+      return res.status(200).json({
+        message: dryRun
+          ? 'Price changes are valid, nothing was submitted'
+          : failedUploads > 0
+            ? `${result.uploads.length - failedUploads} of ${result.uploads.length} price uploads submitted, see the errors of the failed ones`
+            : 'Price changes submitted',
+        data: result
+      });
+    } catch (error) {
+      logger.error('Error in importPrices controller', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.id,
+        ip: req.ip
+      });
+      next(error);
+    }
+  },
+
+  /**
+   * Get the pricing guardrails of the user, empty rules if none are set
+   * GET /api/prices/guardrails
+   */
+  getGuardrails: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = req.user;
+
+      if (!user) {
+        throw new UnauthorizedError('User not authenticated');
+      }
+
+      const guardrails = await databaseService.getPricingGuardrails(user.id);
+
+      return res.status(200).json({
+        data: guardrails || {
+          min_price: null,
+          max_price: null,
+          max_change_percent: null,
+          forbidden_nm_ids: []
+        }
+      });
+    } catch (error) {
+      logger.error('Error in getGuardrails controller', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.id,
+        ip: req.ip
+      });
+      next(error);
+    }
+  },
+
+  /**
+   * Replace the pricing guardrails of the user, omitted rules are removed
+   * PUT /api/prices/guardrails
+   */
+  updateGuardrails: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = req.user;
+
+      if (!user) {
+        throw new UnauthorizedError('User not authenticated');
+      }
+
+      const { min_price, max_price, max_change_percent, forbidden_nm_ids } = req.body;
+      if (min_price != null && max_price != null && min_price > max_price) {
+        throw new BadRequestError('min_price must not be greater than max_price');
+      }
+
+      const guardrails = await databaseService.upsertPricingGuardrails(user.id, {
+        min_price: min_price ?? null,
+        max_price: max_price ?? null,
+        max_change_percent: max_change_percent ?? null,
+        forbidden_nm_ids: Array.from(new Set<number>(forbidden_nm_ids || []))
+      });
+
+      logger.info('Pricing guardrails updated via controller', {
+        userId: user.id,
+        ip: req.ip
+      });
+
+      return res.status(200).json({
+        message: 'Pricing guardrails updated successfully',
+        data: guardrails
+      });
+    } catch (error) {
+      logger.error('Error in updateGuardrails controller', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.id,
+        ip: req.ip
+      });
+      next(error);
+    }
+  },
+
+  /**
+   * Get the price changes submitted for the user, newest first
+   * GET /api/prices/history
+   */
+  getPriceHistory: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = req.user;
+
+      if (!user) {
+        throw new UnauthorizedError('User not authenticated');
+      }
+
+      const history = await databaseService.getPriceHistory(user.id, {
+        ...(req.query.nmID !== undefined && { nmID: Number(req.query.nmID) }),
+        ...(req.query.limit !== undefined && { limit: Number(req.query.limit) }),
+        ...(req.query.offset !== undefined && { offset: Number(req.query.offset) })
+      });
+
+      return res.status(200).json({
+        data: history
+      });
+    } catch (error) {
+      logger.error('Error in getPriceHistory controller', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.id,
+        ip: req.ip
+      });
+      next(error);
+    }
+  }
+};
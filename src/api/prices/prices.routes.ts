@@ -0,0 +1,74 @@
+import express, { Router } from 'express';
+import { pricesController } from './prices.controller';
+import {
+  asyncHandler,
+  authenticate,
+  csrfProtection,
+  globalRateLimiter
+} from '../../shared/middleware';
+import { validate } from '../../shared/middleware/validator.middleware';
+import { priceHistoryQueryValidation, pricingGuardrailsValidation } from '../../shared/utils/validation.utils';
+import { MAX_PRICE_FILE_BYTES, PRICE_FILE_CONTENT_TYPES } from '../../core/prices/prices.utils';
+
+const router = Router();
+
+// Price files are sent as the raw request body
+const rawPriceFileBody = express.raw({
+  type: PRICE_FILE_CONTENT_TYPES,
+  limit: MAX_PRICE_FILE_BYTES
+});
+
+/**
+ * @route POST /api/prices/import
+ * @desc Validate price and discount changes from a CSV or XLSX file and submit them unless dryRun
+ * @access Private
+ */
+router.post(
+  '/import',
+  authenticate,
+  globalRateLimiter,
+  csrfProtection,
+  rawPriceFileBody,
+  asyncHandler(pricesController.importPrices)
+);
+
+/**
+ * @route GET /api/prices/guardrails
+ * @desc Get the pricing guardrails checked before price changes
+ * @access Private
+ */
+router.get(
+  '/guardrails',
+  authenticate,
+  globalRateLimiter,
+  asyncHandler(pricesController.getGuardrails)
+);
+
+/**
+ * @route PUT /api/prices/guardrails
+ * @desc Set the minimum and maximum price, the largest change in percent and the goods whose price can't be changed
+ * @access Private
+ */
+router.put(
+  '/guardrails',
+  authenticate,
+  globalRateLimiter,
+  csrfProtection,
+  validate(pricingGuardrailsValidation),
+  asyncHandler(pricesController.updateGuardrails)
+);
+
+/**
+ * @route GET /api/prices/history
+ * @desc Get the submitted price changes, optionally of one product
+ * @access Private
+ */
+router.get(
+  '/history',
+  authenticate,
+  globalRateLimiter,
+  validate(priceHistoryQueryValidation),
+  asyncHandler(pricesController.getPriceHistory)
+);
+
+export default router;
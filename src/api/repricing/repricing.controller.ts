@@ -0,0 +1,217 @@
+import { Request, Response, NextFunction } from 'express';
+import { runRepricingRule } from '../../core/repricing/repricing.service';
+import { normalizeRepricingAction, normalizeRepricingCondition } from '../../core/repricing/repricing.utils';
+import * as databaseService from '../../infrastructure/database/database.service';
+import { NotFoundError, UnauthorizedError } from '../../shared/utils/errors';
+import logger from '../../shared/utils/logger';
+
+// Rule fields from a validated request body
+function buildRuleFields(body: Record<string, any>): databaseService.RepricingRuleFields {
+  return {
+    name: String(body.name).trim(),
+    nm_ids: Array.from(new Set<number>(body.nm_ids || [])),
+    condition: normalizeRepricingCondition(body.condition),
+    action: normalizeRepricingAction(body.action),
+    dry_run: body.dry_run ?? true,
+    is_active: body.is_active ?? true,
+    interval_hours: body.interval_hours ?? 24
+  };
+}
+
+/**
+ * Repricing controller for automated pricing rules
+ */
+export const repricingController = {
+  /**
+   * Get the repricing rules of the user
+   * GET /api/repricing/rules
+   */
+  getRules: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = req.user;
+
+      if (!user) {
+        throw new UnauthorizedError('User not authenticated');
+      }
+
+      const rules = await databaseService.getRepricingRules(user.id);
+
+      return res.status(200).json({
+        data: rules
+      });
+    } catch (error) {
+      logger.error('Error in getRules controller', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.id,
+        ip: req.ip
+      });
+      next(error);
+    }
+  },
+  /**
+   * Create a repricing rule. New rules only record what they would change until dry_run is turned off.
+   * POST /api/repricing/rules
+   */
+  createRule: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = req.user;
+
+      if (!user) {
+        throw new UnauthorizedError('User not authenticated');
+      }
+
+      const rule = await databaseService.createRepricingRule(user.id, buildRuleFields(req.body));
+
+      logger.info('Repricing rule created via controller', {
+        userId: user.id,
+        ruleId: rule.id,
+        dryRun: rule.dry_run,
+        ip: req.ip
+      });
+
+      return res.status(201).json({
+        message: 'Repricing rule created successfully',
+        data: rule
+      });
+    } catch (error) {
+      logger.error('Error in createRule controller', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.id,
+        ip: req.ip
+      });
+      next(error);
+    }
+  },
+  /**
+   * Replace the definition of a repricing rule
+   * PUT /api/repricing/rules/:ruleId
+   */
+  updateRule: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = req.user;
+
+      if (!user) {
+        throw new UnauthorizedError('User not authenticated');
+      }
+
+      const rule = await databaseService.updateRepricingRule(user.id, req.params.ruleId, buildRuleFields(req.body));
+      if (!rule) {
+        throw new NotFoundError('Repricing rule not found');
+      }
+
+      logger.info('Repricing rule updated via controller', {
+        userId: user.id,
+        ruleId: rule.id,
+        dryRun: rule.dry_run,
+        ip: req.ip
+      });
+
+      return res.status(200).json({
+        message: 'Repricing rule updated successfully',
+        data: rule
+      });
+    } catch (error) {
+      logger.error('Error in updateRule controller', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.id,
+        ip: req.ip
+      });
+      next(error);
+    }
+  },
+  /**
+   * Delete a repricing rule together with its audit log
+   * DELETE /api/repricing/rules/:ruleId
+   */
+  deleteRule: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = req.user;
+
+      if (!user) {
+        throw new UnauthorizedError('User not authenticated');
+      }
+
+      const deleted = await databaseService.deleteRepricingRule(user.id, req.params.ruleId);
+      if (!deleted) {
+        throw new NotFoundError('Repricing rule not found');
+      }
+
+      return res.status(200).json({
+        message: 'Repricing rule deleted successfully'
+      });
+    } catch (error) {
+      logger.error('Error in deleteRule controller', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.id,
+        ip: req.ip
+      });
+      next(error);
+    }
+  },
+  /**
+   * Run a repricing rule now. ?dryRun=true or false overrides the mode of the rule.
+   * POST /api/repricing/rules/:ruleId/run
+   */
+  runRule: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = req.user;
+
+      if (!user) {
+        throw new UnauthorizedError('User not authenticated');
+      }
+
+      const rule = await databaseService.getRepricingRule(user.id, req.params.ruleId);
+      if (!rule) {
+        throw new NotFoundError('Repricing rule not found');
+      }
+
+      const run = await runRepricingRule(rule, {
+        trigger: 'manual',
+        ...(req.query.dryRun !== undefined && { dryRun: req.query.dryRun === 'true' })
+      });
+
+      return res.status(200).json({
+        data: run
+      });
+    } catch (error) {
+      logger.error('Error in runRule controller', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.id,
+        ip: req.ip
+      });
+      next(error);
+    }
+  },
+  /**
+   * Get the audit log of a repricing rule, newest runs first
+   * GET /api/repricing/rules/:ruleId/runs
+   */
+  getRuleRuns: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = req.user;
+
+      if (!user) {
+        throw new UnauthorizedError('User not authenticated');
+      }
+
+      const rule = await databaseService.getRepricingRule(user.id, req.params.ruleId);
+      if (!rule) {
+        throw new NotFoundError('Repricing rule not found');
+      }
+
+      const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+      const runs = await databaseService.getRepricingRuns(user.id, rule.id, limit);
+
+      return res.status(200).json({
+        data: runs
+      });
+    } catch (error) {
+      logger.error('Error in getRuleRuns controller', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.id,
+        ip: req.ip
+      });
+      next(error);
+    }
+  }
+};
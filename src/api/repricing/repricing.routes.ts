@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import { repricingController } from './repricing.controller';
+import {
+  asyncHandler,
+  authenticate,
+  csrfProtection,
+  globalRateLimiter
+} from '../../shared/middleware';
+import { validate } from '../../shared/middleware/validator.middleware';
+import {
+  repricingRuleIdValidation,
+  repricingRuleValidation,
+  repricingRunsQueryValidation
+} from '../../shared/utils/validation.utils';
+
+const router = Router();
+
+/**
+ * @route GET /api/repricing/rules
+ * @desc Get the repricing rules of the user
+ * @access Private
+ */
+router.get(
+  '/rules',
+  authenticate,
+  globalRateLimiter,
+  asyncHandler(repricingController.getRules)
+);
+
+/**
+ * @route POST /api/repricing/rules
+ * @desc Create a repricing rule
+ * @access Private
+ */
+router.post(
+  '/rules',
+  authenticate,
+  globalRateLimiter,
+  csrfProtection,
+  validate(repricingRuleValidation),
+  asyncHandler(repricingController.createRule)
+);
+
+/**
+ * @route PUT /api/repricing/rules/:ruleId
+ * @desc Replace the definition of a repricing rule
+ * @access Private
+ */
+router.put(
+  '/rules/:ruleId',
+  authenticate,
+  globalRateLimiter,
+  csrfProtection,
+  validate([...repricingRuleIdValidation, ...repricingRuleValidation]),
+  asyncHandler(repricingController.updateRule)
+);
+
+/**
+ * @route DELETE /api/repricing/rules/:ruleId
+ * @desc Delete a repricing rule
+ * @access Private
+ */
+router.delete(
+  '/rules/:ruleId',
+  authenticate,
+  globalRateLimiter,
+  csrfProtection,
+  validate(repricingRuleIdValidation),
+  asyncHandler(repricingController.deleteRule)
+);
+
+/**
+ * @route POST /api/repricing/rules/:ruleId/run
+ * @desc Run a repricing rule now, optionally overriding its dry run mode
+ * @access Private
+ */
+router.post(
+  '/rules/:ruleId/run',
+  authenticate,
+  globalRateLimiter,
+  csrfProtection,
+  validate(repricingRuleIdValidation),
+  asyncHandler(repricingController.runRule)
+);
+
+/**
+ * @route GET /api/repricing/rules/:ruleId/runs
+ * @desc Get the audit log of a repricing rule
+ * @access Private
+ */
+router.get(
+  '/rules/:ruleId/runs',
+  authenticate,
+  globalRateLimiter,
+  validate([...repricingRuleIdValidation, ...repricingRunsQueryValidation]),
+  asyncHandler(repricingController.getRuleRuns)
+);
+
+export default router;
@@ -1,7 +1,76 @@
+export type ModelProvider = 'openai' | 'anthropic' | 'local';
+
+// Models served by the local OpenAI-compatible endpoint (Ollama, vLLM), comma separated
+export const LOCAL_MODELS = (process.env.LOCAL_LLM_MODELS || '')
+  .split(',')
+  .map(model => model.trim())
+  .filter(model => model !== '');
+
 // Model configurations
 export const MODEL_CONFIGS = {
   GPT4_1: 'gpt-4.1',
   GPT4_1_MINI: 'gpt-4.1-mini',
   TEXT_EMBEDDING_3_SMALL: 'text-embedding-3-small',
-  GPT4O_MINI: 'gpt-4o-mini'
-};
\ No newline at end of file
+  GPT4O_MINI: 'gpt-4o-mini',
+  CLAUDE_SONNET_4: 'claude-sonnet-4-20250514',
+  CLAUDE_3_5_HAIKU: 'claude-3-5-haiku-20241022'
+};
+
+// Provider of every known model, local models are added from LOCAL_LLM_MODELS
+export const MODEL_PROVIDERS: Record<string, ModelProvider> = {
+  [MODEL_CONFIGS.GPT4_1]: 'openai',
+  [MODEL_CONFIGS.GPT4_1_MINI]: 'openai',
+  [MODEL_CONFIGS.TEXT_EMBEDDING_3_SMALL]: 'openai',
+  [MODEL_CONFIGS.GPT4O_MINI]: 'openai',
+  [MODEL_CONFIGS.CLAUDE_SONNET_4]: 'anthropic',
+  [MODEL_CONFIGS.CLAUDE_3_5_HAIKU]: 'anthropic',
+  ...Object.fromEntries(LOCAL_MODELS.map(model => [model, 'local' as const]))
+};
+
+// Models used when the request doesn't name one. Point them to local models to run without external providers.
+export const DEFAULT_MODELS = {
+  chat: process.env.DEFAULT_CHAT_MODEL || MODEL_CONFIGS.GPT4O_MINI,
+  title: process.env.TITLE_MODEL || process.env.DEFAULT_CHAT_MODEL || MODEL_CONFIGS.GPT4O_MINI,
+  summary: process.env.SUMMARY_MODEL || process.env.TITLE_MODEL || process.env.DEFAULT_CHAT_MODEL || MODEL_CONFIGS.GPT4O_MINI,
+  embedding: process.env.EMBEDDING_MODEL || MODEL_CONFIGS.TEXT_EMBEDDING_3_SMALL
+};
+
+// Generation settings of new conversations
+export const DEFAULT_GENERATION_SETTINGS = {
+  temperature: 0.7,
+  maxTokens: 2048
+};
+
+// Context window of the chat models in tokens
+export const MODEL_CONTEXT_LENGTHS: Record<string, number> = {
+  [MODEL_CONFIGS.GPT4_1]: 1_047_576,
+  [MODEL_CONFIGS.GPT4_1_MINI]: 1_047_576,
+  [MODEL_CONFIGS.GPT4O_MINI]: 128_000,
+  [MODEL_CONFIGS.CLAUDE_SONNET_4]: 200_000,
+  [MODEL_CONFIGS.CLAUDE_3_5_HAIKU]: 200_000
+};
+
+// Context window of local models, depends on how the endpoint serves them
+const LOCAL_CONTEXT_LENGTH = parseInt(process.env.LOCAL_LLM_CONTEXT_LENGTH || '8192', 10);
+
+/**
+ * Models usable for chat: every known model except embedding models
+ */
+export function getChatModels(): string[] {
+  return Object.keys(MODEL_PROVIDERS).filter(modelName => !/^text-embedding-/.test(modelName));
+}
+
+export function getModelContextLength(modelName: string): number {
+  if (MODEL_CONTEXT_LENGTHS[modelName]) return MODEL_CONTEXT_LENGTHS[modelName];
+  return MODEL_PROVIDERS[modelName] === 'local' ? LOCAL_CONTEXT_LENGTH : 128_000;
+}
+
+/**
+ * Provider of a model, models missing from MODEL_PROVIDERS are recognized by their name
+ */
+export function getModelProvider(modelName: string): ModelProvider | null {
+  if (MODEL_PROVIDERS[modelName]) return MODEL_PROVIDERS[modelName];
+  if (/^claude-/.test(modelName)) return 'anthropic';
+  if (/^(gpt-|o\d|text-embedding-)/.test(modelName)) return 'openai';
+  return null;
+}
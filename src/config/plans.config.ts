@@ -0,0 +1,56 @@
+import { LOCAL_MODELS, MODEL_CONFIGS } from './langchain.config';
+
+export interface PlanDetails {
+  name: string;
+  creditsPerDay: number;
+  creditsPerMonth: number;
+  models: string[]; // Chat models the plan is entitled to
+}
+
+/**
+ * Plan details lookup by plan ID
+ */
+export const planDetailsMap: Record<string, PlanDetails> = {
+  free: {
+    name: "Free",
+    creditsPerDay: 0.50,
+    creditsPerMonth: 5.00,
+    models: [MODEL_CONFIGS.GPT4O_MINI]
+  },
+  standard: {
+    name: "Standard",
+    creditsPerDay: 2.00,
+    creditsPerMonth: 20.00,
+    models: [MODEL_CONFIGS.GPT4O_MINI, MODEL_CONFIGS.GPT4_1_MINI, MODEL_CONFIGS.CLAUDE_3_5_HAIKU]
+  },
+  premium: {
+    name: "Premium",
+    creditsPerDay: 10.00,
+    creditsPerMonth: 100.00,
+    models: [
+      MODEL_CONFIGS.GPT4O_MINI,
+      MODEL_CONFIGS.GPT4_1_MINI,
+      MODEL_CONFIGS.GPT4_1,
+      MODEL_CONFIGS.CLAUDE_3_5_HAIKU,
+      MODEL_CONFIGS.CLAUDE_SONNET_4
+    ]
+  }
+};
+
+/**
+ * Details of a user's plan by its stored plan_name, which is either the plan ID or its name.
+ * Unknown plans get the free plan.
+ */
+export function getPlanDetails(planName?: string | null): PlanDetails {
+  const key = (planName || '').trim().toLowerCase();
+  return planDetailsMap[key]
+    || Object.values(planDetailsMap).find(plan => plan.name.toLowerCase() === key)
+    || planDetailsMap.free;
+}
+
+/**
+ * Models of a plan. Local models cost nothing, so every plan is entitled to them.
+ */
+export function getPlanModels(planName?: string | null): string[] {
+  return [...getPlanDetails(planName).models, ...LOCAL_MODELS];
+}
@@ -1,4 +1,3 @@
-import { ChatOpenAI } from '@langchain/openai';
 import { OpenAIEmbeddings } from '@langchain/openai';
 import { StateGraph, MessagesAnnotation, END } from '@langchain/langgraph';
 import { ToolNode } from '@langchain/langgraph/prebuilt';
@@ -14,33 +13,52 @@ import { DailyUsage } from '../../infrastructure/database/supabase.client';
 import { 
   extractTokenUsage, 
   TokenUsageResult,
-  extractTokenUsageFromMetadata
+  extractTokenUsageFromMetadata,
+  calculateTokenCost,
+  estimateInputTokens
 } from './token-calculator';
 import {
   convertToLangChainMessages,
   saveMessage,
-  determineToolMessageStatus
+  determineToolMessageStatus,
+  buildToolMessageMetadata
 } from '../conversations/message.utils';
 import {
   executeTools,
   getToolExecutionEvents,
   parseToolExecutionResult,
   createToolsMap,
-  LISTING_TOOLS_NAME
+  LISTING_TOOLS_NAME,
+  STATISTICS_TOOLS_NAME,
+  INVENTORY_TOOLS_NAME,
+  FEEDBACK_TOOLS_NAME,
+  OZON_TOOLS_NAME,
+  YANDEX_MARKET_TOOLS_NAME,
+  getConnectedMarketplaces
 } from '../tools/tool-execution.utils';
-import { validateUserUsageLimit } from '../plans/validation.utils';
+import { findUnconfirmedReplyCalls, UNCONFIRMED_REPLY_ERROR } from '../tools/feedback/reply-confirmation.utils';
+import {
+  buildPendingToolContent,
+  buildToolApprovalRequest,
+  findPendingApprovalCalls,
+  isMutatingToolCall,
+  selectPendingApprovalCalls
+} from '../tools/tool-approval.utils';
+import { validateModelEntitlement, validateUserUsageLimit } from '../plans/validation.utils';
+import { CreditReservation, reserveCredits } from '../plans/credit-reservation.service';
+import { ModelNotEntitledError } from '../../shared/utils/errors';
 import { validateWildberriesToolsRequirements } from '../tools/validation.utils';
-import { validateApiKey } from '../../shared/utils/validation.utils';
 import { StreamController, createStreamResponse } from '../../shared/utils/streaming.utils';
-import { MODEL_CONFIGS } from '../../config/langchain.config';
+import { DEFAULT_GENERATION_SETTINGS, DEFAULT_MODELS } from '../../config/langchain.config';
+import { MAX_SUMMARY_TOKENS, TOOLS_TOKEN_RESERVE } from '../conversations/context-builder.utils';
+import { ChatModel, createProviderChatModel, createProviderEmbeddingModel, getConfiguredProviders } from './model-providers';
 import { ChatOptions, ConversationOptions, ChatModelParams, EmbeddingModelParams, TokenMetrics } from './langchain.types';
 
-// Environment variables
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-
 // Error messages
 const ERROR_INITIALIZATION = 'Failed to initialize LangChain service';
 const ERROR_MODEL_CREATION = 'Failed to create model instance';
+const BUDGET_EXHAUSTED_MESSAGE = 'I stopped here because this request has used up the credits reserved for it. ' +
+  'The results so far are above; ask me to continue once you have enough credits left.';
 
 // LangGraph Agent State - simplified without persistence fields
 const AgentState = Annotation.Root({
@@ -70,36 +88,31 @@ class LangChainService {
 
   private initialize(): void {
     try {
-      validateApiKey(OPENAI_API_KEY);
+      const providers = getConfiguredProviders();
+      if (providers.length === 0) {
+        throw new Error('No LLM provider is configured');
+      }
       this.initialized = true;
-      logger.info('LangChain service initialized successfully with LangGraph');
+      logger.info('LangChain service initialized successfully with LangGraph', { providers });
     } catch (error) {
       logger.error(`${ERROR_INITIALIZATION}: ${error instanceof Error ? error.message : String(error)}`);
       this.initialized = false;
     }
   }
 
-  private createChatModel(params: ChatModelParams = {}): ChatOpenAI {
+  private createChatModel(params: ChatModelParams = {}): ChatModel {
     if (!this.initialized) {
       throw new Error(ERROR_INITIALIZATION);
     }
 
     const {
-      temperature = 0.7,
-      maxTokens = 2048,
-      modelName = MODEL_CONFIGS.GPT4O_MINI,
+      temperature = DEFAULT_GENERATION_SETTINGS.temperature,
+      maxTokens = DEFAULT_GENERATION_SETTINGS.maxTokens,
+      modelName = DEFAULT_MODELS.chat,
     } = params;
-    
-    const modelConfig = {
-      temperature,
-      maxTokens,
-      modelName,
-      openAIApiKey: OPENAI_API_KEY,
-      timeout: 30000,
-      streamUsage: true, // Enable built-in token tracking
-    };
 
-    return new ChatOpenAI(modelConfig);
+    // The provider is picked by the model name
+    return createProviderChatModel({ modelName, temperature, maxTokens });
   }
 
   public createEmbeddingModel(params: EmbeddingModelParams = {}): OpenAIEmbeddings {
@@ -109,34 +122,34 @@ class LangChainService {
       }
 
       const {
-        modelName = MODEL_CONFIGS.TEXT_EMBEDDING_3_SMALL,
+        modelName = DEFAULT_MODELS.embedding,
         stripNewLines = true
       } = params;
-      
-      const modelConfig: any = {
-        modelName,
-        stripNewLines,
-        openAIApiKey: OPENAI_API_KEY,
-        timeout: 30000,
-      };
 
-      return new OpenAIEmbeddings(modelConfig);
+      return createProviderEmbeddingModel(modelName, stripNewLines);
     } catch (error) {
       logger.error(`${ERROR_MODEL_CREATION}: ${error instanceof Error ? error.message : String(error)}`);
       throw new Error(`${ERROR_MODEL_CREATION}: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  private createTools(userId?: string) {
+  private async createTools(userId?: string) {
     if (!userId) return [];
     
     try {
-      const toolsByName = createToolsMap(userId);
-      const listingTools = toolsByName[LISTING_TOOLS_NAME]; // Retrieve listing tools
-      const tools = listingTools ? [...listingTools] : [];
+      // Only offer tools of the marketplaces the user has saved API keys for
+      const connectedMarketplaces = await getConnectedMarketplaces(userId);
+      const toolsByName = createToolsMap(userId, connectedMarketplaces);
+      const listingTools = toolsByName[LISTING_TOOLS_NAME] || []; // Retrieve listing tools
+      const statisticsTools = toolsByName[STATISTICS_TOOLS_NAME] || []; // Retrieve sales & orders analytics tools
+      const inventoryTools = toolsByName[INVENTORY_TOOLS_NAME] || []; // Retrieve stock & inventory tools
+      const feedbackTools = toolsByName[FEEDBACK_TOOLS_NAME] || []; // Retrieve feedbacks & questions tools
+      const ozonTools = toolsByName[OZON_TOOLS_NAME] || []; // Retrieve Ozon products, prices & stocks tools
+      const yandexMarketTools = toolsByName[YANDEX_MARKET_TOOLS_NAME] || []; // Retrieve Yandex Market offers, prices & stocks tools
+      const tools = [...listingTools, ...statisticsTools, ...inventoryTools, ...feedbackTools, ...ozonTools, ...yandexMarketTools];
       return tools;
     } catch (toolError) {
-      logger.warn('Failed to create Wildberries tools', {
+      logger.warn('Failed to create marketplace tools', {
         userId,
         error: toolError instanceof Error ? toolError.message : String(toolError)
       });
@@ -144,11 +157,26 @@ class LangChainService {
     }
   }
 
-  private createAgent(userId?: string, includeWildberriesTools: boolean = false) {
-    const model = this.createChatModel();
+  /**
+   * Estimated cost of a model call with the given messages and a full-length reply
+   */
+  private estimateModelCallCost(messages: BaseMessage[], modelParams: ChatModelParams & { modelName: string }, withTools: boolean): number {
+    const inputTokens = estimateInputTokens(messages) + (withTools ? TOOLS_TOKEN_RESERVE : 0);
+    const maxTokens = modelParams.maxTokens ?? DEFAULT_GENERATION_SETTINGS.maxTokens;
+    return calculateTokenCost(inputTokens, maxTokens, modelParams.modelName);
+  }
+
+  private async createAgent(
+    modelParams: ChatModelParams & { modelName: string },
+    userId?: string,
+    includeWildberriesTools: boolean = false,
+    reservation?: CreditReservation
+  ) {
+    const { modelName } = modelParams;
+    const model = this.createChatModel(modelParams);
     
     // Create tools if needed
-    const tools = includeWildberriesTools && userId ? this.createTools(userId) : [];
+    const tools = includeWildberriesTools && userId ? await this.createTools(userId) : [];
     const toolNode = tools.length > 0 ? new ToolNode(tools) : null;
 
     // Bind tools to model if available
@@ -157,16 +185,30 @@ class LangChainService {
     // Define agent node
     const callModel = async (state: typeof AgentState.State) => {
       try {
-        //console.log('state.messages', state.messages);
+        // Stop the run when the next call doesn't fit into the credits reserved for it
+        if (reservation) {
+          const estimatedCost = this.estimateModelCallCost(state.messages, modelParams, includeWildberriesTools);
+          if (!reservation.canAfford(estimatedCost)) {
+            logger.warn('Stopped agent run, reserved credits are exhausted', {
+              userId: state.userId,
+              reserved: reservation.reserved,
+              spent: reservation.getSpent(),
+              estimatedCost
+            });
+            reservation.exhausted = true;
+            return { messages: [new AIMessage(BUDGET_EXHAUSTED_MESSAGE)] };
+          }
+        }
+
         const response = await boundModel.invoke(state.messages);
-        console.log('response', response);
         
         // Track token usage if we have userId
         if (state.userId && response.usage_metadata) {
           await this.trackTokenUsageFromMetadata(
             response.usage_metadata,
-            state.modelName || MODEL_CONFIGS.GPT4O_MINI,
-            state.userId
+            state.modelName || modelName,
+            state.userId,
+            reservation
           );
         }
         
@@ -177,6 +219,42 @@ class LangChainService {
       }
     };
 
+    // Reject replies to customers whose text the user hasn't confirmed, run read-only tool calls
+    // and leave mutating calls pending until the user approves them
+    const gateTools = async (state: typeof AgentState.State) => {
+      const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
+      const unconfirmedCalls = findUnconfirmedReplyCalls(state.messages);
+      const unconfirmedIds = new Set(unconfirmedCalls.map(toolCall => toolCall.id));
+
+      if (unconfirmedCalls.length > 0) {
+        logger.warn('Blocked unconfirmed reply tool calls', {
+          userId: state.userId,
+          toolCalls: unconfirmedCalls.map(toolCall => toolCall.name)
+        });
+      }
+
+      const rejectedMessages = unconfirmedCalls.map(toolCall => new ToolMessage({
+        content: JSON.stringify({ success: false, error: UNCONFIRMED_REPLY_ERROR }),
+        tool_call_id: toolCall.id || 'unknown',
+        name: toolCall.name,
+        status: 'error'
+      }));
+
+      const readOnlyCalls = (lastMessage.tool_calls || []).filter(toolCall =>
+        !unconfirmedIds.has(toolCall.id) && !isMutatingToolCall(toolCall)
+      );
+      if (!toolNode || readOnlyCalls.length === 0) {
+        return { messages: rejectedMessages };
+      }
+
+      // ToolNode executes the tool calls of the last message, so pass it a copy with the allowed calls only
+      const result = await toolNode.invoke({
+        messages: [new AIMessage({ content: lastMessage.content, tool_calls: readOnlyCalls })]
+      });
+
+      return { messages: [...result.messages, ...rejectedMessages] };
+    };
+
     // Define conditional logic
     const shouldContinue = (state: typeof AgentState.State) => {
       const messages = state.messages;
@@ -186,10 +264,23 @@ class LangChainService {
       if (!tools.length || !lastMessage.tool_calls?.length) {
         return END;
       }
+
+      // Replies must be confirmed in the conversation and mutating calls approved by the user
+      if (
+        findUnconfirmedReplyCalls(messages).length > 0 ||
+        lastMessage.tool_calls.some(isMutatingToolCall)
+      ) {
+        return "tool_gate";
+      }
       
       return "tools";
     };
 
+    // Stop the run while mutating calls wait for approval, otherwise let the model continue
+    const afterToolGate = (state: typeof AgentState.State) => {
+      return findPendingApprovalCalls(state.messages).length > 0 ? END : "agent";
+    };
+
     // Build the graph
     const workflow = new StateGraph(AgentState)
       .addNode("agent", callModel)
@@ -199,7 +290,9 @@ class LangChainService {
     if (toolNode && tools.length > 0) {
       workflow
         .addNode("tools", toolNode)
+        .addNode("tool_gate", gateTools)
         .addConditionalEdges("agent", shouldContinue)
+        .addConditionalEdges("tool_gate", afterToolGate)
         .addEdge("tools", "agent");
     } else {
       workflow.addEdge("agent", END);
@@ -214,14 +307,14 @@ class LangChainService {
     options: ChatOptions = {}
   ): Promise<string> {
     const {
-      modelName = MODEL_CONFIGS.GPT4O_MINI,
+      modelName = DEFAULT_MODELS.chat,
       userId,
       stream = false,
       includeWildberriesTools = false
     } = options;
 
     try {
-      await validateUserUsageLimit(userId);
+      await validateUserUsageLimit(userId, modelName);
       validateWildberriesToolsRequirements(includeWildberriesTools, userId);
 
       // For simple chat (non-conversation), we'll use direct model invoke for now
@@ -229,7 +322,7 @@ class LangChainService {
       const model = this.createChatModel({ modelName });
       
       if (includeWildberriesTools && userId) {
-        const tools = this.createTools(userId);
+        const tools = await this.createTools(userId);
         if (tools.length > 0) {
           const boundModel = model.bindTools(tools);
           const messages = [
@@ -264,6 +357,7 @@ class LangChainService {
       return response.content.toString();
     } catch (error) {
       logger.error(`Error generating chat response: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof ModelNotEntitledError) throw error; // Keep the 403 for the route
       throw new Error(`Failed to generate response: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
@@ -274,34 +368,52 @@ class LangChainService {
     options: ConversationOptions
   ): Promise<BaseMessage[] | Response> {
     const {
-      modelName = MODEL_CONFIGS.GPT4O_MINI,
+      modelName = DEFAULT_MODELS.chat,
+      temperature,
+      maxTokens,
       conversationId,
       userId,
       stream = false,
       includeWildberriesTools = true
     } = options;
+    const modelParams = { modelName, temperature, maxTokens };
+    let reservation: CreditReservation | undefined;
 
     try {
-      await validateUserUsageLimit(userId);
+      if (userId) {
+        await validateModelEntitlement(userId, modelName);
+      }
       validateWildberriesToolsRequirements(includeWildberriesTools, userId);
 
+      // Convert conversation history to LangChain messages
+      const langchainMessages = convertToLangChainMessages(systemPrompt, messages);
+
+      // Reserve the credits of the run up front, the actual cost of every model call is recorded against them
+      if (userId) {
+        reservation = await reserveCredits(
+          userId,
+          this.estimateModelCallCost(langchainMessages, modelParams, includeWildberriesTools)
+        );
+      }
+
       if (stream) {
+        // The stream releases the reservation when it ends
+        const streamReservation = reservation;
+        reservation = undefined;
         return await this.handleStreamingResponse(
           systemPrompt,
           messages,
           conversationId,
-          modelName,
+          modelParams,
           userId,
           includeWildberriesTools,
-          options.abortSignal
+          options.abortSignal,
+          streamReservation
         );
       }
 
       // Create agent
-      const agent = this.createAgent(userId, includeWildberriesTools);
-      
-      // Convert conversation history to LangChain messages
-      const langchainMessages = convertToLangChainMessages(systemPrompt, messages);
+      const agent = await this.createAgent(modelParams, userId, includeWildberriesTools, reservation);
 
       // Simple state with full conversation context
       const callState = {
@@ -326,7 +438,8 @@ class LangChainService {
               conversationId,
               content: aiMessage.content.toString(),
               role: 'assistant',
-              toolCalls: aiMessage.tool_calls?.length ? aiMessage.tool_calls : undefined
+              toolCalls: aiMessage.tool_calls?.length ? aiMessage.tool_calls : undefined,
+              metadata: { model: modelName }
             });
           } else if (message.constructor.name === 'ToolMessage') {
             const content = message.content.toString();
@@ -347,23 +460,39 @@ class LangChainService {
               role: 'tool',
               status: status,
               toolCallId: (message as any).tool_call_id,
-              toolName: (message as any).name
+              toolName: (message as any).name,
+              metadata: buildToolMessageMetadata(message as ToolMessage)
             });
           }
         }
+
+        // Save mutating tool calls that wait for the user's approval
+        for (const toolCall of findPendingApprovalCalls(result.messages)) {
+          await saveMessage({
+            conversationId,
+            content: buildPendingToolContent(toolCall),
+            role: 'tool',
+            status: 'pending',
+            toolCallId: toolCall.id,
+            toolName: toolCall.name
+          });
+        }
       }
 
       return resultMessages;
     } catch (error) {
       logger.error(`Error generating conversation response: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof ModelNotEntitledError) throw error; // Keep the 403 for the route
       throw new Error(`Failed to generate response: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      reservation?.release();
     }
   }
 
   public async generateConversationTitle(userMessage: string): Promise<string> {
     try {
       const model = this.createChatModel({ 
-        modelName: MODEL_CONFIGS.GPT4O_MINI, 
+        modelName: DEFAULT_MODELS.title, 
         temperature: 0.3, // Lower temperature for more consistent titles
         maxTokens: 50 // Short titles only
       });
@@ -401,16 +530,56 @@ Title:`;
     }
   }
 
+  /**
+   * Fold messages that no longer fit into the context window into the conversation summary
+   */
+  public async generateConversationSummary(
+    previousSummary: string | null | undefined,
+    transcript: string,
+    userId?: string
+  ): Promise<string> {
+    const modelName = DEFAULT_MODELS.summary;
+    const model = this.createChatModel({
+      modelName,
+      temperature: 0.2,
+      maxTokens: MAX_SUMMARY_TOKENS
+    });
+
+    const summaryPrompt = `You maintain a running summary of a conversation between a marketplace seller and an assistant that manages their Wildberries, Ozon and Yandex Market stores. Update the summary with the new messages below.
+
+Keep the facts the assistant may need later: products (nmID, vendor codes), prices, stocks, decisions, changes that were made or rejected and open tasks. Drop greetings and raw data. Write at most 300 words in the language of the conversation. Return only the summary.
+
+Current summary:
+${previousSummary || '(none)'}
+
+New messages:
+${transcript}`;
+
+    const response = await model.invoke([new HumanMessage(summaryPrompt)]);
+
+    if (response.usage_metadata) {
+      await this.trackTokenUsageFromMetadata(response.usage_metadata, modelName, userId);
+    }
+
+    const summary = response.content.toString().trim();
+    if (!summary) {
+      throw new Error('The summary model returned an empty summary');
+    }
+    return summary;
+  }
+
   private async handleStreamingResponse(
     systemPrompt: string,
     messages: BasicMessage[],
     conversationId: string,
-    modelName: string,
+    modelParams: ChatModelParams & { modelName: string },
     userId?: string,
     includeWildberriesTools: boolean = true,
-    abortSignal?: AbortSignal
+    abortSignal?: AbortSignal,
+    reservation?: CreditReservation
   ): Promise<Response> {
     const self = this; // Capture the class context
+    const { modelName } = modelParams;
     
     const stream = new ReadableStream({
       async start(controller) {
@@ -432,7 +601,7 @@ Title:`;
           logger.info('Starting LangGraph streaming...');
           
           // Create agent
-          const agent = self.createAgent(userId, includeWildberriesTools);
+          const agent = await self.createAgent(modelParams, userId, includeWildberriesTools, reservation);
           
           // Convert conversation history to LangChain messages
           const langchainMessages = convertToLangChainMessages(systemPrompt, messages);
@@ -472,10 +641,11 @@ Title:`;
                 if (message.constructor.name === 'AIMessageChunk') {
                   const aiMessage = message as AIMessageChunk;
                   
-                  // Check for tool calls
-                  if (aiMessage.tool_calls && aiMessage.tool_calls.length > 0) {
+                  // Check for tool calls, mutating ones are not executed until approved
+                  const executedToolCalls = (aiMessage.tool_calls || []).filter(toolCall => !isMutatingToolCall(toolCall));
+                  if (executedToolCalls.length > 0) {
                     // Send tool execution notification
-                    const toolExecutionEvents = getToolExecutionEvents(aiMessage.tool_calls);
+                    const toolExecutionEvents = getToolExecutionEvents(executedToolCalls);
                     streamController.sendToolExecution(toolExecutionEvents);
                   }
                   
@@ -528,7 +698,8 @@ Title:`;
                     content: toolMessage.content,
                     toolCallId: toolMessage.tool_call_id,
                     toolName: toolMessage.name,
-                    status: toolStatus
+                    status: toolStatus,
+                    metadata: buildToolMessageMetadata(toolMessage)
                   });
                 }
               }
@@ -544,6 +715,27 @@ Title:`;
             });
             accumulatedAIResponse = null;
           }
+
+          // The message of a run stopped for budget is not generated by the model, so it is not in the stream
+          if (reservation?.exhausted && !wasAborted) {
+            streamController.sendChunk(BUDGET_EXHAUSTED_MESSAGE);
+            messagesToSave.push({ type: 'ai', content: BUDGET_EXHAUSTED_MESSAGE });
+          }
+
+          // Mutating tool calls without a result are waiting for the user's approval
+          const pendingApprovalCalls = selectPendingApprovalCalls(
+            messagesToSave.flatMap(messageData => messageData.type === 'ai' ? messageData.toolCalls || [] : []),
+            messagesToSave.filter(messageData => messageData.type === 'tool').map(messageData => messageData.toolCallId)
+          );
+          for (const toolCall of pendingApprovalCalls) {
+            messagesToSave.push({
+              type: 'tool',
+              content: buildPendingToolContent(toolCall),
+              toolCallId: toolCall.id,
+              toolName: toolCall.name,
+              status: 'pending'
+            });
+          }
           
           // Save all messages to database
           if (conversationId && messagesToSave.length > 0) {
@@ -554,7 +746,8 @@ Title:`;
                     conversationId,
                     content: messageData.content,
                     role: 'assistant',
-                    toolCalls: messageData.toolCalls
+                    toolCalls: messageData.toolCalls,
+                    metadata: { model: modelName }
                   });
                   
                   // Token usage is tracked in the callModel node
@@ -565,7 +758,8 @@ Title:`;
                     role: 'tool',
                     status: messageData.status,
                     toolCallId: messageData.toolCallId,
-                    toolName: messageData.toolName
+                    toolName: messageData.toolName,
+                    metadata: messageData.metadata
                   });
                 }
               } catch (saveError) {
@@ -574,6 +768,10 @@ Title:`;
             }
           }
           
+          if (!wasAborted && pendingApprovalCalls.length > 0) {
+            streamController.sendToolApprovalRequired(pendingApprovalCalls.map(buildToolApprovalRequest));
+          }
+
           if (!wasAborted) {
             streamController.sendEnd();
           }
@@ -582,6 +780,8 @@ Title:`;
           logger.error('Error in LangGraph streaming:', error);
           streamController.sendError(error instanceof Error ? error.message : 'Unknown error occurred');
         } finally {
+          reservation?.release();
+
           // Clean up abort listener
           if (abortSignal) {
             abortSignal.removeEventListener('abort', handleAbort);
@@ -596,11 +796,14 @@ Title:`;
   private async trackTokenUsageFromMetadata(
     usageMetadata: any,
     modelName: string,
-    userId?: string
+    userId?: string,
+    reservation?: CreditReservation
   ): Promise<void> {
     if (!userId) return;
 
     const tokenUsage = extractTokenUsageFromMetadata(usageMetadata, modelName);
+    // Settle the reservation to the actual usage
+    reservation?.record(tokenUsage.totalCost);
     
     logger.info(
       `Token usage - Input: ${tokenUsage.inputTokens}, Output: ${tokenUsage.outputTokens}, ` +
@@ -23,6 +23,8 @@ export type ChatOptions = {
 
 export type ConversationOptions = {
   modelName?: string;
+  temperature?: number;
+  maxTokens?: number;
   conversationId: string;
   userId?: string;
   stream?: boolean;
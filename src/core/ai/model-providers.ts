@@ -0,0 +1,121 @@
+import { ChatAnthropic } from '@langchain/anthropic';
+import { ChatOpenAI, OpenAIEmbeddings } from '@langchain/openai';
+import { getChatModels, getModelProvider, ModelProvider } from '../../config/langchain.config';
+
+// Environment variables
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
+const LOCAL_LLM_BASE_URL = process.env.LOCAL_LLM_BASE_URL; // e.g. http://localhost:11434/v1 for Ollama
+const LOCAL_LLM_API_KEY = process.env.LOCAL_LLM_API_KEY || 'local'; // Most local servers accept any key
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+export type ChatModel = ChatOpenAI | ChatAnthropic;
+
+export interface ChatModelOptions {
+  modelName: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+interface ModelProviderDefinition {
+  isConfigured: () => boolean;
+  createChatModel: (options: ChatModelOptions) => ChatModel;
+  createEmbeddingModel?: (modelName: string, stripNewLines: boolean) => OpenAIEmbeddings;
+}
+
+/**
+ * Registry of the LLM providers. Models are routed to a provider by their name (MODEL_PROVIDERS).
+ */
+const MODEL_PROVIDER_REGISTRY: Record<ModelProvider, ModelProviderDefinition> = {
+  openai: {
+    isConfigured: () => !!OPENAI_API_KEY,
+    createChatModel: ({ modelName, temperature, maxTokens }) => new ChatOpenAI({
+      temperature,
+      maxTokens,
+      modelName,
+      openAIApiKey: OPENAI_API_KEY,
+      timeout: REQUEST_TIMEOUT_MS,
+      streamUsage: true, // Enable built-in token tracking
+    }),
+    createEmbeddingModel: (modelName, stripNewLines) => new OpenAIEmbeddings({
+      modelName,
+      stripNewLines,
+      openAIApiKey: OPENAI_API_KEY,
+      timeout: REQUEST_TIMEOUT_MS,
+    })
+  },
+  anthropic: {
+    isConfigured: () => !!ANTHROPIC_API_KEY,
+    createChatModel: ({ modelName, temperature, maxTokens }) => new ChatAnthropic({
+      temperature,
+      maxTokens,
+      model: modelName,
+      anthropicApiKey: ANTHROPIC_API_KEY,
+      clientOptions: { timeout: REQUEST_TIMEOUT_MS },
+      streamUsage: true,
+    })
+  },
+  local: {
+    isConfigured: () => !!LOCAL_LLM_BASE_URL,
+    createChatModel: ({ modelName, temperature, maxTokens }) => new ChatOpenAI({
+      temperature,
+      maxTokens,
+      modelName,
+      openAIApiKey: LOCAL_LLM_API_KEY,
+      configuration: { baseURL: LOCAL_LLM_BASE_URL },
+      timeout: REQUEST_TIMEOUT_MS,
+      streamUsage: true,
+    }),
+    createEmbeddingModel: (modelName, stripNewLines) => new OpenAIEmbeddings({
+      modelName,
+      stripNewLines,
+      openAIApiKey: LOCAL_LLM_API_KEY,
+      configuration: { baseURL: LOCAL_LLM_BASE_URL },
+      timeout: REQUEST_TIMEOUT_MS,
+    })
+  }
+};
+
+/**
+ * Providers with credentials or an endpoint configured
+ */
+export function getConfiguredProviders(): ModelProvider[] {
+  return (Object.keys(MODEL_PROVIDER_REGISTRY) as ModelProvider[])
+    .filter(provider => MODEL_PROVIDER_REGISTRY[provider].isConfigured());
+}
+
+/**
+ * Chat models whose provider is configured
+ */
+export function getAvailableChatModels(): string[] {
+  const providers = getConfiguredProviders();
+  return getChatModels().filter(modelName => providers.includes(getModelProvider(modelName)!));
+}
+
+function getProviderDefinition(modelName: string): ModelProviderDefinition {
+  const provider = getModelProvider(modelName);
+  if (!provider) {
+    throw new Error(`Unknown model "${modelName}"`);
+  }
+
+  const definition = MODEL_PROVIDER_REGISTRY[provider];
+  if (!definition.isConfigured()) {
+    throw new Error(`Model provider "${provider}" is not configured`);
+  }
+
+  return definition;
+}
+
+export function createProviderChatModel(options: ChatModelOptions): ChatModel {
+  return getProviderDefinition(options.modelName).createChatModel(options);
+}
+
+export function createProviderEmbeddingModel(modelName: string, stripNewLines: boolean): OpenAIEmbeddings {
+  const definition = getProviderDefinition(modelName);
+  if (!definition.createEmbeddingModel) {
+    throw new Error(`Model provider "${getModelProvider(modelName)}" does not provide embeddings`);
+  }
+
+  return definition.createEmbeddingModel(modelName, stripNewLines);
+}
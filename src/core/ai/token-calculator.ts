@@ -1,3 +1,7 @@
+import { getModelProvider, ModelProvider } from '../../config/langchain.config';
+import { BasicMessage } from '../../shared/types/message.types';
+import { AIMessage, BaseMessage } from '@langchain/core/messages';
+
 export interface TokenCostRates {
   input: number;
   output: number;
@@ -10,21 +14,41 @@ export interface TokenUsageResult {
   isEstimated: boolean;
 }
 
-// Approximate token costs per 1M tokens in USD for OpenAI models
+// Approximate token costs per 1M tokens in USD by model
 export const TOKEN_COSTS: Record<string, TokenCostRates> = {
+  // OpenAI
   'gpt-4.1': { input: 2.0, output: 8.0 },
   'gpt-4.1-mini': { input: 0.4, output: 1.6 },
   'gpt-4o-mini': { input: 0.15, output: 0.6 },
   'text-embedding-3-small': { input: 0.02, output: 0.02 },
+  // Anthropic
+  'claude-sonnet-4-20250514': { input: 3.0, output: 15.0 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4.0 },
   'default': { input: 2.0, output: 2.0 }
 };
 
+// Rates of models missing from TOKEN_COSTS by provider, self-hosted models cost nothing per token
+export const PROVIDER_TOKEN_COSTS: Record<ModelProvider, TokenCostRates> = {
+  openai: TOKEN_COSTS.default,
+  anthropic: { input: 3.0, output: 15.0 },
+  local: { input: 0, output: 0 }
+};
+
+export function getTokenCostRates(modelName: string): TokenCostRates {
+  if (TOKEN_COSTS[modelName]) {
+    return TOKEN_COSTS[modelName];
+  }
+
+  const provider = getModelProvider(modelName);
+  return provider ? PROVIDER_TOKEN_COSTS[provider] : TOKEN_COSTS.default;
+}
+
 export function calculateTokenCost(
   inputTokens: number,
   outputTokens: number,
   modelName: string
 ): number {
-  const costRates = TOKEN_COSTS[modelName] || TOKEN_COSTS.default;
+  const costRates = getTokenCostRates(modelName);
   const inputCost = (inputTokens / 1000000) * costRates.input;
   const outputCost = (outputTokens / 1000000) * costRates.output;
   return inputCost + outputCost;
@@ -94,4 +118,26 @@ export function estimateTokenCount(text: string): number {
   // A rough approximation: GPT models use ~4 chars per token on average
   // This is just an estimate and will not be exact
   return Math.ceil(text.length / 4);
-}
\ No newline at end of file
+}
+
+// Role and formatting tokens every message adds
+const MESSAGE_TOKEN_OVERHEAD = 4;
+
+/**
+ * Estimate the tokens of a history message including its tool calls
+ */
+export function estimateMessageTokens(message: BasicMessage): number {
+  const toolCallsText = message.tool_calls?.length ? JSON.stringify(message.tool_calls) : '';
+  return MESSAGE_TOKEN_OVERHEAD + estimateTokenCount(message.content) + estimateTokenCount(toolCallsText);
+}
+
+/**
+ * Estimate the input tokens of a model call with the given messages
+ */
+export function estimateInputTokens(messages: BaseMessage[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens({
+    role: message.getType(),
+    content: typeof message.content === 'string' ? message.content : JSON.stringify(message.content),
+    tool_calls: (message as AIMessage).tool_calls
+  }), 0);
+}
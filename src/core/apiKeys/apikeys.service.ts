@@ -4,9 +4,22 @@ import logger from '../../shared/utils/logger';
 import crypto from 'crypto';
 import { UserApiKey } from '../../infrastructure/database/supabase.client';
 
+export type ApiKeyEnvironment = 'sandbox' | 'production';
+
+// Marketplaces that have a sandbox API
+const SANDBOX_SERVICES = ['wildberries'];
+
 export interface CreateApiKeyData {
   service: string;
   api_key: string;
+  client_id?: string;
+  environment?: ApiKeyEnvironment;
+}
+
+export interface ApiKeyCredentials {
+  apiKey: string;
+  clientId?: string;
+  environment: ApiKeyEnvironment;
 }
 
 export interface UpdateApiKeyData {
@@ -93,6 +106,20 @@ export class ApiKeysService {
         throw new Error('API key must be at least 10 characters long');
       }
 
+      // Ozon requires a numeric Client-Id together with the API key
+      const service = data.service.toLowerCase();
+      const clientId = data.client_id?.trim();
+      if (service === 'ozon' && (!clientId || !/^\d+$/.test(clientId))) {
+        throw new Error('Ozon requires a numeric client_id');
+      }
+
+      if (data.environment && !['sandbox', 'production'].includes(data.environment)) {
+        throw new Error(`Invalid environment: ${data.environment}`);
+      }
+      if (data.environment === 'sandbox' && !SANDBOX_SERVICES.includes(service)) {
+        throw new Error(`${data.service} has no sandbox environment`);
+      }
+
       // Encrypt the API key
       const { encrypted, iv, tag } = this.encryptApiKey(data.api_key.trim());
       const encryptedApiKey = `${iv}:${tag}:${encrypted}`;
@@ -102,8 +129,11 @@ export class ApiKeysService {
         .from('user_api_keys')
         .upsert({
           user_id: userId,
-          service: data.service.toLowerCase(),
-          api_key: encryptedApiKey
+          service,
+          api_key: encryptedApiKey,
+          client_id: service === 'ozon' ? clientId : null,
+          // Omitted on update so the saved environment is kept, new keys get the production default
+          ...(data.environment && { environment: data.environment })
         }, {
           onConflict: 'user_id,service'
         })
@@ -129,6 +159,8 @@ export class ApiKeysService {
         user_id: result.user_id,
         service: result.service,
         api_key: '***ENCRYPTED***',
+        client_id: result.client_id,
+        environment: result.environment,
         created_at: result.created_at
       };
     } catch (error) {
@@ -145,10 +177,19 @@ export class ApiKeysService {
    * Get an API key for a user and service
    */
   async getApiKey(userId: string, service: string): Promise<string | null> {
+    const credentials = await this.getApiKeyCredentials(userId, service);
+    return credentials ? credentials.apiKey : null;
+  }
+
+  /**
+   * Get the decrypted API key together with the other credentials of the service (Ozon Client-Id)
+   * and the API environment the key belongs to
+   */
+  async getApiKeyCredentials(userId: string, service: string): Promise<ApiKeyCredentials | null> {
     try {
       const { data, error } = await this.supabase
         .from('user_api_keys')
-        .select('api_key')
+        .select('api_key, client_id, environment')
         .eq('user_id', userId)
         .eq('service', service.toLowerCase())
         .single();
@@ -174,7 +215,11 @@ export class ApiKeysService {
       const [iv, tag, encrypted] = data.api_key.split(':');
       const decryptedApiKey = this.decryptApiKey(encrypted, iv, tag);
 
-      return decryptedApiKey;
+      return {
+        apiKey: decryptedApiKey,
+        ...(data.client_id && { clientId: data.client_id }),
+        environment: data.environment || 'production'
+      };
     } catch (error) {
       logger.error('Error getting API key', {
         error: error instanceof Error ? error.message : String(error),
@@ -192,7 +237,7 @@ export class ApiKeysService {
     try {
       const { data, error } = await this.supabase
         .from('user_api_keys')
-        .select('user_id, service, created_at, updated_at')
+        .select('user_id, service, client_id, environment, created_at, updated_at')
         .eq('user_id', userId)
         .order('service', { ascending: true });
 
@@ -214,6 +259,14 @@ export class ApiKeysService {
     }
   }
 
+  /**
+   * Get the marketplaces the user has saved API keys for
+   */
+  async getConnectedServices(userId: string): Promise<string[]> {
+    const apiKeys = await this.getUserApiKeys(userId);
+    return apiKeys.map(apiKey => apiKey.service);
+  }
+
   /**
    * Delete an API key for a user and service
    */
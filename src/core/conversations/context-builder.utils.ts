@@ -0,0 +1,150 @@
+import { Message } from '../../infrastructure/database/supabase.client';
+import { estimateMessageTokens, estimateTokenCount } from '../ai/token-calculator';
+
+/**
+ * Fit the history of a conversation into the model's context window.
+ * History is split into turns (a user message and everything up to the next one) so that tool calls always stay
+ * together with their results. Tool outputs of earlier turns are compressed, the oldest turns are dropped
+ * when the history still doesn't fit and are folded into the conversation summary by the caller.
+ */
+
+// Tokens reserved for the tool definitions bound to the model
+export const TOOLS_TOKEN_RESERVE = 4000;
+// History never gets less room than this, even when the settings leave none
+export const MIN_HISTORY_TOKENS = 1000;
+// Tool outputs of earlier turns longer than this are compressed
+export const MAX_OLD_TOOL_OUTPUT_TOKENS = 200;
+// Longest summary of the earlier conversation, added to the system prompt
+export const MAX_SUMMARY_TOKENS = 1000;
+// Transcript of dropped messages sent to the summary model, the most recent part is kept
+const MAX_SUMMARY_INPUT_TOKENS = 30000;
+
+export interface ConversationContext {
+  messages: Message[]; // Messages to send, tool outputs may be compressed
+  droppedMessages: Message[]; // Oldest messages that didn't fit, in order
+  estimatedTokens: number;
+}
+
+/**
+ * Tokens available for the history: the context length without the reply, the system prompt with its summary and the tools
+ */
+export function getHistoryTokenBudget(contextLength: number, maxTokens: number, systemPrompt: string): number {
+  return Math.max(
+    contextLength - maxTokens - estimateTokenCount(systemPrompt) - MAX_SUMMARY_TOKENS - TOOLS_TOKEN_RESERVE,
+    MIN_HISTORY_TOKENS
+  );
+}
+
+/**
+ * Split history into turns, each starting with a user message
+ */
+export function splitIntoTurns(messages: Message[]): Message[][] {
+  const turns: Message[][] = [];
+
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+
+  return turns;
+}
+
+/**
+ * Shorten a tool output to its outcome. The model can call the tool again when it needs the data.
+ */
+export function compressToolContent(content: string): string {
+  if (estimateTokenCount(content) <= MAX_OLD_TOOL_OUTPUT_TOKENS) {
+    return content;
+  }
+
+  const note = 'Output of an earlier turn was shortened, call the tool again if its data is needed';
+  try {
+    const result = JSON.parse(content);
+    return JSON.stringify({
+      success: result.success,
+      ...(result.error !== undefined && { error: result.error }),
+      ...(typeof result.message === 'string' && { message: result.message }),
+      note
+    });
+  } catch {
+    return `${content.slice(0, MAX_OLD_TOOL_OUTPUT_TOKENS * 4)}... (${note})`;
+  }
+}
+
+function compressTurn(turn: Message[]): Message[] {
+  return turn.map(message => message.role === 'tool'
+    ? { ...message, content: compressToolContent(message.content) }
+    : message
+  );
+}
+
+function countTokens(messages: Message[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
+
+/**
+ * Build the history sent to the model within the token budget.
+ * The current turn is always kept, its tool outputs are only compressed when it doesn't fit on its own.
+ */
+export function buildConversationContext(messages: Message[], budget: number): ConversationContext {
+  const turns = splitIntoTurns(messages);
+  if (turns.length === 0) {
+    return { messages: [], droppedMessages: [], estimatedTokens: 0 };
+  }
+
+  let currentTurn = turns[turns.length - 1];
+  const earlierTurns = turns.slice(0, -1).map(compressTurn);
+
+  if (countTokens(currentTurn) > budget) {
+    currentTurn = compressTurn(currentTurn);
+  }
+
+  // Keep the most recent earlier turns that fit
+  let estimatedTokens = countTokens(currentTurn);
+  let firstKept = earlierTurns.length;
+  while (firstKept > 0) {
+    const tokens = countTokens(earlierTurns[firstKept - 1]);
+    if (estimatedTokens + tokens > budget) break;
+    estimatedTokens += tokens;
+    firstKept--;
+  }
+
+  const droppedCount = turns.slice(0, firstKept).reduce((count, turn) => count + turn.length, 0);
+
+  return {
+    messages: [...earlierTurns.slice(firstKept).flat(), ...currentTurn],
+    droppedMessages: messages.slice(0, droppedCount),
+    estimatedTokens
+  };
+}
+
+/**
+ * System prompt with the summary of the earlier conversation
+ */
+export function buildSystemPromptWithSummary(systemPrompt: string, summary?: string | null): string {
+  if (!summary) {
+    return systemPrompt;
+  }
+
+  return `${systemPrompt}\n\nSummary of the earlier part of this conversation (older messages are not shown):\n${summary}`;
+}
+
+/**
+ * Plain text transcript of messages for the summary model, tool outputs are compressed
+ */
+export function formatSummaryTranscript(messages: Message[]): string {
+  const lines = messages.map(message => {
+    if (message.role === 'user') return `User: ${message.content}`;
+    if (message.role === 'tool') return `Tool ${message.tool_name || 'result'}: ${compressToolContent(message.content)}`;
+
+    const toolCalls = (message.tool_calls || []).map(toolCall => `${toolCall.name}(${JSON.stringify(toolCall.args)})`);
+    return `Assistant: ${message.content}${toolCalls.length > 0 ? ` [called ${toolCalls.join(', ')}]` : ''}`;
+  });
+
+  const transcript = lines.join('\n');
+  const maxLength = MAX_SUMMARY_INPUT_TOKENS * 4;
+  return transcript.length > maxLength ? transcript.slice(-maxLength) : transcript;
+}
@@ -0,0 +1,117 @@
+import { Conversation } from '../../infrastructure/database/supabase.client';
+import { DEFAULT_GENERATION_SETTINGS, DEFAULT_MODELS, getModelContextLength } from '../../config/langchain.config';
+
+/**
+ * Model and generation settings of a conversation, stored in the model_name, temperature,
+ * max_tokens and context_length columns
+ */
+export interface ConversationSettings {
+  modelName: string;
+  temperature: number;
+  maxTokens: number;
+  contextLength: number;
+}
+
+export type ConversationSettingsUpdate = Partial<ConversationSettings>;
+
+export const SETTINGS_FIELDS: Array<keyof ConversationSettings> = ['modelName', 'temperature', 'maxTokens', 'contextLength'];
+
+export const MAX_TEMPERATURE = 2;
+export const MAX_OUTPUT_TOKENS = 16384;
+// Smallest context that still fits the system prompt, tool definitions and a reply
+export const MIN_CONTEXT_LENGTH = 8192;
+
+/**
+ * Settings of a conversation, missing columns fall back to the defaults of its model
+ */
+export function getConversationSettings(conversation: Conversation): ConversationSettings {
+  const modelName = conversation.model_name || DEFAULT_MODELS.chat;
+  const modelContextLength = getModelContextLength(modelName);
+
+  return {
+    modelName,
+    temperature: conversation.temperature ?? DEFAULT_GENERATION_SETTINGS.temperature,
+    maxTokens: conversation.max_tokens ?? DEFAULT_GENERATION_SETTINGS.maxTokens,
+    contextLength: Math.min(conversation.context_length ?? modelContextLength, modelContextLength)
+  };
+}
+
+/**
+ * Settings of a new conversation
+ */
+export function getDefaultConversationSettings(): ConversationSettings {
+  return {
+    modelName: DEFAULT_MODELS.chat,
+    ...DEFAULT_GENERATION_SETTINGS,
+    contextLength: getModelContextLength(DEFAULT_MODELS.chat)
+  };
+}
+
+/**
+ * Apply an update to the settings of a conversation. When the model changes without a context length,
+ * the context length becomes the window of the new model.
+ */
+export function applyConversationSettingsUpdate(
+  current: ConversationSettings,
+  update: ConversationSettingsUpdate,
+  permittedModels: string[]
+): { settings: ConversationSettings; errors: string[] } {
+  const errors: string[] = [];
+  const settings = { ...current };
+
+  if (update.modelName !== undefined) {
+    if (typeof update.modelName !== 'string' || !permittedModels.includes(update.modelName)) {
+      errors.push(`Model "${update.modelName}" is not available. Available models: ${permittedModels.join(', ')}`);
+    } else if (update.modelName !== current.modelName) {
+      settings.modelName = update.modelName;
+      settings.contextLength = getModelContextLength(update.modelName);
+    }
+  }
+
+  if (update.temperature !== undefined) {
+    if (typeof update.temperature !== 'number' || update.temperature < 0 || update.temperature > MAX_TEMPERATURE) {
+      errors.push(`temperature must be a number between 0 and ${MAX_TEMPERATURE}`);
+    } else {
+      settings.temperature = update.temperature;
+    }
+  }
+
+  if (update.maxTokens !== undefined) {
+    if (!Number.isInteger(update.maxTokens) || update.maxTokens < 1 || update.maxTokens > MAX_OUTPUT_TOKENS) {
+      errors.push(`maxTokens must be an integer between 1 and ${MAX_OUTPUT_TOKENS}`);
+    } else {
+      settings.maxTokens = update.maxTokens;
+    }
+  }
+
+  if (update.contextLength !== undefined) {
+    const modelContextLength = getModelContextLength(settings.modelName);
+    if (
+      !Number.isInteger(update.contextLength) ||
+      update.contextLength < MIN_CONTEXT_LENGTH ||
+      update.contextLength > modelContextLength
+    ) {
+      errors.push(`contextLength must be an integer between ${MIN_CONTEXT_LENGTH} and ${modelContextLength} for ${settings.modelName}`);
+    } else {
+      settings.contextLength = update.contextLength;
+    }
+  }
+
+  if (errors.length === 0 && settings.maxTokens >= settings.contextLength) {
+    errors.push('maxTokens must be less than contextLength');
+  }
+
+  return { settings, errors };
+}
+
+/**
+ * Conversation columns of the settings
+ */
+export function toConversationSettingsColumns(settings: ConversationSettings) {
+  return {
+    model_name: settings.modelName,
+    temperature: settings.temperature,
+    max_tokens: settings.maxTokens,
+    context_length: settings.contextLength
+  };
+}
@@ -3,6 +3,26 @@ import * as databaseService from '../../infrastructure/database/database.service
 import { getLangChainService } from '../ai/langchain.service';
 import { Conversation, Message } from '../../infrastructure/database/supabase.client';
 import { BaseMessage } from '@langchain/core/messages';
+import { BasicMessage } from '../../shared/types/message.types';
+import { BadRequestError, NotFoundError } from '../../shared/utils/errors';
+import { buildInterruptedToolContent, buildRejectedToolContent } from '../tools/tool-approval.utils';
+import { buildToolMessageMetadata, determineToolMessageStatus } from './message.utils';
+import {
+  ConversationSettings,
+  ConversationSettingsUpdate,
+  applyConversationSettingsUpdate,
+  getConversationSettings,
+  getDefaultConversationSettings,
+  toConversationSettingsColumns
+} from './conversation-settings.utils';
+import { getPermittedModels, validateModelEntitlement, validateUserUsageLimit } from '../plans/validation.utils';
+import { getAvailableChatModels } from '../ai/model-providers';
+import {
+  buildConversationContext,
+  buildSystemPromptWithSummary,
+  formatSummaryTranscript,
+  getHistoryTokenBudget
+} from './context-builder.utils';
 
 const langchainService = getLangChainService();
 
@@ -18,7 +38,7 @@ export async function getOrCreateConversation(
   try {
     // If conversation ID is provided and valid, try to get it
     if (conversationId) {
-      const conversation = await databaseService.getConversationById(conversationId);
+      const conversation = await databaseService.getConversationById(conversationId, userId);
 
       if (!conversation) {
         throw new Error('Conversation not found');
@@ -33,8 +53,7 @@ export async function getOrCreateConversation(
       title,
       {
         system_prompt: systemPrompt,
-        model_name: 'gpt-4o-mini', // Default model from langchain.ts
-        context_length: 200_000, // For gpt-4o-mini
+        ...toConversationSettingsColumns(getDefaultConversationSettings()),
         message_count: 0 // Initialize with zero messages
       }
     );
@@ -47,6 +66,40 @@ export async function getOrCreateConversation(
   }
 }
 
+/**
+ * Change the model and generation settings of a conversation
+ */
+export async function updateConversationSettings(
+  userId: string,
+  conversation: Conversation,
+  update: ConversationSettingsUpdate
+): Promise<ConversationSettings> {
+  try {
+    // Models that exist but are not in the user's plan are a 403, unknown models a 400
+    if (typeof update.modelName === 'string' && getAvailableChatModels().includes(update.modelName)) {
+      await validateModelEntitlement(userId, update.modelName);
+    }
+
+    const permittedModels = await getPermittedModels(userId);
+    const { settings, errors } = applyConversationSettingsUpdate(
+      getConversationSettings(conversation),
+      update,
+      permittedModels
+    );
+    if (errors.length > 0) {
+      throw new BadRequestError(errors.join('; '));
+    }
+
+    await databaseService.updateConversation(conversation.id, userId, toConversationSettingsColumns(settings));
+
+    logger.info('Updated conversation settings', { userId, conversationId: conversation.id, settings });
+    return settings;
+  } catch (error) {
+    logger.error(`Error in updateConversationSettings: ${error instanceof Error ? error.message : String(error)}`);
+    throw error; // Re-throw to allow the specific error to be handled by the route
+  }
+}
+
 /**
  * Save a message to the database
  */
@@ -87,6 +140,136 @@ export async function getConversationHistory(
   }
 }
 
+/**
+ * Convert stored messages into the history format used by the LangChain service
+ */
+function toConversationHistory(messages: Message[]): BasicMessage[] {
+  return messages.map(msg => {
+    const baseMessage = {
+      role: msg.role,
+      content: msg.content,
+    };
+    
+    // Add tool-specific fields for tool messages
+    if (msg.role === 'tool') {
+      return {
+        ...baseMessage,
+        tool_call_id: msg.tool_call_id,
+        tool_name: msg.tool_name
+      };
+    }
+
+    // Add tool-specific fields for assistant messages
+    if (msg.role === 'assistant') {
+      return {
+        ...baseMessage,
+        tool_calls: msg.tool_calls
+      };
+    }
+    
+    return baseMessage;
+  });
+}
+
+/**
+ * Fold messages that no longer fit into the context into the conversation summary.
+ * On failure the previous summary is kept and the messages are summarized on the next request.
+ */
+async function updateConversationSummary(
+  userId: string,
+  conversation: Conversation,
+  droppedMessages: Message[]
+): Promise<string | null> {
+  try {
+    const summary = await langchainService.generateConversationSummary(
+      conversation.summary,
+      formatSummaryTranscript(droppedMessages),
+      userId
+    );
+    const summarizedUntil = droppedMessages[droppedMessages.length - 1].created_at;
+
+    await databaseService.updateConversation(conversation.id, userId, {
+      summary,
+      summarized_until: summarizedUntil
+    });
+
+    logger.info('Updated conversation summary', {
+      userId,
+      conversationId: conversation.id,
+      summarizedMessages: droppedMessages.length,
+      summarizedUntil
+    });
+    return summary;
+  } catch (error) {
+    logger.warn('Failed to update conversation summary', {
+      userId,
+      conversationId: conversation.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return conversation.summary || null;
+  }
+}
+
+/**
+ * Build the history and system prompt sent to the model: messages after the summary that fit into the context length
+ */
+async function buildContext(
+  userId: string,
+  conversation: Conversation,
+  settings: ConversationSettings,
+  systemPrompt: string
+): Promise<{ history: BasicMessage[]; systemPrompt: string }> {
+  const messages = await databaseService.getRecentMessages(conversation.id, {
+    after: conversation.summarized_until
+  });
+
+  const budget = getHistoryTokenBudget(settings.contextLength, settings.maxTokens, systemPrompt);
+  const context = buildConversationContext(messages, budget);
+
+  const summary = context.droppedMessages.length > 0
+    ? await updateConversationSummary(userId, conversation, context.droppedMessages)
+    : conversation.summary;
+
+  return {
+    history: toConversationHistory(context.messages),
+    systemPrompt: buildSystemPromptWithSummary(systemPrompt, summary)
+  };
+}
+
+/**
+ * Generate the assistant response for the current conversation history
+ */
+async function generateResponseFromHistory(
+  userId: string,
+  conversationId: string,
+  systemPrompt: string,
+  stream: boolean,
+  abortSignal?: AbortSignal
+): Promise<BaseMessage[] | Response> {
+  const conversation = await databaseService.getConversationById(conversationId, userId);
+  if (!conversation) {
+    throw new NotFoundError('Conversation not found');
+  }
+  const settings = getConversationSettings(conversation);
+  const context = await buildContext(userId, conversation, settings, systemPrompt);
+  
+  // Generate response - langchain service now handles saving messages internally for both streaming and non-streaming
+  return await langchainService.generateConversationResponse(
+    context.systemPrompt,
+    context.history,
+    {
+      conversationId,
+      userId,
+      modelName: settings.modelName,
+      temperature: settings.temperature,
+      maxTokens: settings.maxTokens,
+      stream: stream,
+      includeWildberriesTools: true,
+      abortSignal
+    }
+  );
+}
+
 /**
  * Generate a response and save both user and assistant messages
  */
@@ -99,6 +282,14 @@ export async function generateAndSaveResponse(
   abortSignal?: AbortSignal
 ): Promise<{ response: BaseMessage[] | Response; conversationId: string }> {
   try {
+    const conversation = await databaseService.getConversationById(conversationId, userId);
+    if (!conversation) {
+      throw new NotFoundError('Conversation not found');
+    }
+
+    // Check the model and the credits first so that a refused request doesn't leave an unanswered message
+    await validateUserUsageLimit(userId, getConversationSettings(conversation).modelName);
+
     // Save user message
     await databaseService.createMessage(
       conversationId,
@@ -106,45 +297,12 @@ export async function generateAndSaveResponse(
       'user'
     );
     
-    // Get history
-    const messages = await databaseService.getMessagesByConversationId(conversationId);
-    const history = messages.map(msg => {
-      const baseMessage = {
-        role: msg.role,
-        content: msg.content,
-      };
-      
-      // Add tool-specific fields for tool messages
-      if (msg.role === 'tool') {
-        return {
-          ...baseMessage,
-          tool_call_id: msg.tool_call_id,
-          tool_name: msg.tool_name
-        };
-      }
-
-      // Add tool-specific fields for assistant messages
-      if (msg.role === 'assistant') {
-        return {
-          ...baseMessage,
-          tool_calls: msg.tool_calls
-        };
-      }
-      
-      return baseMessage;
-    });
-    
-    // Generate response - langchain service now handles saving messages internally for both streaming and non-streaming
-    const response = await langchainService.generateConversationResponse(
+    const response = await generateResponseFromHistory(
+      userId,
+      conversationId,
       systemPrompt,
-      history,
-      {
-        conversationId,
-        userId,
-        stream: stream,
-        includeWildberriesTools: true,
-        abortSignal
-      }
+      stream,
+      abortSignal
     ) as BaseMessage[];
     
     return {
@@ -155,4 +313,97 @@ export async function generateAndSaveResponse(
     logger.error(`Error in generateAndSaveResponse: ${error instanceof Error ? error.message : String(error)}`);
     throw error; // Re-throw to allow the specific error to be handled by the route
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Approve or reject a tool call that waits for the user's approval.
+ * An approved call is executed, a rejected one is recorded as not executed.
+ * Once no calls of the conversation are pending, the agent continues without a new user message.
+ */
+export async function resolveToolApproval(
+  userId: string,
+  conversationId: string,
+  toolCallId: string,
+  approved: boolean,
+  systemPrompt: string,
+  stream: boolean,
+  abortSignal?: AbortSignal
+): Promise<{ response: BaseMessage[] | Response | null; conversationId: string }> {
+  try {
+    const pendingMessage = await databaseService.getToolMessageByCallId(conversationId, toolCallId);
+    if (!pendingMessage) {
+      throw new NotFoundError('Tool call not found');
+    }
+    if (pendingMessage.status !== 'pending') {
+      throw new BadRequestError('Tool call is not waiting for approval');
+    }
+
+    const assistantMessage = await databaseService.getAssistantMessageByToolCallId(conversationId, toolCallId);
+    const toolCall = assistantMessage?.tool_calls?.find(call => call.id === toolCallId);
+    if (!toolCall) {
+      throw new NotFoundError('Tool call not found');
+    }
+
+    // Claim the call so that a repeated approval can't execute it twice
+    const claimed = await databaseService.claimPendingToolMessage(pendingMessage.id, approved
+      ? { content: buildInterruptedToolContent(), status: 'error' }
+      : { content: buildRejectedToolContent(), status: 'aborted' }
+    );
+    if (!claimed) {
+      throw new BadRequestError('Tool call is not waiting for approval');
+    }
+
+    if (approved) {
+      logger.info('Tool call approved by user', { userId, conversationId, toolCallId, toolName: toolCall.name });
+
+      const { executeTools } = await import('../tools/tool-execution.utils');
+      const [toolMessage] = await executeTools([toolCall], userId);
+      const content = toolMessage.content.toString();
+
+      await databaseService.updateMessage(pendingMessage.id, {
+        content,
+        status: determineToolMessageStatus(content),
+        ...(toolMessage.artifact !== undefined && {
+          metadata: { ...pendingMessage.metadata, ...buildToolMessageMetadata(toolMessage) }
+        })
+      });
+
+      // Card and price uploads finish on the marketplace later, the poller reports the outcome
+      try {
+        const { registerUploadTask } = await import('../uploads/upload-tasks.service');
+        await registerUploadTask(userId, conversationId, toolCall.name, toolCall.args, content);
+      } catch (error) {
+        logger.warn('Failed to register upload task', {
+          userId,
+          conversationId,
+          toolCallId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    } else {
+      logger.info('Tool call rejected by user', { userId, conversationId, toolCallId, toolName: toolCall.name });
+    }
+
+    // Wait until every pending call of the conversation is resolved before resuming
+    const stillPending = await databaseService.countPendingToolMessages(conversationId);
+    if (stillPending > 0) {
+      return { response: null, conversationId };
+    }
+
+    const response = await generateResponseFromHistory(
+      userId,
+      conversationId,
+      systemPrompt,
+      stream,
+      abortSignal
+    );
+
+    return {
+      response,
+      conversationId
+    };
+  } catch (error) {
+    logger.error(`Error in resolveToolApproval: ${error instanceof Error ? error.message : String(error)}`);
+    throw error; // Re-throw to allow the specific error to be handled by the route
+  }
+}
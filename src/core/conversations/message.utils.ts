@@ -48,6 +48,13 @@ export function determineToolMessageStatus(content: string): 'success' | 'error'
   }
 }
 
+/**
+ * Metadata of a tool message: the full tool result when the content sent to the model was shortened
+ */
+export function buildToolMessageMetadata(toolMessage: ToolMessage): Record<string, any> | undefined {
+  return toolMessage.artifact !== undefined ? { toolResult: toolMessage.artifact } : undefined;
+}
+
 export async function saveMessage(options: SaveMessageOptions): Promise<void> {
   const { createMessage } = await import('../../infrastructure/database/database.service');
   await createMessage(
@@ -0,0 +1,149 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import crypto from 'crypto';
+import { getSupabaseClient, ProductMedia } from '../../infrastructure/database/supabase.client';
+import logger from '../../shared/utils/logger';
+import { getMediaTypeByContentType, validateMediaFile } from './media.utils';
+
+// Public storage bucket, marketplaces download the files by their public URLs
+const MEDIA_BUCKET = 'product-media';
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov'
+};
+
+export interface UploadMediaData {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+/**
+ * Service for product photos and videos uploaded by users
+ */
+export class MediaService {
+  private supabase: SupabaseClient;
+
+  constructor() {
+    this.supabase = getSupabaseClient();
+  }
+
+  /**
+   * Validate a media file, store it in the bucket and save its record
+   */
+  async uploadMedia(userId: string, file: UploadMediaData): Promise<ProductMedia> {
+    const validationError = validateMediaFile(file.contentType, file.data.length);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const contentType = file.contentType.split(';')[0].trim().toLowerCase();
+    const storagePath = `${userId}/${crypto.randomUUID()}.${FILE_EXTENSIONS[contentType]}`;
+
+    try {
+      const { error: uploadError } = await this.supabase.storage
+        .from(MEDIA_BUCKET)
+        .upload(storagePath, file.data, { contentType, upsert: false });
+
+      if (uploadError) {
+        logger.error('Failed to upload media file', {
+          error: uploadError.message,
+          userId,
+          fileName: file.fileName
+        });
+        throw new Error(`Failed to upload media file: ${uploadError.message}`);
+      }
+
+      const { data: { publicUrl } } = this.supabase.storage.from(MEDIA_BUCKET).getPublicUrl(storagePath);
+
+      const { data, error } = await this.supabase
+        .from('product_media')
+        .insert({
+          user_id: userId,
+          file_name: file.fileName,
+          content_type: contentType,
+          media_type: getMediaTypeByContentType(contentType),
+          size_bytes: file.data.length,
+          storage_path: storagePath,
+          public_url: publicUrl
+        })
+        .select()
+        .single();
+
+      if (error) {
+        logger.error('Failed to save media record', {
+          error: error.message,
+          userId,
+          storagePath
+        });
+        throw new Error(`Failed to save media: ${error.message}`);
+      }
+
+      logger.info('Media file uploaded successfully', {
+        userId,
+        mediaId: data.id,
+        sizeBytes: file.data.length
+      });
+
+      return data;
+    } catch (error) {
+      logger.error('Error uploading media file', {
+        error: error instanceof Error ? error.message : String(error),
+        userId,
+        fileName: file.fileName
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the media files of a user, newest first
+   */
+  async getUserMedia(userId: string): Promise<ProductMedia[]> {
+    const { data, error } = await this.supabase
+      .from('product_media')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('Failed to get user media', {
+        error: error.message,
+        userId
+      });
+      throw new Error(`Failed to retrieve media: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get media files of a user by their ids. Ids of other users' files are not returned.
+   */
+  async getMediaByIds(userId: string, mediaIds: string[]): Promise<ProductMedia[]> {
+    if (mediaIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.supabase
+      .from('product_media')
+      .select('*')
+      .eq('user_id', userId)
+      .in('id', mediaIds);
+
+    if (error) {
+      logger.error('Failed to get media by ids', {
+        error: error.message,
+        userId
+      });
+      throw new Error(`Failed to retrieve media: ${error.message}`);
+    }
+
+    return data || [];
+  }
+}
+
+export const mediaService = new MediaService();
@@ -0,0 +1,147 @@
+/**
+ * Formats and limits of product media accepted by the marketplaces.
+ * Based on: https://dev.wildberries.ru/openapi/work-with-products#tag/Mediafajly
+ */
+
+export type MediaType = 'photo' | 'video';
+
+export const MEDIA_FORMATS: Record<MediaType, { contentTypes: string[]; extensions: string[]; maxBytes: number }> = {
+  photo: {
+    contentTypes: ['image/jpeg', 'image/png', 'image/webp'],
+    extensions: ['jpg', 'jpeg', 'png', 'webp'],
+    maxBytes: 32 * 1024 * 1024
+  },
+  video: {
+    contentTypes: ['video/mp4', 'video/quicktime'],
+    extensions: ['mp4', 'mov'],
+    maxBytes: 50 * 1024 * 1024
+  }
+};
+
+export const MEDIA_CONTENT_TYPES = [...MEDIA_FORMATS.photo.contentTypes, ...MEDIA_FORMATS.video.contentTypes];
+
+// Limits of one product card
+export const MAX_CARD_PHOTOS = 30;
+export const MAX_CARD_VIDEOS = 1;
+
+export function getMediaTypeByContentType(contentType: string): MediaType | null {
+  const normalized = contentType.split(';')[0].trim().toLowerCase();
+  if (MEDIA_FORMATS.photo.contentTypes.includes(normalized)) return 'photo';
+  if (MEDIA_FORMATS.video.contentTypes.includes(normalized)) return 'video';
+  return null;
+}
+
+export function getMediaTypeByUrl(url: string): MediaType | null {
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    return null;
+  }
+
+  const extension = pathname.split('.').pop()?.toLowerCase() || '';
+  if (MEDIA_FORMATS.photo.extensions.includes(extension)) return 'photo';
+  if (MEDIA_FORMATS.video.extensions.includes(extension)) return 'video';
+  return null;
+}
+
+/**
+ * Validate an uploaded file, returns the error message or null
+ */
+export function validateMediaFile(contentType: string, sizeBytes: number): string | null {
+  const mediaType = getMediaTypeByContentType(contentType);
+  if (!mediaType) {
+    return `Unsupported media format ${contentType}. Allowed formats: ${MEDIA_CONTENT_TYPES.join(', ')}`;
+  }
+  if (sizeBytes === 0) {
+    return 'Media file is empty';
+  }
+  if (sizeBytes > MEDIA_FORMATS[mediaType].maxBytes) {
+    return `The ${mediaType} is too large: ${sizeBytes} bytes, at most ${MEDIA_FORMATS[mediaType].maxBytes} bytes are allowed`;
+  }
+  return null;
+}
+
+/**
+ * Validate the media list of a product card: public https links in allowed formats within the card limits
+ */
+export function validateCardMediaUrls(urls: string[]): string[] {
+  const errors: string[] = [];
+  let photos = 0;
+  let videos = 0;
+
+  for (const url of urls) {
+    if (!/^https:\/\//i.test(url)) {
+      errors.push(`${url} is not a public https link`);
+      continue;
+    }
+
+    const mediaType = getMediaTypeByUrl(url);
+    if (!mediaType) {
+      errors.push(`${url} has an unsupported format. Allowed formats: ${[...MEDIA_FORMATS.photo.extensions, ...MEDIA_FORMATS.video.extensions].join(', ')}`);
+      continue;
+    }
+    if (mediaType === 'photo') photos++;
+    if (mediaType === 'video') videos++;
+  }
+
+  if (new Set(urls).size !== urls.length) {
+    errors.push('The same media link is listed more than once');
+  }
+  if (photos > MAX_CARD_PHOTOS) {
+    errors.push(`A card can have at most ${MAX_CARD_PHOTOS} photos, got ${photos}`);
+  }
+  if (videos > MAX_CARD_VIDEOS) {
+    errors.push(`A card can have at most ${MAX_CARD_VIDEOS} video, got ${videos}`);
+  }
+
+  return errors;
+}
+
+// Atoms a QuickTime file may start with, MP4 files always start with ftyp
+const QUICKTIME_ATOMS = ['ftyp', 'moov', 'mdat', 'wide', 'free', 'skip'];
+
+/**
+ * Check that the leading bytes of a file match its declared content type
+ */
+export function matchesMediaSignature(contentType: string, data: Buffer): boolean {
+  const normalized = contentType.split(';')[0].trim().toLowerCase();
+  const ascii = (start: number, end: number) => data.toString('latin1', start, end);
+
+  switch (normalized) {
+    case 'image/jpeg':
+      return data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff;
+    case 'image/png':
+      return data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    case 'image/webp':
+      return ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP';
+    case 'video/mp4':
+      return ascii(4, 8) === 'ftyp';
+    case 'video/quicktime':
+      return QUICKTIME_ATOMS.includes(ascii(4, 8));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Add media to the current media of a card. Photos already on the card keep their order,
+ * a new video replaces the current one.
+ */
+export function mergeCardMedia(
+  current: { photos: string[]; video?: string },
+  added: string[],
+  position: 'start' | 'end'
+): { media: string[]; photosCount: number } {
+  const addedVideo = added.find(url => getMediaTypeByUrl(url) === 'video');
+  const addedPhotos = added.filter(url => url !== addedVideo);
+  const keptPhotos = current.photos.filter(url => !added.includes(url));
+
+  const photos = position === 'start' ? [...addedPhotos, ...keptPhotos] : [...keptPhotos, ...addedPhotos];
+  const video = addedVideo || current.video;
+
+  return {
+    media: video ? [...photos, video] : photos,
+    photosCount: photos.length
+  };
+}
@@ -0,0 +1,99 @@
+import logger from '../../shared/utils/logger';
+import { checkUserDailyUsage } from './user-plans.service';
+import { formatCreditLimitMessage } from './validation.utils';
+
+// Model calls an agent run may make within its reservation: the answer and a few tool rounds
+export const RESERVED_MODEL_CALLS = 5;
+
+/**
+ * Credits set aside for one agent run. The actual cost of every model call is recorded against it
+ * and the run stops once the next call would not fit.
+ */
+export class CreditReservation {
+  private spent = 0;
+  private released = false;
+  exhausted = false; // The run was stopped because the budget was exhausted
+
+  constructor(readonly userId: string, readonly reserved: number) {}
+
+  /**
+   * Record the actual cost of a model call
+   */
+  record(cost: number): void {
+    this.spent += cost;
+  }
+
+  canAfford(cost: number): boolean {
+    return this.spent + cost <= this.reserved;
+  }
+
+  getSpent(): number {
+    return this.spent;
+  }
+
+  /**
+   * Credits reserved but not spent yet. They are not available to other runs of the user.
+   */
+  getOutstanding(): number {
+    return this.released ? 0 : Math.max(this.reserved - this.spent, 0);
+  }
+
+  release(): void {
+    if (this.released) return;
+    this.released = true;
+    const userReservations = reservations.get(this.userId);
+    userReservations?.delete(this);
+    if (userReservations?.size === 0) {
+      reservations.delete(this.userId);
+    }
+
+    logger.info('Released credit reservation', {
+      userId: this.userId,
+      reserved: this.reserved,
+      spent: this.spent,
+      exhausted: this.exhausted
+    });
+  }
+}
+
+// Reservations of the runs in progress, shared by all requests of the process
+const reservations = new Map<string, Set<CreditReservation>>();
+
+export function getReservedCredits(userId: string): number {
+  return Array.from(reservations.get(userId) || [])
+    .reduce((total, reservation) => total + reservation.getOutstanding(), 0);
+}
+
+/**
+ * Reserve credits for an agent run against the remaining daily and monthly credits of the user.
+ * Fails when the credits left after the other runs in progress don't cover the first model call.
+ */
+export async function reserveCredits(userId: string, estimatedCallCost: number): Promise<CreditReservation> {
+  const usageCheck = await checkUserDailyUsage(userId);
+  if (usageCheck.hasReachedLimit) {
+    throw new Error(formatCreditLimitMessage(usageCheck));
+  }
+
+  const available = Math.min(usageCheck.remainingDailyCredits, usageCheck.remainingMonthlyCredits) - getReservedCredits(userId);
+  if (available < estimatedCallCost) {
+    throw new Error(
+      `Not enough credits for this request. Estimated cost: $${estimatedCallCost.toFixed(4)}, ` +
+      `available: $${Math.max(available, 0).toFixed(4)}. Next reset: ${usageCheck.nextResetDate}`
+    );
+  }
+
+  const reservation = new CreditReservation(userId, Math.min(estimatedCallCost * RESERVED_MODEL_CALLS, available));
+  if (!reservations.has(userId)) {
+    reservations.set(userId, new Set());
+  }
+  reservations.get(userId)!.add(reservation);
+
+  logger.info('Reserved credits', {
+    userId,
+    estimatedCallCost,
+    reserved: reservation.reserved,
+    available
+  });
+
+  return reservation;
+}
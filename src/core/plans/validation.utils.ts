@@ -1,4 +1,7 @@
-import { checkUserDailyUsage } from "./user-plans.service";
+import { checkUserDailyUsage, getUserPlan } from "./user-plans.service";
+import { getAvailableChatModels } from "../ai/model-providers";
+import { getPlanDetails, getPlanModels } from "../../config/plans.config";
+import { ModelNotEntitledError } from "../../shared/utils/errors";
 
 export interface UsageLimitResult {
   hasReachedLimit: boolean;
@@ -7,15 +10,50 @@ export interface UsageLimitResult {
   nextResetDate: string;
 }
 
-export async function validateUserUsageLimit(userId?: string): Promise<void> {
+/**
+ * Check the user's credit limit and, when a model is given, that the user's plan includes it
+ */
+export async function validateUserUsageLimit(userId?: string, modelName?: string): Promise<void> {
   if (!userId) return;
+
+  if (modelName) {
+    await validateModelEntitlement(userId, modelName);
+  }
   
   const usageCheck = await checkUserDailyUsage(userId);
   if (usageCheck.hasReachedLimit) {
-    throw new Error(
-      `Credit limit reached. Daily limit: $${usageCheck.dailyLimitCredits.toFixed(2)}, ` +
-      `Monthly limit: $${usageCheck.monthlyLimitCredits.toFixed(2)}. ` +
-      `Next reset: ${usageCheck.nextResetDate}`
-    );
+    throw new Error(formatCreditLimitMessage(usageCheck));
+  }
+}
+
+export function formatCreditLimitMessage(usageCheck: UsageLimitResult): string {
+  return `Credit limit reached. Daily limit: $${usageCheck.dailyLimitCredits.toFixed(2)}, ` +
+    `Monthly limit: $${usageCheck.monthlyLimitCredits.toFixed(2)}. ` +
+    `Next reset: ${usageCheck.nextResetDate}`;
+}
+
+/**
+ * Models of a plan that can be used, i.e. whose provider is configured
+ */
+export function getPlanPermittedModels(planName?: string | null): string[] {
+  const planModels = getPlanModels(planName);
+  return getAvailableChatModels().filter(modelName => planModels.includes(modelName));
+}
+
+/**
+ * Models the user may choose for a conversation
+ */
+export async function getPermittedModels(userId: string): Promise<string[]> {
+  const plan = await getUserPlan(userId);
+  return getPlanPermittedModels(plan?.plan_name);
+}
+
+/**
+ * Throw ModelNotEntitledError when the user's plan doesn't include the model
+ */
+export async function validateModelEntitlement(userId: string, modelName: string): Promise<void> {
+  const plan = await getUserPlan(userId);
+  if (!getPlanModels(plan?.plan_name).includes(modelName)) {
+    throw new ModelNotEntitledError(modelName, getPlanDetails(plan?.plan_name).name, getPlanPermittedModels(plan?.plan_name));
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,172 @@
+import logger from '../../shared/utils/logger';
+import * as databaseService from '../../infrastructure/database/database.service';
+import { PriceHistoryEntry } from '../../infrastructure/database/supabase.client';
+import { MarketplaceClient } from '../../infrastructure/marketplaces';
+import {
+  buildPriceDiff,
+  checkPriceGuardrails,
+  CurrentPrice,
+  PriceChange,
+  PriceChangeError,
+  PriceDiff,
+  PriceUpload,
+  splitIntoBatches,
+  SubmitPriceChangesResult,
+  validatePriceChanges
+} from './prices.utils';
+
+// Goods per page of /api/v2/list/goods/filter and the page limit of a full scan
+const GOODS_PAGE_SIZE = 1000;
+const MAX_GOODS_PAGES = 100;
+
+/**
+ * Fetch the current prices and discounts of all goods of the seller
+ * Based on: https://dev.wildberries.ru/openapi/work-with-products#tag/Ceny-i-skidki/paths/~1api~1v2~1list~1goods~1filter/get
+ */
+export async function fetchCurrentPrices(userId: string, client: MarketplaceClient): Promise<Map<number, CurrentPrice>> {
+  const prices = new Map<number, CurrentPrice>();
+
+  for (let page = 0; page < MAX_GOODS_PAGES; page++) {
+    const response = await client.request({
+      method: 'GET',
+      category: 'prices',
+      path: '/api/v2/list/goods/filter',
+      params: { limit: GOODS_PAGE_SIZE, offset: page * GOODS_PAGE_SIZE }
+    });
+
+    const goods: any[] = response.data?.data?.listGoods || [];
+    for (const item of goods) {
+      prices.set(item.nmID, {
+        nmID: item.nmID,
+        ...(item.vendorCode && { vendorCode: item.vendorCode }),
+        price: item.sizes?.[0]?.price ?? 0,
+        discount: item.discount ?? 0
+      });
+    }
+
+    if (goods.length < GOODS_PAGE_SIZE) break;
+  }
+
+  logger.info('Fetched Wildberries current prices', {
+    userId,
+    goodsCount: prices.size
+  });
+
+  return prices;
+}
+
+/**
+ * Validate price changes against the current prices and the seller's pricing guardrails, then submit
+ * the changed goods in upload tasks of the maximum size and record them in the price history.
+ * Nothing is submitted if any change is invalid or in dry run mode. The current prices are fetched
+ * unless the caller has them already.
+ */
+export async function submitPriceChanges(
+  userId: string,
+  client: MarketplaceClient,
+  changes: Array<PriceChange & { row?: number }>,
+  options: { dryRun?: boolean; source: PriceHistoryEntry['source']; currentPrices?: Map<number, CurrentPrice> }
+): Promise<SubmitPriceChangesResult> {
+  const dryRun = options.dryRun ?? false;
+  const current = options.currentPrices ?? await fetchCurrentPrices(userId, client);
+
+  const errors = validatePriceChanges(changes, current);
+  const diff = buildPriceDiff(changes, current);
+
+  const guardrails = await databaseService.getPricingGuardrails(userId);
+  if (guardrails) {
+    const rows = new Map(changes.map(change => [change.nmID, change.row]));
+    errors.push(...checkPriceGuardrails(diff, guardrails).map(error => ({
+      ...(rows.get(error.nmID!) !== undefined && { row: rows.get(error.nmID!) }),
+      ...error
+    })));
+  }
+
+  if (errors.length > 0 || dryRun || diff.length === 0) {
+    return { dryRun, errors, diff, uploads: [] };
+  }
+
+  const uploads: PriceUpload[] = [];
+  const batches = splitIntoBatches(diff);
+  for (const [index, batch] of batches.entries()) {
+    const requestBody = {
+      data: batch.map(item => ({ nmID: item.nmID, price: item.newPrice, discount: item.newDiscount }))
+    };
+
+    logger.info('Making Wildberries Products Price API request', {
+      userId,
+      endpoint: '/api/v2/upload/task',
+      goodsCount: batch.length
+    });
+
+    let response;
+    try {
+      response = await client.request({
+        method: 'POST',
+        category: 'prices',
+        path: '/api/v2/upload/task',
+        body: requestBody
+      });
+    } catch (error) {
+      // Earlier batches are already submitted, they are returned with the failed and the remaining ones
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Wildberries price upload failed', { userId, batch: index + 1, batchesCount: batches.length, error: message });
+
+      uploads.push({ count: batch.length, error: message });
+      for (const remaining of batches.slice(index + 1)) {
+        uploads.push({ count: remaining.length, error: 'Not submitted because an earlier upload failed' });
+      }
+      break;
+    }
+
+    const upload: PriceUpload = {
+      count: batch.length,
+      ...(response.data?.data?.id !== undefined && { uploadID: response.data.data.id }),
+      ...(response.data?.data?.alreadyExists !== undefined && { alreadyExists: response.data.data.alreadyExists }),
+      ...(response.data?.error && { error: response.data.errorText || 'Wildberries rejected the upload' })
+    };
+    uploads.push(upload);
+
+    if (!upload.error) {
+      await recordPriceHistory(userId, batch, options.source, upload.uploadID);
+    }
+  }
+
+  logger.info('Wildberries price changes submitted', {
+    userId,
+    source: options.source,
+    goodsCount: diff.length,
+    uploadsCount: uploads.length
+  });
+
+  return { dryRun, errors, diff, uploads };
+}
+
+// The prices are already submitted, a failed history write must not fail the operation
+async function recordPriceHistory(
+  userId: string,
+  batch: PriceDiff[],
+  source: PriceHistoryEntry['source'],
+  uploadID?: number
+): Promise<void> {
+  try {
+    await databaseService.createPriceHistoryEntries(batch.map(item => ({
+      user_id: userId,
+      service: 'wildberries',
+      nm_id: item.nmID,
+      vendor_code: item.vendorCode ?? null,
+      old_price: item.oldPrice,
+      new_price: item.newPrice,
+      old_discount: item.oldDiscount,
+      new_discount: item.newDiscount,
+      source,
+      upload_id: uploadID ?? null
+    })));
+  } catch (error) {
+    logger.error('Failed to record price history', {
+      userId,
+      uploadID,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
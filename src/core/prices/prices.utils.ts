@@ -0,0 +1,252 @@
+import { PricingGuardrails } from '../../infrastructure/database/supabase.client';
+import { CSV_CONTENT_TYPES, parseCsv, parseXlsx, XLSX_CONTENT_TYPES } from '../../shared/utils/spreadsheet.utils';
+
+/**
+ * Validation and diff of Wildberries price and discount changes
+ * Based on: https://dev.wildberries.ru/openapi/work-with-products#tag/Ceny-i-skidki/paths/~1api~1v2~1upload~1task/post
+ */
+
+// Goods per upload task
+export const MAX_PRICE_CHANGES_PER_UPLOAD = 1000;
+// Largest accepted price file
+export const MAX_PRICE_FILE_BYTES = 5 * 1024 * 1024;
+export const PRICE_FILE_CONTENT_TYPES = [...CSV_CONTENT_TYPES, ...XLSX_CONTENT_TYPES];
+// Wildberries rejects a discounted price that is 3 or more times lower than the current one
+export const MAX_PRICE_DECREASE_RATIO = 3;
+
+export interface PriceChange {
+  nmID: number;
+  price?: number;
+  discount?: number;
+}
+
+export interface CurrentPrice {
+  nmID: number;
+  vendorCode?: string;
+  price: number;
+  discount: number;
+}
+
+export interface PriceChangeError {
+  row?: number; // Row of the imported file, counting the header
+  nmID?: number;
+  error: string;
+}
+
+export interface PriceDiff {
+  nmID: number;
+  vendorCode?: string;
+  oldPrice: number;
+  newPrice: number;
+  oldDiscount: number;
+  newDiscount: number;
+  oldDiscountedPrice: number;
+  newDiscountedPrice: number;
+}
+
+export interface PriceUpload {
+  count: number;
+  uploadID?: number;
+  alreadyExists?: boolean;
+  error?: string;
+}
+
+export interface SubmitPriceChangesResult {
+  dryRun: boolean;
+  errors: PriceChangeError[];
+  diff: PriceDiff[];
+  uploads: PriceUpload[];
+}
+
+const COLUMN_ALIASES: Record<keyof PriceChange, string[]> = {
+  nmID: ['nmid', 'nm_id', 'nm id', 'артикул wb', 'артикул'],
+  price: ['price', 'new price', 'цена', 'новая цена'],
+  discount: ['discount', 'new discount', 'скидка', 'новая скидка']
+};
+
+export function getDiscountedPrice(price: number, discount: number): number {
+  return Math.round(price * (100 - discount) / 100);
+}
+
+function parseNumber(value: string): number | undefined {
+  const normalized = value.replace(/\s/g, '').replace(',', '.').replace(/%$/, '');
+  return normalized === '' ? undefined : Number(normalized);
+}
+
+/**
+ * Read the rows of an uploaded CSV or XLSX price file
+ */
+export function readPriceFileRows(contentType: string, data: Buffer): string[][] {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  if (XLSX_CONTENT_TYPES.includes(type)) {
+    return parseXlsx(data);
+  }
+  if (CSV_CONTENT_TYPES.includes(type)) {
+    return parseCsv(data.toString('utf8'));
+  }
+  throw new Error(`Unsupported file type "${type}", upload a CSV or XLSX file`);
+}
+
+/**
+ * Read price changes from spreadsheet rows. The first row is the header with nmID and price and/or discount columns.
+ */
+export function parsePriceRows(rows: string[][]): { changes: Array<PriceChange & { row: number }>; errors: PriceChangeError[] } {
+  if (rows.length === 0) {
+    return { changes: [], errors: [{ error: 'The file is empty' }] };
+  }
+
+  const header = rows[0].map(value => value.trim().toLowerCase());
+  const columns = Object.fromEntries(
+    (Object.keys(COLUMN_ALIASES) as Array<keyof PriceChange>).map(key => [key, header.findIndex(name => COLUMN_ALIASES[key].includes(name))])
+  ) as Record<keyof PriceChange, number>;
+
+  if (columns.nmID < 0 || (columns.price < 0 && columns.discount < 0)) {
+    return { changes: [], errors: [{ error: 'The file needs an nmID column and a price or discount column' }] };
+  }
+
+  const changes: Array<PriceChange & { row: number }> = [];
+  const errors: PriceChangeError[] = [];
+
+  rows.slice(1).forEach((values, index) => {
+    const row = index + 2;
+    const nmID = parseNumber(values[columns.nmID] || '');
+    const price = columns.price >= 0 ? parseNumber(values[columns.price] || '') : undefined;
+    const discount = columns.discount >= 0 ? parseNumber(values[columns.discount] || '') : undefined;
+
+    if (nmID === undefined || !Number.isInteger(nmID) || nmID < 1) {
+      errors.push({ row, error: `Invalid nmID "${values[columns.nmID] || ''}"` });
+      return;
+    }
+    if (price === undefined && discount === undefined) {
+      errors.push({ row, nmID, error: 'Neither price nor discount is set' });
+      return;
+    }
+
+    changes.push({
+      row,
+      nmID,
+      ...(price !== undefined && { price }),
+      ...(discount !== undefined && { discount })
+    });
+  });
+
+  return { changes, errors };
+}
+
+/**
+ * Validate changes against the current prices: known goods, whole prices, discounts of 0-99%
+ * and no discounted price 3 or more times lower than the current one
+ */
+export function validatePriceChanges(
+  changes: Array<PriceChange & { row?: number }>,
+  current: Map<number, CurrentPrice>
+): PriceChangeError[] {
+  const errors: PriceChangeError[] = [];
+  const seen = new Set<number>();
+
+  for (const change of changes) {
+    const position = { ...(change.row !== undefined && { row: change.row }), nmID: change.nmID };
+
+    if (seen.has(change.nmID)) {
+      errors.push({ ...position, error: 'The product is listed more than once' });
+      continue;
+    }
+    seen.add(change.nmID);
+
+    if (change.price !== undefined && (!Number.isInteger(change.price) || change.price < 1)) {
+      errors.push({ ...position, error: 'Price must be a whole number of rubles greater than 0' });
+      continue;
+    }
+    if (change.discount !== undefined && (!Number.isInteger(change.discount) || change.discount < 0 || change.discount > 99)) {
+      errors.push({ ...position, error: 'Discount must be a whole number from 0 to 99' });
+      continue;
+    }
+
+    const currentPrice = current.get(change.nmID);
+    if (!currentPrice) {
+      errors.push({ ...position, error: 'The product was not found among your goods' });
+      continue;
+    }
+
+    const oldDiscountedPrice = getDiscountedPrice(currentPrice.price, currentPrice.discount);
+    const newDiscountedPrice = getDiscountedPrice(change.price ?? currentPrice.price, change.discount ?? currentPrice.discount);
+    if (newDiscountedPrice * MAX_PRICE_DECREASE_RATIO <= oldDiscountedPrice) {
+      errors.push({
+        ...position,
+        error: `The price with discount ${newDiscountedPrice} is ${MAX_PRICE_DECREASE_RATIO} or more times lower than the current ${oldDiscountedPrice}`
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Changes compared to the current prices, goods whose price and discount stay the same are left out
+ */
+export function buildPriceDiff(changes: PriceChange[], current: Map<number, CurrentPrice>): PriceDiff[] {
+  return changes.flatMap(change => {
+    const currentPrice = current.get(change.nmID);
+    if (!currentPrice) return [];
+
+    const newPrice = change.price ?? currentPrice.price;
+    const newDiscount = change.discount ?? currentPrice.discount;
+    if (newPrice === currentPrice.price && newDiscount === currentPrice.discount) return [];
+
+    return [{
+      nmID: change.nmID,
+      ...(currentPrice.vendorCode && { vendorCode: currentPrice.vendorCode }),
+      oldPrice: currentPrice.price,
+      newPrice,
+      oldDiscount: currentPrice.discount,
+      newDiscount,
+      oldDiscountedPrice: getDiscountedPrice(currentPrice.price, currentPrice.discount),
+      newDiscountedPrice: getDiscountedPrice(newPrice, newDiscount)
+    }];
+  });
+}
+
+export type PriceGuardrailRules = Pick<PricingGuardrails, 'min_price' | 'max_price' | 'max_change_percent' | 'forbidden_nm_ids'>;
+
+/**
+ * Check changed goods against the seller's guardrails. Limits apply to the price with discount,
+ * the change is measured against the current price with discount.
+ */
+export function checkPriceGuardrails(diff: PriceDiff[], guardrails: PriceGuardrailRules): PriceChangeError[] {
+  const forbidden = new Set(guardrails.forbidden_nm_ids.map(Number));
+  const errors: PriceChangeError[] = [];
+
+  for (const item of diff) {
+    if (forbidden.has(item.nmID)) {
+      errors.push({ nmID: item.nmID, error: 'Price changes are forbidden for this product by your pricing rules' });
+      continue;
+    }
+    if (guardrails.min_price !== null && item.newDiscountedPrice < guardrails.min_price) {
+      errors.push({ nmID: item.nmID, error: `The price with discount ${item.newDiscountedPrice} is below your minimum price ${guardrails.min_price}` });
+      continue;
+    }
+    if (guardrails.max_price !== null && item.newDiscountedPrice > guardrails.max_price) {
+      errors.push({ nmID: item.nmID, error: `The price with discount ${item.newDiscountedPrice} is above your maximum price ${guardrails.max_price}` });
+      continue;
+    }
+    if (guardrails.max_change_percent !== null && item.oldDiscountedPrice > 0) {
+      const changePercent = Math.abs(item.newDiscountedPrice - item.oldDiscountedPrice) / item.oldDiscountedPrice * 100;
+      if (changePercent > Number(guardrails.max_change_percent)) {
+        errors.push({
+          nmID: item.nmID,
+          error: `The price with discount changes by ${changePercent.toFixed(1)}%, your pricing rules allow at most ${guardrails.max_change_percent}%`
+        });
+      }
+    }
+  }
+
+  return errors;
+}
+
+export function splitIntoBatches<T>(items: T[], size: number = MAX_PRICE_CHANGES_PER_UPLOAD): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
@@ -0,0 +1,225 @@
+import logger from '../../shared/utils/logger';
+import * as databaseService from '../../infrastructure/database/database.service';
+import { RepricingRule, RepricingRun } from '../../infrastructure/database/supabase.client';
+import { MarketplaceClient } from '../../infrastructure/marketplaces';
+import { fetchCurrentPrices, submitPriceChanges } from '../prices/prices.service';
+import { CurrentPrice } from '../prices/prices.utils';
+import { fetchWildberriesStatistics, getWildberriesClient } from '../tools/wildberries.service';
+import { buildStockCoverReport, STOCKS_DATE_FROM, WildberriesStockRecord } from '../tools/product/inventory.utils';
+import { filterByDateRange, WildberriesOrderRecord } from '../tools/statistics/statistics.utils';
+import {
+  buildRepricingProducts,
+  evaluateRepricingRule,
+  getRepricingRunStatus,
+  REPRICING_SALES_PERIOD_DAYS,
+  RepricingProduct
+} from './repricing.utils';
+
+export const REPRICING_SCHEDULER_INTERVAL_MS = 5 * 60 * 1000;
+
+interface RepricingData {
+  client: MarketplaceClient;
+  current: Map<number, CurrentPrice>;
+  products: RepricingProduct[];
+}
+
+/**
+ * Load the current prices, FBO stock and recent orders of the seller's goods
+ */
+async function loadRepricingData(userId: string, client: MarketplaceClient, now: Date): Promise<RepricingData> {
+  const dateFrom = new Date(now.getTime() - REPRICING_SALES_PERIOD_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  const current = await fetchCurrentPrices(userId, client);
+  const stocks = await fetchWildberriesStatistics<WildberriesStockRecord>(
+    userId, client, '/api/v1/supplier/stocks', STOCKS_DATE_FROM
+  );
+  const orders = await fetchWildberriesStatistics<WildberriesOrderRecord>(
+    userId, client, '/api/v1/supplier/orders', dateFrom
+  );
+
+  const soldNmIds = filterByDateRange(orders, dateFrom)
+    .filter(order => !order.isCancel)
+    .map(order => order.nmId);
+  const cover = buildStockCoverReport(stocks, soldNmIds, REPRICING_SALES_PERIOD_DAYS, REPRICING_SALES_PERIOD_DAYS);
+
+  return { client, current, products: buildRepricingProducts(current, cover) };
+}
+
+async function recordFailedRun(
+  rule: RepricingRule,
+  trigger: RepricingRun['trigger'],
+  dryRun: boolean,
+  error: string
+): Promise<RepricingRun> {
+  logger.warn('Repricing rule run failed', { ruleId: rule.id, userId: rule.user_id, error });
+
+  return databaseService.createRepricingRun({
+    rule_id: rule.id,
+    user_id: rule.user_id,
+    trigger,
+    dry_run: dryRun,
+    status: 'failed',
+    changes: [],
+    errors: [{ error }],
+    upload_ids: []
+  });
+}
+
+/**
+ * Evaluate a rule and submit its price changes through the same path as the price tool.
+ * Every run is recorded in the audit log, including dry runs and runs that changed nothing.
+ * @param data - Prices, stock and sales already loaded for other rules of the user, updated with the applied changes
+ */
+export async function runRepricingRule(
+  rule: RepricingRule,
+  options: { trigger: RepricingRun['trigger']; dryRun?: boolean; now?: Date; data?: RepricingData }
+): Promise<RepricingRun> {
+  const dryRun = options.dryRun ?? rule.dry_run;
+
+  let data = options.data;
+  let result: Awaited<ReturnType<typeof submitPriceChanges>>;
+  try {
+    if (!data) {
+      const client = await getWildberriesClient(rule.user_id);
+      if (!client) {
+        return recordFailedRun(rule, options.trigger, dryRun, 'No Wildberries API key found');
+      }
+      data = await loadRepricingData(rule.user_id, client, options.now || new Date());
+    }
+
+    const changes = evaluateRepricingRule(rule, data.products);
+    result = await submitPriceChanges(rule.user_id, data.client, changes, {
+      dryRun,
+      source: 'repricing',
+      currentPrices: data.current
+    });
+  } catch (error) {
+    return recordFailedRun(rule, options.trigger, dryRun, error instanceof Error ? error.message : String(error));
+  }
+
+  const status = getRepricingRunStatus(result);
+
+  // Later rules of the same pass see the prices this rule set
+  if (status === 'applied') {
+    for (const item of result.diff) {
+      const price = data.current.get(item.nmID)!;
+      price.price = item.newPrice;
+      price.discount = item.newDiscount;
+    }
+  }
+
+  const runFields: Omit<RepricingRun, 'id' | 'created_at'> = {
+    rule_id: rule.id,
+    user_id: rule.user_id,
+    trigger: options.trigger,
+    dry_run: dryRun,
+    status,
+    changes: result.diff,
+    errors: [
+      ...result.errors,
+      ...result.uploads.filter(upload => upload.error).map(upload => ({ error: upload.error! }))
+    ],
+    upload_ids: result.uploads.flatMap(upload => upload.uploadID !== undefined ? [upload.uploadID] : [])
+  };
+
+  logger.info('Repricing rule run finished', {
+    ruleId: rule.id,
+    userId: rule.user_id,
+    trigger: options.trigger,
+    status,
+    changesCount: result.diff.length
+  });
+
+  // Prices may already be changed, so a failed insert must not turn the run into a failed one
+  try {
+    return await databaseService.createRepricingRun(runFields);
+  } catch (error) {
+    logger.error('Failed to record repricing run', {
+      ...runFields,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return { ...runFields, id: '', created_at: (options.now || new Date()).toISOString() };
+  }
+}
+
+/**
+ * Run the active rules that are due. The data of a user is loaded once for all of their rules.
+ * @returns Number of rules that ran
+ */
+export async function processDueRepricingRules(now: Date = new Date()): Promise<number> {
+  const rules = await databaseService.getDueRepricingRules(now);
+  const rulesByUser = new Map<string, RepricingRule[]>();
+  for (const rule of rules) {
+    rulesByUser.set(rule.user_id, [...(rulesByUser.get(rule.user_id) || []), rule]);
+  }
+
+  for (const [userId, userRules] of rulesByUser) {
+    let data: RepricingData | undefined;
+    let loadError: string | undefined;
+
+    try {
+      const client = await getWildberriesClient(userId);
+      if (client) {
+        data = await loadRepricingData(userId, client, now);
+      } else {
+        loadError = 'No Wildberries API key found';
+      }
+    } catch (error) {
+      loadError = error instanceof Error ? error.message : String(error);
+    }
+
+    for (const rule of userRules) {
+      try {
+        // Schedule the next run first, so a rule that fails halfway is not applied again on the next tick
+        const claimed = await databaseService.updateRepricingRule(userId, rule.id, {
+          last_run_at: now.toISOString(),
+          next_run_at: new Date(now.getTime() + rule.interval_hours * 60 * 60 * 1000).toISOString()
+        });
+        if (!claimed) continue;
+
+        if (data) {
+          await runRepricingRule(rule, { trigger: 'schedule', now, data });
+        } else {
+          await recordFailedRun(rule, 'schedule', rule.dry_run, loadError!);
+        }
+      } catch (error) {
+        logger.error('Repricing rule failed', {
+          ruleId: rule.id,
+          userId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+
+  return rules.length;
+}
+
+/**
+ * Run repricing rules in the background
+ * @returns Function that stops the scheduler
+ */
+export function startRepricingScheduler(intervalMs: number = REPRICING_SCHEDULER_INTERVAL_MS): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Skip the tick while the previous one is still running rules
+    if (running) return;
+    running = true;
+
+    try {
+      await processDueRepricingRules();
+    } catch (error) {
+      logger.error('Repricing scheduler failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  // Don't keep the process alive only for the scheduler
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
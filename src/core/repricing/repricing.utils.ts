@@ -0,0 +1,116 @@
+import { RepricingAction, RepricingCondition, RepricingRule, RepricingRun } from '../../infrastructure/database/supabase.client';
+import { CurrentPrice, PriceChange, SubmitPriceChangesResult } from '../prices/prices.utils';
+import { StockCoverItem } from '../tools/product/inventory.utils';
+
+/**
+ * Evaluation of repricing rules against the current prices, stock and sales of the seller's goods
+ */
+
+// Recent days of orders used for the average daily sales
+export const REPRICING_SALES_PERIOD_DAYS = 14;
+
+export const REPRICING_CONDITION_TYPES: Array<RepricingCondition['type']> = ['always', 'stock_above', 'stock_below', 'sells_out_within'];
+export const REPRICING_ACTION_TYPES: Array<RepricingAction['type']> = ['set_discount', 'change_price', 'set_price'];
+
+export interface RepricingProduct {
+  nmID: number;
+  stock: number;
+  daysOfCover: number | null; // null when nothing was ordered during the sales period
+  price: CurrentPrice;
+}
+
+/**
+ * Join the current prices with the stock coverage, goods without stock records have no stock
+ */
+export function buildRepricingProducts(current: Map<number, CurrentPrice>, cover: StockCoverItem[]): RepricingProduct[] {
+  const coverByNmId = new Map(cover.map(item => [item.nmID, item]));
+
+  return Array.from(current.values()).map(price => ({
+    nmID: price.nmID,
+    stock: coverByNmId.get(price.nmID)?.stock ?? 0,
+    daysOfCover: coverByNmId.get(price.nmID)?.daysOfCover ?? null,
+    price
+  }));
+}
+
+export function matchesRepricingCondition(condition: RepricingCondition, product: RepricingProduct): boolean {
+  switch (condition.type) {
+    case 'always':
+      return true;
+    case 'stock_above':
+      return product.stock > condition.quantity;
+    case 'stock_below':
+      return product.stock < condition.quantity;
+    case 'sells_out_within':
+      return product.stock > 0 && product.daysOfCover !== null && product.daysOfCover <= condition.days;
+    default:
+      return false;
+  }
+}
+
+/**
+ * The change an action makes to the current price, null if the price stays the same
+ */
+export function applyRepricingAction(action: RepricingAction, price: CurrentPrice): PriceChange | null {
+  switch (action.type) {
+    case 'set_discount':
+      return action.discount === price.discount ? null : { nmID: price.nmID, discount: action.discount };
+    case 'change_price': {
+      const newPrice = Math.max(1, Math.round(price.price * (100 + action.percent) / 100));
+      return newPrice === price.price ? null : { nmID: price.nmID, price: newPrice };
+    }
+    case 'set_price':
+      return action.price === price.price ? null : { nmID: price.nmID, price: action.price };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Price changes a rule makes to the goods in its scope that match its condition
+ */
+export function evaluateRepricingRule(
+  rule: Pick<RepricingRule, 'nm_ids' | 'condition' | 'action'>,
+  products: RepricingProduct[]
+): PriceChange[] {
+  const scope = rule.nm_ids.length > 0 ? new Set(rule.nm_ids.map(Number)) : null;
+
+  return products
+    .filter(product => !scope || scope.has(product.nmID))
+    .filter(product => matchesRepricingCondition(rule.condition, product))
+    .map(product => applyRepricingAction(rule.action, product.price))
+    .filter((change): change is PriceChange => change !== null);
+}
+
+/**
+ * Keep only the fields of the condition type, request bodies may carry anything else
+ */
+export function normalizeRepricingCondition(input: any): RepricingCondition {
+  switch (input.type) {
+    case 'stock_above':
+    case 'stock_below':
+      return { type: input.type, quantity: Number(input.quantity) };
+    case 'sells_out_within':
+      return { type: input.type, days: Number(input.days) };
+    default:
+      return { type: 'always' };
+  }
+}
+
+export function normalizeRepricingAction(input: any): RepricingAction {
+  switch (input.type) {
+    case 'set_discount':
+      return { type: input.type, discount: Number(input.discount) };
+    case 'change_price':
+      return { type: input.type, percent: Number(input.percent) };
+    default:
+      return { type: 'set_price', price: Number(input.price) };
+  }
+}
+
+export function getRepricingRunStatus(result: SubmitPriceChangesResult): RepricingRun['status'] {
+  if (result.errors.length > 0) return 'blocked';
+  if (result.diff.length === 0) return 'no_changes';
+  if (result.dryRun) return 'dry_run';
+  return result.uploads.some(upload => upload.error) ? 'failed' : 'applied';
+}
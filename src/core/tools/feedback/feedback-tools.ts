@@ -0,0 +1,497 @@
+import { tool } from '@langchain/core/tools';
+import { z } from 'zod';
+import logger from '../../../shared/utils/logger';
+import { getWildberriesClient, handleWildberriesError } from '../wildberries.service';
+
+export const feedbackToolsMessages = {
+  get_wildberries_unanswered_feedbacks: {
+    success: "Fetched unanswered Wildberries feedbacks.",
+    pending: "Fetching unanswered Wildberries feedbacks..."
+  },
+  get_wildberries_unanswered_questions: {
+    success: "Fetched unanswered Wildberries questions.",
+    pending: "Fetching unanswered Wildberries questions..."
+  },
+  get_wildberries_feedback: {
+    success: "Fetched Wildberries feedback.",
+    pending: "Fetching Wildberries feedback..."
+  },
+  get_wildberries_question: {
+    success: "Fetched Wildberries question.",
+    pending: "Fetching Wildberries question..."
+  },
+  reply_to_wildberries_feedback: {
+    success: "Posted reply to Wildberries feedback.",
+    pending: "Posting reply to Wildberries feedback..."
+  },
+  reply_to_wildberries_question: {
+    success: "Posted answer to Wildberries question.",
+    pending: "Posting answer to Wildberries question..."
+  }
+}
+
+/**
+ * Keep only the fields the assistant needs to understand and answer a feedback
+ */
+function compactFeedback(feedback: any) {
+  return {
+    id: feedback.id,
+    text: feedback.text,
+    pros: feedback.pros,
+    cons: feedback.cons,
+    productValuation: feedback.productValuation,
+    createdDate: feedback.createdDate,
+    userName: feedback.userName,
+    answer: feedback.answer?.text,
+    product: {
+      nmID: feedback.productDetails?.nmId,
+      name: feedback.productDetails?.productName,
+      supplierArticle: feedback.productDetails?.supplierArticle,
+      size: feedback.productDetails?.size
+    }
+  };
+}
+
+/**
+ * Keep only the fields the assistant needs to understand and answer a question
+ */
+function compactQuestion(question: any) {
+  return {
+    id: question.id,
+    text: question.text,
+    createdDate: question.createdDate,
+    answer: question.answer?.text,
+    product: {
+      nmID: question.productDetails?.nmId,
+      name: question.productDetails?.productName,
+      supplierArticle: question.productDetails?.supplierArticle
+    }
+  };
+}
+
+const listSchema = z.object({
+  take: z.number().int().min(1).max(100).optional().describe("Number of items to fetch (1-100, default: 20)"),
+  skip: z.number().int().min(0).optional().describe("Number of items to skip for pagination (default: 0)"),
+  nmID: z.number().int().min(1).optional().describe("Only show items about this product"),
+});
+
+/**
+ * Create a Wildberries Unanswered Feedbacks tool for listing customer reviews without a reply
+ * Based on: https://dev.wildberries.ru/openapi/user-communication#tag/Otzyvy/paths/~1api~1v1~1feedbacks/get
+ */
+export function getWildberriesUnansweredFeedbacksTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        // Build request params from validated input
+        const requestParams = {
+          isAnswered: false,
+          take: input.take || 20,
+          skip: input.skip || 0,
+          order: 'dateDesc',
+          ...(input.nmID !== undefined && { nmId: input.nmID }),
+        }
+
+        logger.info('Making Wildberries Feedbacks API request', {
+          userId,
+          endpoint: '/api/v1/feedbacks',
+          requestParams
+        });
+
+        const response = await client.request({
+          method: 'GET',
+          category: 'feedbacks',
+          path: '/api/v1/feedbacks',
+          params: requestParams
+        });
+
+        logger.info('Wildberries Feedbacks API request successful', {
+          userId,
+          statusCode: response.status,
+        });
+
+        const feedbacks = response.data?.data?.feedbacks || [];
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: !response.data?.error,
+          data: feedbacks.map(compactFeedback),
+          countUnanswered: response.data?.data?.countUnanswered,
+          requestParams,
+          ...(response.data?.errorText && { errorMessage: response.data.errorText }),
+          metadata: {
+            endpoint: "get_wildberries_unanswered_feedbacks",
+            rateLimit: "1 request per second",
+            apiCategory: "Feedbacks and Questions"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "get_wildberries_unanswered_feedbacks",
+      description: `List customer feedbacks (reviews) on Wildberries that the seller hasn't replied to yet.
+      Use this when users ask about:
+      - New or unanswered reviews
+      - What customers say about their products
+      - Help with replying to reviews`,
+      schema: listSchema
+    }
+  );
+}
+
+/**
+ * Create a Wildberries Unanswered Questions tool for listing customer questions without an answer
+ * Based on: https://dev.wildberries.ru/openapi/user-communication#tag/Voprosy/paths/~1api~1v1~1questions/get
+ */
+export function getWildberriesUnansweredQuestionsTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        // Build request params from validated input
+        const requestParams = {
+          isAnswered: false,
+          take: input.take || 20,
+          skip: input.skip || 0,
+          order: 'dateDesc',
+          ...(input.nmID !== undefined && { nmId: input.nmID }),
+        }
+
+        logger.info('Making Wildberries Questions API request', {
+          userId,
+          endpoint: '/api/v1/questions',
+          requestParams
+        });
+
+        const response = await client.request({
+          method: 'GET',
+          category: 'feedbacks',
+          path: '/api/v1/questions',
+          params: requestParams
+        });
+
+        logger.info('Wildberries Questions API request successful', {
+          userId,
+          statusCode: response.status,
+        });
+
+        const questions = response.data?.data?.questions || [];
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: !response.data?.error,
+          data: questions.map(compactQuestion),
+          countUnanswered: response.data?.data?.countUnanswered,
+          requestParams,
+          ...(response.data?.errorText && { errorMessage: response.data.errorText }),
+          metadata: {
+            endpoint: "get_wildberries_unanswered_questions",
+            rateLimit: "1 request per second",
+            apiCategory: "Feedbacks and Questions"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "get_wildberries_unanswered_questions",
+      description: `List customer questions on Wildberries that the seller hasn't answered yet.
+      Use this when users ask about:
+      - New or unanswered questions from customers
+      - Help with answering questions`,
+      schema: listSchema
+    }
+  );
+}
+
+const getByIdSchema = z.object({
+  id: z.string().describe("ID of the item"),
+});
+
+/**
+ * Create a Wildberries Feedback tool for fetching a single feedback
+ * Based on: https://dev.wildberries.ru/openapi/user-communication#tag/Otzyvy/paths/~1api~1v1~1feedback/get
+ */
+export function getWildberriesFeedbackTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        logger.info('Making Wildberries Feedback API request', {
+          userId,
+          endpoint: '/api/v1/feedback',
+          feedbackId: input.id
+        });
+
+        const response = await client.request({
+          method: 'GET',
+          category: 'feedbacks',
+          path: '/api/v1/feedback',
+          params: { id: input.id }
+        });
+
+        logger.info('Wildberries Feedback API request successful', {
+          userId,
+          statusCode: response.status,
+        });
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: !response.data?.error,
+          data: response.data?.data ? compactFeedback(response.data.data) : null,
+          ...(response.data?.errorText && { errorMessage: response.data.errorText }),
+          metadata: {
+            endpoint: "get_wildberries_feedback",
+            rateLimit: "1 request per second",
+            apiCategory: "Feedbacks and Questions"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "get_wildberries_feedback",
+      description: `Get a single customer feedback (review) on Wildberries by its ID.`,
+      schema: getByIdSchema
+    }
+  );
+}
+
+/**
+ * Create a Wildberries Question tool for fetching a single question
+ * Based on: https://dev.wildberries.ru/openapi/user-communication#tag/Voprosy/paths/~1api~1v1~1question/get
+ */
+export function getWildberriesQuestionTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        logger.info('Making Wildberries Question API request', {
+          userId,
+          endpoint: '/api/v1/question',
+          questionId: input.id
+        });
+
+        const response = await client.request({
+          method: 'GET',
+          category: 'feedbacks',
+          path: '/api/v1/question',
+          params: { id: input.id }
+        });
+
+        logger.info('Wildberries Question API request successful', {
+          userId,
+          statusCode: response.status,
+        });
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: !response.data?.error,
+          data: response.data?.data ? compactQuestion(response.data.data) : null,
+          ...(response.data?.errorText && { errorMessage: response.data.errorText }),
+          metadata: {
+            endpoint: "get_wildberries_question",
+            rateLimit: "1 request per second",
+            apiCategory: "Feedbacks and Questions"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "get_wildberries_question",
+      description: `Get a single customer question on Wildberries by its ID.`,
+      schema: getByIdSchema
+    }
+  );
+}
+
+const replySchema = z.object({
+  id: z.string().describe("ID of the item to reply to"),
+  text: z.string().min(2).max(5000).describe("Exact reply text that was shown to the user as a draft and confirmed by them"),
+});
+
+/**
+ * Create a Wildberries Feedback Reply tool for posting the seller's reply to a feedback
+ * Based on: https://dev.wildberries.ru/openapi/user-communication#tag/Otzyvy/paths/~1api~1v1~1feedbacks~1answer/post
+ */
+export function replyToWildberriesFeedbackTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        // Build request body from validated input
+        const requestBody = {
+          id: input.id,
+          text: input.text,
+        }
+
+        logger.info('Making Wildberries Feedback Answer API request', {
+          userId,
+          endpoint: '/api/v1/feedbacks/answer',
+          feedbackId: input.id
+        });
+
+        const response = await client.request({
+          method: 'POST',
+          category: 'feedbacks',
+          path: '/api/v1/feedbacks/answer',
+          body: requestBody
+        });
+
+        logger.info('Wildberries Feedback Answer API request successful', {
+          userId,
+          statusCode: response.status,
+        });
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: !response.data?.error,
+          requestBody: requestBody,
+          ...(response.data?.errorText && { errorMessage: response.data.errorText }),
+          metadata: {
+            endpoint: "reply_to_wildberries_feedback",
+            rateLimit: "1 request per second",
+            apiCategory: "Feedbacks and Questions"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "reply_to_wildberries_feedback",
+      description: `Post the seller's reply to a customer feedback (review) on Wildberries. The reply is public.
+      Before calling this tool you MUST show the exact reply text to the user as a draft and ask for confirmation.
+      Call it only in the next turn, after the user confirmed the draft, with exactly the confirmed text.
+      If the user asks for changes, show the updated draft and wait for confirmation again.
+
+      Returns nothing if the reply is posted successfully, otherwise returns an error message.`,
+      schema: replySchema
+    }
+  );
+}
+
+/**
+ * Create a Wildberries Question Answer tool for posting the seller's answer to a question
+ * Based on: https://dev.wildberries.ru/openapi/user-communication#tag/Voprosy/paths/~1api~1v1~1questions/patch
+ */
+export function replyToWildberriesQuestionTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        // Build request body from validated input
+        const requestBody = {
+          id: input.id,
+          answer: {
+            text: input.text,
+          },
+          state: 'wbRu',
+        }
+
+        logger.info('Making Wildberries Question Answer API request', {
+          userId,
+          endpoint: '/api/v1/questions',
+          questionId: input.id
+        });
+
+        const response = await client.request({
+          method: 'PATCH',
+          category: 'feedbacks',
+          path: '/api/v1/questions',
+          body: requestBody
+        });
+
+        logger.info('Wildberries Question Answer API request successful', {
+          userId,
+          statusCode: response.status,
+        });
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: !response.data?.error,
+          requestBody: requestBody,
+          ...(response.data?.errorText && { errorMessage: response.data.errorText }),
+          metadata: {
+            endpoint: "reply_to_wildberries_question",
+            rateLimit: "1 request per second",
+            apiCategory: "Feedbacks and Questions"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "reply_to_wildberries_question",
+      description: `Post the seller's answer to a customer question on Wildberries. The answer is public.
+      Before calling this tool you MUST show the exact answer text to the user as a draft and ask for confirmation.
+      Call it only in the next turn, after the user confirmed the draft, with exactly the confirmed text.
+      If the user asks for changes, show the updated draft and wait for confirmation again.
+
+      Returns nothing if the answer is posted successfully, otherwise returns an error message.`,
+      schema: replySchema
+    }
+  );
+}
@@ -0,0 +1,105 @@
+import { AIMessage, BaseMessage } from '@langchain/core/messages';
+import { ToolCall } from '@langchain/core/dist/messages/tool';
+
+/**
+ * Tools that publish a reply on behalf of the seller
+ */
+export const REPLY_TOOL_NAMES = [
+  'reply_to_wildberries_feedback',
+  'reply_to_wildberries_question'
+];
+
+export const UNCONFIRMED_REPLY_ERROR =
+  'The reply was not posted. Show the exact reply text to the user as a draft on its own lines and post it only after the user approves it.';
+
+/**
+ * Normalize text for draft comparison: ignore markdown quoting/emphasis, quotes, case and whitespace
+ */
+export function normalizeReplyText(text: string): string {
+  return text
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/[*_`"«»“”]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+// Words of a short answer that approves a draft, and words that turn it into a request for changes
+const AFFIRMATIVE_WORDS = [
+  'да', 'ага', 'ок', 'окей', 'хорошо', 'отлично', 'верно', 'конечно', 'давай', 'подтверждаю',
+  'отправляй', 'отправь', 'отправить', 'отправьте', 'публикуй', 'опубликуй', 'опубликуйте', 'постим',
+  'yes', 'yep', 'ok', 'okay', 'sure', 'confirm', 'approve', 'send', 'post', 'go'
+];
+const NEGATIVE_WORDS = [
+  'нет', 'не', 'неа', 'стоп', 'подожди', 'погоди', 'измени', 'исправь', 'перепиши', 'переделай', 'поменяй', 'но',
+  'no', 'not', 'dont', 'don\'t', 'stop', 'wait', 'change', 'rewrite', 'edit', 'fix', 'but'
+];
+
+/**
+ * Check whether the user's answer approves the draft: at least one approving word and no objection
+ */
+export function isAffirmativeAnswer(text: string): boolean {
+  const words = text.toLowerCase().match(/[\p{L}']+|\+/gu) || [];
+  return words.some(word => AFFIRMATIVE_WORDS.includes(word) || word === '+') &&
+    !words.some(word => NEGATIVE_WORDS.includes(word));
+}
+
+/**
+ * Check whether the draft is shown on its own lines of an assistant message, not as part of a longer text
+ */
+export function isDraftShown(messageText: string, normalizedReply: string): boolean {
+  const lines = messageText.split('\n');
+
+  for (let start = 0; start < lines.length; start++) {
+    for (let end = start; end < lines.length; end++) {
+      const block = normalizeReplyText(lines.slice(start, end + 1).join('\n'));
+      if (block === normalizedReply) return true;
+      if (block.length > normalizedReply.length) break;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Check whether a reply text was shown to the user and the user approved it.
+ * The draft must be shown on its own in an assistant message between the previous and the latest user message,
+ * and the latest user message must approve it.
+ */
+export function isReplyConfirmed(messages: BaseMessage[], replyText: string): boolean {
+  const normalizedReply = normalizeReplyText(replyText);
+  if (!normalizedReply) return false;
+
+  const humanIndexes = messages
+    .map((message, index) => message.getType() === 'human' ? index : -1)
+    .filter(index => index !== -1);
+
+  if (humanIndexes.length < 2) return false;
+
+  const latestHumanIndex = humanIndexes[humanIndexes.length - 1];
+  const previousHumanIndex = humanIndexes[humanIndexes.length - 2];
+
+  if (!isAffirmativeAnswer(messages[latestHumanIndex].content.toString())) return false;
+
+  return messages
+    .slice(previousHumanIndex + 1, latestHumanIndex)
+    .some(message =>
+      message.getType() === 'ai' &&
+      isDraftShown(message.content.toString(), normalizedReply)
+    );
+}
+
+/**
+ * Find reply tool calls of the last assistant message whose text was not confirmed by the user
+ */
+export function findUnconfirmedReplyCalls(messages: BaseMessage[]): ToolCall[] {
+  const lastMessage = messages[messages.length - 1];
+  if (!lastMessage || lastMessage.getType() !== 'ai') return [];
+
+  const toolCalls = (lastMessage as AIMessage).tool_calls || [];
+
+  return toolCalls.filter(toolCall =>
+    REPLY_TOOL_NAMES.includes(toolCall.name) &&
+    !isReplyConfirmed(messages.slice(0, -1), String(toolCall.args?.text || ''))
+  );
+}
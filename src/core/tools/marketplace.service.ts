@@ -0,0 +1,31 @@
+import logger from "../../shared/utils/logger";
+import { apiKeysService } from "../apiKeys/apikeys.service";
+import {
+  createMarketplaceClient,
+  getMarketplaceClientOverride,
+  MarketplaceClient,
+  MarketplaceService
+} from "../../infrastructure/marketplaces";
+
+/**
+ * Get a marketplace client authorized with the user's saved API key
+ * and pointed at the environment saved with the key.
+ * Returns null if the user has no key for the marketplace.
+ */
+export async function getMarketplaceClient(userId: string, service: MarketplaceService): Promise<MarketplaceClient | null> {
+  const override = getMarketplaceClientOverride(service);
+  if (override) {
+    return override;
+  }
+
+  const credentials = await apiKeysService.getApiKeyCredentials(userId, service);
+  if (!credentials) {
+    logger.warn('No marketplace API key found for user', { userId, service });
+    return null;
+  }
+
+  return createMarketplaceClient(service, credentials, {
+    environment: credentials.environment,
+    userId
+  });
+}
@@ -0,0 +1,114 @@
+import logger from "../../shared/utils/logger";
+import { MarketplaceApiError, MarketplaceClient } from "../../infrastructure/marketplaces";
+import { getMarketplaceClient } from "./marketplace.service";
+
+export async function getOzonClient(userId: string): Promise<MarketplaceClient | null> {
+  logger.info('Attempting to retrieve Ozon API credentials', { userId });
+
+  const client = await getMarketplaceClient(userId, 'ozon');
+
+  if (!client) {
+    logger.warn('No Ozon API credentials found for user', { userId });
+    return null;
+  }
+
+  return client;
+}
+
+/**
+ * Make a request to the Ozon Seller API.
+ * All Seller API methods are POST requests with a JSON body.
+ */
+export async function fetchOzon<T>(
+  userId: string,
+  client: MarketplaceClient,
+  endpoint: string,
+  requestBody: Record<string, any>
+): Promise<T> {
+  logger.info('Making Ozon Seller API request', {
+    userId,
+    endpoint,
+    requestBody
+  });
+
+  const response = await client.request<T>({
+    method: 'POST',
+    path: endpoint,
+    body: requestBody
+  });
+
+  logger.info('Ozon Seller API request successful', {
+    userId,
+    endpoint,
+    statusCode: response.status
+  });
+
+  return response.data;
+}
+
+export function handleOzonError(error: any, userId: string) {
+  logger.error('Ozon API request failed', {
+    userId,
+    error: error instanceof Error ? error.message : String(error),
+    stack: error instanceof Error ? error.stack : undefined,
+    ...(error instanceof MarketplaceApiError && {
+      status: error.status,
+      statusText: error.statusText,
+      responseData: error.details
+    })
+  });
+
+  if (error instanceof MarketplaceApiError && error.status) {
+    const status = error.status;
+    const responseData = error.details;
+
+    switch (status) {
+      case 401:
+        return JSON.stringify({
+          error: "Your Ozon Client ID or API key appears to be invalid.",
+          success: false,
+          statusCode: 401,
+        });
+      case 403:
+        return JSON.stringify({
+          error: "Access forbidden. Your Ozon API key doesn't have the required permissions.",
+          success: false,
+          statusCode: 403,
+        });
+      case 404:
+        return JSON.stringify({
+          error: "Ozon couldn't find the requested data.",
+          success: false,
+          statusCode: 404,
+          details: responseData,
+        });
+      case 429:
+        return JSON.stringify({
+          error: "Rate limit exceeded for Ozon API. The request was already retried, don't call the tool again until retryAfterSeconds have passed.",
+          success: false,
+          statusCode: 429,
+          retryAfterSeconds: Math.ceil((error.retryAfterMs ?? 60000) / 1000),
+        });
+      case 400:
+        return JSON.stringify({
+          error: "Bad request to Ozon API.",
+          success: false,
+          statusCode: 400,
+          details: responseData,
+        });
+      default:
+        return JSON.stringify({
+          error: `Ozon API returned an error: ${responseData?.message || error.statusText || 'Unknown error'}`,
+          success: false,
+          statusCode: status,
+          details: responseData,
+        });
+    }
+  }
+
+  return JSON.stringify({
+    error: `Failed to fetch your Ozon data: ${error instanceof Error ? error.message : String(error)}`,
+    success: false,
+    type: "network_error",
+  });
+}
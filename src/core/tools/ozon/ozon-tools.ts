@@ -0,0 +1,281 @@
+import { tool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { fetchOzon, getOzonClient, handleOzonError } from '../ozon.service';
+
+export const ozonToolsMessages = {
+  get_ozon_product_list: {
+    success: "Fetched Ozon product list.",
+    pending: "Fetching Ozon product list..."
+  },
+  get_ozon_product_info: {
+    success: "Fetched Ozon product details.",
+    pending: "Fetching Ozon product details..."
+  },
+  get_ozon_product_prices: {
+    success: "Fetched Ozon product prices.",
+    pending: "Fetching Ozon product prices..."
+  },
+  get_ozon_product_stocks: {
+    success: "Fetched Ozon product stocks.",
+    pending: "Fetching Ozon product stocks..."
+  }
+}
+
+const MISSING_CREDENTIALS_ERROR = "I couldn't find your Ozon API credentials (Client ID and API key).";
+
+const visibilitySchema = z.enum(['ALL', 'VISIBLE', 'INVISIBLE', 'EMPTY_STOCK', 'NOT_MODERATED', 'MODERATED', 'DISABLED', 'STATE_FAILED', 'READY_TO_SUPPLY', 'VALIDATION_STATE_PENDING', 'VALIDATION_STATE_FAIL', 'VALIDATION_STATE_SUCCESS', 'TO_SUPPLY', 'IN_SALE', 'REMOVED_FROM_SALE', 'OVERPRICED', 'CRITICALLY_OVERPRICED', 'EMPTY_BARCODE', 'BARCODE_EXISTS', 'QUARANTINE', 'ARCHIVED', 'OVERPRICED_WITH_STOCK', 'PARTIAL_APPROVED']);
+
+/**
+ * Zod schema for Ozon product filter shared by list, prices and stocks tools
+ */
+const ozonProductFilterSchema = z.object({
+  offerIds: z.array(z.string()).max(1000).optional().describe("Filter by seller article (offer_id)"),
+  productIds: z.array(z.number().int()).max(1000).optional().describe("Filter by Ozon product_id"),
+  visibility: visibilitySchema.optional().describe("Filter by product visibility (default: ALL)"),
+  limit: z.number().int().min(1).max(1000).optional().describe("Number of products to fetch (1-1000, default: 100)"),
+});
+
+function buildOzonFilter(input: z.infer<typeof ozonProductFilterSchema>) {
+  return {
+    ...(input.offerIds?.length && { offer_id: input.offerIds }),
+    ...(input.productIds?.length && { product_id: input.productIds.map(String) }),
+    visibility: input.visibility || 'ALL'
+  };
+}
+
+/**
+ * Zod schema for Ozon product list tool parameters
+ */
+const getOzonProductListSchema = ozonProductFilterSchema.extend({
+  lastId: z.string().optional().describe("last_id from the previous response to fetch the next page"),
+});
+
+/**
+ * Create an Ozon Product List tool for fetching the seller's products
+ * Based on: https://docs.ozon.ru/api/seller/#operation/ProductAPI_GetProductList
+ */
+export function getOzonProductListTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get an Ozon client with the user's credentials
+        const client = await getOzonClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: MISSING_CREDENTIALS_ERROR,
+            success: false,
+          });
+        }
+
+        // Build request body from validated input
+        const requestBody = {
+          filter: buildOzonFilter(input),
+          last_id: input.lastId || '',
+          limit: input.limit || 100
+        };
+
+        const data = await fetchOzon<any>(userId, client, '/v3/product/list', requestBody);
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: true,
+          data: data?.result?.items || [],
+          total: data?.result?.total,
+          lastId: data?.result?.last_id,
+          requestBody,
+          metadata: {
+            endpoint: "get_ozon_product_list",
+            apiCategory: "Products"
+          }
+        });
+
+      } catch (error) {
+        return handleOzonError(error, userId);
+      }
+    },
+    {
+      name: "get_ozon_product_list",
+      description: `Get the seller's product list on Ozon: product_id, offer_id (seller article), archive status and whether there are FBO/FBS stocks.
+      Use this when users ask about:
+      - Their Ozon products or assortment
+      - Finding product_id by seller article on Ozon
+      Use lastId from the response to fetch the next page.`,
+      schema: getOzonProductListSchema
+    }
+  );
+}
+
+/**
+ * Zod schema for Ozon product info tool parameters
+ */
+const getOzonProductInfoSchema = z.object({
+  offerIds: z.array(z.string()).max(1000).optional().describe("Seller articles (offer_id)"),
+  productIds: z.array(z.number().int()).max(1000).optional().describe("Ozon product_id values"),
+  skus: z.array(z.number().int()).max(1000).optional().describe("Ozon SKU values"),
+}).refine(
+  input => Boolean(input.offerIds?.length || input.productIds?.length || input.skus?.length),
+  { message: "Provide at least one offerId, productId or sku" }
+);
+
+/**
+ * Create an Ozon Product Info tool for fetching product details
+ * Based on: https://docs.ozon.ru/api/seller/#operation/ProductAPI_GetProductInfoList
+ */
+export function getOzonProductInfoTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get an Ozon client with the user's credentials
+        const client = await getOzonClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: MISSING_CREDENTIALS_ERROR,
+            success: false,
+          });
+        }
+
+        // Build request body from validated input
+        const requestBody = {
+          ...(input.offerIds?.length && { offer_id: input.offerIds }),
+          ...(input.productIds?.length && { product_id: input.productIds.map(String) }),
+          ...(input.skus?.length && { sku: input.skus.map(String) })
+        };
+
+        const data = await fetchOzon<any>(userId, client, '/v3/product/info/list', requestBody);
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: true,
+          data: data?.items || [],
+          requestBody,
+          metadata: {
+            endpoint: "get_ozon_product_info",
+            apiCategory: "Products"
+          }
+        });
+
+      } catch (error) {
+        return handleOzonError(error, userId);
+      }
+    },
+    {
+      name: "get_ozon_product_info",
+      description: `Get details of Ozon products by offer_id, product_id or SKU: name, barcodes, prices, statuses, images and stocks.
+      Use this when users ask about specific Ozon products.`,
+      schema: getOzonProductInfoSchema
+    }
+  );
+}
+
+/**
+ * Zod schema for Ozon cursor-paginated tools (prices and stocks)
+ */
+const ozonCursorSchema = ozonProductFilterSchema.extend({
+  cursor: z.string().optional().describe("cursor from the previous response to fetch the next page"),
+});
+
+/**
+ * Create an Ozon Product Prices tool for fetching prices, commissions and discounts
+ * Based on: https://docs.ozon.ru/api/seller/#operation/ProductAPI_GetProductInfoPrices
+ */
+export function getOzonProductPricesTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get an Ozon client with the user's credentials
+        const client = await getOzonClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: MISSING_CREDENTIALS_ERROR,
+            success: false,
+          });
+        }
+
+        // Build request body from validated input
+        const requestBody = {
+          cursor: input.cursor || '',
+          filter: buildOzonFilter(input),
+          limit: input.limit || 100
+        };
+
+        const data = await fetchOzon<any>(userId, client, '/v5/product/info/prices', requestBody);
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: true,
+          data: data?.items || [],
+          total: data?.total,
+          cursor: data?.cursor,
+          requestBody,
+          metadata: {
+            endpoint: "get_ozon_product_prices",
+            apiCategory: "Prices"
+          }
+        });
+
+      } catch (error) {
+        return handleOzonError(error, userId);
+      }
+    },
+    {
+      name: "get_ozon_product_prices",
+      description: `Get prices of the seller's Ozon products: price, old price, minimal price, marketing price and commissions.
+      Use this when users ask about Ozon prices, discounts or commissions.
+      Use cursor from the response to fetch the next page.`,
+      schema: ozonCursorSchema
+    }
+  );
+}
+
+/**
+ * Create an Ozon Product Stocks tool for fetching FBO and FBS stocks
+ * Based on: https://docs.ozon.ru/api/seller/#operation/ProductAPI_GetProductInfoStocks
+ */
+export function getOzonProductStocksTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get an Ozon client with the user's credentials
+        const client = await getOzonClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: MISSING_CREDENTIALS_ERROR,
+            success: false,
+          });
+        }
+
+        // Build request body from validated input
+        const requestBody = {
+          cursor: input.cursor || '',
+          filter: buildOzonFilter(input),
+          limit: input.limit || 100
+        };
+
+        const data = await fetchOzon<any>(userId, client, '/v4/product/info/stocks', requestBody);
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: true,
+          data: data?.items || [],
+          total: data?.total,
+          cursor: data?.cursor,
+          requestBody,
+          metadata: {
+            endpoint: "get_ozon_product_stocks",
+            apiCategory: "Stocks"
+          }
+        });
+
+      } catch (error) {
+        return handleOzonError(error, userId);
+      }
+    },
+    {
+      name: "get_ozon_product_stocks",
+      description: `Get stocks of the seller's Ozon products: units present and reserved for FBO and FBS.
+      Use this when users ask about Ozon stock levels or products running out.
+      Use cursor from the response to fetch the next page.`,
+      schema: ozonCursorSchema
+    }
+  );
+}
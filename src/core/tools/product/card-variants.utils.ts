@@ -0,0 +1,109 @@
+import { z } from 'zod';
+
+/**
+ * Helpers for the sizes and variants of a new Wildberries product card.
+ * Variants uploaded together are merged under one card, each of them gets its own nmID.
+ * Based on: https://dev.wildberries.ru/openapi/work-with-products#tag/Sozdanie-kartochek-tovarov/paths/~1content~1v2~1cards~1upload/post
+ */
+
+export interface CardSizeInput {
+  techSize?: string;
+  wbSize?: string;
+  price?: number;
+  skus?: string[];
+}
+
+export interface CardVariantSizes {
+  vendorCode: string;
+  sizes: CardSizeInput[];
+}
+
+/**
+ * Zod schema of the size grid accepted by the create tool
+ */
+export const cardSizesInputSchema = z.array(z.object({
+  techSize: z.string().describe("Seller's size, e.g. S, M or 42"),
+  wbSize: z.string().optional().describe("Russian size, e.g. 44 or 42-44"),
+  price: z.number().int().min(1).optional().describe("Price of the size in rubles"),
+  skus: z.array(z.string()).optional().describe("Barcodes of the size (generated by Wildberries if omitted)")
+})).min(1);
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Convert sizes to the API format, dropping empty fields
+ */
+export function buildCardSizes(sizes: CardSizeInput[]) {
+  return sizes.map(size => ({
+    ...(size.techSize !== undefined && { techSize: size.techSize.trim() }),
+    ...(size.wbSize !== undefined && { wbSize: size.wbSize.trim() }),
+    ...(size.price !== undefined && { price: size.price }),
+    ...(size.skus !== undefined && size.skus.length > 0 && { skus: size.skus.map(sku => sku.trim()) }),
+  }));
+}
+
+/**
+ * Validate the variants of a new card: vendor codes, sizes within a variant and barcodes across the card must be unique
+ */
+export function validateCardVariants(variants: CardVariantSizes[]): string[] {
+  const errors: string[] = [];
+  const vendorCodes = new Set<string>();
+  const barcodes = new Map<string, string>();
+
+  for (const variant of variants) {
+    const vendorCode = normalize(variant.vendorCode);
+    if (vendorCodes.has(vendorCode)) {
+      errors.push(`Vendor code "${variant.vendorCode}" is used by several variants`);
+    }
+    vendorCodes.add(vendorCode);
+
+    const techSizes = new Set<string>();
+    for (const size of variant.sizes) {
+      if (size.techSize === undefined || size.techSize.trim() === '') {
+        if (variant.sizes.length > 1) {
+          errors.push(`Every size of variant "${variant.vendorCode}" needs techSize`);
+        }
+      } else {
+        const techSize = normalize(size.techSize);
+        if (techSizes.has(techSize)) {
+          errors.push(`Size "${size.techSize}" is listed more than once in variant "${variant.vendorCode}"`);
+        }
+        techSizes.add(techSize);
+      }
+
+      for (const sku of size.skus || []) {
+        const barcode = sku.trim();
+        const owner = barcodes.get(barcode);
+        if (owner !== undefined) {
+          errors.push(`Barcode ${barcode} is used more than once (variant "${owner}" and variant "${variant.vendorCode}")`);
+        }
+        barcodes.set(barcode, variant.vendorCode);
+      }
+    }
+  }
+
+  return errors;
+}
+
+export interface BarcodeAssignment {
+  vendorCode?: string;
+  techSize: string;
+  sku: string;
+}
+
+/**
+ * Assign generated barcodes to sizes in order
+ */
+export function assignBarcodes(sizes: Array<{ vendorCode?: string; techSize: string }>, barcodes: string[]): BarcodeAssignment[] {
+  if (barcodes.length < sizes.length) {
+    throw new Error(`Expected ${sizes.length} barcodes, got ${barcodes.length}`);
+  }
+
+  return sizes.map((size, index) => ({
+    ...(size.vendorCode !== undefined && { vendorCode: size.vendorCode }),
+    techSize: size.techSize,
+    sku: barcodes[index]
+  }));
+}
@@ -0,0 +1,40 @@
+import { WildberriesProductCard } from './catalog.utils';
+
+// Cached catalogs expire so follow-up questions don't answer from stale data for too long
+const CATALOG_CACHE_TTL_MS = 30 * 60 * 1000;
+
+export interface CachedCatalog {
+  cards: WildberriesProductCard[];
+  truncated: boolean; // The hard page cap was reached before the cursor was exhausted
+  fetchedAt: number;
+}
+
+const catalogs = new Map<string, CachedCatalog>();
+
+/**
+ * Save the full Wildberries catalog fetched for the user
+ */
+export function setCachedCatalog(userId: string, cards: WildberriesProductCard[], truncated: boolean): CachedCatalog {
+  const catalog = { cards, truncated, fetchedAt: Date.now() };
+  catalogs.set(userId, catalog);
+  return catalog;
+}
+
+/**
+ * Get the user's cached catalog, or null if there is none or it has expired
+ */
+export function getCachedCatalog(userId: string): CachedCatalog | null {
+  const catalog = catalogs.get(userId);
+  if (!catalog) return null;
+
+  if (Date.now() - catalog.fetchedAt > CATALOG_CACHE_TTL_MS) {
+    catalogs.delete(userId);
+    return null;
+  }
+
+  return catalog;
+}
+
+export function clearCachedCatalog(userId: string): void {
+  catalogs.delete(userId);
+}
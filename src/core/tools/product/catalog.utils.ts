@@ -0,0 +1,114 @@
+/**
+ * Helpers for the seller's Wildberries catalog (product cards)
+ * Based on: https://dev.wildberries.ru/openapi/work-with-products#tag/Kartochki-tovarov/paths/~1content~1v2~1get~1cards~1list/post
+ */
+
+/**
+ * Fields of a product card from /content/v2/get/cards/list that the tools rely on
+ */
+export interface WildberriesProductCard {
+  nmID: number;
+  imtID?: number;
+  subjectID?: number;
+  subjectName?: string;
+  vendorCode?: string;
+  brand?: string;
+  title?: string;
+  description?: string;
+  photos?: unknown[];
+  sizes?: Array<{ chrtID?: number; techSize?: string; wbSize?: string; skus?: string[] }>;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface CompactProductCard {
+  nmID: number;
+  vendorCode?: string;
+  title?: string;
+  brand?: string;
+  subjectName?: string;
+  photosCount: number;
+  sizes: string[];
+  skus: string[];
+  updatedAt?: string;
+}
+
+export interface CatalogSummary {
+  totalCards: number;
+  withoutPhotos: number;
+  withoutDescription: number;
+  subjects: Array<{ subjectName: string; count: number }>;
+  brands: Array<{ brand: string; count: number }>;
+}
+
+export interface CatalogFilter {
+  textSearch?: string;
+  subjectName?: string;
+  brand?: string;
+  nmIDs?: number[];
+  withoutPhotos?: boolean;
+}
+
+/**
+ * Keep only the fields the assistant needs to identify a product card
+ */
+export function compactProductCard(card: WildberriesProductCard): CompactProductCard {
+  return {
+    nmID: card.nmID,
+    vendorCode: card.vendorCode,
+    title: card.title,
+    brand: card.brand,
+    subjectName: card.subjectName,
+    photosCount: card.photos?.length || 0,
+    sizes: (card.sizes || []).map(size => size.techSize || size.wbSize || '').filter(Boolean),
+    skus: (card.sizes || []).flatMap(size => size.skus || []),
+    updatedAt: card.updatedAt
+  };
+}
+
+/**
+ * Count values and return them from the most frequent
+ */
+function countBy(values: string[], limit: number): Array<{ value: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, limit);
+}
+
+/**
+ * Summarize the catalog: card counts by subject and brand and cards missing content
+ * @param limit - Number of subjects and brands to include
+ */
+export function summarizeCatalog(cards: WildberriesProductCard[], limit: number = 20): CatalogSummary {
+  return {
+    totalCards: cards.length,
+    withoutPhotos: cards.filter(card => !card.photos?.length).length,
+    withoutDescription: cards.filter(card => !card.description?.trim()).length,
+    subjects: countBy(cards.map(card => card.subjectName || 'Unknown'), limit)
+      .map(({ value, count }) => ({ subjectName: value, count })),
+    brands: countBy(cards.map(card => card.brand || 'No brand'), limit)
+      .map(({ value, count }) => ({ brand: value, count }))
+  };
+}
+
+/**
+ * Filter catalog cards, text search matches title, vendor code and brand (case-insensitive)
+ */
+export function filterCatalog(cards: WildberriesProductCard[], filter: CatalogFilter): WildberriesProductCard[] {
+  const text = filter.textSearch?.trim().toLowerCase();
+  const subjectName = filter.subjectName?.trim().toLowerCase();
+  const brand = filter.brand?.trim().toLowerCase();
+
+  return cards.filter(card =>
+    (!text || [card.title, card.vendorCode, card.brand].some(value => value?.toLowerCase().includes(text))) &&
+    (!subjectName || card.subjectName?.toLowerCase() === subjectName) &&
+    (!brand || card.brand?.toLowerCase() === brand) &&
+    (!filter.nmIDs?.length || filter.nmIDs.includes(card.nmID)) &&
+    (filter.withoutPhotos === undefined || filter.withoutPhotos === !card.photos?.length)
+  );
+}
@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import logger from '../../../shared/utils/logger';
+import { MarketplaceClient } from '../../../infrastructure/marketplaces';
+
+/**
+ * Helpers for the characteristics of Wildberries product cards
+ * Based on: https://dev.wildberries.ru/openapi/work-with-products#tag/Kategorii-predmety-i-harakteristiki/paths/~1content~1v2~1object~1charcs~1%7BsubjectId%7D/get
+ */
+
+/**
+ * Characteristic of a subject from /content/v2/object/charcs/{subjectId}
+ * charcType: 1 - array of strings, 4 - number, 0 - not used
+ */
+export interface WildberriesCharacteristic {
+  charcID: number;
+  name: string;
+  required: boolean;
+  unitName?: string;
+  maxCount: number; // 0 means no limit
+  popular?: boolean;
+  charcType: number;
+}
+
+export type CharacteristicValue = string | number | string[];
+
+export interface CharacteristicInput {
+  id: number;
+  value: CharacteristicValue;
+}
+
+export interface CharacteristicsValidationResult {
+  characteristics: Array<{ id: number; value: string[] | number }>;
+  errors: string[];
+}
+
+/**
+ * Zod schema of the characteristics accepted by the create and update tools
+ */
+export const characteristicsInputSchema = z.array(z.object({
+  id: z.number().int().min(1).describe("charcID from get_wildberries_subject_characteristics"),
+  value: z.union([z.string(), z.number(), z.array(z.string())])
+    .describe("Number for numeric characteristics, list of strings for the others")
+}));
+
+export function describeCharacteristicType(charcType: number): 'strings' | 'number' | 'unused' {
+  if (charcType === 4) return 'number';
+  if (charcType === 1) return 'strings';
+  return 'unused';
+}
+
+/**
+ * Fetch the characteristics schema of a subject
+ */
+export async function fetchCharacteristicsSchema(
+  userId: string,
+  client: MarketplaceClient,
+  subjectID: number
+): Promise<WildberriesCharacteristic[]> {
+  const path = `/content/v2/object/charcs/${subjectID}`;
+
+  logger.info('Making Wildberries Characteristics API request', {
+    userId,
+    endpoint: path
+  });
+
+  const response = await client.request({
+    method: 'GET',
+    category: 'content',
+    path
+  });
+
+  return Array.isArray(response.data?.data) ? response.data.data : [];
+}
+
+/**
+ * Validate characteristics against the schema of the subject and convert them to the API format.
+ * Numbers are sent as numbers, the other values as arrays of strings.
+ */
+export function validateCharacteristics(
+  schema: WildberriesCharacteristic[],
+  characteristics: CharacteristicInput[]
+): CharacteristicsValidationResult {
+  const schemaById = new Map(schema.map(characteristic => [characteristic.charcID, characteristic]));
+  const errors: string[] = [];
+  const validated: CharacteristicsValidationResult['characteristics'] = [];
+  const seenIds = new Set<number>();
+
+  for (const { id, value } of characteristics) {
+    if (seenIds.has(id)) {
+      errors.push(`Characteristic ${id} is listed more than once`);
+      continue;
+    }
+    seenIds.add(id);
+
+    const characteristic = schemaById.get(id);
+    if (!characteristic) {
+      errors.push(`Characteristic ${id} does not exist for this subject`);
+      continue;
+    }
+
+    const type = describeCharacteristicType(characteristic.charcType);
+    if (type === 'unused') {
+      errors.push(`Characteristic "${characteristic.name}" (${id}) is not used for this subject`);
+      continue;
+    }
+
+    if (type === 'number') {
+      // Number('') is 0, so blank strings are rejected before the conversion
+      const number = typeof value === 'string'
+        ? (value.trim() === '' ? NaN : Number(value.trim().replace(',', '.')))
+        : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        errors.push(`Characteristic "${characteristic.name}" (${id}) must be a number${characteristic.unitName ? ` in ${characteristic.unitName}` : ''}`);
+        continue;
+      }
+      validated.push({ id, value: number });
+      continue;
+    }
+
+    const values = (Array.isArray(value) ? value : [String(value)])
+      .map(item => item.trim())
+      .filter(item => item !== '');
+    if (values.length === 0) {
+      errors.push(`Characteristic "${characteristic.name}" (${id}) must not be empty`);
+      continue;
+    }
+    if (characteristic.maxCount > 0 && values.length > characteristic.maxCount) {
+      errors.push(`Characteristic "${characteristic.name}" (${id}) accepts at most ${characteristic.maxCount} values`);
+      continue;
+    }
+    validated.push({ id, value: values });
+  }
+
+  const providedIds = new Set(characteristics.map(characteristic => characteristic.id));
+  for (const characteristic of schema) {
+    if (characteristic.required && !providedIds.has(characteristic.charcID)) {
+      errors.push(`Required characteristic "${characteristic.name}" (${characteristic.charcID}) is missing`);
+    }
+  }
+
+  return { characteristics: validated, errors };
+}
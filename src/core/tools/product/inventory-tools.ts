@@ -0,0 +1,421 @@
+import { tool } from '@langchain/core/tools';
+import { z } from 'zod';
+import logger from '../../../shared/utils/logger';
+import { fetchWildberriesStatistics, getWildberriesClient, handleWildberriesError } from '../wildberries.service';
+import { STOCKS_DATE_FROM, WildberriesStockRecord, buildStockCoverReport, groupStocksByWarehouse } from './inventory.utils';
+import { WildberriesOrderRecord, filterByDateRange } from '../statistics/statistics.utils';
+
+export const inventoryToolsMessages = {
+  get_wildberries_stocks_by_warehouse: {
+    success: "Fetched Wildberries stocks by warehouse.",
+    pending: "Fetching Wildberries stocks by warehouse..."
+  },
+  get_wildberries_product_stocks: {
+    success: "Fetched Wildberries product stocks.",
+    pending: "Fetching Wildberries product stocks..."
+  },
+  get_wildberries_seller_warehouses: {
+    success: "Fetched Wildberries seller warehouses.",
+    pending: "Fetching Wildberries seller warehouses..."
+  },
+  update_wildberries_fbs_stocks: {
+    success: "Updated Wildberries FBS stocks.",
+    pending: "Updating Wildberries FBS stocks..."
+  },
+  get_wildberries_low_stock_report: {
+    success: "Calculated Wildberries stock coverage.",
+    pending: "Calculating Wildberries stock coverage..."
+  }
+}
+
+/**
+ * Zod schema for Wildberries stocks by warehouse tool parameters
+ */
+const getWildberriesStocksByWarehouseSchema = z.object({
+  warehouseName: z.string().optional().describe("Only show this warehouse (substring match, case insensitive)"),
+  includeEmpty: z.boolean().optional().describe("Include products with zero quantity (default: false)"),
+});
+
+/**
+ * Create a Wildberries Stocks by Warehouse tool for fetching FBO stock levels per Wildberries warehouse
+ * Based on: https://dev.wildberries.ru/openapi/reports#tag/Osnovnye-otchyoty/paths/~1api~1v1~1supplier~1stocks/get
+ */
+export function getWildberriesStocksByWarehouseTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        const stocks = await fetchWildberriesStatistics<WildberriesStockRecord>(
+          userId, client, '/api/v1/supplier/stocks', STOCKS_DATE_FROM
+        );
+        const warehouseFilter = input.warehouseName?.toLowerCase();
+        const filtered = stocks
+          .filter(stock => input.includeEmpty || stock.quantity > 0)
+          .filter(stock => !warehouseFilter || stock.warehouseName?.toLowerCase().includes(warehouseFilter));
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: true,
+          data: groupStocksByWarehouse(filtered),
+          totalRecords: filtered.length,
+          requestParams: input,
+          metadata: {
+            endpoint: "get_wildberries_stocks_by_warehouse",
+            rateLimit: "1 request per minute",
+            apiCategory: "Statistics"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "get_wildberries_stocks_by_warehouse",
+      description: `Get FBO stock levels (goods stored at Wildberries warehouses) grouped by warehouse.
+      Use this when users ask about:
+      - How much stock they have at each Wildberries warehouse
+      - Stock distribution across regions
+      - Goods on the way to or from customers
+
+      For the seller's own (FBS) warehouses use get_wildberries_product_stocks with a warehouseId.`,
+      schema: getWildberriesStocksByWarehouseSchema
+    }
+  );
+}
+
+/**
+ * Zod schema for Wildberries product stocks tool parameters
+ */
+const getWildberriesProductStocksSchema = z.object({
+  nmID: z.number().int().min(1).optional().describe("nmId of the product"),
+  barcode: z.string().optional().describe("Barcode (SKU) of a product size"),
+  fbsWarehouseId: z.number().int().min(1).optional().describe("ID of the seller's own warehouse to also fetch FBS stock for the barcode. Get it with get_wildberries_seller_warehouses."),
+}).refine(input => input.nmID !== undefined || input.barcode !== undefined, {
+  message: "Either nmID or barcode is required"
+});
+
+/**
+ * Create a Wildberries Product Stocks tool for fetching stock of a product by nmID or barcode
+ * Based on: https://dev.wildberries.ru/openapi/work-with-products#tag/Ostatki-na-skladah-prodavca/paths/~1api~1v3~1stocks~1%7BwarehouseId%7D/post
+ */
+export function getWildberriesProductStocksTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        const stocks = await fetchWildberriesStatistics<WildberriesStockRecord>(
+          userId, client, '/api/v1/supplier/stocks', STOCKS_DATE_FROM
+        );
+        const fboStocks = stocks.filter(stock =>
+          (input.nmID === undefined || stock.nmId === input.nmID) &&
+          (input.barcode === undefined || stock.barcode === input.barcode)
+        );
+
+        let fbsStocks: Array<{ sku: string; amount: number }> | undefined;
+        if (input.fbsWarehouseId !== undefined) {
+          const skus = input.barcode
+            ? [input.barcode]
+            : Array.from(new Set(fboStocks.map(stock => stock.barcode).filter((barcode): barcode is string => !!barcode)));
+
+          logger.info('Making Wildberries FBS Stocks API request', {
+            userId,
+            endpoint: `/api/v3/stocks/${input.fbsWarehouseId}`,
+            skusCount: skus.length
+          });
+
+          const response = await client.request({
+            method: 'POST',
+            category: 'marketplace',
+            path: `/api/v3/stocks/${input.fbsWarehouseId}`,
+            body: { skus }
+          });
+
+          logger.info('Wildberries FBS Stocks API request successful', {
+            userId,
+            statusCode: response.status,
+          });
+
+          fbsStocks = response.data?.stocks || [];
+        }
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: true,
+          data: {
+            fbo: {
+              totalQuantity: fboStocks.reduce((total, stock) => total + (stock.quantity || 0), 0),
+              byWarehouse: groupStocksByWarehouse(fboStocks)
+            },
+            ...(fbsStocks && {
+              fbs: {
+                warehouseId: input.fbsWarehouseId,
+                stocks: fbsStocks
+              }
+            })
+          },
+          requestParams: input,
+          metadata: {
+            endpoint: "get_wildberries_product_stocks",
+            rateLimit: "1 request per minute",
+            apiCategory: "Statistics, Marketplace"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "get_wildberries_product_stocks",
+      description: `Get stock of a single product by nmID or barcode.
+      Returns FBO stock per Wildberries warehouse and, if fbsWarehouseId is given, the stock at the seller's own warehouse.
+      Use this when users ask about:
+      - How many units of a product are left
+      - Stock of a specific size (barcode)`,
+      schema: getWildberriesProductStocksSchema
+    }
+  );
+}
+
+/**
+ * Create a Wildberries Seller Warehouses tool for listing the seller's own (FBS) warehouses
+ * Based on: https://dev.wildberries.ru/openapi/work-with-products#tag/Sklady-prodavca/paths/~1api~1v3~1warehouses/get
+ */
+export function getWildberriesSellerWarehousesTool(userId: string) {
+  return tool(
+    async () => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        logger.info('Making Wildberries Seller Warehouses API request', {
+          userId,
+          endpoint: '/api/v3/warehouses'
+        });
+
+        const response = await client.request({
+          method: 'GET',
+          category: 'marketplace',
+          path: '/api/v3/warehouses'
+        });
+
+        logger.info('Wildberries Seller Warehouses API request successful', {
+          userId,
+          statusCode: response.status,
+        });
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: true,
+          data: response.data,
+          metadata: {
+            endpoint: "get_wildberries_seller_warehouses",
+            rateLimit: "300 requests per minute",
+            apiCategory: "Marketplace"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "get_wildberries_seller_warehouses",
+      description: `List the seller's own warehouses (FBS) registered on Wildberries.
+      Returns warehouse IDs needed to read or update FBS stock.`,
+      schema: z.object({})
+    }
+  );
+}
+
+/**
+ * Zod schema for Wildberries FBS stocks update tool parameters
+ */
+const updateWildberriesFbsStocksSchema = z.object({
+  warehouseId: z.number().int().min(1).describe("ID of the seller's own warehouse. Get it with get_wildberries_seller_warehouses."),
+  stocks: z.array(z.object({
+    sku: z.string().describe("Barcode (SKU) of the product size"),
+    amount: z.number().int().min(0).max(100000).describe("New quantity available at the warehouse"),
+  })).min(1).max(1000),
+});
+
+/**
+ * Create a Wildberries FBS Stocks tool for updating stock quantities at the seller's own warehouse
+ * Based on: https://dev.wildberries.ru/openapi/work-with-products#tag/Ostatki-na-skladah-prodavca/paths/~1api~1v3~1stocks~1%7BwarehouseId%7D/put
+ */
+export function updateWildberriesFbsStocksTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        // Build request body from validated input
+        const requestBody = {
+          stocks: input.stocks,
+        }
+
+        logger.info('Making Wildberries FBS Stocks update API request', {
+          userId,
+          endpoint: `/api/v3/stocks/${input.warehouseId}`,
+          requestBody
+        });
+
+        const response = await client.request({
+          method: 'PUT',
+          category: 'marketplace',
+          path: `/api/v3/stocks/${input.warehouseId}`,
+          body: requestBody
+        });
+
+        logger.info('Wildberries FBS Stocks update API request successful', {
+          userId,
+          statusCode: response.status,
+        });
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: true,
+          warehouseId: input.warehouseId,
+          requestBody: requestBody,
+          metadata: {
+            endpoint: "update_wildberries_fbs_stocks",
+            rateLimit: "300 requests per minute",
+            apiCategory: "Marketplace"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "update_wildberries_fbs_stocks",
+      description: `Update stock quantities at the seller's own warehouse (FBS) on Wildberries.
+      Use this when users ask about:
+      - Setting or correcting stock of products they ship themselves
+
+      Quantities replace the current values. FBO stock at Wildberries warehouses can't be changed.
+
+      Returns success: true with the warehouseId and the submitted stocks (requestBody) when the stock is updated, otherwise returns an error message.`,
+      schema: updateWildberriesFbsStocksSchema
+    }
+  );
+}
+
+/**
+ * Zod schema for Wildberries low stock report tool parameters
+ */
+const getWildberriesLowStockReportSchema = z.object({
+  periodDays: z.number().int().min(1).max(90).optional().describe("Number of recent days used to calculate the average daily sales (1-90, default: 14)"),
+  thresholdDays: z.number().int().min(1).max(365).optional().describe("Products that will run out in fewer days are reported as low (default: 14)"),
+  nmIDs: z.array(z.number().int().min(1)).optional().describe("Only check these products"),
+  onlyAtRisk: z.boolean().optional().describe("Only return out of stock and low products (default: true)"),
+});
+
+/**
+ * Create a Wildberries Low Stock Report tool calculating days of cover from recent orders
+ * Based on: https://dev.wildberries.ru/openapi/reports#tag/Osnovnye-otchyoty
+ */
+export function getWildberriesLowStockReportTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        const periodDays = input.periodDays || 14;
+        const thresholdDays = input.thresholdDays || 14;
+        const dateFrom = new Date(Date.now() - periodDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+        const stocks = await fetchWildberriesStatistics<WildberriesStockRecord>(
+          userId, client, '/api/v1/supplier/stocks', STOCKS_DATE_FROM
+        );
+        const orders = await fetchWildberriesStatistics<WildberriesOrderRecord>(
+          userId, client, '/api/v1/supplier/orders', dateFrom
+        );
+
+        const nmIdFilter = input.nmIDs?.length ? new Set(input.nmIDs) : null;
+        const soldNmIds = filterByDateRange(orders, dateFrom)
+          .filter(order => !order.isCancel)
+          .map(order => order.nmId);
+        const report = buildStockCoverReport(
+          stocks.filter(stock => !nmIdFilter || nmIdFilter.has(stock.nmId)),
+          soldNmIds,
+          periodDays,
+          thresholdDays
+        );
+        const onlyAtRisk = input.onlyAtRisk ?? true;
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: true,
+          data: onlyAtRisk
+            ? report.filter(item => item.status === 'out_of_stock' || item.status === 'low')
+            : report,
+          totals: {
+            products: report.length,
+            outOfStock: report.filter(item => item.status === 'out_of_stock').length,
+            low: report.filter(item => item.status === 'low').length
+          },
+          requestParams: { periodDays, thresholdDays, nmIDs: input.nmIDs, onlyAtRisk },
+          metadata: {
+            endpoint: "get_wildberries_low_stock_report",
+            rateLimit: "1 request per minute",
+            apiCategory: "Statistics"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "get_wildberries_low_stock_report",
+      description: `Find Wildberries products that are about to run out of stock.
+      Calculates days of cover (current FBO stock divided by average daily orders) for each product.
+      Use this when users ask about:
+      - Which products need restocking
+      - How long the current stock will last
+      - Planning supplies to Wildberries warehouses
+
+      Proactively warn the seller about products with status out_of_stock or low.`,
+      schema: getWildberriesLowStockReportSchema
+    }
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * Helpers for Wildberries stock levels and stock coverage
+ * Based on: https://dev.wildberries.ru/openapi/reports#tag/Osnovnye-otchyoty/paths/~1api~1v1~1supplier~1stocks/get
+ */
+
+// The stocks report returns every record changed since dateFrom, so an early date returns the full inventory
+export const STOCKS_DATE_FROM = '2019-06-20';
+
+/**
+ * Fields of an FBO stock record from /api/v1/supplier/stocks that the tools rely on
+ */
+export interface WildberriesStockRecord {
+  lastChangeDate?: string;
+  warehouseName: string;
+  supplierArticle?: string;
+  nmId: number;
+  barcode?: string;
+  quantity: number;
+  inWayToClient?: number;
+  inWayFromClient?: number;
+  quantityFull?: number;
+  subject?: string;
+  brand?: string;
+  techSize?: string;
+}
+
+export interface WarehouseStock {
+  warehouseName: string;
+  totalQuantity: number;
+  inWayToClient: number;
+  inWayFromClient: number;
+  products: Array<{ nmID: number; barcode?: string; supplierArticle?: string; techSize?: string; quantity: number }>;
+}
+
+export type StockCoverStatus = 'out_of_stock' | 'low' | 'ok' | 'no_sales';
+
+export interface StockCoverItem {
+  nmID: number;
+  supplierArticle?: string;
+  subject?: string;
+  stock: number;
+  inWayToClient: number;
+  unitsSold: number;
+  avgDailySales: number;
+  daysOfCover: number | null;
+  status: StockCoverStatus;
+}
+
+/**
+ * Group FBO stocks by warehouse, sorted by total quantity (highest first)
+ */
+export function groupStocksByWarehouse(stocks: WildberriesStockRecord[]): WarehouseStock[] {
+  const warehouses = new Map<string, WarehouseStock>();
+
+  for (const stock of stocks) {
+    const warehouse = warehouses.get(stock.warehouseName) || {
+      warehouseName: stock.warehouseName,
+      totalQuantity: 0,
+      inWayToClient: 0,
+      inWayFromClient: 0,
+      products: []
+    };
+
+    warehouse.totalQuantity += stock.quantity || 0;
+    warehouse.inWayToClient += stock.inWayToClient || 0;
+    warehouse.inWayFromClient += stock.inWayFromClient || 0;
+    warehouse.products.push({
+      nmID: stock.nmId,
+      barcode: stock.barcode,
+      supplierArticle: stock.supplierArticle,
+      techSize: stock.techSize,
+      quantity: stock.quantity || 0
+    });
+
+    warehouses.set(stock.warehouseName, warehouse);
+  }
+
+  return Array.from(warehouses.values()).sort((a, b) => b.totalQuantity - a.totalQuantity);
+}
+
+/**
+ * Calculate for how many days the current stock will last at the average daily sales rate
+ * @param stock - Units available for sale
+ * @param unitsSold - Units sold during the period
+ * @param periodDays - Length of the period in days
+ * @returns Days of cover rounded to one decimal, or null when nothing was sold
+ */
+export function calculateDaysOfCover(stock: number, unitsSold: number, periodDays: number): number | null {
+  if (periodDays <= 0 || unitsSold <= 0) {
+    return null;
+  }
+
+  const avgDailySales = unitsSold / periodDays;
+  return Math.round((stock / avgDailySales) * 10) / 10;
+}
+
+/**
+ * Build a stock coverage report per product
+ * @param stocks - FBO stock records
+ * @param soldNmIds - nmID of every unit sold (or ordered) during the period
+ * @param periodDays - Length of the sales period in days
+ * @param thresholdDays - Products covered for fewer days are reported as low
+ * @returns Report sorted from the most urgent product
+ */
+export function buildStockCoverReport(
+  stocks: WildberriesStockRecord[],
+  soldNmIds: number[],
+  periodDays: number,
+  thresholdDays: number
+): StockCoverItem[] {
+  const products = new Map<number, { supplierArticle?: string; subject?: string; stock: number; inWayToClient: number }>();
+
+  for (const stock of stocks) {
+    const product = products.get(stock.nmId) || {
+      supplierArticle: stock.supplierArticle,
+      subject: stock.subject,
+      stock: 0,
+      inWayToClient: 0
+    };
+    product.stock += stock.quantity || 0;
+    product.inWayToClient += stock.inWayToClient || 0;
+    products.set(stock.nmId, product);
+  }
+
+  const unitsSoldByNmId = new Map<number, number>();
+  for (const nmId of soldNmIds) {
+    unitsSoldByNmId.set(nmId, (unitsSoldByNmId.get(nmId) || 0) + 1);
+  }
+
+  const report: StockCoverItem[] = [];
+  for (const [nmID, product] of products) {
+    const unitsSold = unitsSoldByNmId.get(nmID) || 0;
+    const daysOfCover = calculateDaysOfCover(product.stock, unitsSold, periodDays);
+
+    let status: StockCoverStatus;
+    if (product.stock <= 0) {
+      status = 'out_of_stock';
+    } else if (daysOfCover === null) {
+      status = 'no_sales';
+    } else {
+      status = daysOfCover < thresholdDays ? 'low' : 'ok';
+    }
+
+    report.push({
+      nmID,
+      supplierArticle: product.supplierArticle,
+      subject: product.subject,
+      stock: product.stock,
+      inWayToClient: product.inWayToClient,
+      unitsSold,
+      avgDailySales: periodDays > 0 ? Math.round((unitsSold / periodDays) * 100) / 100 : 0,
+      daysOfCover,
+      status
+    });
+  }
+
+  const urgency: Record<StockCoverStatus, number> = { out_of_stock: 0, low: 1, ok: 2, no_sales: 3 };
+  return report.sort((a, b) =>
+    urgency[a.status] - urgency[b.status] ||
+    (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity)
+  );
+}
@@ -1,30 +1,104 @@
 import { tool } from '@langchain/core/tools';
 import { z } from 'zod';
-import axios from 'axios';
 import logger from '../../../shared/utils/logger';
-import { getWildberriesApiKey, handleWildberriesError } from '../wildberries.service';
+import { getWildberriesClient, handleWildberriesError } from '../wildberries.service';
+import { MarketplaceClient } from '../../../infrastructure/marketplaces';
+import { compactProductCard, filterCatalog, summarizeCatalog, WildberriesProductCard } from './catalog.utils';
+import { getCachedCatalog, setCachedCatalog, clearCachedCatalog } from './catalog-cache';
+import {
+  characteristicsInputSchema,
+  CharacteristicInput,
+  CharacteristicsValidationResult,
+  describeCharacteristicType,
+  fetchCharacteristicsSchema,
+  validateCharacteristics
+} from './characteristics.utils';
+import { assignBarcodes, buildCardSizes, CardSizeInput, cardSizesInputSchema, validateCardVariants } from './card-variants.utils';
 import { adjustProductDescription } from '../../../shared/utils/text-processing.utils';
+import { submitPriceChanges } from '../../prices/prices.service';
+import { MAX_PRICE_CHANGES_PER_UPLOAD, MAX_PRICE_DECREASE_RATIO } from '../../prices/prices.utils';
 
 export const wildberriesToolsMessages = {
   get_wildberries_seller_product_cards: {
     success: "Fetch Wildberries product cards.",
     pending: "Fetching Wildberries product cards..."
+  },
+  search_wildberries_catalog: {
+    success: "Searched Wildberries catalog.",
+    pending: "Searching Wildberries catalog..."
+  },
+  get_wildberries_subject_characteristics: {
+    success: "Fetched Wildberries subject characteristics.",
+    pending: "Fetching Wildberries subject characteristics..."
+  },
+  generate_wildberries_barcodes: {
+    success: "Generated Wildberries barcodes.",
+    pending: "Generating Wildberries barcodes..."
   }
 }
 
+// Hard cap for the all-pages mode, 50 pages of 100 cards
+const MAX_CATALOG_CARDS = 5000;
+// Cards shown to the model with the catalog summary
+const CATALOG_PREVIEW_CARDS = 30;
+
 /**
  * Zod schema for Wildberries seller products tool parameters
  */
 const getWildberriesSellerProductCardsSchema = z.object({
-  limit: z.number().min(1).max(1000).optional().describe("Number of products to fetch (1-1000, default: 100)"),
-  offset: z.number().min(0).optional().describe("Offset for pagination (default: 0)"),
+  limit: z.number().min(1).max(100).optional().describe("Number of products per page (1-100, default: 100)"),
+  allPages: z.boolean().optional().describe(`Follow the cursor through all pages (up to ${MAX_CATALOG_CARDS} cards) and return a catalog summary instead of raw cards. The full catalog is cached for search_wildberries_catalog.`),
   textSearch: z.string().optional().describe("Search term to filter products"),
   allowedCategoriesOnly: z.boolean().optional().describe("Only show products from allowed categories (default: false)"),
   withPhoto: z.number().min(-1).max(1).optional().describe("Photo filter: -1 = without photos, 0 = any, 1 = with photos only"),
-  updatedAt: z.string().optional().describe("Filter by update date (ISO format: 2024-01-01T00:00:00Z)"),
-  nmID: z.number().optional().describe("Specific product ID to fetch")
+  updatedAt: z.string().optional().describe("Cursor of the next page: updatedAt from the cursor of the previous response"),
+  nmID: z.number().optional().describe("Cursor of the next page: nmID from the cursor of the previous response")
 });
 
+type ProductCardsRequestBody = {
+  settings: {
+    cursor: { limit: number; updatedAt?: string; nmID?: number };
+    filter: { textSearch: string; allowedCategoriesOnly: boolean; withPhoto?: number };
+  };
+};
+
+/**
+ * Follow the cards list cursor until a page comes back short or the card cap is reached
+ */
+async function fetchAllProductCards(
+  client: MarketplaceClient,
+  userId: string,
+  requestBody: ProductCardsRequestBody
+): Promise<{ cards: WildberriesProductCard[]; truncated: boolean; pages: number }> {
+  const cards: WildberriesProductCard[] = [];
+  const limit = requestBody.settings.cursor.limit;
+  let cursor = requestBody.settings.cursor;
+  let pages = 0;
+
+  while (cards.length < MAX_CATALOG_CARDS) {
+    const response = await client.request({
+      method: 'POST',
+      category: 'content',
+      path: '/content/v2/get/cards/list',
+      body: { settings: { ...requestBody.settings, cursor } }
+    });
+    pages++;
+
+    const pageCards: WildberriesProductCard[] = response.data?.cards || [];
+    cards.push(...pageCards);
+
+    const nextCursor = response.data?.cursor;
+    if (pageCards.length < limit || !nextCursor || (nextCursor.total ?? 0) < limit) {
+      return { cards, truncated: false, pages };
+    }
+
+    cursor = { limit, updatedAt: nextCursor.updatedAt, nmID: nextCursor.nmID };
+  }
+
+  logger.warn('Wildberries catalog is larger than the card cap', { userId, maxCards: MAX_CATALOG_CARDS, pages });
+  return { cards: cards.slice(0, MAX_CATALOG_CARDS), truncated: true, pages };
+}
+
 /**
  * Create a Wildberries Seller Products tool for fetching seller's listed products
  * Based on: https://dev.wildberries.ru/openapi/work-with-products#tag/Kartochki-tovarov/paths/~1content~1v2~1get~1cards~1list/post
@@ -33,9 +107,9 @@ export function getWildberriesSellerProductCardsTool(userId: string) {
   return tool(
     async (input) => {
       try {
-        // Get the user's Wildberries API key
-        const apiKey = await getWildberriesApiKey(userId);
-        if (!apiKey) {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
           return JSON.stringify({
             error: "I couldn't find your Wildberries API key.",
             success: false,
@@ -43,7 +117,7 @@ export function getWildberriesSellerProductCardsTool(userId: string) {
         }
 
         // Build request body from validated input
-        const requestBody = {
+        const requestBody: ProductCardsRequestBody = {
           settings: {
             cursor: {
               limit: input.limit || 100,
@@ -52,32 +126,54 @@ export function getWildberriesSellerProductCardsTool(userId: string) {
             },
             filter: {
               textSearch: input.textSearch || "",
-              allowedCategoriesOnly: input.allowedCategoriesOnly || false
+              allowedCategoriesOnly: input.allowedCategoriesOnly || false,
+              ...(input.withPhoto !== undefined && { withPhoto: input.withPhoto })
             }
-          },
-          ...(input.withPhoto !== undefined && { withPhoto: input.withPhoto })
+          }
         };
 
         logger.info('Making Wildberries Seller Products API request', {
           userId,
           endpoint: '/content/v2/get/cards/list',
+          allPages: input.allPages || false,
           requestBody
         });
 
+        if (input.allPages) {
+          const { cards, truncated, pages } = await fetchAllProductCards(client, userId, requestBody);
+          const catalog = setCachedCatalog(userId, cards, truncated);
+
+          logger.info('Wildberries Seller Products catalog fetched', {
+            userId,
+            cardsCount: cards.length,
+            pages,
+            truncated
+          });
+
+          return JSON.stringify({
+            success: true,
+            summary: summarizeCatalog(cards),
+            truncated,
+            cards: cards.slice(0, CATALOG_PREVIEW_CARDS).map(compactProductCard),
+            note: `The full catalog (${cards.length} cards) is cached, use search_wildberries_catalog to look up other cards.`,
+            cachedAt: new Date(catalog.fetchedAt).toISOString(),
+            requestParams: requestBody,
+            metadata: {
+              endpoint: "get_wildberries_seller_product_cards",
+              rateLimit: "100 requests per minute",
+              apiCategory: "Content",
+              pages
+            }
+          });
+        }
+
         // Make POST request to Wildberries Content API
-        const response = await axios.post(
-          'https://content-api-sandbox.wildberries.ru/content/v2/get/cards/list',
-          requestBody,
-          {
-            headers: {
-              'Authorization': apiKey,
-              'Content-Type': 'application/json',
-              'Accept': 'application/json',
-              'User-Agent': 'MP-Bot/1.0'
-            },
-            timeout: 30000
-          }
-        );
+        const response = await client.request({
+          method: 'POST',
+          category: 'content',
+          path: '/content/v2/get/cards/list',
+          body: requestBody
+        });
 
         logger.info('Wildberries Seller Products API request successful', {
           userId,
@@ -113,12 +209,91 @@ export function getWildberriesSellerProductCardsTool(userId: string) {
       - Inventory management
       - Product cards and their details
       - Product status and characteristics
-      - Managing seller's catalog`,
+      - Managing seller's catalog
+      Returns one page of full cards with a cursor, pass updatedAt and nmID from the cursor to get the next page.
+      Use allPages for questions about the whole catalog (counts, brands, categories, cards without photos).`,
       schema: getWildberriesSellerProductCardsSchema
     }
   );
 }
 
+/**
+ * Zod schema for Wildberries catalog search tool parameters
+ */
+const searchWildberriesCatalogSchema = z.object({
+  textSearch: z.string().optional().describe("Text to find in title, vendor code or brand"),
+  subjectName: z.string().optional().describe("Exact subject (category) name"),
+  brand: z.string().optional().describe("Exact brand name"),
+  nmIDs: z.array(z.number().int()).optional().describe("Specific product nmIDs"),
+  withoutPhotos: z.boolean().optional().describe("true = only cards without photos, false = only cards with photos"),
+  limit: z.number().int().min(1).max(200).optional().describe("Number of cards to return (1-200, default: 50)"),
+  offset: z.number().int().min(0).optional().describe("Offset for pagination (default: 0)"),
+});
+
+/**
+ * Create a Wildberries Catalog Search tool that answers follow-up questions from the cached catalog
+ */
+export function searchWildberriesCatalogTool(userId: string) {
+  return tool(
+    async (input) => {
+      const catalog = getCachedCatalog(userId);
+      if (!catalog) {
+        return JSON.stringify({
+          error: "The catalog is not loaded. Call get_wildberries_seller_product_cards with allPages: true first.",
+          success: false,
+        });
+      }
+
+      const matches = filterCatalog(catalog.cards, input);
+      const offset = input.offset || 0;
+      const limit = input.limit || 50;
+
+      return JSON.stringify({
+        success: true,
+        totalMatches: matches.length,
+        cards: matches.slice(offset, offset + limit).map(compactProductCard),
+        catalogSize: catalog.cards.length,
+        truncated: catalog.truncated,
+        cachedAt: new Date(catalog.fetchedAt).toISOString(),
+        metadata: {
+          endpoint: "search_wildberries_catalog",
+          apiCategory: "Content"
+        }
+      });
+    },
+    {
+      name: "search_wildberries_catalog",
+      description: `Search the seller's Wildberries catalog loaded earlier by get_wildberries_seller_product_cards with allPages.
+      Use this for follow-up questions about the catalog without calling Wildberries again:
+      - Finding cards by name, vendor code, brand or subject
+      - Listing cards without photos
+      Returns compact cards. Use get_wildberries_seller_product_cards with nmID filter for full card details.`,
+      schema: searchWildberriesCatalogSchema
+    }
+  );
+}
+
+/**
+ * Fetch the characteristics schema of the subject and validate the characteristics against it
+ */
+async function prepareCharacteristics(
+  userId: string,
+  client: MarketplaceClient,
+  subjectID: number,
+  characteristics: CharacteristicInput[]
+): Promise<CharacteristicsValidationResult> {
+  const schema = await fetchCharacteristicsSchema(userId, client, subjectID);
+  return validateCharacteristics(schema, characteristics);
+}
+
+function characteristicsValidationError(subjectID: number, errors: string[]) {
+  return JSON.stringify({
+    error: `Characteristics don't match the schema of subject ${subjectID}. Check them with get_wildberries_subject_characteristics.`,
+    success: false,
+    validationErrors: errors,
+  });
+}
+
 /**
  * Zod schema for Wildberries product card creation tool parameters
  */
@@ -132,9 +307,18 @@ const createWildberriesProductCardSchema = z.object({
   productWidth: z.number().int().min(0).describe("Width of the product in cm"),
   productHeight: z.number().int().min(0).describe("Height of the product in cm"),
   productWeightBrutto: z.number().min(0).describe("Weight of the product in kg"),
-  size: z.number().int().min(0).optional().describe("Russian size of the product, if it is shoes, clothes, or similar products. If you don't know the size, leave it blank."),
+  size: z.number().int().min(0).optional().describe("Russian size of the product, if it is shoes, clothes, or similar products. If you don't know the size, leave it blank. Use sizes for a size grid."),
   price: z.number().int().min(1).optional().describe("Price of the product in rubles"),
-  sku: z.string().optional().describe("SKU of the product (if user doesn't provide, will be generated automatically by wildberries api)"),
+  sku: z.string().optional().describe("SKU of the product (if user doesn't provide, will be generated automatically by wildberries api). Use generate_wildberries_barcodes to get barcodes up front."),
+  sizes: cardSizesInputSchema.optional().describe("Size grid of the product, one entry per size. Use instead of size, price and sku."),
+  characteristics: characteristicsInputSchema.optional().describe("Characteristics of the product. Get the available ones with get_wildberries_subject_characteristics, all required characteristics must be provided."),
+  variants: z.array(z.object({
+    vendorCode: z.string().describe("Vendor code of the variant"),
+    title: z.string().max(60).optional().describe("Title of the variant (default: title of the product)"),
+    description: z.string().optional().describe("Description of the variant (default: description of the product)"),
+    sizes: cardSizesInputSchema.optional().describe("Size grid of the variant (default: sizes of the product without barcodes)"),
+    characteristics: characteristicsInputSchema.optional().describe("Characteristics of the variant, e.g. another color (default: characteristics of the product)"),
+  })).optional().describe("Other variants of the product (e.g. colors) merged under the same card. Brand and dimensions are taken from the product."),
 });
 
 /**
@@ -145,93 +329,124 @@ export function createWildberriesProductCardTool(userId: string) {
   return tool(
     async (input) => {
       try {
-        // Get the user's Wildberries API key
-        const apiKey = await getWildberriesApiKey(userId);
-        if (!apiKey) {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
           return JSON.stringify({
             error: "I couldn't find your Wildberries API key.",
             success: false,
           });
         }
 
-        // Adjust description to meet Wildberries requirements
-        const adjustedDescription = input.description ? 
-          adjustProductDescription(input.description, input.title) : 
-          "";
+        if (input.sizes !== undefined && (input.size !== undefined || input.price !== undefined || input.sku !== undefined)) {
+          return JSON.stringify({
+            error: "Provide either sizes or size, price and sku, not both.",
+            success: false,
+          });
+        }
 
-        // Log description adjustment if it occurred
-        if (input.description && input.description !== adjustedDescription) {
-          logger.info('Product description was adjusted to meet Wildberries requirements', {
-            userId,
-            originalLength: input.description.length,
-            adjustedLength: adjustedDescription.length,
-            productTitle: input.title
+        // The product itself is the first variant, the other variants inherit its fields
+        const productSizes: CardSizeInput[] = input.sizes || [{
+          ...(input.size !== undefined && { techSize: String(input.size), wbSize: String(input.size) }),
+          ...(input.price !== undefined && { price: input.price }),
+          ...(input.sku !== undefined && { skus: [input.sku] }),
+        }];
+        const variants = [
+          {
+            vendorCode: input.vendorCode,
+            title: input.title,
+            description: input.description,
+            sizes: productSizes,
+            characteristics: input.characteristics || []
+          },
+          ...(input.variants || []).map(variant => ({
+            vendorCode: variant.vendorCode,
+            title: variant.title || input.title,
+            description: variant.description || input.description,
+            sizes: variant.sizes || productSizes.map(({ skus, ...size }) => size),
+            characteristics: variant.characteristics || input.characteristics || []
+          }))
+        ];
+
+        const variantErrors = validateCardVariants(variants);
+        if (variantErrors.length > 0) {
+          return JSON.stringify({
+            error: "The sizes or variants of the card are invalid.",
+            success: false,
+            validationErrors: variantErrors,
           });
         }
 
+        // Check characteristics of every variant against the subject schema before the upload
+        const characteristicsSchema = await fetchCharacteristicsSchema(userId, client, input.subjectID);
+        const characteristics = variants.map(variant => validateCharacteristics(characteristicsSchema, variant.characteristics));
+        const characteristicsErrors = characteristics.flatMap((result, index) => variants.length > 1
+          ? result.errors.map(error => `${variants[index].vendorCode}: ${error}`)
+          : result.errors);
+        if (characteristicsErrors.length > 0) {
+          return characteristicsValidationError(input.subjectID, characteristicsErrors);
+        }
+
         // Build request body from validated input
         const requestBody = [
           {
             subjectID: input.subjectID,
-            variants: [
-              {
+            variants: variants.map((variant, index) => {
+              // Adjust description to meet Wildberries requirements
+              const adjustedDescription = variant.description ?
+                adjustProductDescription(variant.description, variant.title) :
+                "";
+
+              // Log description adjustment if it occurred
+              if (variant.description && variant.description !== adjustedDescription) {
+                logger.info('Product description was adjusted to meet Wildberries requirements', {
+                  userId,
+                  originalLength: variant.description.length,
+                  adjustedLength: adjustedDescription.length,
+                  productTitle: variant.title
+                });
+              }
+
+              return {
                 ...(input.brand !== undefined && { brand: input.brand }),
-                title: input.title,
+                title: variant.title,
                 ...(adjustedDescription !== "" && { description: adjustedDescription }),
-                vendorCode: input.vendorCode,
+                vendorCode: variant.vendorCode,
                 dimensions: {
                   length: input.productLength,
                   width: input.productWidth,
                   height: input.productHeight,
                   weightBrutto: input.productWeightBrutto,
                 },
-                sizes: [
-                  {
-                    ...(input.size !== undefined && { 
-                      techSize: input.size,
-                      wbSize: input.size 
-                    }),
-                    ...(input.price !== undefined && { price: input.price }),
-                    ...(input.sku !== undefined && { skus: [input.sku] }),
-                  }
-                ],
-                // characteristics: [
-                //   {
-                //     name: input.characteristicName,
-                //     value: input.characteristicValue,
-                //   }
-                // ]
-              }
-            ]
+                sizes: buildCardSizes(variant.sizes),
+                ...(characteristics[index].characteristics.length > 0 && { characteristics: characteristics[index].characteristics }),
+              };
+            })
           }
         ];
 
         logger.info('Making Wildberries Product Card API request', {
           userId,
-          endpoint: '/content/v2/get/cards/list',
+          endpoint: '/content/v2/cards/upload',
           requestBody
         });
 
         // Make POST request to Wildberries Content API
-        const response = await axios.post(
-          'https://content-api-sandbox.wildberries.ru/content/v2/cards/upload',
-          requestBody,
-          {
-            headers: {
-              'Authorization': apiKey,
-              'Content-Type': 'application/json',
-              'Accept': 'application/json',
-              'User-Agent': 'MP-Bot/1.0'
-            },
-            timeout: 30000
-          }
-        );
+        const response = await client.request({
+          method: 'POST',
+          category: 'content',
+          path: '/content/v2/cards/upload',
+          body: requestBody
+        });
 
-        logger.info('Wildberries Seller Products API request successful', {
+        logger.info('Wildberries Product Card API request successful', {
           userId,
           statusCode: response.status,
         });
 
+        // The cached catalog no longer matches the cards
+        clearCachedCatalog(userId);
+
         // Return structured response as string (required by LangChain tools)
         return JSON.stringify({
           success: !response.data?.error,
@@ -260,8 +475,12 @@ export function createWildberriesProductCardTool(userId: string) {
       
       Keep in mind that this tool requires a valid subjectId from Wildberries API.
       If you don't have a subjectId, you can get it using another tool.
+      Get the characteristics of the subject with get_wildberries_subject_characteristics and fill in the required ones.
+      For clothes and shoes pass the size grid in sizes. Other colors or models of the same product go to variants
+      and are merged under one card.
       
-      Returns nothing if the product card is created successfully, otherwise returns an error message.`,
+      Returns JSON with success, the Wildberries response and the submitted cards; errorMessage and additionalErrors explain a rejected request.
+      Wildberries checks the cards after accepting them, so use get_wildberries_card_upload_errors to see whether the card was created.`,
       schema: createWildberriesProductCardSchema
     }
   );
@@ -283,6 +502,8 @@ const updateWildberriesProductCardSchema = z.object({
   chrtID: z.number().int().min(0).optional().describe("The chrtID of the size of the product to change. If you don't know the chrtID, leave it blank."),
   size: z.number().int().min(0).optional().describe("Russian size of the product, if it is shoes, clothes, or similar products. If you don't know the size, leave it blank."),
   sku: z.string().describe("SKU of the product to update"),
+  subjectID: z.number().int().min(1).optional().describe("Subject ID of the product card. Required when characteristics are provided."),
+  characteristics: characteristicsInputSchema.optional().describe("All characteristics of the product, the existing ones are replaced. Get the available ones with get_wildberries_subject_characteristics."),
 });
 
 /**
@@ -293,15 +514,31 @@ export function updateWildberriesProductCardTool(userId: string) {
   return tool(
     async (input) => {
       try {
-        // Get the user's Wildberries API key
-        const apiKey = await getWildberriesApiKey(userId);
-        if (!apiKey) {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
           return JSON.stringify({
             error: "I couldn't find your Wildberries API key.",
             success: false,
           });
         }
 
+        let characteristics: CharacteristicsValidationResult | undefined;
+        if (input.characteristics !== undefined) {
+          if (input.subjectID === undefined) {
+            return JSON.stringify({
+              error: "subjectID of the product card is required to update its characteristics.",
+              success: false,
+            });
+          }
+
+          // Check characteristics against the subject schema before the update
+          characteristics = await prepareCharacteristics(userId, client, input.subjectID, input.characteristics);
+          if (characteristics.errors.length > 0) {
+            return characteristicsValidationError(input.subjectID, characteristics.errors);
+          }
+        }
+
         // Adjust description to meet Wildberries requirements
         const adjustedDescription = input.description ? 
           adjustProductDescription(input.description, input.title) : 
@@ -341,41 +578,32 @@ export function updateWildberriesProductCardTool(userId: string) {
                 ...(input.chrtID !== undefined && { chrtID: input.chrtID }),
               }
             ],
-            // characteristics: [
-            //   {
-            //     name: input.characteristicName,
-            //     value: input.characteristicValue,
-            //   }
-            // ]
+            ...(characteristics && { characteristics: characteristics.characteristics }),
           }
         ];
 
         logger.info('Making Wildberries Product Card API request', {
           userId,
-          endpoint: '/content/v2/get/cards/list',
+          endpoint: '/content/v2/cards/update',
           requestBody
         });
 
         // Make POST request to Wildberries Content API
-        const response = await axios.post(
-          'https://content-api-sandbox.wildberries.ru/content/v2/cards/update',
-          requestBody,
-          {
-            headers: {
-              'Authorization': apiKey,
-              'Content-Type': 'application/json',
-              'Accept': 'application/json',
-              'User-Agent': 'MP-Bot/1.0'
-            },
-            timeout: 30000
-          }
-        );
+        const response = await client.request({
+          method: 'POST',
+          category: 'content',
+          path: '/content/v2/cards/update',
+          body: requestBody
+        });
 
-        logger.info('Wildberries Seller Products API request successful', {
+        logger.info('Wildberries Product Card API request successful', {
           userId,
           statusCode: response.status,
         });
 
+        // The cached catalog no longer matches the cards
+        clearCachedCatalog(userId);
+
         // Return structured response as string (required by LangChain tools)
         return JSON.stringify({
           success: !response.data?.error,
@@ -409,8 +637,10 @@ export function updateWildberriesProductCardTool(userId: string) {
       If you want to change the price, you need to use set_wildberries_products_price tool.
 
       If the seller's product has some properties, they have to be included in the request body.
+      To change characteristics, provide subjectID and all characteristics of the card: the list replaces the existing one.
       
-      Returns nothing if the product card is updated successfully, otherwise returns an error message.`,
+      Returns JSON with success, the Wildberries response and the submitted cards; errorMessage and additionalErrors explain a rejected request.
+      Wildberries checks the cards after accepting them, so use get_wildberries_card_upload_errors to see whether the card was updated.`,
       schema: updateWildberriesProductCardSchema
     }
   );
@@ -432,9 +662,9 @@ export function getWildberriesSubjectIdTool(userId: string) {
   return tool(
     async (input) => {
       try {
-        // Get the user's Wildberries API key
-        const apiKey = await getWildberriesApiKey(userId);
-        if (!apiKey) {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
           return JSON.stringify({
             error: "I couldn't find your Wildberries API key.",
             success: false,
@@ -457,19 +687,12 @@ export function getWildberriesSubjectIdTool(userId: string) {
         });
 
         // Make GET request to Wildberries Content API
-        const response = await axios.get(
-          'https://content-api-sandbox.wildberries.ru/content/v2/object/all',
-          {
-            params: requestParams,
-            headers: {
-              'Authorization': apiKey,
-              'Content-Type': 'application/json',
-              'Accept': 'application/json',
-              'User-Agent': 'MP-Bot/1.0'
-            },
-            timeout: 30000
-          }
-        );
+        const response = await client.request({
+          method: 'GET',
+          category: 'content',
+          path: '/content/v2/object/all',
+          params: requestParams
+        });
 
         logger.info('Wildberries Seller Products API request successful', {
           userId,
@@ -479,12 +702,14 @@ export function getWildberriesSubjectIdTool(userId: string) {
         // Return structured response as string (required by LangChain tools)
         return JSON.stringify({
           success: !response.data?.error,
-          data: { // In sandbox wildberries returns a mere subjectID, so we return mock data
-            subjectID: 397,
-            parentID: 786,
-            subjectName: input.name,
-            parentName: "Весь каталог"
-          },
+          data: client.environment === 'sandbox'
+            ? { // In sandbox wildberries returns a mere subjectID, so we return mock data
+              subjectID: 397,
+              parentID: 786,
+              subjectName: input.name,
+              parentName: "Весь каталог"
+            }
+            : response.data?.data || [],
           requestParams: requestParams,
           ...(response.data?.errorText && { errorMessage: response.data.errorText }),
           ...(response.data?.additionalErrors && { additionalErrors: response.data.additionalErrors }),
@@ -512,69 +737,217 @@ export function getWildberriesSubjectIdTool(userId: string) {
   )
 }
 
-const setWildberriesProductsPriceSchema = z.object({
-  data: z.array(z.object({
-    nmID: z.number().int().min(1).describe("nmId of the product card to update"),
-    price: z.number().int().min(1).optional().describe("Price of the product in rubles without discount. The new price can't be lower than 3 times the cost of the product."),
-    discount: z.number().int().min(0).max(99).optional().describe("Discount of the product in percent."),
-  })),
+const getWildberriesSubjectCharacteristicsSchema = z.object({
+  subjectID: z.number().int().min(1).describe("Subject ID from get_wildberries_subject_id"),
+  requiredOnly: z.boolean().optional().describe("Only return required characteristics (default: false)"),
 });
 
 /**
- * Create a Wildberries Subject ID tool for getting a subject ID from Wildberries API
- * Based on: https://dev.wildberries.ru/openapi/work-with-products#tag/Ceny-i-skidki/paths/~1api~1v2~1upload~1task/post
+ * Create a Wildberries tool for getting the characteristics a product card of a subject can have
+ * Based on: https://dev.wildberries.ru/openapi/work-with-products#tag/Kategorii-predmety-i-harakteristiki/paths/~1content~1v2~1object~1charcs~1%7BsubjectId%7D/get
  */
-export function setWildberriesProductsPriceTool(userId: string) {
+export function getWildberriesSubjectCharacteristicsTool(userId: string) {
   return tool(
     async (input) => {
       try {
-        // Get the user's Wildberries API key
-        const apiKey = await getWildberriesApiKey(userId);
-        if (!apiKey) {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
           return JSON.stringify({
             error: "I couldn't find your Wildberries API key.",
             success: false,
           });
         }
 
-        // Build request body from validated input
-        const requestBody = {
-          data: input.data,
+        const schema = await fetchCharacteristicsSchema(userId, client, input.subjectID);
+        const characteristics = schema
+          .filter(characteristic => !input.requiredOnly || characteristic.required)
+          .filter(characteristic => describeCharacteristicType(characteristic.charcType) !== 'unused')
+          .map(characteristic => ({
+            id: characteristic.charcID,
+            name: characteristic.name,
+            required: characteristic.required,
+            type: describeCharacteristicType(characteristic.charcType),
+            ...(characteristic.unitName && { unit: characteristic.unitName }),
+            ...(characteristic.maxCount > 0 && { maxCount: characteristic.maxCount }),
+          }));
+
+        logger.info('Wildberries Characteristics API request successful', {
+          userId,
+          subjectID: input.subjectID,
+          characteristicsCount: characteristics.length
+        });
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: true,
+          subjectID: input.subjectID,
+          characteristics,
+          metadata: {
+            endpoint: "get_wildberries_subject_characteristics",
+            rateLimit: "100 requests per minute",
+            apiCategory: "Content"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "get_wildberries_subject_characteristics",
+      description: `Get the characteristics of a Wildberries subject.
+      Use this before creating or updating a product card to know which characteristics it can have:
+      - Required characteristics that must be filled in
+      - Value type: "number" takes a number in the given unit, "strings" takes a list of strings
+      - The maximum number of values
+      
+      Pass the characteristics to create_wildberries_product_card or update_wildberries_product_card as {id, value}.`,
+      schema: getWildberriesSubjectCharacteristicsSchema
+    }
+  )
+}
+
+// Largest batch the barcodes endpoint generates at once
+const MAX_BARCODES_PER_REQUEST = 5000;
+
+const generateWildberriesBarcodesSchema = z.object({
+  sizes: z.array(z.object({
+    vendorCode: z.string().optional().describe("Vendor code of the variant the size belongs to"),
+    techSize: z.string().describe("Seller's size, e.g. S, M or 42"),
+  })).min(1).max(MAX_BARCODES_PER_REQUEST).describe("Sizes that need a barcode, one barcode is generated per size"),
+});
+
+/**
+ * Create a Wildberries tool that generates barcodes for the sizes of new cards
+ * Based on: https://dev.wildberries.ru/openapi/work-with-products#tag/Sozdanie-kartochek-tovarov/paths/~1content~1v2~1barcodes/post
+ */
+export function generateWildberriesBarcodesTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        const sizeKeys = input.sizes.map(size => `${size.vendorCode?.trim().toLowerCase() || ''}/${size.techSize.trim().toLowerCase()}`);
+        if (new Set(sizeKeys).size !== sizeKeys.length) {
+          return JSON.stringify({
+            error: "The same size of a variant is listed more than once.",
+            success: false,
+          });
         }
 
-        logger.info('Making Wildberries Products Price API request', {
+        const requestBody = { count: input.sizes.length };
+
+        logger.info('Making Wildberries Barcodes API request', {
           userId,
-          endpoint: '/api/v2/upload/task',
+          endpoint: '/content/v2/barcodes',
           requestBody
         });
 
-        // Make GET request to Wildberries Content API
-        const response = await axios.post(
-          'https://discounts-prices-api-sandbox.wildberries.ru/api/v2/upload/task',
-          requestBody,
-          {
-            headers: {
-              'Authorization': apiKey,
-              'Content-Type': 'application/json',
-              'Accept': 'application/json',
-              'User-Agent': 'MP-Bot/1.0'
-            },
-            timeout: 30000
-          }
-        );
+        const response = await client.request({
+          method: 'POST',
+          category: 'content',
+          path: '/content/v2/barcodes',
+          body: requestBody
+        });
+
+        if (response.data?.error) {
+          return JSON.stringify({
+            success: false,
+            error: response.data.errorText || "Wildberries could not generate barcodes.",
+            ...(response.data.additionalErrors && { additionalErrors: response.data.additionalErrors }),
+          });
+        }
+
+        const barcodes: string[] = Array.isArray(response.data?.data) ? response.data.data : [];
 
-        logger.info('Wildberries Products Price API request successful', {
+        logger.info('Wildberries Barcodes API request successful', {
           userId,
           statusCode: response.status,
+          barcodesCount: barcodes.length
         });
 
         // Return structured response as string (required by LangChain tools)
         return JSON.stringify({
-          success: !response.data?.error,
-          data: response.data,
-          requestBody: requestBody,
-          ...(response.data?.errorText && { errorMessage: response.data.errorText }),
-          ...(response.data?.additionalErrors && { additionalErrors: response.data.additionalErrors }),
+          success: true,
+          barcodes: assignBarcodes(input.sizes, barcodes),
+          metadata: {
+            endpoint: "generate_wildberries_barcodes",
+            rateLimit: "100 requests per minute",
+            apiCategory: "Content"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "generate_wildberries_barcodes",
+      description: `Generate barcodes for the sizes of new Wildberries product cards.
+      Use this when users ask about:
+      - Getting barcodes (SKUs) before creating a card
+      - Barcodes for a size grid or several variants
+      
+      Returns one barcode per size. Pass them to create_wildberries_product_card in the skus of the matching sizes.
+      Barcodes that are not used in a card are not reserved, don't generate them for cards you won't create.`,
+      schema: generateWildberriesBarcodesSchema
+    }
+  )
+}
+
+const setWildberriesProductsPriceSchema = z.object({
+  data: z.array(z.object({
+    nmID: z.number().int().min(1).describe("nmId of the product card to update"),
+    price: z.number().int().min(1).optional().describe("Price of the product in rubles without discount. The new price can't be lower than 3 times the cost of the product."),
+    discount: z.number().int().min(0).max(99).optional().describe("Discount of the product in percent."),
+  })).min(1).max(MAX_PRICE_CHANGES_PER_UPLOAD),
+});
+
+/**
+ * Create a Wildberries Subject ID tool for getting a subject ID from Wildberries API
+ * Based on: https://dev.wildberries.ru/openapi/work-with-products#tag/Ceny-i-skidki/paths/~1api~1v2~1upload~1task/post
+ */
+export function setWildberriesProductsPriceTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        // Validated against the current prices and submitted in one upload task
+        const result = await submitPriceChanges(userId, client, input.data, { source: 'agent' });
+
+        if (result.errors.length > 0) {
+          return JSON.stringify({
+            success: false,
+            error: "Some price changes are invalid, nothing was submitted.",
+            validationErrors: result.errors,
+          });
+        }
+
+        const upload = result.uploads[0];
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: !upload?.error,
+          ...(upload?.uploadID !== undefined && { uploadID: upload.uploadID }),
+          ...(upload?.error !== undefined && { errorMessage: upload.error }),
+          ...(upload === undefined && { message: "The prices and discounts are already set, nothing to change." }),
+          diff: result.diff,
           metadata: {
             endpoint: "set_wildberries_products_price",
             rateLimit: "100 requests per minute",
@@ -594,7 +967,11 @@ export function setWildberriesProductsPriceTool(userId: string) {
       - Setting a price for products on Wildberries
       - Setting a discount for products on Wildberries
       
-      Returns nothing if the price is set successfully, otherwise returns an error message.`,
+      Changes are checked against the current prices first: discounts must be 0-99% and the price with discount
+      can't become ${MAX_PRICE_DECREASE_RATIO} or more times lower. The seller's pricing rules (minimum and maximum price,
+      largest change in percent, goods whose price can't be changed) are checked too. Nothing is submitted if any change is invalid,
+      report the validation errors to the user instead of working around them.
+      Returns the uploadID of the price upload and the old and new prices, otherwise returns an error message.`,
       schema: setWildberriesProductsPriceSchema
     }
   )
@@ -614,9 +991,9 @@ export function getWildberriesSellerProductsWithPriceTool(userId: string) {
   return tool(
     async (input) => {
       try {
-        // Get the user's Wildberries API key
-        const apiKey = await getWildberriesApiKey(userId);
-        if (!apiKey) {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
           return JSON.stringify({
             error: "I couldn't find your Wildberries API key.",
             success: false,
@@ -637,19 +1014,12 @@ export function getWildberriesSellerProductsWithPriceTool(userId: string) {
         });
 
         // Make GET request to Wildberries Content API
-        const response = await axios.get(
-          'https://discounts-prices-api-sandbox.wildberries.ru/api/v2/list/goods/filter',
-          {
-            params: requestParams,
-            headers: {
-              'Authorization': apiKey,
-              'Content-Type': 'application/json',
-              'Accept': 'application/json',
-              'User-Agent': 'MP-Bot/1.0'
-            },
-            timeout: 30000
-          }
-        );
+        const response = await client.request({
+          method: 'GET',
+          category: 'prices',
+          path: '/api/v2/list/goods/filter',
+          params: requestParams
+        });
 
         logger.info('Wildberries Seller Products with Price API request successful', {
           userId,
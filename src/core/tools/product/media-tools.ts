@@ -0,0 +1,186 @@
+import { tool } from '@langchain/core/tools';
+import { z } from 'zod';
+import logger from '../../../shared/utils/logger';
+import { getWildberriesClient, handleWildberriesError } from '../wildberries.service';
+import { MarketplaceClient } from '../../../infrastructure/marketplaces';
+import { MAX_CARD_PHOTOS, mergeCardMedia, validateCardMediaUrls, validateMediaFile } from '../../media/media.utils';
+
+export const mediaToolsMessages = {
+  save_wildberries_product_media: {
+    success: "Saved Wildberries product media.",
+    pending: "Saving Wildberries product media..."
+  }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Resolve ids of media uploaded to POST /api/media to their public URLs, links are kept as they are
+ */
+async function resolveMediaUrls(userId: string, media: string[]): Promise<{ urls: string[]; errors: string[] }> {
+  const mediaIds = media.filter(item => UUID_PATTERN.test(item));
+  const errors: string[] = [];
+  const uploaded = new Map<string, string>();
+
+  if (mediaIds.length > 0) {
+    const { mediaService } = await import('../../media/media.service');
+    for (const file of await mediaService.getMediaByIds(userId, mediaIds)) {
+      const fileError = validateMediaFile(file.content_type, file.size_bytes);
+      if (fileError) {
+        errors.push(`${file.file_name}: ${fileError}`);
+      }
+      uploaded.set(file.id, file.public_url);
+    }
+  }
+
+  const urls = media.map(item => {
+    if (!UUID_PATTERN.test(item)) return item;
+    if (!uploaded.has(item)) errors.push(`Uploaded media ${item} was not found`);
+    return uploaded.get(item) || item;
+  });
+
+  return { urls, errors };
+}
+
+/**
+ * Fetch the current photos and video of a card, null when the card is not found
+ */
+async function fetchCardMedia(
+  client: MarketplaceClient,
+  nmID: number
+): Promise<{ photos: string[]; video?: string } | null> {
+  const response = await client.request({
+    method: 'POST',
+    category: 'content',
+    path: '/content/v2/get/cards/list',
+    body: {
+      settings: {
+        cursor: { limit: 100 },
+        filter: { textSearch: String(nmID), withPhoto: -1 }
+      }
+    }
+  });
+
+  const cards: Array<{ nmID: number; photos?: Array<{ big?: string }>; video?: string }> = response.data?.cards || [];
+  const card = cards.find(item => item.nmID === nmID);
+  if (!card) {
+    return null;
+  }
+
+  return {
+    photos: (card.photos || []).map(photo => photo.big).filter((url): url is string => !!url),
+    ...(card.video && { video: card.video })
+  };
+}
+
+const saveWildberriesProductMediaSchema = z.object({
+  nmID: z.number().int().min(1).describe("nmID of the product card"),
+  media: z.array(z.string()).min(1).max(MAX_CARD_PHOTOS + 1).describe("Media to add in display order. Each item is a public https link to a photo or video, or the id of a file the user uploaded."),
+  position: z.enum(['start', 'end']).optional().default('end').describe("Where the new photos go: start makes the first of them the main photo, end adds them after the current photos"),
+  replaceExisting: z.boolean().optional().default(false).describe("Remove all current photos and video of the card and keep only the given media. Only when the user asks to replace them."),
+});
+
+/**
+ * Create a Wildberries tool that sets the photos and video of a product card
+ * Based on: https://dev.wildberries.ru/openapi/work-with-products#tag/Mediafajly/paths/~1content~1v3~1media~1save/post
+ */
+export function saveWildberriesProductMediaTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        // Check formats, sizes and card limits before Wildberries downloads the files
+        const { urls, errors } = await resolveMediaUrls(userId, input.media);
+        const validationErrors = [...errors, ...validateCardMediaUrls(urls)];
+
+        // Media save replaces all media of the card, so the current media are sent along with the new ones
+        let media = urls;
+        if (!input.replaceExisting && validationErrors.length === 0) {
+          const currentMedia = await fetchCardMedia(client, input.nmID);
+          if (!currentMedia) {
+            return JSON.stringify({
+              error: `Product card ${input.nmID} was not found.`,
+              success: false,
+            });
+          }
+
+          const merged = mergeCardMedia(currentMedia, urls, input.position);
+          if (merged.photosCount > MAX_CARD_PHOTOS) {
+            validationErrors.push(`A card can have at most ${MAX_CARD_PHOTOS} photos, the card would have ${merged.photosCount}`);
+          }
+          media = merged.media;
+        }
+
+        if (validationErrors.length > 0) {
+          return JSON.stringify({
+            error: "Some media can't be added to the card.",
+            success: false,
+            validationErrors,
+          });
+        }
+
+        const requestBody = {
+          nmId: input.nmID,
+          data: media
+        };
+
+        logger.info('Making Wildberries Media API request', {
+          userId,
+          endpoint: '/content/v3/media/save',
+          requestBody
+        });
+
+        const response = await client.request({
+          method: 'POST',
+          category: 'content',
+          path: '/content/v3/media/save',
+          body: requestBody
+        });
+
+        logger.info('Wildberries Media API request successful', {
+          userId,
+          statusCode: response.status,
+        });
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: !response.data?.error,
+          data: response.data,
+          requestParams: requestBody,
+          ...(response.data?.errorText && { errorMessage: response.data.errorText }),
+          ...(response.data?.additionalErrors && { additionalErrors: response.data.additionalErrors }),
+          metadata: {
+            endpoint: "save_wildberries_product_media",
+            rateLimit: "100 requests per minute",
+            apiCategory: "Content"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "save_wildberries_product_media",
+      description: `Set the photos and video of a Wildberries product card.
+      Use this when users ask about:
+      - Adding photos or a video to a product card
+      - Changing the main photo of the card (add the new photo with position start)
+      
+      The new media are added to the current photos of the card, a new video replaces the current one.
+      Set replaceExisting only when the user wants to remove all current photos and video.
+      Items are public https links (JPG, PNG, WEBP photos, MP4 or MOV video) or ids of files the user uploaded.
+      A card can have up to ${MAX_CARD_PHOTOS} photos and one video.
+      Wildberries downloads the files in the background, the photos appear on the card within a few minutes.`,
+      schema: saveWildberriesProductMediaSchema
+    }
+  );
+}
@@ -0,0 +1,133 @@
+import { tool } from '@langchain/core/tools';
+import { z } from 'zod';
+import logger from '../../../shared/utils/logger';
+import { getWildberriesClient, handleWildberriesError } from '../wildberries.service';
+import { fetchCardUploadErrors, fetchPriceUploadStatus } from './upload-status.utils';
+
+export const uploadStatusToolsMessages = {
+  get_wildberries_card_upload_errors: {
+    success: "Fetched Wildberries card upload errors.",
+    pending: "Fetching Wildberries card upload errors..."
+  },
+  get_wildberries_price_upload_status: {
+    success: "Fetched Wildberries price upload status.",
+    pending: "Fetching Wildberries price upload status..."
+  }
+}
+
+const getWildberriesCardUploadErrorsSchema = z.object({
+  vendorCodes: z.array(z.string()).optional().describe("Only return errors of these vendor codes"),
+});
+
+/**
+ * Create a Wildberries tool for the cards that failed to be created or updated
+ * Based on: https://dev.wildberries.ru/openapi/work-with-products#tag/Kartochki-tovarov/paths/~1content~1v2~1cards~1error~1list/get
+ */
+export function getWildberriesCardUploadErrorsTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        const errors = await fetchCardUploadErrors(userId, client, input.vendorCodes);
+
+        logger.info('Wildberries Card Errors API request successful', {
+          userId,
+          errorsCount: errors.length
+        });
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: true,
+          data: errors,
+          metadata: {
+            endpoint: "get_wildberries_card_upload_errors",
+            rateLimit: "100 requests per minute",
+            apiCategory: "Content"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "get_wildberries_card_upload_errors",
+      description: `Get Wildberries product cards that failed to be created or updated.
+      Wildberries processes card uploads in the background, so create_wildberries_product_card and
+      update_wildberries_product_card succeed before the card is checked.
+      Use this when users ask about:
+      - Why a new card doesn't appear in the catalog
+      - Errors of a card upload or update
+      
+      Returns vendor codes with the list of errors.`,
+      schema: getWildberriesCardUploadErrorsSchema
+    }
+  );
+}
+
+const getWildberriesPriceUploadStatusSchema = z.object({
+  uploadID: z.number().int().min(1).describe("uploadID (data.id) returned by set_wildberries_products_price"),
+});
+
+/**
+ * Create a Wildberries tool for the status of a price upload task
+ * Based on: https://dev.wildberries.ru/openapi/work-with-products#tag/Ceny-i-skidki/paths/~1api~1v2~1history~1tasks/get
+ */
+export function getWildberriesPriceUploadStatusTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        const status = await fetchPriceUploadStatus(userId, client, input.uploadID);
+
+        logger.info('Wildberries Price Task API request successful', {
+          userId,
+          uploadID: input.uploadID,
+          status: status.status
+        });
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: true,
+          data: status,
+          metadata: {
+            endpoint: "get_wildberries_price_upload_status",
+            rateLimit: "10 requests per 6 seconds",
+            apiCategory: "Prices"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "get_wildberries_price_upload_status",
+      description: `Get the status of a Wildberries price upload.
+      Prices and discounts are applied in the background after set_wildberries_products_price returns.
+      Use this when users ask about:
+      - Whether new prices were applied
+      - Errors of a price update
+      
+      Returns the task status (processing, processed, processed with errors, failed, canceled),
+      the number of goods updated and the errors of goods that were not updated.`,
+      schema: getWildberriesPriceUploadStatusSchema
+    }
+  );
+}
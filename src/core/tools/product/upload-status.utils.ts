@@ -0,0 +1,192 @@
+import logger from '../../../shared/utils/logger';
+import { MarketplaceClient } from '../../../infrastructure/marketplaces';
+
+/**
+ * Helpers for the status of asynchronous Wildberries uploads: product cards and price tasks
+ * Based on: https://dev.wildberries.ru/openapi/work-with-products#tag/Kartochki-tovarov/paths/~1content~1v2~1cards~1error~1list/get
+ * and https://dev.wildberries.ru/openapi/work-with-products#tag/Ceny-i-skidki/paths/~1api~1v2~1history~1tasks/get
+ */
+
+export interface CardUploadError {
+  vendorCode: string;
+  object?: string;
+  updateAt?: string;
+  errors: string[];
+}
+
+// Price task statuses of /api/v2/history/tasks and /api/v2/buffer/tasks
+export const PRICE_TASK_STATUSES: Record<number, string> = {
+  1: 'processing',
+  3: 'processed',
+  4: 'canceled',
+  5: 'processed with errors',
+  6: 'failed'
+};
+
+export interface PriceUploadStatus {
+  uploadID: number;
+  status: number | null; // null while the task is not known yet
+  statusText: string;
+  overAllGoodsNumber?: number;
+  successGoodsNumber?: number;
+  errors: Array<{ nmID: number; vendorCode?: string; errorText: string }>;
+}
+
+export type UploadOutcome = 'pending' | 'completed' | 'failed';
+
+// Goods with errors included in a price upload status
+const MAX_PRICE_ERRORS = 20;
+// Wildberries timestamps may be slightly behind our clock
+const CLOCK_SKEW_MS = 60 * 1000;
+
+/**
+ * Fetch cards that failed to be created or updated
+ */
+export async function fetchCardUploadErrors(
+  userId: string,
+  client: MarketplaceClient,
+  vendorCodes?: string[]
+): Promise<CardUploadError[]> {
+  logger.info('Making Wildberries Card Errors API request', {
+    userId,
+    endpoint: '/content/v2/cards/error/list'
+  });
+
+  const response = await client.request({
+    method: 'GET',
+    category: 'content',
+    path: '/content/v2/cards/error/list'
+  });
+
+  const errors: CardUploadError[] = Array.isArray(response.data?.data) ? response.data.data : [];
+  if (!vendorCodes) {
+    return errors;
+  }
+
+  const wanted = new Set(vendorCodes.map(vendorCode => vendorCode.trim().toLowerCase()));
+  return errors.filter(error => wanted.has(String(error.vendorCode).trim().toLowerCase()));
+}
+
+/**
+ * Fetch the last update time of cards by their vendor codes. Cards that don't exist yet are missing from the result.
+ */
+export async function fetchCardsUpdatedAt(
+  userId: string,
+  client: MarketplaceClient,
+  vendorCodes: string[]
+): Promise<Record<string, string>> {
+  const updatedAt: Record<string, string> = {};
+
+  for (const vendorCode of vendorCodes) {
+    const response = await client.request({
+      method: 'POST',
+      category: 'content',
+      path: '/content/v2/get/cards/list',
+      body: {
+        settings: {
+          cursor: { limit: 100 },
+          filter: { textSearch: vendorCode, withPhoto: -1 }
+        }
+      }
+    });
+
+    const cards: Array<{ vendorCode?: string; updatedAt?: string }> = response.data?.cards || [];
+    const card = cards.find(item => item.vendorCode?.trim().toLowerCase() === vendorCode.trim().toLowerCase());
+    if (card?.updatedAt) {
+      updatedAt[vendorCode] = card.updatedAt;
+    }
+  }
+
+  logger.info('Fetched Wildberries cards update time', {
+    userId,
+    vendorCodes,
+    foundCount: Object.keys(updatedAt).length
+  });
+
+  return updatedAt;
+}
+
+/**
+ * Fetch the status of a price upload task together with the goods that were not updated
+ */
+export async function fetchPriceUploadStatus(
+  userId: string,
+  client: MarketplaceClient,
+  uploadID: number
+): Promise<PriceUploadStatus> {
+  logger.info('Making Wildberries Price Task API request', {
+    userId,
+    uploadID
+  });
+
+  const history = await client.request({
+    method: 'GET',
+    category: 'prices',
+    path: '/api/v2/history/tasks',
+    params: { uploadID }
+  });
+  let task = history.data?.data;
+
+  // Tasks being processed are only in the buffer
+  if (!task?.status) {
+    const buffer = await client.request({
+      method: 'GET',
+      category: 'prices',
+      path: '/api/v2/buffer/tasks',
+      params: { uploadID }
+    });
+    task = buffer.data?.data;
+  }
+
+  const status: number | null = task?.status ?? null;
+  let errors: PriceUploadStatus['errors'] = [];
+
+  if (status === 5 || status === 6) {
+    const goods = await client.request({
+      method: 'GET',
+      category: 'prices',
+      path: '/api/v2/history/goods/task',
+      params: { uploadID, limit: MAX_PRICE_ERRORS, offset: 0 }
+    });
+    errors = (goods.data?.data?.historyGoods || [])
+      .filter((item: any) => item.errorText)
+      .map((item: any) => ({ nmID: item.nmID, vendorCode: item.vendorCode, errorText: item.errorText }));
+  }
+
+  return {
+    uploadID,
+    status,
+    statusText: status === null ? 'not found yet' : PRICE_TASK_STATUSES[status] || `unknown status ${status}`,
+    ...(task?.overAllGoodsNumber !== undefined && { overAllGoodsNumber: task.overAllGoodsNumber }),
+    ...(task?.successGoodsNumber !== undefined && { successGoodsNumber: task.successGoodsNumber }),
+    errors
+  };
+}
+
+export function getPriceUploadOutcome(status: PriceUploadStatus): UploadOutcome {
+  if (status.status === 3) return 'completed';
+  if (status.status === 4 || status.status === 5 || status.status === 6) return 'failed';
+  return 'pending';
+}
+
+/**
+ * A card upload failed if Wildberries reported errors for its cards and completed when every card
+ * was updated after the upload started
+ */
+export function getCardUploadOutcome(
+  vendorCodes: string[],
+  errors: CardUploadError[],
+  updatedAt: Record<string, string>,
+  startedAt: Date
+): UploadOutcome {
+  const since = startedAt.getTime() - CLOCK_SKEW_MS;
+
+  if (errors.some(error => !error.updateAt || new Date(error.updateAt).getTime() >= since)) {
+    return 'failed';
+  }
+
+  const updated = vendorCodes.every(vendorCode =>
+    updatedAt[vendorCode] !== undefined && new Date(updatedAt[vendorCode]).getTime() >= since
+  );
+  return updated ? 'completed' : 'pending';
+}
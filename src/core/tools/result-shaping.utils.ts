@@ -0,0 +1,114 @@
+import { DynamicStructuredTool } from '@langchain/core/tools';
+
+// Results up to this size are passed to the model unchanged
+export const MAX_UNSHAPED_RESULT_LENGTH = 4000;
+export const MAX_RESULT_ARRAY_ITEMS = 20;
+export const MAX_RESULT_STRING_LENGTH = 500;
+
+export interface ShapedToolResult {
+  content: string;
+  artifact?: any; // Full parsed result, set only when the content was shaped
+}
+
+/**
+ * Keep the fields of a Wildberries product card the assistant works with,
+ * photos and video are replaced with counts
+ */
+function projectWildberriesCard(card: any) {
+  return {
+    nmID: card.nmID,
+    imtID: card.imtID,
+    vendorCode: card.vendorCode,
+    title: card.title,
+    brand: card.brand,
+    subjectID: card.subjectID,
+    subjectName: card.subjectName,
+    description: card.description,
+    characteristics: card.characteristics,
+    sizes: card.sizes,
+    dimensions: card.dimensions,
+    photosCount: card.photos?.length || 0,
+    hasVideo: Boolean(card.video),
+    updatedAt: card.updatedAt
+  };
+}
+
+/**
+ * Tool-specific projections applied before the generic truncation
+ */
+const TOOL_RESULT_PROJECTIONS: Record<string, (result: any) => any> = {
+  get_wildberries_seller_product_cards: result => Array.isArray(result.data?.cards)
+    ? { ...result, data: { ...result.data, cards: result.data.cards.map(projectWildberriesCard) } }
+    : result
+};
+
+/**
+ * Truncate long arrays and strings of a result.
+ * A truncated array keeps its first items followed by a note with the number of omitted items.
+ */
+export function truncateResult(value: any): any {
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_RESULT_ARRAY_ITEMS).map(truncateResult);
+    if (value.length > MAX_RESULT_ARRAY_ITEMS) {
+      items.push(`... ${value.length - MAX_RESULT_ARRAY_ITEMS} more items (${value.length} in total) omitted`);
+    }
+    return items;
+  }
+
+  if (typeof value === 'string' && value.length > MAX_RESULT_STRING_LENGTH) {
+    return `${value.slice(0, MAX_RESULT_STRING_LENGTH)}... (${value.length} characters)`;
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, truncateResult(item)]));
+  }
+
+  return value;
+}
+
+/**
+ * Shape a tool result for the model: project the relevant fields and truncate large arrays and strings.
+ * The full result is returned as the artifact so it can be stored with the message.
+ */
+export function shapeToolResult(toolName: string, content: string): ShapedToolResult {
+  if (content.length <= MAX_UNSHAPED_RESULT_LENGTH) {
+    return { content };
+  }
+
+  let result: any;
+  try {
+    result = JSON.parse(content);
+  } catch {
+    return { content };
+  }
+
+  const projection = TOOL_RESULT_PROJECTIONS[toolName];
+  const shaped = truncateResult(projection ? projection(result) : result);
+
+  return {
+    content: JSON.stringify(shaped && typeof shaped === 'object' && !Array.isArray(shaped)
+      ? { ...shaped, shortened: true }
+      : shaped),
+    artifact: result
+  };
+}
+
+/**
+ * Wrap a tool so its ToolMessage carries the shaped result as content and the full result as artifact
+ */
+export function withResultShaping(baseTool: DynamicStructuredTool): DynamicStructuredTool {
+  return new DynamicStructuredTool({
+    name: baseTool.name,
+    description: baseTool.description,
+    schema: baseTool.schema,
+    responseFormat: 'content_and_artifact',
+    func: async (input, runManager, config) => {
+      const result = await baseTool.func(input, runManager, config);
+      const { content, artifact } = shapeToolResult(
+        baseTool.name,
+        typeof result === 'string' ? result : JSON.stringify(result)
+      );
+      return [content, artifact];
+    }
+  });
+}
@@ -0,0 +1,378 @@
+import { tool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { fetchWildberriesStatistics, getWildberriesClient, handleWildberriesError } from '../wildberries.service';
+import {
+  WildberriesOrderRecord,
+  WildberriesSaleRecord,
+  aggregateByNmId,
+  aggregateByPeriod,
+  filterByDateRange,
+  isReturnRecord,
+  summarizeOrders,
+  summarizeSales
+} from './statistics.utils';
+
+export const statisticsToolsMessages = {
+  get_wildberries_sales: {
+    success: "Fetched Wildberries sales.",
+    pending: "Fetching Wildberries sales..."
+  },
+  get_wildberries_orders: {
+    success: "Fetched Wildberries orders.",
+    pending: "Fetching Wildberries orders..."
+  },
+  get_wildberries_returns: {
+    success: "Fetched Wildberries returns.",
+    pending: "Fetching Wildberries returns..."
+  },
+  get_wildberries_sales_by_period: {
+    success: "Aggregated Wildberries sales by period.",
+    pending: "Aggregating Wildberries sales by period..."
+  },
+  get_wildberries_sales_by_product: {
+    success: "Aggregated Wildberries sales by product.",
+    pending: "Aggregating Wildberries sales by product..."
+  }
+}
+
+const DEFAULT_RECORDS_LIMIT = 50;
+
+const dateRangeSchema = {
+  dateFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}/).describe("Start date (YYYY-MM-DD). Wildberries keeps statistics for the last 90 days."),
+  dateTo: z.string().regex(/^\d{4}-\d{2}-\d{2}/).optional().describe("End date inclusive (YYYY-MM-DD, default: today)"),
+};
+
+/**
+ * Zod schema for Wildberries sales tool parameters
+ */
+const getWildberriesSalesSchema = z.object({
+  ...dateRangeSchema,
+  nmID: z.number().int().min(1).optional().describe("Only include sales of this product"),
+  limit: z.number().int().min(0).max(500).optional().describe(`Number of individual records to include alongside the summary (0-500, default: ${DEFAULT_RECORDS_LIMIT})`),
+});
+
+/**
+ * Create a Wildberries Sales tool for fetching seller's sales and their summary
+ * Based on: https://dev.wildberries.ru/openapi/reports#tag/Osnovnye-otchyoty/paths/~1api~1v1~1supplier~1sales/get
+ */
+export function getWildberriesSalesTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        const records = await fetchWildberriesStatistics<WildberriesSaleRecord>(
+          userId, client, '/api/v1/supplier/sales', input.dateFrom
+        );
+        const sales = filterByDateRange(records, input.dateFrom, input.dateTo)
+          .filter(record => !isReturnRecord(record))
+          .filter(record => input.nmID === undefined || record.nmId === input.nmID);
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: true,
+          summary: summarizeSales(sales),
+          data: sales.slice(0, input.limit ?? DEFAULT_RECORDS_LIMIT),
+          totalRecords: sales.length,
+          requestParams: input,
+          metadata: {
+            endpoint: "get_wildberries_sales",
+            rateLimit: "1 request per minute",
+            apiCategory: "Statistics"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "get_wildberries_sales",
+      description: `Fetch seller's sales from Wildberries for a date range.
+      This tool returns a sales summary (count, gross sales, payout) and individual sale records.
+      Use this when users ask about:
+      - How much they sold during a period
+      - Revenue and payouts
+      - Sales of a specific product
+
+      Returns are excluded, use get_wildberries_returns for them.`,
+      schema: getWildberriesSalesSchema
+    }
+  );
+}
+
+/**
+ * Zod schema for Wildberries orders tool parameters
+ */
+const getWildberriesOrdersSchema = z.object({
+  ...dateRangeSchema,
+  nmID: z.number().int().min(1).optional().describe("Only include orders of this product"),
+  includeCancelled: z.boolean().optional().describe("Include cancelled orders in the records (default: false). They are always counted in the summary."),
+  limit: z.number().int().min(0).max(500).optional().describe(`Number of individual records to include alongside the summary (0-500, default: ${DEFAULT_RECORDS_LIMIT})`),
+});
+
+/**
+ * Create a Wildberries Orders tool for fetching seller's orders and their summary
+ * Based on: https://dev.wildberries.ru/openapi/reports#tag/Osnovnye-otchyoty/paths/~1api~1v1~1supplier~1orders/get
+ */
+export function getWildberriesOrdersTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        const records = await fetchWildberriesStatistics<WildberriesOrderRecord>(
+          userId, client, '/api/v1/supplier/orders', input.dateFrom
+        );
+        const orders = filterByDateRange(records, input.dateFrom, input.dateTo)
+          .filter(record => input.nmID === undefined || record.nmId === input.nmID);
+        const listedOrders = input.includeCancelled ? orders : orders.filter(record => !record.isCancel);
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: true,
+          summary: summarizeOrders(orders),
+          data: listedOrders.slice(0, input.limit ?? DEFAULT_RECORDS_LIMIT),
+          totalRecords: listedOrders.length,
+          requestParams: input,
+          metadata: {
+            endpoint: "get_wildberries_orders",
+            rateLimit: "1 request per minute",
+            apiCategory: "Statistics"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "get_wildberries_orders",
+      description: `Fetch seller's orders from Wildberries for a date range.
+      This tool returns an orders summary (count, amount, cancellations) and individual order records.
+      Use this when users ask about:
+      - How many orders they received during a period
+      - Cancelled orders
+      - Orders of a specific product
+
+      Orders are placed by customers but not necessarily bought out, use get_wildberries_sales for actual sales.`,
+      schema: getWildberriesOrdersSchema
+    }
+  );
+}
+
+/**
+ * Zod schema for Wildberries returns tool parameters
+ */
+const getWildberriesReturnsSchema = z.object({
+  ...dateRangeSchema,
+  nmID: z.number().int().min(1).optional().describe("Only include returns of this product"),
+  limit: z.number().int().min(0).max(500).optional().describe(`Number of individual records to include alongside the summary (0-500, default: ${DEFAULT_RECORDS_LIMIT})`),
+});
+
+/**
+ * Create a Wildberries Returns tool for fetching returned products
+ * Based on: https://dev.wildberries.ru/openapi/reports#tag/Osnovnye-otchyoty/paths/~1api~1v1~1supplier~1sales/get
+ */
+export function getWildberriesReturnsTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        const records = await fetchWildberriesStatistics<WildberriesSaleRecord>(
+          userId, client, '/api/v1/supplier/sales', input.dateFrom
+        );
+        const returns = filterByDateRange(records, input.dateFrom, input.dateTo)
+          .filter(isReturnRecord)
+          .filter(record => input.nmID === undefined || record.nmId === input.nmID);
+        const summary = summarizeSales(returns);
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: true,
+          summary: {
+            returnsCount: summary.returnsCount,
+            returnsAmount: summary.returnsAmount
+          },
+          byProduct: aggregateByNmId(returns).slice(0, 20),
+          data: returns.slice(0, input.limit ?? DEFAULT_RECORDS_LIMIT),
+          totalRecords: returns.length,
+          requestParams: input,
+          metadata: {
+            endpoint: "get_wildberries_returns",
+            rateLimit: "1 request per minute",
+            apiCategory: "Statistics"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "get_wildberries_returns",
+      description: `Fetch products returned by customers on Wildberries for a date range.
+      This tool returns a returns summary, the most returned products and individual return records.
+      Use this when users ask about:
+      - Returns and refunds
+      - Which products get returned the most`,
+      schema: getWildberriesReturnsSchema
+    }
+  );
+}
+
+/**
+ * Zod schema for Wildberries sales by period tool parameters
+ */
+const getWildberriesSalesByPeriodSchema = z.object({
+  ...dateRangeSchema,
+  period: z.enum(['day', 'week', 'month']).optional().describe("Aggregation period (default: day). Weeks start on Monday."),
+  source: z.enum(['sales', 'orders']).optional().describe("Aggregate actual sales or customer orders (default: sales)"),
+  nmID: z.number().int().min(1).optional().describe("Only aggregate this product"),
+});
+
+/**
+ * Create a Wildberries Sales by Period tool for aggregating sales or orders by day, week or month
+ * Based on: https://dev.wildberries.ru/openapi/reports#tag/Osnovnye-otchyoty
+ */
+export function getWildberriesSalesByPeriodTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        const source = input.source || 'sales';
+        const period = input.period || 'day';
+        const records = source === 'sales'
+          ? await fetchWildberriesStatistics<WildberriesSaleRecord>(userId, client, '/api/v1/supplier/sales', input.dateFrom)
+          : await fetchWildberriesStatistics<WildberriesOrderRecord>(userId, client, '/api/v1/supplier/orders', input.dateFrom);
+        const filtered = filterByDateRange<WildberriesSaleRecord | WildberriesOrderRecord>(records, input.dateFrom, input.dateTo)
+          .filter(record => input.nmID === undefined || record.nmId === input.nmID);
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: true,
+          source,
+          period,
+          data: aggregateByPeriod(filtered, period),
+          totalRecords: filtered.length,
+          requestParams: input,
+          metadata: {
+            endpoint: "get_wildberries_sales_by_period",
+            rateLimit: "1 request per minute",
+            apiCategory: "Statistics"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "get_wildberries_sales_by_period",
+      description: `Aggregate Wildberries sales or orders by day, week or month.
+      Each bucket contains the number and amount of sales (or orders) and of returns (or cancellations).
+      Use this when users ask about:
+      - Sales dynamics and trends
+      - Comparing weeks or months
+      - Best and worst days`,
+      schema: getWildberriesSalesByPeriodSchema
+    }
+  );
+}
+
+/**
+ * Zod schema for Wildberries sales by product tool parameters
+ */
+const getWildberriesSalesByProductSchema = z.object({
+  ...dateRangeSchema,
+  source: z.enum(['sales', 'orders']).optional().describe("Aggregate actual sales or customer orders (default: sales)"),
+  nmIDs: z.array(z.number().int().min(1)).optional().describe("Only aggregate these products"),
+  top: z.number().int().min(1).max(200).optional().describe("Number of products to return, sorted by amount (1-200, default: 20)"),
+});
+
+/**
+ * Create a Wildberries Sales by Product tool for aggregating sales or orders by nmID
+ * Based on: https://dev.wildberries.ru/openapi/reports#tag/Osnovnye-otchyoty
+ */
+export function getWildberriesSalesByProductTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Wildberries client with the user's API key
+        const client = await getWildberriesClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Wildberries API key.",
+            success: false,
+          });
+        }
+
+        const source = input.source || 'sales';
+        const records = source === 'sales'
+          ? await fetchWildberriesStatistics<WildberriesSaleRecord>(userId, client, '/api/v1/supplier/sales', input.dateFrom)
+          : await fetchWildberriesStatistics<WildberriesOrderRecord>(userId, client, '/api/v1/supplier/orders', input.dateFrom);
+        const filtered = filterByDateRange<WildberriesSaleRecord | WildberriesOrderRecord>(records, input.dateFrom, input.dateTo)
+          .filter(record => !input.nmIDs?.length || input.nmIDs.includes(record.nmId));
+        const byProduct = aggregateByNmId(filtered);
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: true,
+          source,
+          data: byProduct.slice(0, input.top || 20),
+          totalProducts: byProduct.length,
+          totalRecords: filtered.length,
+          requestParams: input,
+          metadata: {
+            endpoint: "get_wildberries_sales_by_product",
+            rateLimit: "1 request per minute",
+            apiCategory: "Statistics"
+          }
+        });
+
+      } catch (error) {
+        return handleWildberriesError(error, userId);
+      }
+    },
+    {
+      name: "get_wildberries_sales_by_product",
+      description: `Aggregate Wildberries sales or orders by product (nmID).
+      Products are sorted by amount, highest first, and include returns (or cancellations).
+      Use this when users ask about:
+      - Best-selling and worst-selling products
+      - Product ranking by revenue
+      - Comparing specific products`,
+      schema: getWildberriesSalesByProductSchema
+    }
+  );
+}
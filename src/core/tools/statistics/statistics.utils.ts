@@ -0,0 +1,245 @@
+/**
+ * Helpers for aggregating Wildberries Statistics API records
+ * Based on: https://dev.wildberries.ru/openapi/reports#tag/Osnovnye-otchyoty
+ */
+
+export type StatisticsPeriod = 'day' | 'week' | 'month';
+
+/**
+ * Fields of a sale/return record from /api/v1/supplier/sales that the tools rely on
+ */
+export interface WildberriesSaleRecord {
+  date: string;
+  lastChangeDate?: string;
+  supplierArticle?: string;
+  nmId: number;
+  barcode?: string;
+  subject?: string;
+  brand?: string;
+  techSize?: string;
+  warehouseName?: string;
+  regionName?: string;
+  totalPrice?: number;
+  discountPercent?: number;
+  priceWithDisc?: number;
+  finishedPrice?: number;
+  forPay?: number;
+  saleID: string;
+  srid?: string;
+}
+
+/**
+ * Fields of an order record from /api/v1/supplier/orders that the tools rely on
+ */
+export interface WildberriesOrderRecord {
+  date: string;
+  lastChangeDate?: string;
+  supplierArticle?: string;
+  nmId: number;
+  barcode?: string;
+  subject?: string;
+  brand?: string;
+  techSize?: string;
+  warehouseName?: string;
+  regionName?: string;
+  totalPrice?: number;
+  discountPercent?: number;
+  priceWithDisc?: number;
+  finishedPrice?: number;
+  isCancel?: boolean;
+  cancelDate?: string;
+  srid?: string;
+}
+
+export interface SalesSummary {
+  salesCount: number;
+  returnsCount: number;
+  grossSales: number;
+  returnsAmount: number;
+  netSales: number;
+  payout: number;
+}
+
+export interface OrdersSummary {
+  ordersCount: number;
+  cancelledCount: number;
+  ordersAmount: number;
+  cancelledAmount: number;
+}
+
+export interface StatisticsBucket {
+  key: string;
+  count: number;
+  amount: number;
+  returnsCount: number;
+  returnsAmount: number;
+}
+
+/**
+ * Sale IDs starting with "R" are returns, "S" are sales
+ */
+export function isReturnRecord(record: Pick<WildberriesSaleRecord, 'saleID'>): boolean {
+  return typeof record.saleID === 'string' && record.saleID.startsWith('R');
+}
+
+/**
+ * Keep only records whose date falls into [dateFrom, dateTo] (dates in YYYY-MM-DD or ISO format)
+ * The Statistics API filters by lastChangeDate only, so the upper bound has to be applied locally
+ */
+export function filterByDateRange<T extends { date: string }>(
+  records: T[],
+  dateFrom?: string,
+  dateTo?: string
+): T[] {
+  const from = dateFrom ? dateFrom.slice(0, 10) : undefined;
+  const to = dateTo ? dateTo.slice(0, 10) : undefined;
+
+  return records.filter(record => {
+    const day = record.date.slice(0, 10);
+    if (from && day < from) return false;
+    if (to && day > to) return false;
+    return true;
+  });
+}
+
+/**
+ * Summarize sales and returns. Amounts are in rubles and rounded to kopecks.
+ */
+export function summarizeSales(records: WildberriesSaleRecord[]): SalesSummary {
+  let salesCount = 0;
+  let returnsCount = 0;
+  let grossSales = 0;
+  let returnsAmount = 0;
+  let payout = 0;
+
+  for (const record of records) {
+    const amount = Math.abs(record.priceWithDisc || 0);
+
+    if (isReturnRecord(record)) {
+      returnsCount++;
+      returnsAmount += amount;
+    } else {
+      salesCount++;
+      grossSales += amount;
+    }
+
+    // forPay is already negative for returns
+    payout += record.forPay || 0;
+  }
+
+  return {
+    salesCount,
+    returnsCount,
+    grossSales: roundAmount(grossSales),
+    returnsAmount: roundAmount(returnsAmount),
+    netSales: roundAmount(grossSales - returnsAmount),
+    payout: roundAmount(payout)
+  };
+}
+
+/**
+ * Summarize orders, separating cancelled ones
+ */
+export function summarizeOrders(records: WildberriesOrderRecord[]): OrdersSummary {
+  let ordersCount = 0;
+  let cancelledCount = 0;
+  let ordersAmount = 0;
+  let cancelledAmount = 0;
+
+  for (const record of records) {
+    const amount = record.priceWithDisc || 0;
+
+    if (record.isCancel) {
+      cancelledCount++;
+      cancelledAmount += amount;
+    } else {
+      ordersCount++;
+      ordersAmount += amount;
+    }
+  }
+
+  return {
+    ordersCount,
+    cancelledCount,
+    ordersAmount: roundAmount(ordersAmount),
+    cancelledAmount: roundAmount(cancelledAmount)
+  };
+}
+
+/**
+ * Get the bucket key of a date for the given period.
+ * Weeks start on Monday and are keyed by their first day.
+ */
+export function getPeriodKey(date: string, period: StatisticsPeriod): string {
+  const day = date.slice(0, 10);
+
+  if (period === 'day') return day;
+  if (period === 'month') return day.slice(0, 7);
+
+  const parsed = new Date(`${day}T00:00:00Z`);
+  const weekday = (parsed.getUTCDay() + 6) % 7; // Monday = 0
+  parsed.setUTCDate(parsed.getUTCDate() - weekday);
+  return parsed.toISOString().slice(0, 10);
+}
+
+/**
+ * Aggregate sales or orders by period. Cancelled orders and returns are counted separately.
+ * Buckets are sorted chronologically.
+ */
+export function aggregateByPeriod(
+  records: Array<WildberriesSaleRecord | WildberriesOrderRecord>,
+  period: StatisticsPeriod
+): StatisticsBucket[] {
+  return aggregate(records, record => getPeriodKey(record.date, period))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Aggregate sales or orders by nmID. Buckets are sorted by amount, highest first.
+ */
+export function aggregateByNmId(
+  records: Array<WildberriesSaleRecord | WildberriesOrderRecord>
+): Array<StatisticsBucket & { nmID: number; supplierArticle?: string; subject?: string }> {
+  const details = new Map<string, { supplierArticle?: string; subject?: string }>();
+  for (const record of records) {
+    details.set(String(record.nmId), { supplierArticle: record.supplierArticle, subject: record.subject });
+  }
+
+  return aggregate(records, record => String(record.nmId))
+    .map(bucket => ({
+      ...bucket,
+      nmID: Number(bucket.key),
+      ...details.get(bucket.key)
+    }))
+    .sort((a, b) => b.amount - a.amount);
+}
+
+function aggregate(
+  records: Array<WildberriesSaleRecord | WildberriesOrderRecord>,
+  keyOf: (record: WildberriesSaleRecord | WildberriesOrderRecord) => string
+): StatisticsBucket[] {
+  const buckets = new Map<string, StatisticsBucket>();
+
+  for (const record of records) {
+    const key = keyOf(record);
+    const bucket = buckets.get(key) || { key, count: 0, amount: 0, returnsCount: 0, returnsAmount: 0 };
+    const amount = Math.abs(record.priceWithDisc || 0);
+
+    const isNegative = 'saleID' in record ? isReturnRecord(record) : !!record.isCancel;
+    if (isNegative) {
+      bucket.returnsCount++;
+      bucket.returnsAmount = roundAmount(bucket.returnsAmount + amount);
+    } else {
+      bucket.count++;
+      bucket.amount = roundAmount(bucket.amount + amount);
+    }
+
+    buckets.set(key, bucket);
+  }
+
+  return Array.from(buckets.values());
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,104 @@
+import { AIMessage, BaseMessage, ToolMessage } from '@langchain/core/messages';
+import { ToolCall } from '@langchain/core/dist/messages/tool';
+
+/**
+ * Tools that change data on the marketplace. The agent stops before calling them
+ * and waits until the user approves or rejects the exact call.
+ */
+export const MUTATING_TOOL_NAMES = [
+  'create_wildberries_product_card',
+  'update_wildberries_product_card',
+  'save_wildberries_product_media',
+  'set_wildberries_products_price',
+  'update_wildberries_fbs_stocks',
+  'reply_to_wildberries_feedback',
+  'reply_to_wildberries_question',
+  'update_yandex_market_offer_prices'
+];
+
+export const TOOL_APPROVAL_PENDING_MESSAGE = 'Waiting for your approval.';
+export const TOOL_APPROVAL_REJECTED_MESSAGE = 'The user rejected this action, it was not executed.';
+export const TOOL_APPROVAL_INTERRUPTED_MESSAGE =
+  'The approved action was started but its result was not saved. Check the marketplace before trying again.';
+
+export interface ToolApprovalRequest {
+  toolCallId: string;
+  toolName: string;
+  args: Record<string, any>;
+  message: string;
+}
+
+export function isMutatingToolCall(toolCall: ToolCall): boolean {
+  return MUTATING_TOOL_NAMES.includes(toolCall.name);
+}
+
+/**
+ * Select mutating tool calls that have no result yet
+ */
+export function selectPendingApprovalCalls(toolCalls: ToolCall[], completedToolCallIds: string[]): ToolCall[] {
+  return toolCalls.filter(toolCall =>
+    isMutatingToolCall(toolCall) && !completedToolCallIds.includes(toolCall.id || '')
+  );
+}
+
+/**
+ * Find mutating tool calls of the last assistant message that are still waiting for approval
+ */
+export function findPendingApprovalCalls(messages: BaseMessage[]): ToolCall[] {
+  let lastAiIndex = -1;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].getType() === 'ai') {
+      lastAiIndex = i;
+      break;
+    }
+  }
+  if (lastAiIndex === -1) return [];
+
+  const toolCalls = (messages[lastAiIndex] as AIMessage).tool_calls || [];
+  const completedToolCallIds = messages
+    .slice(lastAiIndex + 1)
+    .filter(message => message.getType() === 'tool')
+    .map(message => (message as ToolMessage).tool_call_id);
+
+  return selectPendingApprovalCalls(toolCalls, completedToolCallIds);
+}
+
+export function buildToolApprovalRequest(toolCall: ToolCall): ToolApprovalRequest {
+  return {
+    toolCallId: toolCall.id || 'unknown',
+    toolName: toolCall.name,
+    args: toolCall.args,
+    message: TOOL_APPROVAL_PENDING_MESSAGE
+  };
+}
+
+/**
+ * Content of the placeholder tool message saved while a call waits for approval.
+ * The model sees it in the history if the user moves on without answering.
+ */
+export function buildPendingToolContent(toolCall: ToolCall): string {
+  return JSON.stringify({
+    success: false,
+    pending: true,
+    message: `${TOOL_APPROVAL_PENDING_MESSAGE} The action was not executed yet.`,
+    args: toolCall.args
+  });
+}
+
+export function buildRejectedToolContent(): string {
+  return JSON.stringify({
+    success: false,
+    error: TOOL_APPROVAL_REJECTED_MESSAGE
+  });
+}
+
+/**
+ * Content of an approved call while it runs. It stays in the history if the result is never saved,
+ * so the call is not repeated without the user checking first.
+ */
+export function buildInterruptedToolContent(): string {
+  return JSON.stringify({
+    success: false,
+    error: TOOL_APPROVAL_INTERRUPTED_MESSAGE
+  });
+}
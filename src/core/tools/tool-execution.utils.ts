@@ -1,6 +1,15 @@
 import { ToolMessage } from '@langchain/core/messages';
 import { ToolCall } from '@langchain/core/dist/messages/tool';
-import { createWildberriesProductCardTool, getWildberriesSellerProductCardsTool, getWildberriesSellerProductsWithPriceTool, getWildberriesSubjectIdTool, setWildberriesProductsPriceTool, updateWildberriesProductCardTool, wildberriesToolsMessages } from './product/listing-tools';
+import { createWildberriesProductCardTool, generateWildberriesBarcodesTool, getWildberriesSellerProductCardsTool, getWildberriesSellerProductsWithPriceTool, getWildberriesSubjectCharacteristicsTool, getWildberriesSubjectIdTool, searchWildberriesCatalogTool, setWildberriesProductsPriceTool, updateWildberriesProductCardTool, wildberriesToolsMessages } from './product/listing-tools';
+import { mediaToolsMessages, saveWildberriesProductMediaTool } from './product/media-tools';
+import { getWildberriesCardUploadErrorsTool, getWildberriesPriceUploadStatusTool, uploadStatusToolsMessages } from './product/upload-status-tools';
+import { getWildberriesLowStockReportTool, getWildberriesProductStocksTool, getWildberriesSellerWarehousesTool, getWildberriesStocksByWarehouseTool, inventoryToolsMessages, updateWildberriesFbsStocksTool } from './product/inventory-tools';
+import { feedbackToolsMessages, getWildberriesFeedbackTool, getWildberriesQuestionTool, getWildberriesUnansweredFeedbacksTool, getWildberriesUnansweredQuestionsTool, replyToWildberriesFeedbackTool, replyToWildberriesQuestionTool } from './feedback/feedback-tools';
+import { getWildberriesOrdersTool, getWildberriesReturnsTool, getWildberriesSalesByPeriodTool, getWildberriesSalesByProductTool, getWildberriesSalesTool, statisticsToolsMessages } from './statistics/statistics-tools';
+import { getOzonProductInfoTool, getOzonProductListTool, getOzonProductPricesTool, getOzonProductStocksTool, ozonToolsMessages } from './ozon/ozon-tools';
+import { getYandexMarketCampaignsTool, getYandexMarketOfferPricesTool, getYandexMarketOffersTool, getYandexMarketOfferStocksTool, updateYandexMarketOfferPricesTool, yandexMarketToolsMessages } from './yandex-market/yandex-market-tools';
+import { withResultShaping } from './result-shaping.utils';
+import { apiKeysService } from '../apiKeys/apikeys.service';
 import logger from '../../shared/utils/logger';
 
 export interface ToolExecutionResult {
@@ -11,24 +20,140 @@ export interface ToolExecutionResult {
 }
 
 export const LISTING_TOOLS_NAME = 'listing_tools';
+export const STATISTICS_TOOLS_NAME = 'statistics_tools';
+export const INVENTORY_TOOLS_NAME = 'inventory_tools';
+export const FEEDBACK_TOOLS_NAME = 'feedback_tools';
+export const OZON_TOOLS_NAME = 'ozon_tools';
+export const YANDEX_MARKET_TOOLS_NAME = 'yandex_market_tools';
 
-export function createToolsMap(userId?: string): Record<string, any> {
+export const MARKETPLACE_SERVICES = ['wildberries', 'ozon', 'yandexmarket'];
+
+export const toolsMessages: Record<string, { success: string; pending: string }> = {
+  ...wildberriesToolsMessages,
+  ...mediaToolsMessages,
+  ...uploadStatusToolsMessages,
+  ...statisticsToolsMessages,
+  ...inventoryToolsMessages,
+  ...feedbackToolsMessages,
+  ...ozonToolsMessages,
+  ...yandexMarketToolsMessages,
+};
+
+/**
+ * Get the marketplaces the user has saved API keys for.
+ * If the keys can't be checked, all marketplaces are returned and the tools report missing keys themselves.
+ */
+export async function getConnectedMarketplaces(userId: string): Promise<string[]> {
+  try {
+    const services = await apiKeysService.getConnectedServices(userId);
+    return MARKETPLACE_SERVICES.filter(service => services.includes(service));
+  } catch (error) {
+    logger.warn('Failed to get connected marketplaces, using all marketplace tools', { userId, error });
+    return MARKETPLACE_SERVICES;
+  }
+}
+
+/**
+ * Create tool groups for the user.
+ * @param connectedServices - Only create tools of these marketplaces (all marketplaces if omitted)
+ */
+export function createToolsMap(userId?: string, connectedServices: string[] = MARKETPLACE_SERVICES): Record<string, any> {
   const toolsByName: Record<string, any> = {};
   
-  if (userId) {
+  if (userId && connectedServices.includes('wildberries')) {
     try {
       const listingTools = [
         getWildberriesSellerProductCardsTool(userId),
         createWildberriesProductCardTool(userId),
         updateWildberriesProductCardTool(userId),
         getWildberriesSubjectIdTool(userId),
+        getWildberriesSubjectCharacteristicsTool(userId),
+        generateWildberriesBarcodesTool(userId),
         setWildberriesProductsPriceTool(userId),
         getWildberriesSellerProductsWithPriceTool(userId),
+        searchWildberriesCatalogTool(userId),
+        saveWildberriesProductMediaTool(userId),
+        getWildberriesCardUploadErrorsTool(userId),
+        getWildberriesPriceUploadStatusTool(userId),
       ];
       toolsByName[LISTING_TOOLS_NAME] = listingTools;
     } catch (error) {
       logger.warn('Failed to create Wildberries tool for execution', { userId, error });
     }
+
+    try {
+      const statisticsTools = [
+        getWildberriesSalesTool(userId),
+        getWildberriesOrdersTool(userId),
+        getWildberriesReturnsTool(userId),
+        getWildberriesSalesByPeriodTool(userId),
+        getWildberriesSalesByProductTool(userId),
+      ];
+      toolsByName[STATISTICS_TOOLS_NAME] = statisticsTools;
+    } catch (error) {
+      logger.warn('Failed to create Wildberries statistics tools for execution', { userId, error });
+    }
+
+    try {
+      const inventoryTools = [
+        getWildberriesStocksByWarehouseTool(userId),
+        getWildberriesProductStocksTool(userId),
+        getWildberriesSellerWarehousesTool(userId),
+        updateWildberriesFbsStocksTool(userId),
+        getWildberriesLowStockReportTool(userId),
+      ];
+      toolsByName[INVENTORY_TOOLS_NAME] = inventoryTools;
+    } catch (error) {
+      logger.warn('Failed to create Wildberries inventory tools for execution', { userId, error });
+    }
+
+    try {
+      const feedbackTools = [
+        getWildberriesUnansweredFeedbacksTool(userId),
+        getWildberriesUnansweredQuestionsTool(userId),
+        getWildberriesFeedbackTool(userId),
+        getWildberriesQuestionTool(userId),
+        replyToWildberriesFeedbackTool(userId),
+        replyToWildberriesQuestionTool(userId),
+      ];
+      toolsByName[FEEDBACK_TOOLS_NAME] = feedbackTools;
+    } catch (error) {
+      logger.warn('Failed to create Wildberries feedback tools for execution', { userId, error });
+    }
+  }
+
+  if (userId && connectedServices.includes('ozon')) {
+    try {
+      const ozonTools = [
+        getOzonProductListTool(userId),
+        getOzonProductInfoTool(userId),
+        getOzonProductPricesTool(userId),
+        getOzonProductStocksTool(userId),
+      ];
+      toolsByName[OZON_TOOLS_NAME] = ozonTools;
+    } catch (error) {
+      logger.warn('Failed to create Ozon tools for execution', { userId, error });
+    }
+  }
+
+  if (userId && connectedServices.includes('yandexmarket')) {
+    try {
+      const yandexMarketTools = [
+        getYandexMarketCampaignsTool(userId),
+        getYandexMarketOffersTool(userId),
+        getYandexMarketOfferPricesTool(userId),
+        updateYandexMarketOfferPricesTool(userId),
+        getYandexMarketOfferStocksTool(userId),
+      ];
+      toolsByName[YANDEX_MARKET_TOOLS_NAME] = yandexMarketTools;
+    } catch (error) {
+      logger.warn('Failed to create Yandex Market tools for execution', { userId, error });
+    }
+  }
+
+  // Large results are shortened for the model, the full result is kept as the ToolMessage artifact
+  for (const [groupName, tools] of Object.entries(toolsByName)) {
+    toolsByName[groupName] = tools.map(withResultShaping);
   }
   
   return toolsByName;
@@ -39,11 +164,12 @@ export async function executeTools(
   userId?: string
 ): Promise<ToolMessage[]> {
   const toolResults: ToolMessage[] = [];
-  const toolsByName = createToolsMap(userId);
+  // The map is keyed by tool group, so flatten it to look tools up by name
+  const tools: any[] = Object.values(createToolsMap(userId)).flat();
 
   for (const toolCall of toolCalls) {
     try {
-      const selectedTool = toolsByName[toolCall.name];
+      const selectedTool = tools.find(tool => tool.name === toolCall.name);
       if (selectedTool) {
         logger.info(`Executing tool: ${toolCall.name}`, { args: toolCall.args });
         
@@ -118,7 +244,7 @@ export function parseToolExecutionResult(
 
 export function getToolExecutionEvents(toolCalls: ToolCall[]): Array<{message: string, toolName: string}> {
   return toolCalls.map((tc: ToolCall) => ({
-    message: wildberriesToolsMessages[tc.name as keyof typeof wildberriesToolsMessages]?.pending || 'Executing tool...',
+    message: toolsMessages[tc.name]?.pending || 'Executing tool...',
     toolName: tc.name
   }));
 } 
\ No newline at end of file
@@ -1,20 +1,55 @@
 import logger from "../../shared/utils/logger";
-import { apiKeysService } from "../apiKeys/apikeys.service";
-import axios from 'axios';
+import { MarketplaceApiError, MarketplaceClient } from "../../infrastructure/marketplaces";
+import { getMarketplaceClient } from "./marketplace.service";
 
-export async function getWildberriesApiKey(userId: string): Promise<string | null> {
+export async function getWildberriesClient(userId: string): Promise<MarketplaceClient | null> {
   logger.info('Attempting to retrieve Wildberries API key', { userId });
-        
-  const apiKey = await apiKeysService.getApiKey(userId, 'wildberries');
-  
-  if (!apiKey) {
+
+  const client = await getMarketplaceClient(userId, 'wildberries');
+
+  if (!client) {
     logger.warn('No Wildberries API key found for user', { userId });
     return null;
   }
 
-  logger.info('API key retrieved successfully', { userId, keyLength: apiKey.length });
+  return client;
+}
+
+/**
+ * Fetch raw records from the Wildberries Statistics API.
+ * /sales, /orders and /stocks return every record changed since dateFrom (flag=0).
+ */
+export async function fetchWildberriesStatistics<T>(
+  userId: string,
+  client: MarketplaceClient,
+  endpoint: '/api/v1/supplier/sales' | '/api/v1/supplier/orders' | '/api/v1/supplier/stocks',
+  dateFrom: string
+): Promise<T[]> {
+  const requestParams = { dateFrom, flag: 0 };
+
+  logger.info('Making Wildberries Statistics API request', {
+    userId,
+    endpoint,
+    requestParams
+  });
+
+  const response = await client.request({
+    method: 'GET',
+    category: 'statistics',
+    path: endpoint,
+    params: requestParams
+  });
+
+  const records: T[] = Array.isArray(response.data) ? response.data : [];
+
+  logger.info('Wildberries Statistics API request successful', {
+    userId,
+    endpoint,
+    statusCode: response.status,
+    recordsCount: records.length
+  });
 
-  return apiKey;
+  return records;
 }
 
 export function handleWildberriesError(error: any, userId: string) {
@@ -22,16 +57,16 @@ export function handleWildberriesError(error: any, userId: string) {
     userId,
     error: error instanceof Error ? error.message : String(error),
     stack: error instanceof Error ? error.stack : undefined,
-    ...(axios.isAxiosError(error) && {
-      status: error.response?.status,
-      statusText: error.response?.statusText,
-      responseData: error.response?.data
+    ...(error instanceof MarketplaceApiError && {
+      status: error.status,
+      statusText: error.statusText,
+      responseData: error.details
     })
   });
 
-  if (axios.isAxiosError(error)) {
-    const status = error.response?.status;
-    const responseData = error.response?.data;
+  if (error instanceof MarketplaceApiError && error.status) {
+    const status = error.status;
+    const responseData = error.details;
     
     switch (status) {
       case 401:
@@ -54,9 +89,10 @@ export function handleWildberriesError(error: any, userId: string) {
         });
       case 429:
         return JSON.stringify({
-          error: "Rate limit exceeded for Wildberries API.",
+          error: "Rate limit exceeded for Wildberries API. The request was already retried, don't call the tool again until retryAfterSeconds have passed.",
           success: false,
           statusCode: 429,
+          retryAfterSeconds: Math.ceil((error.retryAfterMs ?? 60000) / 1000),
         });
       case 400:
         return JSON.stringify({
@@ -67,7 +103,7 @@ export function handleWildberriesError(error: any, userId: string) {
         });
       default:
         return JSON.stringify({
-          error: `Wildberries API returned an error: ${error.response?.statusText || 'Unknown error'}`,
+          error: `Wildberries API returned an error: ${error.statusText || 'Unknown error'}`,
           success: false,
           statusCode: status,
           details: responseData,
@@ -0,0 +1,84 @@
+import logger from "../../shared/utils/logger";
+import { MarketplaceApiError, MarketplaceClient } from "../../infrastructure/marketplaces";
+import { getMarketplaceClient } from "./marketplace.service";
+
+export async function getYandexMarketClient(userId: string): Promise<MarketplaceClient | null> {
+  logger.info('Attempting to retrieve Yandex Market API key', { userId });
+
+  const client = await getMarketplaceClient(userId, 'yandexmarket');
+
+  if (!client) {
+    logger.warn('No Yandex Market API key found for user', { userId });
+    return null;
+  }
+
+  return client;
+}
+
+export function handleYandexMarketError(error: any, userId: string) {
+  logger.error('Yandex Market API request failed', {
+    userId,
+    error: error instanceof Error ? error.message : String(error),
+    stack: error instanceof Error ? error.stack : undefined,
+    ...(error instanceof MarketplaceApiError && {
+      status: error.status,
+      statusText: error.statusText,
+      responseData: error.details
+    })
+  });
+
+  if (error instanceof MarketplaceApiError && error.status) {
+    const status = error.status;
+    const responseData = error.details;
+
+    switch (status) {
+      case 401:
+        return JSON.stringify({
+          error: "Your Yandex Market API key appears to be invalid or expired.",
+          success: false,
+          statusCode: 401,
+        });
+      case 403:
+        return JSON.stringify({
+          error: "Access forbidden. Your Yandex Market API key doesn't have access to this business or campaign.",
+          success: false,
+          statusCode: 403,
+        });
+      case 404:
+        return JSON.stringify({
+          error: "Yandex Market couldn't find the requested business, campaign or offer.",
+          success: false,
+          statusCode: 404,
+          details: responseData?.errors,
+        });
+      case 420:
+      case 429:
+        return JSON.stringify({
+          error: "Rate limit exceeded for Yandex Market API. The request was already retried, don't call the tool again until retryAfterSeconds have passed.",
+          success: false,
+          statusCode: status,
+          retryAfterSeconds: Math.ceil((error.retryAfterMs ?? 60000) / 1000),
+        });
+      case 400:
+        return JSON.stringify({
+          error: "Bad request to Yandex Market API.",
+          success: false,
+          statusCode: 400,
+          details: responseData?.errors || responseData,
+        });
+      default:
+        return JSON.stringify({
+          error: `Yandex Market API returned an error: ${error.statusText || 'Unknown error'}`,
+          success: false,
+          statusCode: status,
+          details: responseData?.errors || responseData,
+        });
+    }
+  }
+
+  return JSON.stringify({
+    error: `Failed to fetch your Yandex Market data: ${error instanceof Error ? error.message : String(error)}`,
+    success: false,
+    type: "network_error",
+  });
+}
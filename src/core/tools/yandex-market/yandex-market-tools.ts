@@ -0,0 +1,438 @@
+import { tool } from '@langchain/core/tools';
+import { z } from 'zod';
+import logger from '../../../shared/utils/logger';
+import { getYandexMarketClient, handleYandexMarketError } from '../yandex-market.service';
+
+export const yandexMarketToolsMessages = {
+  get_yandex_market_campaigns: {
+    success: "Fetched Yandex Market stores.",
+    pending: "Fetching Yandex Market stores..."
+  },
+  get_yandex_market_offers: {
+    success: "Fetched Yandex Market offers.",
+    pending: "Fetching Yandex Market offers..."
+  },
+  get_yandex_market_offer_prices: {
+    success: "Fetched Yandex Market prices.",
+    pending: "Fetching Yandex Market prices..."
+  },
+  update_yandex_market_offer_prices: {
+    success: "Updated Yandex Market prices.",
+    pending: "Updating Yandex Market prices..."
+  },
+  get_yandex_market_offer_stocks: {
+    success: "Fetched Yandex Market stocks.",
+    pending: "Fetching Yandex Market stocks..."
+  }
+}
+
+/**
+ * Create a Yandex Market Campaigns tool for listing the seller's stores and their business IDs
+ * Based on: https://yandex.ru/dev/market/partner-api/doc/ru/reference/campaigns/getCampaigns
+ */
+export function getYandexMarketCampaignsTool(userId: string) {
+  return tool(
+    async () => {
+      try {
+        // Get a Yandex Market client with the user's API key
+        const client = await getYandexMarketClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Yandex Market API key.",
+            success: false,
+          });
+        }
+
+        logger.info('Making Yandex Market Campaigns API request', {
+          userId,
+          endpoint: '/campaigns'
+        });
+
+        const response = await client.request({
+          method: 'GET',
+          path: '/campaigns'
+        });
+
+        logger.info('Yandex Market Campaigns API request successful', {
+          userId,
+          statusCode: response.status,
+        });
+
+        const campaigns = (response.data?.campaigns || []).map((campaign: any) => ({
+          campaignId: campaign.id,
+          domain: campaign.domain,
+          placementType: campaign.placementType,
+          businessId: campaign.business?.id,
+          businessName: campaign.business?.name
+        }));
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: true,
+          data: campaigns,
+          metadata: {
+            endpoint: "get_yandex_market_campaigns",
+            rateLimit: "1000 requests per hour",
+            apiCategory: "Campaigns"
+          }
+        });
+
+      } catch (error) {
+        return handleYandexMarketError(error, userId);
+      }
+    },
+    {
+      name: "get_yandex_market_campaigns",
+      description: `Get the seller's Yandex Market stores (campaigns) with their campaignId and businessId.
+      Call this first: other Yandex Market tools need businessId (offers, prices) or campaignId (stocks).`,
+      schema: z.object({})
+    }
+  );
+}
+
+/**
+ * Zod schema for Yandex Market offers tool parameters
+ */
+const getYandexMarketOffersSchema = z.object({
+  businessId: z.number().int().describe("Business ID from get_yandex_market_campaigns"),
+  offerIds: z.array(z.string()).max(200).optional().describe("Filter by seller SKU (offerId)"),
+  limit: z.number().int().min(1).max(200).optional().describe("Number of offers to fetch (1-200, default: 50)"),
+  pageToken: z.string().optional().describe("nextPageToken from the previous response to fetch the next page"),
+});
+
+/**
+ * Create a Yandex Market Offers tool for fetching the seller's offers and their Market cards
+ * Based on: https://yandex.ru/dev/market/partner-api/doc/ru/reference/business-assortment/getOfferMappings
+ */
+export function getYandexMarketOffersTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Yandex Market client with the user's API key
+        const client = await getYandexMarketClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Yandex Market API key.",
+            success: false,
+          });
+        }
+
+        // Build request from validated input
+        const requestParams = {
+          limit: input.limit || 50,
+          ...(input.pageToken && { page_token: input.pageToken }),
+        };
+        const requestBody = {
+          ...(input.offerIds?.length && { offerIds: input.offerIds }),
+        };
+
+        logger.info('Making Yandex Market Offer Mappings API request', {
+          userId,
+          endpoint: `/businesses/${input.businessId}/offer-mappings`,
+          requestParams,
+          requestBody
+        });
+
+        const response = await client.request({
+          method: 'POST',
+          path: `/businesses/${input.businessId}/offer-mappings`,
+          params: requestParams,
+          body: requestBody
+        });
+
+        logger.info('Yandex Market Offer Mappings API request successful', {
+          userId,
+          statusCode: response.status,
+        });
+
+        const offers = (response.data?.result?.offerMappings || []).map((item: any) => ({
+          offerId: item.offer?.offerId,
+          name: item.offer?.name,
+          vendor: item.offer?.vendor,
+          category: item.offer?.category,
+          barcodes: item.offer?.barcodes,
+          basicPrice: item.offer?.basicPrice,
+          cardStatus: item.offer?.cardStatus,
+          archived: item.offer?.archived,
+          marketSku: item.mapping?.marketSku,
+          marketCategoryName: item.mapping?.marketCategoryName
+        }));
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: response.data?.status !== 'ERROR',
+          data: offers,
+          nextPageToken: response.data?.result?.paging?.nextPageToken,
+          requestParams,
+          metadata: {
+            endpoint: "get_yandex_market_offers",
+            rateLimit: "600 requests per minute",
+            apiCategory: "Assortment"
+          }
+        });
+
+      } catch (error) {
+        return handleYandexMarketError(error, userId);
+      }
+    },
+    {
+      name: "get_yandex_market_offers",
+      description: `Get the seller's offers (products) on Yandex Market: offerId, name, vendor, barcodes, base price, card status and Market SKU.
+      Use this when users ask about their Yandex Market products or assortment.
+      Use nextPageToken from the response to fetch the next page.`,
+      schema: getYandexMarketOffersSchema
+    }
+  );
+}
+
+/**
+ * Create a Yandex Market Offer Prices tool for fetching prices set for all stores of the business
+ * Based on: https://yandex.ru/dev/market/partner-api/doc/ru/reference/business-assortment/getDefaultPrices
+ */
+export function getYandexMarketOfferPricesTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Yandex Market client with the user's API key
+        const client = await getYandexMarketClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Yandex Market API key.",
+            success: false,
+          });
+        }
+
+        // Build request from validated input
+        const requestParams = {
+          limit: input.limit || 50,
+          ...(input.pageToken && { page_token: input.pageToken }),
+        };
+        const requestBody = {
+          ...(input.offerIds?.length && { offerIds: input.offerIds }),
+        };
+
+        logger.info('Making Yandex Market Offer Prices API request', {
+          userId,
+          endpoint: `/businesses/${input.businessId}/offer-prices`,
+          requestParams,
+          requestBody
+        });
+
+        const response = await client.request({
+          method: 'POST',
+          path: `/businesses/${input.businessId}/offer-prices`,
+          params: requestParams,
+          body: requestBody
+        });
+
+        logger.info('Yandex Market Offer Prices API request successful', {
+          userId,
+          statusCode: response.status,
+        });
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: response.data?.status !== 'ERROR',
+          data: response.data?.result?.offers || [],
+          nextPageToken: response.data?.result?.paging?.nextPageToken,
+          requestParams,
+          metadata: {
+            endpoint: "get_yandex_market_offer_prices",
+            rateLimit: "600 requests per minute",
+            apiCategory: "Prices"
+          }
+        });
+
+      } catch (error) {
+        return handleYandexMarketError(error, userId);
+      }
+    },
+    {
+      name: "get_yandex_market_offer_prices",
+      description: `Get prices of the seller's offers on Yandex Market (price, price before discount and currency), shared by all stores of the business.
+      Use this when users ask about their Yandex Market prices.
+      Use nextPageToken from the response to fetch the next page.`,
+      schema: getYandexMarketOffersSchema
+    }
+  );
+}
+
+/**
+ * Zod schema for Yandex Market price update tool parameters
+ */
+const updateYandexMarketOfferPricesSchema = z.object({
+  businessId: z.number().int().describe("Business ID from get_yandex_market_campaigns"),
+  offers: z.array(z.object({
+    offerId: z.string().describe("Seller SKU (offerId)"),
+    price: z.number().positive().describe("New price in rubles"),
+    discountBase: z.number().positive().optional().describe("Price before discount in rubles, must be higher than price"),
+  }).refine(
+    offer => offer.discountBase === undefined || offer.discountBase > offer.price,
+    { message: "discountBase must be higher than price" }
+  )).min(1).max(500).describe("Offers with new prices (up to 500)"),
+});
+
+/**
+ * Create a Yandex Market Price Update tool for setting prices for all stores of the business
+ * Based on: https://yandex.ru/dev/market/partner-api/doc/ru/reference/business-assortment/updateBusinessPrices
+ */
+export function updateYandexMarketOfferPricesTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Yandex Market client with the user's API key
+        const client = await getYandexMarketClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Yandex Market API key.",
+            success: false,
+          });
+        }
+
+        // Build request body from validated input
+        const requestBody = {
+          offers: input.offers.map(offer => ({
+            offerId: offer.offerId,
+            price: {
+              value: offer.price,
+              currencyId: 'RUR',
+              ...(offer.discountBase !== undefined && { discountBase: offer.discountBase })
+            }
+          }))
+        };
+
+        logger.info('Making Yandex Market Offer Prices Update API request', {
+          userId,
+          endpoint: `/businesses/${input.businessId}/offer-prices/updates`,
+          requestBody
+        });
+
+        const response = await client.request({
+          method: 'POST',
+          path: `/businesses/${input.businessId}/offer-prices/updates`,
+          body: requestBody
+        });
+
+        logger.info('Yandex Market Offer Prices Update API request successful', {
+          userId,
+          statusCode: response.status,
+        });
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: response.data?.status !== 'ERROR',
+          requestBody: requestBody,
+          ...(response.data?.errors && { errors: response.data.errors }),
+          metadata: {
+            endpoint: "update_yandex_market_offer_prices",
+            rateLimit: "10000 offers per minute",
+            apiCategory: "Prices"
+          }
+        });
+
+      } catch (error) {
+        return handleYandexMarketError(error, userId);
+      }
+    },
+    {
+      name: "update_yandex_market_offer_prices",
+      description: `Set prices of offers on Yandex Market for all stores of the business.
+      Use this when users ask to change prices or discounts on Yandex Market.
+      Prices are applied within a few minutes.
+
+      Returns nothing if the prices are updated successfully, otherwise returns an error message.`,
+      schema: updateYandexMarketOfferPricesSchema
+    }
+  );
+}
+
+/**
+ * Zod schema for Yandex Market stocks tool parameters
+ */
+const getYandexMarketOfferStocksSchema = z.object({
+  campaignId: z.number().int().describe("Campaign (store) ID from get_yandex_market_campaigns"),
+  offerIds: z.array(z.string()).max(500).optional().describe("Filter by seller SKU (offerId)"),
+  limit: z.number().int().min(1).max(200).optional().describe("Number of offers to fetch (1-200, default: 50)"),
+  pageToken: z.string().optional().describe("nextPageToken from the previous response to fetch the next page"),
+});
+
+/**
+ * Create a Yandex Market Offer Stocks tool for fetching stocks in the store's warehouses
+ * Based on: https://yandex.ru/dev/market/partner-api/doc/ru/reference/stocks/getStocks
+ */
+export function getYandexMarketOfferStocksTool(userId: string) {
+  return tool(
+    async (input) => {
+      try {
+        // Get a Yandex Market client with the user's API key
+        const client = await getYandexMarketClient(userId);
+        if (!client) {
+          return JSON.stringify({
+            error: "I couldn't find your Yandex Market API key.",
+            success: false,
+          });
+        }
+
+        // Build request from validated input
+        const requestParams = {
+          limit: input.limit || 50,
+          ...(input.pageToken && { page_token: input.pageToken }),
+        };
+        const requestBody = {
+          ...(input.offerIds?.length && { offerIds: input.offerIds }),
+        };
+
+        logger.info('Making Yandex Market Offer Stocks API request', {
+          userId,
+          endpoint: `/campaigns/${input.campaignId}/offers/stocks`,
+          requestParams,
+          requestBody
+        });
+
+        const response = await client.request({
+          method: 'POST',
+          path: `/campaigns/${input.campaignId}/offers/stocks`,
+          params: requestParams,
+          body: requestBody
+        });
+
+        logger.info('Yandex Market Offer Stocks API request successful', {
+          userId,
+          statusCode: response.status,
+        });
+
+        const warehouses = (response.data?.result?.warehouses || []).map((warehouse: any) => ({
+          warehouseId: warehouse.warehouseId,
+          offers: (warehouse.offers || []).map((offer: any) => ({
+            offerId: offer.offerId,
+            stocks: offer.stocks,
+            updatedAt: offer.updatedAt
+          }))
+        }));
+
+        // Return structured response as string (required by LangChain tools)
+        return JSON.stringify({
+          success: response.data?.status !== 'ERROR',
+          data: warehouses,
+          nextPageToken: response.data?.result?.paging?.nextPageToken,
+          requestParams,
+          metadata: {
+            endpoint: "get_yandex_market_offer_stocks",
+            rateLimit: "100000 offers per minute",
+            apiCategory: "Stocks"
+          }
+        });
+
+      } catch (error) {
+        return handleYandexMarketError(error, userId);
+      }
+    },
+    {
+      name: "get_yandex_market_offer_stocks",
+      description: `Get stocks of the seller's offers in the warehouses of a Yandex Market store: available, in transit, reserved, defective and other stock types.
+      Use this when users ask about Yandex Market stock levels.
+      Use nextPageToken from the response to fetch the next page.`,
+      schema: getYandexMarketOfferStocksSchema
+    }
+  );
+}
@@ -0,0 +1,159 @@
+import logger from '../../shared/utils/logger';
+import * as databaseService from '../../infrastructure/database/database.service';
+import { MarketplaceTask } from '../../infrastructure/database/supabase.client';
+import { saveMessage } from '../conversations/message.utils';
+import { getWildberriesClient } from '../tools/wildberries.service';
+import {
+  fetchCardsUpdatedAt,
+  fetchCardUploadErrors,
+  fetchPriceUploadStatus,
+  getCardUploadOutcome,
+  getPriceUploadOutcome
+} from '../tools/product/upload-status.utils';
+import {
+  buildUploadTaskMessage,
+  FIRST_CHECK_DELAY_MS,
+  getNextCheckDelay,
+  getUploadTaskReference,
+  UPLOAD_TASK_TTL_MS,
+  UploadTaskCheck
+} from './upload-tasks.utils';
+
+export const UPLOAD_TASK_POLL_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Start tracking the upload started by an executed tool call
+ */
+export async function registerUploadTask(
+  userId: string,
+  conversationId: string,
+  toolName: string,
+  args: Record<string, any>,
+  content: string
+): Promise<MarketplaceTask | null> {
+  const upload = getUploadTaskReference(toolName, args, content);
+  if (!upload) {
+    return null;
+  }
+
+  const task = await databaseService.createMarketplaceTask({
+    user_id: userId,
+    conversation_id: conversationId,
+    service: 'wildberries',
+    task_type: upload.taskType,
+    reference: upload.reference,
+    next_check_at: new Date(Date.now() + FIRST_CHECK_DELAY_MS).toISOString()
+  });
+
+  logger.info('Upload task registered', {
+    userId,
+    conversationId,
+    taskId: task.id,
+    taskType: task.task_type
+  });
+
+  return task;
+}
+
+/**
+ * Check a task against the marketplace
+ */
+export async function checkUploadTask(task: MarketplaceTask): Promise<UploadTaskCheck> {
+  const client = await getWildberriesClient(task.user_id);
+  if (!client) {
+    throw new Error('Wildberries API key not found');
+  }
+
+  if (task.task_type === 'price_upload') {
+    const priceStatus = await fetchPriceUploadStatus(task.user_id, client, task.reference.uploadID!);
+    return { outcome: getPriceUploadOutcome(priceStatus), result: { priceStatus } };
+  }
+
+  const vendorCodes = task.reference.vendorCodes || [];
+  const cardErrors = await fetchCardUploadErrors(task.user_id, client, vendorCodes);
+  const updatedAt = cardErrors.length > 0 ? {} : await fetchCardsUpdatedAt(task.user_id, client, vendorCodes);
+
+  return {
+    outcome: getCardUploadOutcome(vendorCodes, cardErrors, updatedAt, new Date(task.created_at)),
+    result: { cardErrors }
+  };
+}
+
+/**
+ * Check the due tasks, post the outcome of finished ones into their conversations
+ * and schedule the next check of the others
+ * @returns Number of finished tasks
+ */
+export async function processDueUploadTasks(now: Date = new Date()): Promise<number> {
+  const tasks = await databaseService.getDueMarketplaceTasks(now);
+  let finished = 0;
+
+  for (const task of tasks) {
+    const attempts = task.attempts + 1;
+
+    try {
+      const check = await checkUploadTask(task);
+
+      if (check.outcome !== 'pending') {
+        await databaseService.updateMarketplaceTask(task.id, { status: check.outcome, result: check.result, attempts });
+        await saveMessage({
+          conversationId: task.conversation_id,
+          content: buildUploadTaskMessage(task, check),
+          role: 'assistant',
+          metadata: { uploadTask: { id: task.id, type: task.task_type, status: check.outcome } }
+        });
+        finished++;
+
+        logger.info('Upload task finished', { taskId: task.id, status: check.outcome });
+        continue;
+      }
+    } catch (error) {
+      logger.warn('Upload task check failed', {
+        taskId: task.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    if (now.getTime() - new Date(task.created_at).getTime() > UPLOAD_TASK_TTL_MS) {
+      await databaseService.updateMarketplaceTask(task.id, { status: 'expired', attempts });
+      logger.warn('Upload task expired', { taskId: task.id });
+      continue;
+    }
+
+    await databaseService.updateMarketplaceTask(task.id, {
+      attempts,
+      next_check_at: new Date(now.getTime() + getNextCheckDelay(attempts)).toISOString()
+    });
+  }
+
+  return finished;
+}
+
+/**
+ * Check upload tasks in the background
+ * @returns Function that stops the poller
+ */
+export function startUploadTaskPoller(intervalMs: number = UPLOAD_TASK_POLL_INTERVAL_MS): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Skip the tick while the previous one is still checking tasks
+    if (running) return;
+    running = true;
+
+    try {
+      await processDueUploadTasks();
+    } catch (error) {
+      logger.error('Upload task poller failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  // Don't keep the process alive only for the poller
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
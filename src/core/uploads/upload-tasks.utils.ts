@@ -0,0 +1,90 @@
+import { MarketplaceTask } from '../../infrastructure/database/supabase.client';
+import { CardUploadError, PriceUploadStatus, UploadOutcome } from '../tools/product/upload-status.utils';
+
+// Delay before the first check, doubled after every check up to the maximum
+export const FIRST_CHECK_DELAY_MS = 60 * 1000;
+export const MAX_CHECK_DELAY_MS = 15 * 60 * 1000;
+// Tasks that don't finish within a day are no longer checked
+export const UPLOAD_TASK_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface UploadTaskReference {
+  taskType: MarketplaceTask['task_type'];
+  reference: MarketplaceTask['reference'];
+}
+
+export interface UploadTaskCheck {
+  outcome: UploadOutcome;
+  result: { cardErrors?: CardUploadError[]; priceStatus?: PriceUploadStatus };
+}
+
+/**
+ * Get the asynchronous upload started by a successful tool call, null if the tool doesn't start one
+ */
+export function getUploadTaskReference(toolName: string, args: Record<string, any>, content: string): UploadTaskReference | null {
+  let result: any;
+  try {
+    result = JSON.parse(content);
+  } catch {
+    return null;
+  }
+  if (!result?.success) {
+    return null;
+  }
+
+  switch (toolName) {
+    case 'create_wildberries_product_card':
+      return {
+        taskType: 'card_upload',
+        reference: {
+          vendorCodes: [args.vendorCode, ...(args.variants || []).map((variant: any) => variant.vendorCode)]
+        }
+      };
+    case 'update_wildberries_product_card':
+      return { taskType: 'card_upload', reference: { vendorCodes: [args.vendorCode] } };
+    case 'set_wildberries_products_price': {
+      const uploadID = result.uploadID;
+      return typeof uploadID === 'number' ? { taskType: 'price_upload', reference: { uploadID } } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Delay before the next check of a task that has been checked the given number of times
+ */
+export function getNextCheckDelay(attempts: number): number {
+  return Math.min(FIRST_CHECK_DELAY_MS * 2 ** attempts, MAX_CHECK_DELAY_MS);
+}
+
+/**
+ * Follow-up assistant message about a finished upload
+ */
+export function buildUploadTaskMessage(task: MarketplaceTask, check: UploadTaskCheck): string {
+  if (task.task_type === 'price_upload') {
+    const status = check.result.priceStatus;
+    if (check.outcome === 'completed') {
+      return `The new prices (upload ${task.reference.uploadID}) were applied on Wildberries.`;
+    }
+
+    const lines = [`The price upload ${task.reference.uploadID} finished with status "${status?.statusText || 'failed'}".`];
+    if (status?.overAllGoodsNumber !== undefined) {
+      lines.push(`Updated ${status.successGoodsNumber || 0} of ${status.overAllGoodsNumber} goods.`);
+    }
+    for (const error of status?.errors || []) {
+      lines.push(`- ${error.vendorCode || error.nmID}: ${error.errorText}`);
+    }
+    return lines.join('\n');
+  }
+
+  const vendorCodes = (task.reference.vendorCodes || []).join(', ');
+  if (check.outcome === 'completed') {
+    return `Wildberries processed the product card upload (${vendorCodes}), the cards are in the catalog.`;
+  }
+
+  const lines = [`Wildberries rejected the product card upload (${vendorCodes}):`];
+  for (const cardError of check.result.cardErrors || []) {
+    lines.push(`- ${cardError.vendorCode}: ${cardError.errors.join('; ')}`);
+  }
+  return lines.join('\n');
+}
@@ -1,7 +1,16 @@
 import { PostgrestError } from '@supabase/supabase-js';
 import logger from '../../shared/utils/logger';
 import { getSupabaseClient } from './supabase.client';
-import { Conversation, Message, User } from './supabase.client';
+import {
+  Conversation,
+  MarketplaceTask,
+  Message,
+  PriceHistoryEntry,
+  PricingGuardrails,
+  RepricingRule,
+  RepricingRun,
+  User
+} from './supabase.client';
 import { ToolCall } from '@langchain/core/dist/messages/tool';
 /**
  * Database utility functions for common operations
@@ -77,16 +86,24 @@ export const getUserById = async (userId: string): Promise<User | null> => {
 };
 
 // Conversation operations
-export const getConversationById = async (conversationId: string): Promise<Conversation | null> => {
+// Conversations are always scoped to their owner, so foreign ids behave like missing ones
+export const getConversationById = async (
+  conversationId: string,
+  userId: string
+): Promise<Conversation | null> => {
   try {
     const supabase = getSupabaseClient();
     const { data, error } = await supabase
       .from('conversations')
       .select('*')
       .eq('id', conversationId)
+      .eq('user_id', userId)
       .single();
 
-    if (error) throw error;
+    if (error) {
+      if (error.code === 'PGRST116') return null; // No rows returned
+      throw error;
+    }
     return data;
   } catch (error) {
     return handleDatabaseError('getConversationById', error as Error);
@@ -168,6 +185,7 @@ export const createConversation = async (
 
 export const updateConversation = async (
   conversationId: string, 
+  userId: string,
   updates: Partial<Omit<Conversation, 'id' | 'created_at' | 'user_id'>>
 ): Promise<void> => {
   try {
@@ -175,7 +193,8 @@ export const updateConversation = async (
     const { error } = await supabase
       .from('conversations')
       .update(updates)
-      .eq('id', conversationId);
+      .eq('id', conversationId)
+      .eq('user_id', userId);
 
     if (error) throw error;
   } catch (error) {
@@ -186,26 +205,28 @@ export const updateConversation = async (
 // Function specifically for updating title to maintain compatibility
 export const updateConversationTitle = async (
   conversationId: string, 
+  userId: string,
   title: string
 ): Promise<void> => {
-  return updateConversation(conversationId, { title });
+  return updateConversation(conversationId, userId, { title });
 };
 
-export const archiveConversation = async (conversationId: string): Promise<void> => {
-  return updateConversation(conversationId, { is_archived: true });
+export const archiveConversation = async (conversationId: string, userId: string): Promise<void> => {
+  return updateConversation(conversationId, userId, { is_archived: true });
 };
 
-export const unarchiveConversation = async (conversationId: string): Promise<void> => {
-  return updateConversation(conversationId, { is_archived: false });
+export const unarchiveConversation = async (conversationId: string, userId: string): Promise<void> => {
+  return updateConversation(conversationId, userId, { is_archived: false });
 };
 
-export const deleteConversation = async (conversationId: string): Promise<void> => {
+export const deleteConversation = async (conversationId: string, userId: string): Promise<void> => {
   try {
     const supabase = getSupabaseClient();
     const { error } = await supabase
       .from('conversations')
       .delete()
-      .eq('id', conversationId);
+      .eq('id', conversationId)
+      .eq('user_id', userId);
 
     if (error) throw error;
   } catch (error) {
@@ -241,6 +262,35 @@ export const getMessagesByConversationId = async (
   }
 };
 
+/**
+ * Latest messages of a conversation in chronological order, optionally only those created after a timestamp
+ */
+export const getRecentMessages = async (
+  conversationId: string,
+  options: { after?: string | null; limit?: number } = {}
+): Promise<Message[]> => {
+  try {
+    const supabase = getSupabaseClient();
+    let query = supabase
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: false })
+      .limit(options.limit ?? 1000);
+
+    if (options.after) {
+      query = query.gt('created_at', options.after);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return (data || []).reverse();
+  } catch (error) {
+    return handleDatabaseError('getRecentMessages', error as Error);
+  }
+};
+
 export const createMessage = async (
   conversationId: string,
   content: string,
@@ -277,7 +327,7 @@ export const createMessage = async (
 
 export const updateMessage = async (
   messageId: string,
-  updates: Partial<Pick<Message, 'content' | 'metadata'>>
+  updates: Partial<Pick<Message, 'content' | 'metadata' | 'status'>>
 ): Promise<void> => {
   try {
     const supabase = getSupabaseClient();
@@ -292,6 +342,93 @@ export const updateMessage = async (
   }
 };
 
+export const getToolMessageByCallId = async (
+  conversationId: string,
+  toolCallId: string
+): Promise<Message | null> => {
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .eq('role', 'tool')
+      .eq('tool_call_id', toolCallId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    return handleDatabaseError('getToolMessageByCallId', error as Error);
+  }
+};
+
+/**
+ * Assistant message that made a tool call
+ */
+export const getAssistantMessageByToolCallId = async (
+  conversationId: string,
+  toolCallId: string
+): Promise<Message | null> => {
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .eq('role', 'assistant')
+      .contains('tool_calls', JSON.stringify([{ id: toolCallId }]))
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    return handleDatabaseError('getAssistantMessageByToolCallId', error as Error);
+  }
+};
+
+/**
+ * Update a tool message only while it is pending. Returns null when another request already resolved it.
+ */
+export const claimPendingToolMessage = async (
+  messageId: string,
+  updates: Partial<Pick<Message, 'content' | 'metadata' | 'status'>>
+): Promise<Message | null> => {
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('messages')
+      .update(updates)
+      .eq('id', messageId)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    return handleDatabaseError('claimPendingToolMessage', error as Error);
+  }
+};
+
+export const countPendingToolMessages = async (conversationId: string): Promise<number> => {
+  try {
+    const supabase = getSupabaseClient();
+    const { count, error } = await supabase
+      .from('messages')
+      .select('id', { count: 'exact', head: true })
+      .eq('conversation_id', conversationId)
+      .eq('role', 'tool')
+      .eq('status', 'pending');
+
+    if (error) throw error;
+    return count || 0;
+  } catch (error) {
+    return handleDatabaseError('countPendingToolMessages', error as Error);
+  }
+};
+
 export const deleteMessage = async (messageId: string): Promise<void> => {
   try {
     const supabase = getSupabaseClient();
@@ -304,4 +441,284 @@ export const deleteMessage = async (messageId: string): Promise<void> => {
   } catch (error) {
     handleDatabaseError('deleteMessage', error as Error);
   }
-}; 
\ No newline at end of file
+};
+
+// Marketplace task operations
+export const createMarketplaceTask = async (
+  task: Pick<MarketplaceTask, 'user_id' | 'conversation_id' | 'service' | 'task_type' | 'reference' | 'next_check_at'>
+): Promise<MarketplaceTask> => {
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('marketplace_tasks')
+      .insert([task])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    return handleDatabaseError('createMarketplaceTask', error as Error);
+  }
+};
+
+export const getDueMarketplaceTasks = async (now: Date, limit: number = 20): Promise<MarketplaceTask[]> => {
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('marketplace_tasks')
+      .select('*')
+      .eq('status', 'pending')
+      .lte('next_check_at', now.toISOString())
+      .order('next_check_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    return handleDatabaseError('getDueMarketplaceTasks', error as Error);
+  }
+};
+
+export const updateMarketplaceTask = async (
+  taskId: string,
+  updates: Partial<Pick<MarketplaceTask, 'status' | 'result' | 'attempts' | 'next_check_at'>>
+): Promise<void> => {
+  try {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from('marketplace_tasks')
+      .update(updates)
+      .eq('id', taskId);
+
+    if (error) throw error;
+  } catch (error) {
+    handleDatabaseError('updateMarketplaceTask', error as Error);
+  }
+};
+
+// Pricing guardrails operations
+export const getPricingGuardrails = async (userId: string): Promise<PricingGuardrails | null> => {
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('pricing_guardrails')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    return handleDatabaseError('getPricingGuardrails', error as Error);
+  }
+};
+
+export const upsertPricingGuardrails = async (
+  userId: string,
+  guardrails: Pick<PricingGuardrails, 'min_price' | 'max_price' | 'max_change_percent' | 'forbidden_nm_ids'>
+): Promise<PricingGuardrails> => {
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('pricing_guardrails')
+      .upsert([{ user_id: userId, ...guardrails }], { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    return handleDatabaseError('upsertPricingGuardrails', error as Error);
+  }
+};
+
+// Price history operations
+export const createPriceHistoryEntries = async (
+  entries: Array<Omit<PriceHistoryEntry, 'id' | 'created_at'>>
+): Promise<void> => {
+  try {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from('price_history')
+      .insert(entries);
+
+    if (error) throw error;
+  } catch (error) {
+    handleDatabaseError('createPriceHistoryEntries', error as Error);
+  }
+};
+
+export const getPriceHistory = async (
+  userId: string,
+  options: { nmID?: number; limit?: number; offset?: number } = {}
+): Promise<PriceHistoryEntry[]> => {
+  try {
+    const supabase = getSupabaseClient();
+    const limit = options.limit || 50;
+    const offset = options.offset || 0;
+    let query = supabase
+      .from('price_history')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (options.nmID !== undefined) {
+      query = query.eq('nm_id', options.nmID);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    return handleDatabaseError('getPriceHistory', error as Error);
+  }
+};
+
+// Repricing rule operations
+export type RepricingRuleFields = Pick<RepricingRule, 'name' | 'nm_ids' | 'condition' | 'action' | 'dry_run' | 'is_active' | 'interval_hours'>;
+
+export const getRepricingRules = async (userId: string): Promise<RepricingRule[]> => {
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('repricing_rules')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    return handleDatabaseError('getRepricingRules', error as Error);
+  }
+};
+
+export const getRepricingRule = async (userId: string, ruleId: string): Promise<RepricingRule | null> => {
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('repricing_rules')
+      .select('*')
+      .eq('id', ruleId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    return handleDatabaseError('getRepricingRule', error as Error);
+  }
+};
+
+export const createRepricingRule = async (userId: string, rule: RepricingRuleFields): Promise<RepricingRule> => {
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('repricing_rules')
+      .insert([{ user_id: userId, ...rule }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    return handleDatabaseError('createRepricingRule', error as Error);
+  }
+};
+
+export const updateRepricingRule = async (
+  userId: string,
+  ruleId: string,
+  updates: Partial<RepricingRuleFields & Pick<RepricingRule, 'last_run_at' | 'next_run_at'>>
+): Promise<RepricingRule | null> => {
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('repricing_rules')
+      .update(updates)
+      .eq('id', ruleId)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    return handleDatabaseError('updateRepricingRule', error as Error);
+  }
+};
+
+export const deleteRepricingRule = async (userId: string, ruleId: string): Promise<boolean> => {
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('repricing_rules')
+      .delete()
+      .eq('id', ruleId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  } catch (error) {
+    return handleDatabaseError('deleteRepricingRule', error as Error);
+  }
+};
+
+export const getDueRepricingRules = async (now: Date, limit: number = 50): Promise<RepricingRule[]> => {
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('repricing_rules')
+      .select('*')
+      .eq('is_active', true)
+      .lte('next_run_at', now.toISOString())
+      .order('next_run_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    return handleDatabaseError('getDueRepricingRules', error as Error);
+  }
+};
+
+// Repricing run operations
+export const createRepricingRun = async (
+  run: Omit<RepricingRun, 'id' | 'created_at'>
+): Promise<RepricingRun> => {
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('repricing_runs')
+      .insert([run])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    return handleDatabaseError('createRepricingRun', error as Error);
+  }
+};
+
+export const getRepricingRuns = async (userId: string, ruleId: string, limit: number = 50): Promise<RepricingRun[]> => {
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('repricing_runs')
+      .select('*')
+      .eq('rule_id', ruleId)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    return handleDatabaseError('getRepricingRuns', error as Error);
+  }
+};
@@ -28,6 +28,8 @@ export type Conversation = {
   context_length?: number;
   is_archived?: boolean;
   message_count?: number;
+  summary?: string | null; // Rolling summary of the messages that no longer fit into the context
+  summarized_until?: string | null; // created_at of the last message covered by the summary
   metadata?: Record<string, any>;
 };
 
@@ -72,10 +74,103 @@ export interface UserApiKey {
   user_id: string;
   service: string;
   api_key: string;
+  client_id?: string | null; // Ozon Client-Id, stored unencrypted
+  environment?: 'sandbox' | 'production';
   created_at?: string;
   updated_at?: string;
 }
 
+export type ProductMedia = {
+  id: string;
+  user_id: string;
+  file_name: string;
+  content_type: string;
+  media_type: 'photo' | 'video';
+  size_bytes: number;
+  storage_path: string; // Path in the product-media storage bucket
+  public_url: string;
+  created_at: string;
+};
+
+export type MarketplaceTask = {
+  id: string;
+  user_id: string;
+  conversation_id: string;
+  service: string;
+  task_type: 'card_upload' | 'price_upload';
+  reference: { vendorCodes?: string[]; uploadID?: number };
+  status: 'pending' | 'completed' | 'failed' | 'expired';
+  result?: Record<string, any> | null;
+  attempts: number;
+  next_check_at: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type PricingGuardrails = {
+  user_id: string;
+  min_price: number | null; // Limits of the price with discount, null means no limit
+  max_price: number | null;
+  max_change_percent: number | null;
+  forbidden_nm_ids: number[];
+  created_at: string;
+  updated_at: string;
+};
+
+export type PriceHistoryEntry = {
+  id: string;
+  user_id: string;
+  service: string;
+  nm_id: number;
+  vendor_code?: string | null;
+  old_price: number;
+  new_price: number;
+  old_discount: number;
+  new_discount: number;
+  source: 'agent' | 'import' | 'repricing';
+  upload_id?: number | null;
+  created_at: string;
+};
+
+export type RepricingCondition =
+  | { type: 'always' }
+  | { type: 'stock_above' | 'stock_below'; quantity: number }
+  | { type: 'sells_out_within'; days: number }; // At the average daily orders of the last two weeks
+
+export type RepricingAction =
+  | { type: 'set_discount'; discount: number }
+  | { type: 'change_price'; percent: number } // Negative lowers the price
+  | { type: 'set_price'; price: number };
+
+export type RepricingRule = {
+  id: string;
+  user_id: string;
+  name: string;
+  nm_ids: number[]; // Empty means all goods
+  condition: RepricingCondition;
+  action: RepricingAction;
+  dry_run: boolean;
+  is_active: boolean;
+  interval_hours: number;
+  last_run_at?: string | null;
+  next_run_at: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type RepricingRun = {
+  id: string;
+  rule_id: string;
+  user_id: string;
+  trigger: 'schedule' | 'manual';
+  dry_run: boolean;
+  status: 'applied' | 'dry_run' | 'no_changes' | 'blocked' | 'failed';
+  changes: Record<string, any>[];
+  errors: Array<{ nmID?: number; error: string }>;
+  upload_ids: number[];
+  created_at: string;
+};
+
 // Environment variables
 const SUPABASE_URL = process.env.SUPABASE_URL;
 const SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY;
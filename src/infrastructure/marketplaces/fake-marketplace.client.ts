@@ -0,0 +1,61 @@
+import { MarketplaceApiError } from './marketplace-api.error';
+import {
+  MarketplaceClient,
+  MarketplaceEnvironment,
+  MarketplaceRequest,
+  MarketplaceResponse,
+  MarketplaceService
+} from './marketplace.types';
+
+export type FakeMarketplaceHandler = (request: MarketplaceRequest<any>) => any;
+
+/**
+ * In-process marketplace for tests and local development.
+ * Routes are registered as "METHOD /path" and return response data or throw MarketplaceApiError.
+ * Every request is recorded in `requests`.
+ */
+export class FakeMarketplaceClient implements MarketplaceClient {
+  readonly service: MarketplaceService;
+  readonly environment: MarketplaceEnvironment = 'sandbox';
+  readonly requests: MarketplaceRequest<any>[] = [];
+  private handlers = new Map<string, FakeMarketplaceHandler>();
+
+  constructor(service: MarketplaceService, routes: Record<string, FakeMarketplaceHandler | object> = {}) {
+    this.service = service;
+    for (const [route, handler] of Object.entries(routes)) {
+      this.on(route, handler);
+    }
+  }
+
+  /**
+   * Register a response for a route, either static data or a handler
+   */
+  on(route: string, handler: FakeMarketplaceHandler | object): this {
+    this.handlers.set(route, typeof handler === 'function' ? handler as FakeMarketplaceHandler : () => handler);
+    return this;
+  }
+
+  /**
+   * Make a route fail with the given status
+   */
+  fail(route: string, status: number, details?: any): this {
+    return this.on(route, () => {
+      throw new MarketplaceApiError(this.service, `${this.service} API returned ${status}`, { status, details });
+    });
+  }
+
+  async request<T = any, TBody = unknown>(request: MarketplaceRequest<TBody>): Promise<MarketplaceResponse<T>> {
+    this.requests.push(request);
+
+    const handler = this.handlers.get(`${request.method} ${request.path}`);
+    if (!handler) {
+      throw new MarketplaceApiError(this.service, `No fake route for ${request.method} ${request.path}`, { status: 404 });
+    }
+
+    return {
+      status: 200,
+      data: await handler(request),
+      headers: {}
+    };
+  }
+}
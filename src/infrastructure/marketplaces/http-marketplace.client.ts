@@ -0,0 +1,221 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import logger from '../../shared/utils/logger';
+import { MarketplaceApiError } from './marketplace-api.error';
+import { getTokenBucket, RateLimit } from './rate-limiter';
+import {
+  MarketplaceClient,
+  MarketplaceClientOptions,
+  MarketplaceCredentials,
+  MarketplaceEnvironment,
+  MarketplaceRequest,
+  MarketplaceResponse,
+  MarketplaceService
+} from './marketplace.types';
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RATE_LIMIT_WAIT_MS = 30000;
+
+// Methods that can be sent again after a server error without applying the change twice
+const IDEMPOTENT_METHODS = ['GET', 'PUT', 'DELETE'];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Parse the Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value?: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Rate limit applied to a request, requests with the same key share a token bucket
+ */
+export interface RequestRateLimit {
+  key: string;
+  limit: RateLimit;
+}
+
+/**
+ * Base HTTP client for marketplace seller APIs.
+ * Subclasses define the base URL, auth headers and rate limits, the base class queues
+ * requests for the rate limit, retries rate-limited and failed requests and normalizes errors.
+ */
+export abstract class HttpMarketplaceClient implements MarketplaceClient {
+  abstract readonly service: MarketplaceService;
+  readonly environment: MarketplaceEnvironment;
+
+  protected credentials: MarketplaceCredentials;
+  protected userId?: string;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private timeoutMs: number;
+  private maxRateLimitWaitMs: number;
+
+  constructor(credentials: MarketplaceCredentials, options: MarketplaceClientOptions = {}) {
+    this.credentials = credentials;
+    this.environment = options.environment || 'production';
+    this.userId = options.userId;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRateLimitWaitMs = options.maxRateLimitWaitMs ?? DEFAULT_MAX_RATE_LIMIT_WAIT_MS;
+  }
+
+  protected abstract getBaseUrl(category?: string): string;
+
+  protected abstract getAuthHeaders(): Record<string, string>;
+
+  /**
+   * Rate limit of the request, none by default
+   */
+  protected getRateLimit(_request: MarketplaceRequest<unknown>): RequestRateLimit | undefined {
+    return undefined;
+  }
+
+  /**
+   * Key that identifies whose limits a request counts against: the user, or the API key when the user is unknown
+   */
+  protected getRateLimitOwner(): string {
+    return this.userId || crypto.createHash('sha256').update(this.credentials.apiKey).digest('hex').slice(0, 16);
+  }
+
+  async request<T = any, TBody = unknown>(request: MarketplaceRequest<TBody>): Promise<MarketplaceResponse<T>> {
+    const url = `${this.getBaseUrl(request.category)}${request.path}`;
+    const rateLimit = this.getRateLimit(request);
+
+    for (let attempt = 0; ; attempt++) {
+      if (rateLimit) {
+        await this.waitForRateLimit(request, rateLimit);
+      }
+
+      try {
+        const response = await axios.request({
+          method: request.method,
+          url,
+          params: request.params,
+          data: request.body,
+          headers: {
+            ...this.getAuthHeaders(),
+            'Content-Type': 'application/json',
+            'Accept': 'application/json',
+            'User-Agent': 'MP-Bot/1.0'
+          },
+          timeout: this.timeoutMs
+        });
+
+        return {
+          status: response.status,
+          data: response.data,
+          headers: response.headers as Record<string, string>
+        };
+      } catch (error) {
+        const apiError = this.normalizeError(error);
+
+        // Hold back other requests of the same limit group until the marketplace allows them again
+        if (rateLimit && apiError.code === 'rate_limited' && apiError.retryAfterMs) {
+          getTokenBucket(rateLimit.key, rateLimit.limit).block(apiError.retryAfterMs);
+        }
+
+        if (attempt >= this.maxRetries || !this.shouldRetry(request, apiError)) {
+          throw apiError;
+        }
+
+        const delayMs = apiError.retryAfterMs ?? this.baseDelayMs * 2 ** attempt;
+        logger.warn('Retrying marketplace API request', {
+          service: this.service,
+          userId: this.userId,
+          method: request.method,
+          category: request.category,
+          path: request.path,
+          status: apiError.status,
+          code: apiError.code,
+          attempt: attempt + 1,
+          maxRetries: this.maxRetries,
+          delayMs,
+          delaySource: apiError.retryAfterMs !== undefined ? 'retry-after' : 'backoff'
+        });
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Rate-limited and network errors happen before the request is processed, so any request can be retried.
+   * Server errors are retried only for idempotent methods, a POST or PATCH may already have been applied.
+   */
+  protected shouldRetry(request: MarketplaceRequest<unknown>, error: MarketplaceApiError): boolean {
+    if (error.code === 'rate_limited' || error.code === 'network_error') return true;
+    return error.code === 'server_error' && IDEMPOTENT_METHODS.includes(request.method);
+  }
+
+  protected normalizeError(error: unknown): MarketplaceApiError {
+    if (error instanceof MarketplaceApiError) return error;
+
+    if (axios.isAxiosError(error)) {
+      const status = error.response?.status;
+      const headers = error.response?.headers;
+      return new MarketplaceApiError(
+        this.service,
+        status
+          ? `${this.service} API returned ${status}: ${error.response?.statusText || 'Unknown error'}`
+          : `${this.service} API request failed: ${error.message}`,
+        {
+          status,
+          statusText: error.response?.statusText,
+          details: error.response?.data,
+          // Wildberries sends X-Ratelimit-Retry, others the standard Retry-After
+          retryAfterMs: parseRetryAfter(headers?.['x-ratelimit-retry']) ?? parseRetryAfter(headers?.['retry-after'])
+        }
+      );
+    }
+
+    return new MarketplaceApiError(
+      this.service,
+      `${this.service} API request failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  private async waitForRateLimit(request: MarketplaceRequest<unknown>, rateLimit: RequestRateLimit): Promise<void> {
+    const bucket = getTokenBucket(rateLimit.key, rateLimit.limit);
+    const { reserved, waitMs } = bucket.reserve(this.maxRateLimitWaitMs);
+
+    if (!reserved) {
+      logger.warn('Marketplace rate limit exhausted', {
+        service: this.service,
+        userId: this.userId,
+        method: request.method,
+        category: request.category,
+        path: request.path,
+        waitMs,
+        maxWaitMs: this.maxRateLimitWaitMs
+      });
+      throw new MarketplaceApiError(this.service, `${this.service} API rate limit exhausted`, {
+        status: 429,
+        retryAfterMs: waitMs
+      });
+    }
+
+    if (waitMs > 0) {
+      logger.info('Waiting for marketplace rate limit', {
+        service: this.service,
+        userId: this.userId,
+        method: request.method,
+        category: request.category,
+        path: request.path,
+        waitMs
+      });
+      await sleep(waitMs);
+    }
+  }
+}
@@ -0,0 +1,14 @@
+export * from './marketplace.types';
+export * from './marketplace-api.error';
+export { HttpMarketplaceClient, parseRetryAfter, RequestRateLimit } from './http-marketplace.client';
+export { TokenBucket, RateLimit, getTokenBucket, resetTokenBuckets } from './rate-limiter';
+export { WildberriesClient, WILDBERRIES_API_HOSTS, WILDBERRIES_RATE_LIMITS } from './wildberries.client';
+export { OzonClient } from './ozon.client';
+export { YandexMarketClient } from './yandex-market.client';
+export { FakeMarketplaceClient, FakeMarketplaceHandler } from './fake-marketplace.client';
+export {
+  createMarketplaceClient,
+  setMarketplaceClientOverride,
+  getMarketplaceClientOverride,
+  clearMarketplaceClientOverrides
+} from './marketplace-client.factory';
@@ -0,0 +1,57 @@
+import { MarketplaceService } from './marketplace.types';
+
+export type MarketplaceErrorCode =
+  | 'bad_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'payload_too_large'
+  | 'rate_limited'
+  | 'server_error'
+  | 'network_error'
+  | 'unknown';
+
+/**
+ * Error thrown by marketplace clients with the upstream response normalized
+ */
+export class MarketplaceApiError extends Error {
+  service: MarketplaceService;
+  status?: number;
+  statusText?: string;
+  code: MarketplaceErrorCode;
+  details?: any;
+  retryAfterMs?: number;
+
+  constructor(
+    service: MarketplaceService,
+    message: string,
+    options: { status?: number; statusText?: string; details?: any; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = 'MarketplaceApiError';
+    this.service = service;
+    this.status = options.status;
+    this.statusText = options.statusText;
+    this.code = getMarketplaceErrorCode(options.status);
+    this.details = options.details;
+    this.retryAfterMs = options.retryAfterMs;
+
+    Object.setPrototypeOf(this, MarketplaceApiError.prototype);
+  }
+
+  get isRetryable(): boolean {
+    return this.code === 'rate_limited' || this.code === 'server_error' || this.code === 'network_error';
+  }
+}
+
+export function getMarketplaceErrorCode(status?: number): MarketplaceErrorCode {
+  if (status === undefined) return 'network_error';
+  if (status === 400 || status === 422) return 'bad_request';
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 413) return 'payload_too_large';
+  if (status === 420 || status === 429) return 'rate_limited'; // Yandex Market uses 420
+  if (status >= 500) return 'server_error';
+  return 'unknown';
+}
@@ -0,0 +1,45 @@
+import { WildberriesClient } from './wildberries.client';
+import { OzonClient } from './ozon.client';
+import { YandexMarketClient } from './yandex-market.client';
+import {
+  MarketplaceClient,
+  MarketplaceClientOptions,
+  MarketplaceCredentials,
+  MarketplaceService
+} from './marketplace.types';
+
+// Clients that replace the real ones, e.g. a FakeMarketplaceClient in tests
+const clientOverrides = new Map<MarketplaceService, MarketplaceClient>();
+
+export function setMarketplaceClientOverride(service: MarketplaceService, client: MarketplaceClient | null): void {
+  if (client) {
+    clientOverrides.set(service, client);
+  } else {
+    clientOverrides.delete(service);
+  }
+}
+
+export function getMarketplaceClientOverride(service: MarketplaceService): MarketplaceClient | undefined {
+  return clientOverrides.get(service);
+}
+
+export function clearMarketplaceClientOverrides(): void {
+  clientOverrides.clear();
+}
+
+export function createMarketplaceClient(
+  service: MarketplaceService,
+  credentials: MarketplaceCredentials,
+  options: MarketplaceClientOptions = {}
+): MarketplaceClient {
+  switch (service) {
+    case 'wildberries':
+      return new WildberriesClient(credentials, options);
+    case 'ozon':
+      return new OzonClient(credentials, options);
+    case 'yandexmarket':
+      return new YandexMarketClient(credentials, options);
+    default:
+      throw new Error(`Unsupported marketplace: ${service}`);
+  }
+}
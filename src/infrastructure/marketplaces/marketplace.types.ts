@@ -0,0 +1,55 @@
+export type MarketplaceService = 'wildberries' | 'ozon' | 'yandexmarket';
+
+export type MarketplaceEnvironment = 'sandbox' | 'production';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface MarketplaceCredentials {
+  apiKey: string;
+  clientId?: string; // Ozon Client-Id
+}
+
+export interface MarketplaceRequest<TBody = unknown> {
+  method: HttpMethod;
+  path: string;
+  /**
+   * API host group of the marketplace, e.g. 'content' or 'statistics' for Wildberries.
+   * Marketplaces with a single host ignore it.
+   */
+  category?: string;
+  params?: Record<string, any>;
+  body?: TBody;
+}
+
+export interface MarketplaceResponse<T = any> {
+  status: number;
+  data: T;
+  headers: Record<string, string>;
+}
+
+/**
+ * Client for a marketplace seller API. Tools call marketplaces only through it,
+ * so a real client can be swapped for a fake one.
+ */
+export interface MarketplaceClient {
+  readonly service: MarketplaceService;
+  readonly environment: MarketplaceEnvironment;
+  request<T = any, TBody = unknown>(request: MarketplaceRequest<TBody>): Promise<MarketplaceResponse<T>>;
+}
+
+export interface MarketplaceClientOptions {
+  environment?: MarketplaceEnvironment;
+  /**
+   * Owner of the credentials. Rate limits are tracked per user, so all clients
+   * created for the same user share them.
+   */
+  userId?: string;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  timeoutMs?: number;
+  /**
+   * Longest time to queue a request for the rate limit. Requests that would wait longer
+   * fail with a rate_limited error instead.
+   */
+  maxRateLimitWaitMs?: number;
+}
@@ -0,0 +1,17 @@
+import { HttpMarketplaceClient } from './http-marketplace.client';
+
+export class OzonClient extends HttpMarketplaceClient {
+  readonly service = 'ozon' as const;
+
+  // Ozon has no public sandbox, both environments use the Seller API host
+  protected getBaseUrl(): string {
+    return 'https://api-seller.ozon.ru';
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    return {
+      'Client-Id': this.credentials.clientId || '',
+      'Api-Key': this.credentials.apiKey
+    };
+  }
+}
@@ -0,0 +1,68 @@
+export interface RateLimit {
+  capacity: number; // Burst size
+  intervalMs: number; // One token is added every intervalMs
+}
+
+/**
+ * Token bucket that queues requests instead of rejecting them:
+ * a reservation may drive the balance below zero and the caller waits until its token is refilled.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+  private blockedUntil = 0;
+
+  constructor(private limit: RateLimit, private now: () => number = Date.now) {
+    this.tokens = limit.capacity;
+    this.updatedAt = now();
+  }
+
+  /**
+   * Reserve a token and return how long to wait before sending the request.
+   * When the wait would be longer than maxWaitMs nothing is reserved.
+   */
+  reserve(maxWaitMs: number = Infinity): { reserved: boolean; waitMs: number } {
+    this.refill();
+
+    const now = this.now();
+    const tokenWaitMs = this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) * this.limit.intervalMs);
+    const waitMs = Math.max(tokenWaitMs, this.blockedUntil - now);
+
+    if (waitMs > maxWaitMs) {
+      return { reserved: false, waitMs };
+    }
+
+    this.tokens -= 1;
+    return { reserved: true, waitMs };
+  }
+
+  /**
+   * Stop handing out tokens for the given time, e.g. after the API answered 429 with Retry-After
+   */
+  block(ms: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, this.now() + ms);
+  }
+
+  private refill(): void {
+    const now = this.now();
+    const refilled = (now - this.updatedAt) / this.limit.intervalMs;
+    this.tokens = Math.min(this.limit.capacity, this.tokens + refilled);
+    this.updatedAt = now;
+  }
+}
+
+// Buckets are shared by all clients of the process, keyed by marketplace, user and limit group
+const buckets = new Map<string, TokenBucket>();
+
+export function getTokenBucket(key: string, limit: RateLimit): TokenBucket {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = new TokenBucket(limit);
+    buckets.set(key, bucket);
+  }
+  return bucket;
+}
+
+export function resetTokenBuckets(): void {
+  buckets.clear();
+}
@@ -0,0 +1,60 @@
+import { HttpMarketplaceClient, RequestRateLimit } from './http-marketplace.client';
+import { MarketplaceRequest } from './marketplace.types';
+import { RateLimit } from './rate-limiter';
+
+/**
+ * Wildberries API hosts by category.
+ * Sandbox hosts add the -sandbox suffix: content-api-sandbox.wildberries.ru
+ */
+export const WILDBERRIES_API_HOSTS: Record<string, string> = {
+  content: 'content-api',
+  prices: 'discounts-prices-api',
+  marketplace: 'marketplace-api',
+  statistics: 'statistics-api',
+  feedbacks: 'feedbacks-api',
+  common: 'common-api'
+};
+
+/**
+ * Wildberries rate limits by category, per seller account.
+ * Statistics methods are limited one by one, the other categories as a whole.
+ * Based on: https://dev.wildberries.ru/openapi/api-information#tag/Vvedenie/Limity-zaprosov
+ */
+export const WILDBERRIES_RATE_LIMITS: Record<string, RateLimit & { perPath?: boolean }> = {
+  content: { capacity: 5, intervalMs: 600 },       // 100 requests per minute
+  prices: { capacity: 5, intervalMs: 600 },        // 10 requests per 6 seconds
+  marketplace: { capacity: 20, intervalMs: 200 },  // 300 requests per minute
+  statistics: { capacity: 1, intervalMs: 60000, perPath: true }, // 1 request per minute
+  feedbacks: { capacity: 6, intervalMs: 333 }      // 3 requests per second
+};
+
+export class WildberriesClient extends HttpMarketplaceClient {
+  readonly service = 'wildberries' as const;
+
+  protected getBaseUrl(category: string = 'content'): string {
+    const host = WILDBERRIES_API_HOSTS[category];
+    if (!host) {
+      throw new Error(`Unknown Wildberries API category: ${category}`);
+    }
+
+    return this.environment === 'sandbox'
+      ? `https://${host}-sandbox.wildberries.ru`
+      : `https://${host}.wildberries.ru`;
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    return { 'Authorization': this.credentials.apiKey };
+  }
+
+  protected getRateLimit(request: MarketplaceRequest<unknown>): RequestRateLimit | undefined {
+    const category = request.category || 'content';
+    const limit = WILDBERRIES_RATE_LIMITS[category];
+    if (!limit) return undefined;
+
+    const group = limit.perPath ? `${category}:${request.path}` : category;
+    return {
+      key: `${this.service}:${this.environment}:${this.getRateLimitOwner()}:${group}`,
+      limit
+    };
+  }
+}
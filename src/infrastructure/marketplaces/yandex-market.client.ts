@@ -0,0 +1,14 @@
+import { HttpMarketplaceClient } from './http-marketplace.client';
+
+export class YandexMarketClient extends HttpMarketplaceClient {
+  readonly service = 'yandexmarket' as const;
+
+  // Yandex Market has no separate sandbox host, test stores live in the Partner API itself
+  protected getBaseUrl(): string {
+    return 'https://api.partner.market.yandex.ru';
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    return { 'Api-Key': this.credentials.apiKey };
+  }
+}
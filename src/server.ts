@@ -15,6 +15,8 @@ import logger from './shared/utils/logger';
 import { BadRequestError } from './shared/utils/errors';
 import apiRoutes from './api';
 import { getLangChainService } from './core/ai/langchain.service';
+import { startUploadTaskPoller } from './core/uploads/upload-tasks.service';
+import { startRepricingScheduler } from './core/repricing/repricing.service';
 
 // Load environment variables
 dotenv.config();
@@ -116,10 +118,18 @@ const server = app.listen(PORT, () => {
   console.log('Press Ctrl+C to stop the server');
 });
 
+// Report the outcome of marketplace uploads into their conversations
+const stopUploadTaskPoller = startUploadTaskPoller();
+
+// Run the sellers' repricing rules on their schedule
+const stopRepricingScheduler = startRepricingScheduler();
+
 // Properly handle termination signals
 process.on('SIGINT', () => {
   logger.info('Gracefully shutting down from SIGINT (Ctrl+C)');
   console.log('\nGracefully shutting down from SIGINT (Ctrl+C)');
+  stopUploadTaskPoller();
+  stopRepricingScheduler();
   server.close(() => {
     logger.info('Server closed');
     console.log('Server closed');
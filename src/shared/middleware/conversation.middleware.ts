@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from 'express';
+import * as databaseService from '../../infrastructure/database/database.service';
+import { Conversation } from '../../infrastructure/database/supabase.client';
+import { NotFoundError, UnauthorizedError } from '../utils/errors';
+import { handleErrorResponse } from '../utils/response-handlers';
+
+// Extend Express Request interface to include the loaded conversation
+declare global {
+  namespace Express {
+    interface Request {
+      conversation?: Conversation;
+    }
+  }
+}
+
+/**
+ * Middleware to load a conversation owned by the current user into req.conversation
+ * Must be used after authenticate middleware
+ * The id is taken from the conversationId route param, or from the body for routes without it.
+ * Requests without an id continue without a conversation, foreign and missing ids get 404.
+ */
+export const loadConversation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const conversationId = req.params.conversationId || req.body?.conversationId;
+    if (!conversationId) {
+      return next();
+    }
+
+    const conversation = await databaseService.getConversationById(conversationId, req.user.id);
+    if (!conversation) {
+      throw new NotFoundError('Conversation not found');
+    }
+
+    req.conversation = conversation;
+    next();
+  } catch (error) {
+    handleErrorResponse(error, res, 'load conversation');
+  }
+};
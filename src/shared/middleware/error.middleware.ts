@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { AppError } from '../utils/errors';
+import { getErrorFields } from '../utils/response-handlers';
 import logger from '../utils/logger';
 
 /**
@@ -39,6 +40,7 @@ export const errorHandler = (
   const errorResponse: any = {
     status: 'error',
     message: err.message || 'Something went wrong',
+    ...(err instanceof AppError && getErrorFields(err))
   };
   
   // Include stack trace and additional details in development
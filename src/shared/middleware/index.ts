@@ -1,11 +1,12 @@
 import { securityMiddleware, customSecurityHeaders } from './security.middleware';
 import { corsMiddleware } from './cors.middleware';
-import { globalRateLimiter, authRateLimiter, apiKeysRateLimiter } from './rate-limit.middleware';
+import { globalRateLimiter, authRateLimiter, apiKeysRateLimiter, mediaUploadRateLimiter } from './rate-limit.middleware';
 import { errorHandler, notFoundHandler, asyncHandler } from './error.middleware';
 import { validate } from './validator.middleware';
 import { authenticate, requireAdmin, handleAuthError, trackLoginAttempts } from './auth.middleware';
 import { csrfProtection, handleCsrfError, csrfToken } from './csrf.middleware';
 import { verifyPaymentSignature } from './payment.middleware';
+import { loadConversation } from './conversation.middleware';
 
 // Export all middleware functions for easy import in server.ts
 export {
@@ -20,6 +21,7 @@ export {
   globalRateLimiter,
   authRateLimiter,
   apiKeysRateLimiter,
+  mediaUploadRateLimiter,
   
   // Error handling middleware
   errorHandler,
@@ -42,6 +44,9 @@ export {
   
   // Payment middleware
   verifyPaymentSignature,
+
+  // Conversation ownership middleware
+  loadConversation,
 };
 
 // Export auth middleware
@@ -52,6 +57,7 @@ export const rateLimiters = {
   global: globalRateLimiter,
   auth: authRateLimiter,
   apiKeys: apiKeysRateLimiter,
+  mediaUpload: mediaUploadRateLimiter,
 };
 
 export const security = {
@@ -75,4 +75,28 @@ export const apiKeysRateLimiter = rateLimit({
       retryAfter: Math.ceil(15), // Return minutes to wait
     });
   },
-}); 
\ No newline at end of file
+}); 
+/**
+ * Media upload rate limiter
+ * Limits uploads of product photos and videos, each request carries a whole file
+ */
+export const mediaUploadRateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  limit: 60, // 60 uploads per 15 minutes
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  message: {
+    status: 429,
+    message: 'Too many media uploads, please try again later.',
+  },
+  handler: (
+    req: Request,
+    res: Response
+  ) => {
+    res.status(429).json({
+      status: 'error',
+      message: 'Too many media uploads, please try again later.',
+      retryAfter: Math.ceil(15), // Return minutes to wait
+    });
+  },
+});
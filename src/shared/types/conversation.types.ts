@@ -17,6 +17,9 @@ export interface MessageUi {
   content: string;
   status: MessageStatus;
   timestamp: string;
+  toolName?: string; // Tool messages only
+  model?: string; // Assistant messages only, the model that generated the message
+  metadata?: Record<string, any>; // Tool messages only, metadata.toolResult holds the full result when the content was shortened
 }
 
 /**
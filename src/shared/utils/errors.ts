@@ -49,6 +49,24 @@ export class ForbiddenError extends AppError {
   }
 }
 
+/**
+ * Model not entitled error (403) when the user's plan doesn't include the requested model
+ */
+export class ModelNotEntitledError extends ForbiddenError {
+  readonly type = 'model_not_entitled'; // Stable type for clients, sent in the response body
+  modelName: string;
+  planName: string;
+  permittedModels: string[];
+
+  constructor(modelName: string, planName: string, permittedModels: string[]) {
+    super(`Model "${modelName}" is not included in the ${planName} plan. Available models: ${permittedModels.join(', ')}`);
+    this.modelName = modelName;
+    this.planName = planName;
+    this.permittedModels = permittedModels;
+    Object.setPrototypeOf(this, ModelNotEntitledError.prototype);
+  }
+}
+
 /**
  * Not found error (404) for resources that don't exist
  */
@@ -1,6 +1,23 @@
 import { Response } from 'express';
 import logger from './logger';
-import { AppError } from './errors';
+import { AppError, ModelNotEntitledError } from './errors';
+
+/**
+ * Machine-readable fields of errors that clients act on
+ * @param error - The error to describe
+ * @returns Fields added to the error response body
+ */
+export function getErrorFields(error: AppError): Record<string, unknown> {
+  if (error instanceof ModelNotEntitledError) {
+    return {
+      type: error.type,
+      modelName: error.modelName,
+      planName: error.planName,
+      permittedModels: error.permittedModels
+    };
+  }
+  return {};
+}
 
 /**
  * Handles error responses with consistent format and logging
@@ -16,7 +33,8 @@ export function handleErrorResponse(error: unknown, res: Response, operation: st
   if (error instanceof AppError) {
     res.status(error.statusCode).json({
       error: error.message,
-      details: errorMessage
+      details: errorMessage,
+      ...getErrorFields(error)
     });
     return;
   }
@@ -0,0 +1,242 @@
+import zlib from 'zlib';
+
+/**
+ * Minimal readers of the spreadsheets sellers export: CSV and the first sheet of an XLSX workbook.
+ * Both return rows of cell values as strings, empty cells are empty strings.
+ */
+
+export const CSV_CONTENT_TYPES = ['text/csv', 'text/plain', 'application/csv'];
+export const XLSX_CONTENT_TYPES = ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'];
+
+/**
+ * Parse CSV text. The delimiter (comma or semicolon) is detected from the first line.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(values => values.some(value => value.trim() !== ''));
+}
+
+// Largest uncompressed file of a workbook that is read. Limits zip bombs: a small upload can expand many times.
+export const MAX_XLSX_ENTRY_BYTES = 50 * 1024 * 1024;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localOffset: number;
+}
+
+/**
+ * Read the central directory of a zip archive. File contents are read later with readZipEntry.
+ */
+function readZipDirectory(buffer: Buffer): Map<string, ZipEntry> {
+  // The end of central directory record is at the end of the archive, after an optional comment
+  let endOffset = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('The file is not a valid XLSX workbook');
+  }
+
+  const entriesCount = buffer.readUInt16LE(endOffset + 10);
+  let offset = buffer.readUInt32LE(endOffset + 16);
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entriesCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('The file is not a valid XLSX workbook');
+    }
+
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, {
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      uncompressedSize: buffer.readUInt32LE(offset + 24),
+      localOffset: buffer.readUInt32LE(offset + 42)
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Read a file of a zip archive as text, files larger than MAX_XLSX_ENTRY_BYTES are rejected
+ */
+function readZipEntry(buffer: Buffer, name: string, entry: ZipEntry): string {
+  if (entry.uncompressedSize > MAX_XLSX_ENTRY_BYTES) {
+    throw new Error(`The workbook is too large to read: ${name} has ${entry.uncompressedSize} bytes`);
+  }
+
+  const local = entry.localOffset;
+  if (local + 30 > buffer.length || buffer.readUInt32LE(local) !== 0x04034b50) {
+    throw new Error('The file is not a valid XLSX workbook');
+  }
+  const dataOffset = local + 30 + buffer.readUInt16LE(local + 26) + buffer.readUInt16LE(local + 28);
+  const data = buffer.subarray(dataOffset, dataOffset + entry.compressedSize);
+
+  if (entry.method !== 8) {
+    return data.toString('utf8');
+  }
+
+  try {
+    // The declared size can't be trusted, the output is limited as well
+    return zlib.inflateRawSync(data, { maxOutputLength: MAX_XLSX_ENTRY_BYTES }).toString('utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error(`The workbook is too large to read: ${name} has more than ${MAX_XLSX_ENTRY_BYTES} bytes`);
+    }
+    throw new Error('The file is not a valid XLSX workbook');
+  }
+}
+
+/**
+ * Path of the first sheet in the workbook's order: the first <sheet> of xl/workbook.xml resolved through its
+ * relationships. Workbooks without these files fall back to the sheet file with the lowest number.
+ */
+function findFirstSheet(buffer: Buffer, entries: Map<string, ZipEntry>): string | undefined {
+  const workbook = entries.get('xl/workbook.xml');
+  const rels = entries.get('xl/_rels/workbook.xml.rels');
+
+  if (workbook && rels) {
+    const relationId = readZipEntry(buffer, 'xl/workbook.xml', workbook)
+      .match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+    const relationships = readZipEntry(buffer, 'xl/_rels/workbook.xml.rels', rels);
+    const target = Array.from(relationships.matchAll(/<Relationship\b[^>]*>/g), match => match[0])
+      .find(relationship => relationship.match(/\bId="([^"]+)"/)?.[1] === relationId)
+      ?.match(/\bTarget="([^"]+)"/)?.[1];
+
+    if (target) {
+      const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+      if (entries.has(path)) return path;
+    }
+  }
+
+  return Array.from(entries.keys())
+    .filter(name => /^xl\/worksheets\/sheet\d+\.xml$/.test(name))
+    .sort((a, b) => parseInt(a.replace(/\D/g, ''), 10) - parseInt(b.replace(/\D/g, ''), 10))[0];
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Text of all <t> elements, rich text cells split their text into runs
+function readText(xml: string): string {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), match => decodeXml(match[1])).join('');
+}
+
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '').toUpperCase();
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Parse the first sheet of an XLSX workbook. Only the sheet, the shared strings and the workbook index are read.
+ */
+export function parseXlsx(buffer: Buffer): string[][] {
+  const entries = readZipDirectory(buffer);
+
+  const sheetName = findFirstSheet(buffer, entries);
+  if (!sheetName) {
+    throw new Error('The workbook has no sheets');
+  }
+
+  const sharedStringsEntry = entries.get('xl/sharedStrings.xml');
+  const sharedStringsXml = sharedStringsEntry ? readZipEntry(buffer, 'xl/sharedStrings.xml', sharedStringsEntry) : '';
+  const sharedStrings = Array.from(sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g), match => readText(match[1]));
+
+  const sheetXml = readZipEntry(buffer, sheetName, entries.get(sheetName)!);
+  const rows: string[][] = [];
+
+  for (const rowMatch of sheetXml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = [];
+
+    for (const cellMatch of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] || '';
+      const reference = attributes.match(/\br="([A-Z]+\d+)"/i)?.[1];
+      const type = attributes.match(/\bt="(\w+)"/)?.[1];
+      const value = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let text = '';
+      if (type === 's' && value !== undefined) {
+        text = sharedStrings[parseInt(value, 10)] || '';
+      } else if (type === 'inlineStr') {
+        text = readText(body);
+      } else if (value !== undefined) {
+        text = decodeXml(value);
+      }
+
+      const index = reference ? columnIndex(reference) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = text;
+    }
+
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row);
+    }
+  }
+
+  return rows;
+}
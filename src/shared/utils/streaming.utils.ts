@@ -52,6 +52,10 @@ export class StreamController {
     this.sendEvent('tool_complete', toolEvent);
   }
 
+  sendToolApprovalRequired(approvalRequests: Array<{toolCallId: string, toolName: string, args: Record<string, any>, message: string}>): void {
+    this.sendEvent('tool_approval_required', approvalRequests);
+  }
+
   sendError(error: string): void {
     this.sendEvent('error', { error });
   }
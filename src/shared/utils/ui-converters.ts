@@ -26,5 +26,9 @@ export function convertMessageToUi(message: Message): MessageUi {
     content: message.content,
     status: message.status || 'success',
     timestamp: message.created_at,
+    // Tool messages carry the full tool result for rendering
+    ...(message.role === 'tool' && message.tool_name && { toolName: message.tool_name }),
+    ...(message.role === 'tool' && message.metadata && { metadata: message.metadata }),
+    ...(message.role === 'assistant' && message.metadata?.model && { model: message.metadata.model }),
   };
 }
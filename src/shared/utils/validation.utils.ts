@@ -1,4 +1,4 @@
-import { body, param } from 'express-validator';
+import { body, param, query } from 'express-validator';
 
 export const validateApiKey = (apiKey?: string) => {
   if (!apiKey) {
@@ -30,4 +30,120 @@ export const serviceParamValidation = [
     .withMessage('Service is required')
     .isIn(['wildberries', 'ozon', 'yandexmarket'])
     .withMessage('Invalid service. Allowed services: wildberries, ozon, yandexmarket')
-];
\ No newline at end of file
+];
+
+export const pricingGuardrailsValidation = [
+  body('min_price')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('min_price must be a whole number of rubles greater than 0')
+    .toInt(),
+  body('max_price')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('max_price must be a whole number of rubles greater than 0')
+    .toInt(),
+  body('max_change_percent')
+    .optional({ values: 'null' })
+    .isFloat({ gt: 0, max: 100 })
+    .withMessage('max_change_percent must be greater than 0 and at most 100')
+    .toFloat(),
+  body('forbidden_nm_ids')
+    .optional()
+    .isArray({ max: 10000 })
+    .withMessage('forbidden_nm_ids must be an array of nmIDs'),
+  body('forbidden_nm_ids.*')
+    .isInt({ min: 1 })
+    .withMessage('forbidden_nm_ids must contain nmIDs')
+    .toInt()
+];
+
+export const priceHistoryQueryValidation = [
+  query('nmID')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('nmID must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage('limit must be from 1 to 500'),
+  query('offset')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('offset must be a non-negative integer')
+];
+
+export const repricingRuleIdValidation = [
+  param('ruleId')
+    .isUUID()
+    .withMessage('Invalid rule id')
+];
+
+export const repricingRuleValidation = [
+  body('name')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name is required and must be at most 100 characters long'),
+  body('nm_ids')
+    .optional()
+    .isArray({ max: 10000 })
+    .withMessage('nm_ids must be an array of nmIDs'),
+  body('nm_ids.*')
+    .isInt({ min: 1 })
+    .withMessage('nm_ids must contain nmIDs')
+    .toInt(),
+  body('condition.type')
+    .isIn(['always', 'stock_above', 'stock_below', 'sells_out_within'])
+    .withMessage('Invalid condition. Allowed conditions: always, stock_above, stock_below, sells_out_within'),
+  body('condition.quantity')
+    .if(body('condition.type').isIn(['stock_above', 'stock_below']))
+    .isInt({ min: 0 })
+    .withMessage('condition.quantity must be a non-negative integer')
+    .toInt(),
+  body('condition.days')
+    .if(body('condition.type').equals('sells_out_within'))
+    .isInt({ min: 1, max: 90 })
+    .withMessage('condition.days must be from 1 to 90')
+    .toInt(),
+  body('action.type')
+    .isIn(['set_discount', 'change_price', 'set_price'])
+    .withMessage('Invalid action. Allowed actions: set_discount, change_price, set_price'),
+  body('action.discount')
+    .if(body('action.type').equals('set_discount'))
+    .isInt({ min: 0, max: 99 })
+    .withMessage('action.discount must be from 0 to 99')
+    .toInt(),
+  body('action.percent')
+    .if(body('action.type').equals('change_price'))
+    .isFloat({ min: -90, max: 100 })
+    .withMessage('action.percent must be from -90 to 100')
+    .custom(value => Number(value) !== 0)
+    .withMessage('action.percent must not be 0')
+    .toFloat(),
+  body('action.price')
+    .if(body('action.type').equals('set_price'))
+    .isInt({ min: 1 })
+    .withMessage('action.price must be a whole number of rubles greater than 0')
+    .toInt(),
+  body('dry_run')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('dry_run must be a boolean'),
+  body('is_active')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('is_active must be a boolean'),
+  body('interval_hours')
+    .optional()
+    .isInt({ min: 1, max: 168 })
+    .withMessage('interval_hours must be from 1 to 168')
+    .toInt()
+];
+
+export const repricingRunsQueryValidation = [
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 200 })
+    .withMessage('limit must be from 1 to 200')
+];
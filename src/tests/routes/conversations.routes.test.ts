@@ -10,11 +10,22 @@ import logger from '../../shared/utils/logger';
 import { MessageRole, MessageStatus } from '../../shared/types/conversation.types';
 import { Message } from '../../infrastructure/database/supabase.client';
 import { BaseMessage } from '@langchain/core/messages';
+import { BadRequestError, ModelNotEntitledError } from '../../shared/utils/errors';
 
-// Mock all dependencies
+// Mock all dependencies. Modules that connect to Supabase or need API keys when loaded are replaced
+// by factories so that the suite runs without environment variables.
+jest.mock('../../infrastructure/database/supabase.client', () => ({
+  getSupabaseClient: jest.fn(),
+  supabaseService: {}
+}));
+jest.mock('../../core/apiKeys/apikeys.service', () => ({
+  apiKeysService: {}
+}));
 jest.mock('../../infrastructure/database/database.service');
 jest.mock('../../core/conversations/conversations.service');
-jest.mock('../../core/ai/langchain.service');
+jest.mock('../../core/ai/langchain.service', () => ({
+  getLangChainService: jest.fn()
+}));
 jest.mock('../../core/conversations/streaming.utils');
 jest.mock('../../shared/utils/ui-converters');
 jest.mock('../../shared/utils/logger');
@@ -23,7 +34,8 @@ jest.mock('../../shared/middleware', () => ({
   authenticate: (req: any, res: any, next: any) => {
     req.user = { id: 'user-123', email: 'test@example.com' };
     next();
-  }
+  },
+  loadConversation: jest.requireActual('../../shared/middleware/conversation.middleware').loadConversation
 }));
 
 const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>;
@@ -84,6 +96,7 @@ describe('Conversations Routes', () => {
     jest.clearAllMocks();
 
     // Setup default mock returns
+    mockDatabaseService.getConversationById.mockResolvedValue(mockConversation);
     mockConvertConversationToUi.mockReturnValue(mockConversationUi);
     mockConvertMessageToUi.mockReturnValue(mockMessageUi);
   });
@@ -145,26 +158,23 @@ describe('Conversations Routes', () => {
         .expect(200);
 
       expect(mockDatabaseService.getMessagesByConversationId).toHaveBeenCalledWith('conv-123');
-      expect(mockDatabaseService.getConversationById).toHaveBeenCalledWith('conv-123');
+      expect(mockDatabaseService.getConversationById).toHaveBeenCalledWith('conv-123', 'user-123');
       expect(response.body).toEqual({
         conversation: mockConversationUi,
+        settings: { modelName: 'gpt-4o-mini', temperature: 0.7, maxTokens: 2048, contextLength: 128_000 },
         messages: [mockMessageUi]
       });
     });
 
-    test('should handle non-existent conversation', async () => {
-      const mockMessages: Message[] = [];
-      mockDatabaseService.getMessagesByConversationId.mockResolvedValue(mockMessages);
+    test('should return 404 for non-existent or foreign conversation', async () => {
       mockDatabaseService.getConversationById.mockResolvedValue(null);
 
       const response = await request(app)
         .get('/conversations/non-existent')
-        .expect(200);
+        .expect(404);
 
-      expect(response.body).toEqual({
-        conversation: null,
-        messages: []
-      });
+      expect(response.body).toHaveProperty('error', 'Conversation not found');
+      expect(mockDatabaseService.getMessagesByConversationId).not.toHaveBeenCalled();
     });
 
     test('should handle database errors', async () => {
@@ -242,7 +252,7 @@ describe('Conversations Routes', () => {
         .send(requestBody)
         .expect(200);
 
-      expect(mockDatabaseService.getConversationById).toHaveBeenCalledWith('conv-123');
+      expect(mockDatabaseService.getConversationById).toHaveBeenCalledWith('conv-123', 'user-123');
       expect(mockConversationService.generateAndSaveResponse).toHaveBeenCalledWith(
         'user-123',
         'conv-123',
@@ -265,25 +275,18 @@ describe('Conversations Routes', () => {
         response: [] as BaseMessage[], 
         conversationId: 'conv-123' 
       });
-      mockHandleStreamingResponse.mockResolvedValue(undefined);
+      // End the response immediately, an aborted request would keep the test server open
+      mockHandleStreamingResponse.mockImplementation(async (res: any) => {
+        res.end();
+      });
 
-      // Mock the request to not actually hang
-      const response = request(app)
+      await request(app)
         .post('/conversations')
-        .send(requestBody);
-        
-      // End the response immediately
-      setTimeout(() => {
-        response.abort();
-      }, 100);
-
-      try {
-        await response;
-      } catch (error) {
-        // Expected - request was aborted
-      }
+        .send(requestBody)
+        .expect(200);
 
       expect(mockConversationService.getOrCreateConversation).toHaveBeenCalled();
+      expect(mockHandleStreamingResponse).toHaveBeenCalled();
     });
 
     test('should handle conversation not found error', async () => {
@@ -359,7 +362,7 @@ describe('Conversations Routes', () => {
         .send(requestBody)
         .expect(200);
 
-      expect(mockDatabaseService.getConversationById).toHaveBeenCalledWith('conv-123');
+      expect(mockDatabaseService.getConversationById).toHaveBeenCalledWith('conv-123', 'user-123');
       expect(mockConversationService.generateAndSaveResponse).toHaveBeenCalledWith(
         'user-123',
         'conv-123',
@@ -387,6 +390,74 @@ describe('Conversations Routes', () => {
     });
   });
 
+  describe('POST /:conversationId/tool-approval', () => {
+    test('should approve a pending tool call and return the messages', async () => {
+      mockDatabaseService.getConversationById.mockResolvedValue(mockConversation);
+      mockConversationService.resolveToolApproval.mockResolvedValue({
+        response: [] as BaseMessage[],
+        conversationId: 'conv-123'
+      });
+      mockConversationService.getConversationHistory.mockResolvedValue([mockMessage]);
+
+      const response = await request(app)
+        .post('/conversations/conv-123/tool-approval')
+        .send({ toolCallId: 'call-1', approved: true })
+        .expect(200);
+
+      expect(mockConversationService.resolveToolApproval).toHaveBeenCalledWith(
+        'user-123',
+        'conv-123',
+        'call-1',
+        true,
+        'You are a helpful assistant',
+        false,
+        expect.any(AbortSignal)
+      );
+      expect(response.body).toHaveProperty('messages');
+    });
+
+    test('should stream the resumed response', async () => {
+      const mockStreamResult = { response: new Response(), conversationId: 'conv-123' };
+      mockDatabaseService.getConversationById.mockResolvedValue(mockConversation);
+      mockConversationService.resolveToolApproval.mockResolvedValue(mockStreamResult);
+      mockHandleStreamingResponse.mockImplementation(async (res: any) => {
+        res.end();
+      });
+
+      await request(app)
+        .post('/conversations/conv-123/tool-approval')
+        .send({ toolCallId: 'call-1', approved: false, stream: true })
+        .expect(200);
+
+      expect(mockHandleStreamingResponse).toHaveBeenCalledWith(
+        expect.any(Object),
+        mockStreamResult,
+        mockConversationUi
+      );
+    });
+
+    test('should require a boolean approved field', async () => {
+      const response = await request(app)
+        .post('/conversations/conv-123/tool-approval')
+        .send({ toolCallId: 'call-1', approved: 'yes' })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error');
+      expect(mockConversationService.resolveToolApproval).not.toHaveBeenCalled();
+    });
+
+    test('should handle conversation not found', async () => {
+      mockDatabaseService.getConversationById.mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/conversations/non-existent/tool-approval')
+        .send({ toolCallId: 'call-1', approved: true })
+        .expect(404);
+
+      expect(response.body).toHaveProperty('error');
+    });
+  });
+
   describe('PATCH /:conversationId', () => {
     test('should update conversation title', async () => {
       const requestBody = {
@@ -400,10 +471,63 @@ describe('Conversations Routes', () => {
         .send(requestBody)
         .expect(200);
 
-      expect(mockDatabaseService.updateConversationTitle).toHaveBeenCalledWith('conv-123', 'Updated Title');
+      expect(mockDatabaseService.updateConversationTitle).toHaveBeenCalledWith('conv-123', 'user-123', 'Updated Title');
+      expect(mockConversationService.updateConversationSettings).not.toHaveBeenCalled();
       expect(response.body).toEqual({ success: true });
     });
 
+    test('should update conversation settings', async () => {
+      const settings = { modelName: 'gpt-4.1', temperature: 0.2, maxTokens: 2048, contextLength: 1_047_576 };
+      mockConversationService.updateConversationSettings.mockResolvedValue(settings);
+
+      const response = await request(app)
+        .patch('/conversations/conv-123')
+        .send({ modelName: 'gpt-4.1', temperature: 0.2, stream: true })
+        .expect(200);
+
+      expect(mockConversationService.updateConversationSettings).toHaveBeenCalledWith(
+        'user-123',
+        mockConversation,
+        { modelName: 'gpt-4.1', temperature: 0.2 }
+      );
+      expect(mockDatabaseService.updateConversationTitle).not.toHaveBeenCalled();
+      expect(response.body).toEqual({ success: true, settings });
+    });
+
+    test('should not change the title when the settings are invalid', async () => {
+      mockConversationService.updateConversationSettings.mockRejectedValue(
+        new BadRequestError('Model "gpt-5" is not available')
+      );
+
+      const response = await request(app)
+        .patch('/conversations/conv-123')
+        .send({ title: 'Updated Title', modelName: 'gpt-5' })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error', 'Model "gpt-5" is not available');
+      expect(mockDatabaseService.updateConversationTitle).not.toHaveBeenCalled();
+    });
+
+    test('should describe models outside of the user\'s plan', async () => {
+      mockConversationService.updateConversationSettings.mockRejectedValue(
+        new ModelNotEntitledError('gpt-4.1', 'Free', ['gpt-4o-mini'])
+      );
+
+      const response = await request(app)
+        .patch('/conversations/conv-123')
+        .send({ modelName: 'gpt-4.1' })
+        .expect(403);
+
+      expect(response.body).toEqual({
+        error: 'Model "gpt-4.1" is not included in the Free plan. Available models: gpt-4o-mini',
+        details: 'Model "gpt-4.1" is not included in the Free plan. Available models: gpt-4o-mini',
+        type: 'model_not_entitled',
+        modelName: 'gpt-4.1',
+        planName: 'Free',
+        permittedModels: ['gpt-4o-mini']
+      });
+    });
+
     test('should handle missing title validation', async () => {
       const requestBody = {};
 
@@ -439,7 +563,7 @@ describe('Conversations Routes', () => {
         .post('/conversations/conv-123/archive')
         .expect(200);
 
-      expect(mockDatabaseService.archiveConversation).toHaveBeenCalledWith('conv-123');
+      expect(mockDatabaseService.archiveConversation).toHaveBeenCalledWith('conv-123', 'user-123');
       expect(response.body).toEqual({ success: true });
     });
 
@@ -462,7 +586,7 @@ describe('Conversations Routes', () => {
         .post('/conversations/conv-123/unarchive')
         .expect(200);
 
-      expect(mockDatabaseService.unarchiveConversation).toHaveBeenCalledWith('conv-123');
+      expect(mockDatabaseService.unarchiveConversation).toHaveBeenCalledWith('conv-123', 'user-123');
       expect(response.body).toEqual({ success: true });
     });
 
@@ -485,7 +609,7 @@ describe('Conversations Routes', () => {
         .delete('/conversations/conv-123')
         .expect(200);
 
-      expect(mockDatabaseService.deleteConversation).toHaveBeenCalledWith('conv-123');
+      expect(mockDatabaseService.deleteConversation).toHaveBeenCalledWith('conv-123', 'user-123');
       expect(response.body).toEqual({ success: true });
     });
 
@@ -499,4 +623,34 @@ describe('Conversations Routes', () => {
       expect(response.body).toHaveProperty('error');
     });
   });
+
+  describe('Conversation ownership', () => {
+    beforeEach(() => {
+      // Conversation belongs to another user, so the scoped lookup finds nothing
+      mockDatabaseService.getConversationById.mockResolvedValue(null);
+    });
+
+    test.each([
+      ['patch', '/conversations/foreign-conv', { title: 'Hijacked' }],
+      ['post', '/conversations/foreign-conv/archive', {}],
+      ['post', '/conversations/foreign-conv/unarchive', {}],
+      ['delete', '/conversations/foreign-conv', {}],
+      ['post', '/conversations/foreign-conv', { message: 'Hello AI' }],
+      ['post', '/conversations', { message: 'Hello AI', conversationId: 'foreign-conv' }],
+      ['post', '/conversations/foreign-conv/tool-approval', { toolCallId: 'call-1', approved: true }],
+    ])('should return 404 for %s %s', async (method, url, body) => {
+      const response = await (request(app) as any)[method](url)
+        .send(body)
+        .expect(404);
+
+      expect(response.body).toHaveProperty('error', 'Conversation not found');
+      expect(mockDatabaseService.getConversationById).toHaveBeenCalledWith('foreign-conv', 'user-123');
+      expect(mockDatabaseService.updateConversationTitle).not.toHaveBeenCalled();
+      expect(mockDatabaseService.archiveConversation).not.toHaveBeenCalled();
+      expect(mockDatabaseService.unarchiveConversation).not.toHaveBeenCalled();
+      expect(mockDatabaseService.deleteConversation).not.toHaveBeenCalled();
+      expect(mockConversationService.generateAndSaveResponse).not.toHaveBeenCalled();
+      expect(mockConversationService.resolveToolApproval).not.toHaveBeenCalled();
+    });
+  });
 }); 
\ No newline at end of file
@@ -1,10 +1,15 @@
 import request from 'supertest';
 import express from 'express';
-import plansRoutes, { planDetailsMap } from '../../api/plans/plans.routes';
+import plansRoutes from '../../api/plans/plans.routes';
+import { planDetailsMap } from '../../config/plans.config';
 import * as userPlansService from '../../core/plans/user-plans.service';
+import { getPlanPermittedModels } from '../../core/plans/validation.utils';
 
 // Mock all dependencies
 jest.mock('../../core/plans/user-plans.service');
+jest.mock('../../core/plans/validation.utils', () => ({
+  getPlanPermittedModels: jest.fn(() => ['gpt-4o-mini'])
+}));
 jest.mock('../../shared/middleware', () => ({
   asyncHandler: (fn: any) => fn,
   authenticate: (req: any, res: any, next: any) => {
@@ -91,17 +96,20 @@ describe('Plans Routes', () => {
         free: {
           name: "Free",
           creditsPerDay: 0.50,
-          creditsPerMonth: 5.00
+          creditsPerMonth: 5.00,
+          models: ['gpt-4o-mini']
         },
         standard: {
           name: "Standard",
           creditsPerDay: 2.00,
-          creditsPerMonth: 20.00
+          creditsPerMonth: 20.00,
+          models: ['gpt-4o-mini', 'gpt-4.1-mini', 'claude-3-5-haiku-20241022']
         },
         premium: {
           name: "Premium",
           creditsPerDay: 10.00,
-          creditsPerMonth: 100.00
+          creditsPerMonth: 100.00,
+          models: ['gpt-4o-mini', 'gpt-4.1-mini', 'gpt-4.1', 'claude-3-5-haiku-20241022', 'claude-sonnet-4-20250514']
         }
       });
     });
@@ -116,8 +124,10 @@ describe('Plans Routes', () => {
         .expect(200);
 
       expect(mockUserPlansService.getUserPlan).toHaveBeenCalledWith('user-123');
+      expect(getPlanPermittedModels).toHaveBeenCalledWith('Free');
       expect(response.body).toEqual({
-        plan: mockUserPlan
+        plan: mockUserPlan,
+        models: ['gpt-4o-mini']
       });
     });
 
@@ -138,6 +148,7 @@ describe('Plans Routes', () => {
       });
       expect(response.body).toEqual({
         plan: mockUserPlan,
+        models: ['gpt-4o-mini'],
         message: 'Default plan created'
       });
     });
@@ -162,7 +173,7 @@ describe('Plans Routes', () => {
         .expect(200);
 
       expect(mockUserPlansService.checkUserDailyUsage).toHaveBeenCalledWith('user-123');
-      expect(response.body).toEqual(mockUsageInfo);
+      expect(response.body).toEqual({ ...mockUsageInfo, reservedCredits: 0 });
     });
 
     test('should handle service errors', async () => {
@@ -1,25 +1,60 @@
 import { 
   getOrCreateConversation, 
   saveMessage, 
-  getConversationHistory 
+  getConversationHistory,
+  generateAndSaveResponse,
+  resolveToolApproval,
+  updateConversationSettings
 } from '../../core/conversations/conversations.service';
+import { getLangChainService } from '../../core/ai/langchain.service';
+import { BadRequestError, ModelNotEntitledError } from '../../shared/utils/errors';
+import { validateModelEntitlement, validateUserUsageLimit } from '../../core/plans/validation.utils';
 
 // Mock the database service
 jest.mock('../../infrastructure/database/database.service', () => ({
   getConversationById: jest.fn(),
   createConversation: jest.fn(),
   createMessage: jest.fn(),
-  getMessagesByConversationId: jest.fn()
+  getMessagesByConversationId: jest.fn(),
+  getRecentMessages: jest.fn(),
+  updateConversation: jest.fn(),
+  updateMessage: jest.fn(),
+  getToolMessageByCallId: jest.fn(),
+  getAssistantMessageByToolCallId: jest.fn(),
+  claimPendingToolMessage: jest.fn(),
+  countPendingToolMessages: jest.fn()
 }));
 
-// Mock the langchain service
-jest.mock('../../core/ai/langchain.service', () => ({
-  getLangChainService: jest.fn(() => ({
-    generateConversationResponse: jest.fn()
-  }))
+jest.mock('../../core/tools/tool-execution.utils', () => ({
+  executeTools: jest.fn()
+}));
+
+jest.mock('../../core/uploads/upload-tasks.service', () => ({
+  registerUploadTask: jest.fn()
+}));
+
+jest.mock('../../core/plans/validation.utils', () => ({
+  getPermittedModels: jest.fn().mockResolvedValue(['gpt-4o-mini', 'gpt-4.1', 'claude-sonnet-4-20250514']),
+  validateModelEntitlement: jest.fn(),
+  validateUserUsageLimit: jest.fn()
+}));
+
+jest.mock('../../core/ai/model-providers', () => ({
+  getAvailableChatModels: jest.fn(() => ['gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini', 'claude-sonnet-4-20250514'])
 }));
 
+// Mock the langchain service
+jest.mock('../../core/ai/langchain.service', () => {
+  const service = {
+    generateConversationResponse: jest.fn(),
+    generateConversationSummary: jest.fn()
+  };
+  return { getLangChainService: jest.fn(() => service) };
+});
+
 import * as databaseService from '../../infrastructure/database/database.service';
+import { executeTools } from '../../core/tools/tool-execution.utils';
+import { ToolMessage } from '@langchain/core/messages';
 
 describe('Conversation Service', () => {
   const mockUserId = 'test-user-123';
@@ -50,7 +85,7 @@ describe('Conversation Service', () => {
       );
 
       expect(result).toEqual(mockConversation);
-      expect(databaseService.getConversationById).toHaveBeenCalledWith(mockConversationId);
+      expect(databaseService.getConversationById).toHaveBeenCalledWith(mockConversationId, mockUserId);
       expect(databaseService.createConversation).not.toHaveBeenCalled();
     });
 
@@ -64,7 +99,7 @@ describe('Conversation Service', () => {
         mockSystemPrompt
       )).rejects.toThrow('Conversation not found');
 
-      expect(databaseService.getConversationById).toHaveBeenCalledWith(mockConversationId);
+      expect(databaseService.getConversationById).toHaveBeenCalledWith(mockConversationId, mockUserId);
       expect(databaseService.createConversation).not.toHaveBeenCalled();
     });
 
@@ -92,7 +127,9 @@ describe('Conversation Service', () => {
         {
           system_prompt: mockSystemPrompt,
           model_name: 'gpt-4o-mini',
-          context_length: 200_000,
+          temperature: 0.7,
+          max_tokens: 2048,
+          context_length: 128_000,
           message_count: 0
         }
       );
@@ -202,4 +239,235 @@ describe('Conversation Service', () => {
       );
     });
   });
-}); 
\ No newline at end of file
+
+  describe('updateConversationSettings', () => {
+    const conversation = {
+      id: mockConversationId,
+      user_id: mockUserId,
+      title: mockTitle,
+      created_at: '2024-01-01T00:00:00Z',
+      model_name: 'gpt-4o-mini',
+      temperature: 0.7,
+      max_tokens: 2048,
+      context_length: 128_000
+    };
+
+    test('should save the new settings', async () => {
+      const settings = await updateConversationSettings(mockUserId, conversation, {
+        modelName: 'claude-sonnet-4-20250514',
+        temperature: 0.2
+      });
+
+      expect(settings).toEqual({
+        modelName: 'claude-sonnet-4-20250514',
+        temperature: 0.2,
+        maxTokens: 2048,
+        contextLength: 200_000
+      });
+      expect(databaseService.updateConversation).toHaveBeenCalledWith(mockConversationId, mockUserId, {
+        model_name: 'claude-sonnet-4-20250514',
+        temperature: 0.2,
+        max_tokens: 2048,
+        context_length: 200_000
+      });
+    });
+
+    test('should reject models outside of the user\'s plan', async () => {
+      (validateModelEntitlement as jest.Mock).mockRejectedValueOnce(
+        new ModelNotEntitledError('gpt-4.1-mini', 'Free', ['gpt-4o-mini'])
+      );
+
+      await expect(updateConversationSettings(mockUserId, conversation, { modelName: 'gpt-4.1-mini' }))
+        .rejects.toBeInstanceOf(ModelNotEntitledError);
+      expect(validateModelEntitlement).toHaveBeenCalledWith(mockUserId, 'gpt-4.1-mini');
+      expect(databaseService.updateConversation).not.toHaveBeenCalled();
+    });
+
+    test('should reject unknown models', async () => {
+      const update = updateConversationSettings(mockUserId, conversation, { modelName: 'gpt-5' });
+
+      await expect(update).rejects.toBeInstanceOf(BadRequestError);
+      await expect(update).rejects.toThrow('Model "gpt-5" is not available');
+      expect(validateModelEntitlement).not.toHaveBeenCalled();
+      expect(databaseService.updateConversation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('generateAndSaveResponse', () => {
+    const langchainService = getLangChainService() as unknown as {
+      generateConversationResponse: jest.Mock;
+      generateConversationSummary: jest.Mock;
+    };
+
+    const message = (id: string, role: 'user' | 'assistant' | 'tool', content: string, minute: number) => ({
+      id,
+      conversation_id: mockConversationId,
+      role,
+      content,
+      created_at: `2026-10-18T10:${String(minute).padStart(2, '0')}:00.000Z`
+    });
+
+    const conversation = {
+      id: mockConversationId,
+      user_id: mockUserId,
+      title: mockTitle,
+      created_at: '2026-10-18T10:00:00Z',
+      model_name: 'gpt-4o-mini',
+      max_tokens: 2048,
+      context_length: 8192,
+      summary: 'The user sells sneakers.',
+      summarized_until: '2026-10-18T09:59:00.000Z'
+    };
+
+    beforeEach(() => {
+      (databaseService.getConversationById as jest.Mock).mockResolvedValue(conversation);
+      (databaseService.createMessage as jest.Mock).mockResolvedValue({});
+      langchainService.generateConversationResponse.mockResolvedValue([]);
+    });
+
+    test('should send the messages after the summary', async () => {
+      (databaseService.getRecentMessages as jest.Mock).mockResolvedValue([
+        message('msg-1', 'user', 'Hi', 0),
+        message('msg-2', 'assistant', 'Hello!', 1),
+        message('msg-3', 'user', 'How are sales?', 2)
+      ]);
+
+      await generateAndSaveResponse(mockUserId, mockConversationId, 'How are sales?', mockSystemPrompt, false);
+
+      expect(databaseService.getRecentMessages).toHaveBeenCalledWith(mockConversationId, {
+        after: '2026-10-18T09:59:00.000Z'
+      });
+      expect(langchainService.generateConversationSummary).not.toHaveBeenCalled();
+      expect(langchainService.generateConversationResponse).toHaveBeenCalledWith(
+        expect.stringContaining('The user sells sneakers.'),
+        [
+          { role: 'user', content: 'Hi' },
+          { role: 'assistant', content: 'Hello!', tool_calls: undefined },
+          { role: 'user', content: 'How are sales?' }
+        ],
+        expect.objectContaining({ modelName: 'gpt-4o-mini', maxTokens: 2048 })
+      );
+    });
+
+    test('should summarize the turns that don\'t fit into the context', async () => {
+      const longText = 'x'.repeat(4000);
+      (databaseService.getRecentMessages as jest.Mock).mockResolvedValue([
+        message('msg-1', 'user', longText, 0),
+        message('msg-2', 'assistant', longText, 1),
+        message('msg-3', 'user', 'How are sales?', 2)
+      ]);
+      langchainService.generateConversationSummary.mockResolvedValue('The user sells sneakers and asked a long question.');
+
+      await generateAndSaveResponse(mockUserId, mockConversationId, 'How are sales?', mockSystemPrompt, false);
+
+      expect(langchainService.generateConversationSummary).toHaveBeenCalledWith(
+        'The user sells sneakers.',
+        expect.stringContaining('User: xxx'),
+        mockUserId
+      );
+      expect(databaseService.updateConversation).toHaveBeenCalledWith(mockConversationId, mockUserId, {
+        summary: 'The user sells sneakers and asked a long question.',
+        summarized_until: '2026-10-18T10:01:00.000Z'
+      });
+      expect(langchainService.generateConversationResponse).toHaveBeenCalledWith(
+        expect.stringContaining('The user sells sneakers and asked a long question.'),
+        [{ role: 'user', content: 'How are sales?' }],
+        expect.any(Object)
+      );
+    });
+
+    test('should not save the message when the model or the credits are refused', async () => {
+      (validateUserUsageLimit as jest.Mock).mockRejectedValueOnce(
+        new ModelNotEntitledError('gpt-4o-mini', 'Free', ['gpt-4.1-mini'])
+      );
+
+      await expect(generateAndSaveResponse(mockUserId, mockConversationId, 'How are sales?', mockSystemPrompt, false))
+        .rejects.toBeInstanceOf(ModelNotEntitledError);
+      expect(validateUserUsageLimit).toHaveBeenCalledWith(mockUserId, 'gpt-4o-mini');
+      expect(databaseService.createMessage).not.toHaveBeenCalled();
+      expect(langchainService.generateConversationResponse).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveToolApproval', () => {
+    const langchainService = getLangChainService() as unknown as {
+      generateConversationResponse: jest.Mock;
+    };
+
+    const toolCall = { id: 'call-1', name: 'update_wildberries_fbs_stocks', args: { warehouseId: 1 }, type: 'tool_call' };
+    const pendingMessage = {
+      id: 'msg-tool',
+      conversation_id: mockConversationId,
+      role: 'tool',
+      content: '{}',
+      status: 'pending',
+      tool_call_id: 'call-1'
+    };
+
+    beforeEach(() => {
+      (databaseService.getToolMessageByCallId as jest.Mock).mockResolvedValue(pendingMessage);
+      (databaseService.getAssistantMessageByToolCallId as jest.Mock).mockResolvedValue({
+        id: 'msg-ai',
+        role: 'assistant',
+        content: '',
+        tool_calls: [toolCall]
+      });
+      (databaseService.claimPendingToolMessage as jest.Mock).mockResolvedValue({ ...pendingMessage, status: 'error' });
+      (databaseService.countPendingToolMessages as jest.Mock).mockResolvedValue(0);
+      (databaseService.getConversationById as jest.Mock).mockResolvedValue({ id: mockConversationId, user_id: mockUserId });
+      (databaseService.getRecentMessages as jest.Mock).mockResolvedValue([]);
+      (executeTools as jest.Mock).mockResolvedValue([
+        new ToolMessage({ content: '{"success":true}', tool_call_id: 'call-1', name: toolCall.name })
+      ]);
+      langchainService.generateConversationResponse.mockResolvedValue([]);
+    });
+
+    test('should claim the call before executing it', async () => {
+      await resolveToolApproval(mockUserId, mockConversationId, 'call-1', true, mockSystemPrompt, false);
+
+      expect(databaseService.getToolMessageByCallId).toHaveBeenCalledWith(mockConversationId, 'call-1');
+      expect(databaseService.claimPendingToolMessage).toHaveBeenCalledWith('msg-tool', expect.objectContaining({ status: 'error' }));
+      expect(executeTools).toHaveBeenCalledWith([toolCall], mockUserId);
+      expect(databaseService.updateMessage).toHaveBeenCalledWith('msg-tool', {
+        content: '{"success":true}',
+        status: 'success'
+      });
+      expect(langchainService.generateConversationResponse).toHaveBeenCalled();
+    });
+
+    test('should not execute a call that another request already claimed', async () => {
+      (databaseService.claimPendingToolMessage as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        resolveToolApproval(mockUserId, mockConversationId, 'call-1', true, mockSystemPrompt, false)
+      ).rejects.toThrow(BadRequestError);
+      expect(executeTools).not.toHaveBeenCalled();
+    });
+
+    test('should record a rejected call without executing it', async () => {
+      await resolveToolApproval(mockUserId, mockConversationId, 'call-1', false, mockSystemPrompt, false);
+
+      expect(databaseService.claimPendingToolMessage).toHaveBeenCalledWith('msg-tool', expect.objectContaining({ status: 'aborted' }));
+      expect(executeTools).not.toHaveBeenCalled();
+      expect(databaseService.updateMessage).not.toHaveBeenCalled();
+    });
+
+    test('should wait for the other pending calls before resuming', async () => {
+      (databaseService.countPendingToolMessages as jest.Mock).mockResolvedValue(1);
+
+      const result = await resolveToolApproval(mockUserId, mockConversationId, 'call-1', false, mockSystemPrompt, false);
+
+      expect(result.response).toBeNull();
+      expect(databaseService.countPendingToolMessages).toHaveBeenCalledWith(mockConversationId);
+      expect(langchainService.generateConversationResponse).not.toHaveBeenCalled();
+    });
+
+    test('should return not found for unknown calls', async () => {
+      (databaseService.getToolMessageByCallId as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        resolveToolApproval(mockUserId, mockConversationId, 'call-unknown', true, mockSystemPrompt, false)
+      ).rejects.toThrow('Tool call not found');
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  getReservedCredits,
+  reserveCredits,
+  RESERVED_MODEL_CALLS
+} from '../../core/plans/credit-reservation.service';
+import * as userPlansService from '../../core/plans/user-plans.service';
+
+jest.mock('../../core/plans/user-plans.service', () => ({
+  checkUserDailyUsage: jest.fn(),
+  getUserPlan: jest.fn()
+}));
+
+jest.mock('../../core/ai/model-providers', () => ({
+  getAvailableChatModels: jest.fn(() => [])
+}));
+
+const mockCheckUserDailyUsage = userPlansService.checkUserDailyUsage as jest.Mock;
+
+describe('Credit Reservation', () => {
+  const userId = 'user-123';
+
+  const usage = (remainingDailyCredits: number, remainingMonthlyCredits: number = 5) => ({
+    hasReachedLimit: remainingDailyCredits <= 0 || remainingMonthlyCredits <= 0,
+    dailyUsageCredits: 0.5 - remainingDailyCredits,
+    dailyLimitCredits: 0.5,
+    remainingDailyCredits,
+    monthlyUsageCredits: 5 - remainingMonthlyCredits,
+    monthlyLimitCredits: 5,
+    remainingMonthlyCredits,
+    nextResetDate: '2026-11-01'
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should reserve several model calls within the remaining credits', async () => {
+    mockCheckUserDailyUsage.mockResolvedValue(usage(0.5));
+
+    const reservation = await reserveCredits(userId, 0.01);
+
+    expect(reservation.reserved).toBeCloseTo(0.01 * RESERVED_MODEL_CALLS);
+    expect(getReservedCredits(userId)).toBeCloseTo(0.05);
+
+    reservation.release();
+    expect(getReservedCredits(userId)).toBe(0);
+  });
+
+  test('should cap the reservation at the smaller of the daily and monthly credits', async () => {
+    mockCheckUserDailyUsage.mockResolvedValue(usage(0.5, 0.02));
+
+    const reservation = await reserveCredits(userId, 0.01);
+
+    expect(reservation.reserved).toBeCloseTo(0.02);
+    reservation.release();
+  });
+
+  test('should settle to the actual usage and stop when the next call does not fit', async () => {
+    mockCheckUserDailyUsage.mockResolvedValue(usage(0.5));
+
+    const reservation = await reserveCredits(userId, 0.1);
+    expect(reservation.reserved).toBeCloseTo(0.5);
+
+    reservation.record(0.3);
+    expect(reservation.getOutstanding()).toBeCloseTo(0.2);
+    expect(reservation.canAfford(0.1)).toBe(true);
+
+    reservation.record(0.15);
+    expect(reservation.canAfford(0.1)).toBe(false);
+
+    reservation.release();
+  });
+
+  test('should not hand out credits reserved by other runs', async () => {
+    mockCheckUserDailyUsage.mockResolvedValue(usage(0.05));
+
+    const first = await reserveCredits(userId, 0.01);
+    expect(first.reserved).toBeCloseTo(0.05);
+
+    await expect(reserveCredits(userId, 0.01)).rejects.toThrow(
+      'Not enough credits for this request. Estimated cost: $0.0100, available: $0.0000. Next reset: 2026-11-01'
+    );
+
+    first.record(0.02);
+    first.release();
+
+    const second = await reserveCredits(userId, 0.01);
+    expect(second.reserved).toBeCloseTo(0.05);
+    second.release();
+  });
+
+  test('should reject runs once the limit is reached', async () => {
+    mockCheckUserDailyUsage.mockResolvedValue(usage(0));
+
+    await expect(reserveCredits(userId, 0.01)).rejects.toThrow(
+      'Credit limit reached. Daily limit: $0.50, Monthly limit: $5.00. Next reset: 2026-11-01'
+    );
+    expect(getReservedCredits(userId)).toBe(0);
+  });
+});
@@ -79,7 +79,7 @@ describe('Database Service', () => {
         error: null
       });
 
-      const result = await getConversationById('test-conv-id');
+      const result = await getConversationById('test-conv-id', 'test-user-id');
       
       expect(result).toEqual(mockConversation);
       expect(mockSupabaseClient.from).toHaveBeenCalledWith('conversations');
@@ -91,7 +91,7 @@ describe('Database Service', () => {
         error: { code: 'PGRST116' }
       });
 
-      const result = await getConversationById('non-existent-id');
+      const result = await getConversationById('non-existent-id', 'test-user-id');
       
       expect(result).toBeNull();
     });
@@ -174,7 +174,7 @@ describe('Database Service', () => {
         error: null
       });
 
-      await deleteConversation('conv-id');
+      await deleteConversation('conv-id', 'test-user-id');
       
       expect(mockSupabaseClient.from).toHaveBeenCalledWith('conversations');
     });
@@ -191,7 +191,7 @@ describe('Database Service', () => {
         error: null
       });
 
-      const result = await updateConversation('conv-id', { title: 'Updated Title' });
+      const result = await updateConversation('conv-id', 'test-user-id', { title: 'Updated Title' });
       
       expect(result).toEqual(mockConversation);
       expect(mockSupabaseClient.from).toHaveBeenCalledWith('conversations');
@@ -205,13 +205,13 @@ describe('Database Service', () => {
         error: { message: 'Database connection failed' }
       });
 
-      await expect(getConversationById('test-id')).rejects.toThrow('Database operation failed');
+      await expect(getConversationById('test-id', 'test-user-id')).rejects.toThrow('Database operation failed');
     });
 
     test('should handle unexpected errors', async () => {
       mockSupabaseClient.from().select().eq().single.mockRejectedValue(new Error('Network error'));
 
-      await expect(getConversationById('test-id')).rejects.toThrow('Database operation failed');
+      await expect(getConversationById('test-id', 'test-user-id')).rejects.toThrow('Database operation failed');
     });
   });
 }); 
\ No newline at end of file
@@ -0,0 +1,535 @@
+import axios, { AxiosError, AxiosHeaders } from 'axios';
+import {
+  clearMarketplaceClientOverrides,
+  FakeMarketplaceClient,
+  MarketplaceApiError,
+  parseRetryAfter,
+  resetTokenBuckets,
+  setMarketplaceClientOverride,
+  WildberriesClient
+} from '../../infrastructure/marketplaces';
+
+// Mock the API keys service so no database or encryption key is needed
+jest.mock('../../core/apiKeys/apikeys.service', () => ({
+  apiKeysService: {
+    getApiKeyCredentials: jest.fn(),
+    getConnectedServices: jest.fn()
+  }
+}));
+
+// Mock the media service, uploaded files are looked up in the database
+jest.mock('../../core/media/media.service', () => ({
+  mediaService: {
+    getMediaByIds: jest.fn()
+  }
+}));
+
+// Mock the database service, price changes read the pricing guardrails and write the price history
+jest.mock('../../infrastructure/database/database.service', () => ({
+  getPricingGuardrails: jest.fn().mockResolvedValue(null),
+  createPriceHistoryEntries: jest.fn()
+}));
+
+import { apiKeysService } from '../../core/apiKeys/apikeys.service';
+import { mediaService } from '../../core/media/media.service';
+import * as databaseService from '../../infrastructure/database/database.service';
+import { executeTools } from '../../core/tools/tool-execution.utils';
+import { submitPriceChanges } from '../../core/prices/prices.service';
+
+function createAxiosError(status: number, headers: Record<string, string> = {}, data?: any) {
+  return new AxiosError(
+    `Request failed with status code ${status}`,
+    'ERR_BAD_RESPONSE',
+    undefined,
+    undefined,
+    {
+      status,
+      statusText: 'Error',
+      data,
+      headers,
+      config: { headers: new AxiosHeaders() }
+    }
+  );
+}
+
+describe('Marketplace clients', () => {
+  let requestSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetTokenBuckets();
+    requestSpy = jest.spyOn(axios, 'request');
+  });
+
+  afterEach(() => {
+    requestSpy.mockRestore();
+  });
+
+  describe('WildberriesClient', () => {
+    test('should resolve the host by category and environment', async () => {
+      requestSpy.mockResolvedValue({ status: 200, data: [], headers: {} });
+
+      const sandbox = new WildberriesClient({ apiKey: 'wb-key' }, { environment: 'sandbox' });
+      const production = new WildberriesClient({ apiKey: 'wb-key' });
+
+      await sandbox.request({ method: 'GET', category: 'marketplace', path: '/api/v3/warehouses' });
+      await production.request({ method: 'GET', category: 'prices', path: '/api/v2/list/goods/filter' });
+
+      expect(requestSpy.mock.calls[0][0]).toMatchObject({
+        method: 'GET',
+        url: 'https://marketplace-api-sandbox.wildberries.ru/api/v3/warehouses',
+        headers: expect.objectContaining({ Authorization: 'wb-key' })
+      });
+      expect(requestSpy.mock.calls[1][0].url).toBe('https://discounts-prices-api.wildberries.ru/api/v2/list/goods/filter');
+    });
+
+    test('should retry rate-limited requests and return the response', async () => {
+      requestSpy
+        .mockRejectedValueOnce(createAxiosError(429, { 'retry-after': '0' }))
+        .mockResolvedValueOnce({ status: 200, data: { ok: true }, headers: {} });
+
+      const client = new WildberriesClient({ apiKey: 'wb-key' }, { baseDelayMs: 0 });
+      const response = await client.request({ method: 'POST', path: '/content/v2/cards/upload', body: [] });
+
+      expect(requestSpy).toHaveBeenCalledTimes(2);
+      expect(response.data).toEqual({ ok: true });
+    });
+
+    test('should take the retry delay from X-Ratelimit-Retry', async () => {
+      requestSpy.mockRejectedValue(createAxiosError(429, { 'x-ratelimit-retry': '7' }));
+
+      const client = new WildberriesClient({ apiKey: 'wb-key' }, { maxRetries: 0 });
+
+      await expect(client.request({ method: 'GET', path: '/content/v2/object/all' }))
+        .rejects.toMatchObject({ code: 'rate_limited', retryAfterMs: 7000 });
+    });
+
+    test('should retry server errors of idempotent requests', async () => {
+      requestSpy
+        .mockRejectedValueOnce(createAxiosError(502))
+        .mockResolvedValueOnce({ status: 204, data: '', headers: {} });
+
+      const client = new WildberriesClient({ apiKey: 'wb-key' }, { baseDelayMs: 0 });
+      await client.request({ method: 'PUT', category: 'marketplace', path: '/api/v3/stocks/1', body: {} });
+
+      expect(requestSpy).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not retry server errors of write requests', async () => {
+      requestSpy.mockRejectedValue(createAxiosError(500, {}, { title: 'internal error' }));
+
+      const client = new WildberriesClient({ apiKey: 'wb-key' }, { baseDelayMs: 0 });
+
+      await expect(
+        client.request({ method: 'POST', category: 'marketplace', path: '/api/v3/stocks/1', body: {} })
+      ).rejects.toMatchObject({
+        name: 'MarketplaceApiError',
+        service: 'wildberries',
+        status: 500,
+        code: 'server_error',
+        details: { title: 'internal error' }
+      });
+      expect(requestSpy).toHaveBeenCalledTimes(1);
+    });
+
+    test('should give up after the maximum number of retries', async () => {
+      requestSpy.mockRejectedValue(createAxiosError(503));
+
+      const client = new WildberriesClient({ apiKey: 'wb-key' }, { baseDelayMs: 0, maxRetries: 2 });
+
+      await expect(client.request({ method: 'GET', path: '/content/v2/object/all' }))
+        .rejects.toBeInstanceOf(MarketplaceApiError);
+      expect(requestSpy).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('rate limits', () => {
+    test('should fail without calling the API when the wait exceeds the limit', async () => {
+      requestSpy.mockResolvedValue({ status: 200, data: [], headers: {} });
+
+      const client = new WildberriesClient({ apiKey: 'wb-key' }, { userId: 'user-1', maxRateLimitWaitMs: 1000 });
+      const request = { method: 'GET' as const, category: 'statistics', path: '/api/v1/supplier/sales' };
+
+      await client.request(request);
+      const error = await client.request(request).catch(error => error);
+
+      expect(error).toMatchObject({ code: 'rate_limited' });
+      expect(error.retryAfterMs).toBeGreaterThan(59000);
+      expect(requestSpy).toHaveBeenCalledTimes(1);
+    });
+
+    test('should limit statistics methods separately and share limits between clients of a user', async () => {
+      requestSpy.mockResolvedValue({ status: 200, data: [], headers: {} });
+
+      const first = new WildberriesClient({ apiKey: 'wb-key' }, { userId: 'user-1', maxRateLimitWaitMs: 1000 });
+      const second = new WildberriesClient({ apiKey: 'wb-key' }, { userId: 'user-1', maxRateLimitWaitMs: 1000 });
+      const otherUser = new WildberriesClient({ apiKey: 'wb-key-2' }, { userId: 'user-2', maxRateLimitWaitMs: 1000 });
+
+      await first.request({ method: 'GET', category: 'statistics', path: '/api/v1/supplier/sales' });
+      await first.request({ method: 'GET', category: 'statistics', path: '/api/v1/supplier/orders' });
+      await otherUser.request({ method: 'GET', category: 'statistics', path: '/api/v1/supplier/sales' });
+
+      await expect(second.request({ method: 'GET', category: 'statistics', path: '/api/v1/supplier/sales' }))
+        .rejects.toMatchObject({ code: 'rate_limited' });
+      expect(requestSpy).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    test('should parse seconds and ignore empty values', () => {
+      expect(parseRetryAfter('2')).toBe(2000);
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+      expect(parseRetryAfter('not a date')).toBeUndefined();
+    });
+  });
+
+  describe('tools with a fake marketplace', () => {
+    afterEach(() => {
+      clearMarketplaceClientOverrides();
+    });
+
+    test('should run Wildberries tools against the fake client', async () => {
+      const wildberries = new FakeMarketplaceClient('wildberries', {
+        'GET /api/v3/warehouses': [{ id: 1, name: 'Main warehouse' }]
+      });
+      setMarketplaceClientOverride('wildberries', wildberries);
+
+      const [result] = await executeTools([
+        { id: 'call_1', name: 'get_wildberries_seller_warehouses', args: {}, type: 'tool_call' as const }
+      ], 'user-1');
+
+      expect(JSON.parse(result.content as string)).toMatchObject({
+        success: true,
+        data: [{ id: 1, name: 'Main warehouse' }]
+      });
+      expect(wildberries.requests[0]).toMatchObject({ category: 'marketplace' });
+      expect(apiKeysService.getApiKeyCredentials).not.toHaveBeenCalled();
+    });
+
+    test('should turn marketplace errors into tool errors', async () => {
+      setMarketplaceClientOverride('ozon', new FakeMarketplaceClient('ozon').fail('POST /v3/product/list', 401));
+
+      const [result] = await executeTools([
+        { id: 'call_1', name: 'get_ozon_product_list', args: {}, type: 'tool_call' as const }
+      ], 'user-1');
+
+      expect(JSON.parse(result.content as string)).toMatchObject({
+        success: false,
+        statusCode: 401
+      });
+    });
+
+    test('should follow the cards cursor in all-pages mode and cache the catalog', async () => {
+      const pages: Record<string, any> = {
+        first: { cards: [{ nmID: 1, title: 'Summer dress', brand: 'Sunny' }, { nmID: 2, title: 'Bag' }], cursor: { updatedAt: 't1', nmID: 2, total: 2 } },
+        t1: { cards: [{ nmID: 3, title: 'Evening dress', brand: 'Sunny' }], cursor: { updatedAt: 't2', nmID: 3, total: 1 } }
+      };
+      const wildberries = new FakeMarketplaceClient('wildberries', {
+        'POST /content/v2/get/cards/list': (request: any) => pages[request.body.settings.cursor.updatedAt || 'first']
+      });
+      setMarketplaceClientOverride('wildberries', wildberries);
+
+      const [cardsResult, searchResult] = await executeTools([
+        { id: 'call_1', name: 'get_wildberries_seller_product_cards', args: { allPages: true, limit: 2 }, type: 'tool_call' as const },
+        { id: 'call_2', name: 'search_wildberries_catalog', args: { textSearch: 'dress' }, type: 'tool_call' as const }
+      ], 'user-catalog');
+
+      expect(wildberries.requests).toHaveLength(2);
+      expect(wildberries.requests[1].body).toMatchObject({ settings: { cursor: { limit: 2, updatedAt: 't1', nmID: 2 } } });
+      expect(JSON.parse(cardsResult.content as string)).toMatchObject({
+        success: true,
+        truncated: false,
+        summary: { totalCards: 3, brands: [{ brand: 'Sunny', count: 2 }, { brand: 'No brand', count: 1 }] }
+      });
+      expect(JSON.parse(searchResult.content as string)).toMatchObject({
+        success: true,
+        totalMatches: 2,
+        cards: [{ nmID: 1 }, { nmID: 3 }]
+      });
+    });
+
+    test('should validate characteristics against the subject schema before creating a card', async () => {
+      const wildberries = new FakeMarketplaceClient('wildberries', {
+        'GET /content/v2/object/charcs/105': {
+          data: [
+            { charcID: 1, name: 'Цвет', required: true, maxCount: 1, charcType: 1 },
+            { charcID: 2, name: 'Длина', required: false, unitName: 'см', maxCount: 0, charcType: 4 }
+          ]
+        },
+        'POST /content/v2/cards/upload': { error: false, data: null }
+      });
+      setMarketplaceClientOverride('wildberries', wildberries);
+
+      const card = {
+        subjectID: 105,
+        title: 'Summer dress',
+        vendorCode: 'DRESS-01',
+        productLength: 30,
+        productWidth: 20,
+        productHeight: 5,
+        productWeightBrutto: 0.4
+      };
+      const [invalidResult, validResult] = await executeTools([
+        { id: 'call_1', name: 'create_wildberries_product_card', args: { ...card, characteristics: [{ id: 2, value: 90 }] }, type: 'tool_call' as const },
+        { id: 'call_2', name: 'create_wildberries_product_card', args: { ...card, characteristics: [{ id: 1, value: 'красный' }, { id: 2, value: 90 }] }, type: 'tool_call' as const }
+      ], 'user-1');
+
+      expect(JSON.parse(invalidResult.content as string)).toMatchObject({
+        success: false,
+        validationErrors: ['Required characteristic "Цвет" (1) is missing']
+      });
+      expect(JSON.parse(validResult.content as string)).toMatchObject({ success: true });
+      expect(wildberries.requests.filter(request => request.path === '/content/v2/cards/upload')).toHaveLength(1);
+      expect(wildberries.requests[wildberries.requests.length - 1].body[0].variants[0].characteristics).toEqual([
+        { id: 1, value: ['красный'] },
+        { id: 2, value: 90 }
+      ]);
+    });
+
+    test('should create a card with a size grid and merged variants', async () => {
+      const wildberries = new FakeMarketplaceClient('wildberries', {
+        'GET /content/v2/object/charcs/105': { data: [] },
+        'POST /content/v2/cards/upload': { error: false, data: null }
+      });
+      setMarketplaceClientOverride('wildberries', wildberries);
+
+      const card = {
+        subjectID: 105,
+        title: 'Summer dress',
+        vendorCode: 'DRESS-RED',
+        productLength: 30,
+        productWidth: 20,
+        productHeight: 5,
+        productWeightBrutto: 0.4,
+        sizes: [{ techSize: 'S', wbSize: '42', price: 1500, skus: ['2000000000011'] }, { techSize: 'M', wbSize: '44', price: 1500 }]
+      };
+      const [duplicateResult, result] = await executeTools([
+        {
+          id: 'call_1',
+          name: 'create_wildberries_product_card',
+          args: { ...card, variants: [{ vendorCode: 'DRESS-BLUE', sizes: [{ techSize: 'S', skus: ['2000000000011'] }] }] },
+          type: 'tool_call' as const
+        },
+        { id: 'call_2', name: 'create_wildberries_product_card', args: { ...card, variants: [{ vendorCode: 'DRESS-BLUE' }] }, type: 'tool_call' as const }
+      ], 'user-1');
+
+      expect(JSON.parse(duplicateResult.content as string)).toMatchObject({
+        success: false,
+        validationErrors: ['Barcode 2000000000011 is used more than once (variant "DRESS-RED" and variant "DRESS-BLUE")']
+      });
+      expect(JSON.parse(result.content as string)).toMatchObject({ success: true });
+
+      const [upload] = wildberries.requests.filter(request => request.path === '/content/v2/cards/upload');
+      expect(upload.body[0].variants.map((variant: any) => ({ vendorCode: variant.vendorCode, sizes: variant.sizes }))).toEqual([
+        {
+          vendorCode: 'DRESS-RED',
+          sizes: [
+            { techSize: 'S', wbSize: '42', price: 1500, skus: ['2000000000011'] },
+            { techSize: 'M', wbSize: '44', price: 1500 }
+          ]
+        },
+        {
+          vendorCode: 'DRESS-BLUE',
+          sizes: [{ techSize: 'S', wbSize: '42', price: 1500 }, { techSize: 'M', wbSize: '44', price: 1500 }]
+        }
+      ]);
+    });
+
+    test('should generate barcodes for the sizes of a new card', async () => {
+      const wildberries = new FakeMarketplaceClient('wildberries', {
+        'POST /content/v2/barcodes': (request: any) => ({
+          error: false,
+          data: Array.from({ length: request.body.count }, (_, index) => `203000000000${index}`)
+        })
+      });
+      setMarketplaceClientOverride('wildberries', wildberries);
+
+      const [result] = await executeTools([
+        {
+          id: 'call_1',
+          name: 'generate_wildberries_barcodes',
+          args: { sizes: [{ vendorCode: 'DRESS-RED', techSize: 'S' }, { vendorCode: 'DRESS-RED', techSize: 'M' }] },
+          type: 'tool_call' as const
+        }
+      ], 'user-1');
+
+      expect(wildberries.requests[0].body).toEqual({ count: 2 });
+      expect(JSON.parse(result.content as string)).toMatchObject({
+        success: true,
+        barcodes: [
+          { vendorCode: 'DRESS-RED', techSize: 'S', sku: '2030000000000' },
+          { vendorCode: 'DRESS-RED', techSize: 'M', sku: '2030000000001' }
+        ]
+      });
+    });
+
+    test('should validate price changes against the current prices before submitting them', async () => {
+      const wildberries = new FakeMarketplaceClient('wildberries', {
+        'GET /api/v2/list/goods/filter': {
+          data: {
+            listGoods: [
+              { nmID: 1, vendorCode: 'DRESS-RED', sizes: [{ price: 3000 }], discount: 10 },
+              { nmID: 2, vendorCode: 'DRESS-BLUE', sizes: [{ price: 3000 }], discount: 0 }
+            ]
+          }
+        },
+        'POST /api/v2/upload/task': { error: false, data: { id: 42, alreadyExists: false } }
+      });
+      setMarketplaceClientOverride('wildberries', wildberries);
+
+      const [invalidResult, result] = await executeTools([
+        { id: 'call_1', name: 'set_wildberries_products_price', args: { data: [{ nmID: 1, price: 900 }, { nmID: 3, price: 1000 }] }, type: 'tool_call' as const },
+        { id: 'call_2', name: 'set_wildberries_products_price', args: { data: [{ nmID: 1, discount: 20 }, { nmID: 2, price: 3000 }] }, type: 'tool_call' as const }
+      ], 'user-1');
+
+      expect(JSON.parse(invalidResult.content as string)).toMatchObject({
+        success: false,
+        validationErrors: [
+          { nmID: 1, error: expect.stringContaining('3 or more times lower') },
+          { nmID: 3, error: 'The product was not found among your goods' }
+        ]
+      });
+      expect(JSON.parse(result.content as string)).toMatchObject({
+        success: true,
+        uploadID: 42,
+        diff: [{ nmID: 1, oldDiscount: 10, newDiscount: 20, newDiscountedPrice: 2400 }]
+      });
+      const uploads = wildberries.requests.filter(request => request.path === '/api/v2/upload/task');
+      expect(uploads).toHaveLength(1);
+      expect(uploads[0].body).toEqual({ data: [{ nmID: 1, price: 3000, discount: 20 }] });
+      expect(databaseService.createPriceHistoryEntries).toHaveBeenCalledWith([expect.objectContaining({
+        user_id: 'user-1',
+        nm_id: 1,
+        old_discount: 10,
+        new_discount: 20,
+        source: 'agent',
+        upload_id: 42
+      })]);
+    });
+
+    test('should return the submitted uploads when a later batch fails', async () => {
+      let uploadsCount = 0;
+      const wildberries = new FakeMarketplaceClient('wildberries', {
+        'POST /api/v2/upload/task': () => {
+          uploadsCount++;
+          if (uploadsCount === 2) {
+            throw new MarketplaceApiError('wildberries', 'wildberries API returned 503', { status: 503 });
+          }
+          return { error: false, data: { id: uploadsCount, alreadyExists: false } };
+        }
+      });
+      const current = new Map(Array.from({ length: 2500 }, (_, index) => [
+        index + 1,
+        { nmID: index + 1, price: 1000, discount: 0 }
+      ]));
+      const changes = Array.from(current.keys(), nmID => ({ nmID, discount: 10 }));
+
+      const result = await submitPriceChanges('user-1', wildberries, changes, { source: 'import', currentPrices: current });
+
+      expect(result.uploads).toEqual([
+        { count: 1000, uploadID: 1, alreadyExists: false },
+        { count: 1000, error: 'wildberries API returned 503' },
+        { count: 500, error: 'Not submitted because an earlier upload failed' }
+      ]);
+      expect(wildberries.requests).toHaveLength(2);
+      expect(databaseService.createPriceHistoryEntries).toHaveBeenCalledTimes(1);
+      expect((databaseService.createPriceHistoryEntries as jest.Mock).mock.calls[0][0]).toHaveLength(1000);
+    });
+
+    test('should refuse price changes that break the pricing guardrails', async () => {
+      (databaseService.getPricingGuardrails as jest.Mock).mockResolvedValueOnce({
+        min_price: 1000,
+        max_price: null,
+        max_change_percent: 20,
+        forbidden_nm_ids: [2]
+      });
+      const wildberries = new FakeMarketplaceClient('wildberries', {
+        'GET /api/v2/list/goods/filter': {
+          data: {
+            listGoods: [
+              { nmID: 1, vendorCode: 'DRESS-RED', sizes: [{ price: 3000 }], discount: 10 },
+              { nmID: 2, vendorCode: 'DRESS-BLUE', sizes: [{ price: 3000 }], discount: 0 }
+            ]
+          }
+        }
+      });
+      setMarketplaceClientOverride('wildberries', wildberries);
+
+      const [result] = await executeTools([
+        { id: 'call_1', name: 'set_wildberries_products_price', args: { data: [{ nmID: 1, discount: 50 }, { nmID: 2, price: 3100 }] }, type: 'tool_call' as const }
+      ], 'user-1');
+
+      expect(JSON.parse(result.content as string)).toMatchObject({
+        success: false,
+        validationErrors: [
+          { nmID: 1, error: expect.stringContaining('at most 20%') },
+          { nmID: 2, error: expect.stringContaining('forbidden') }
+        ]
+      });
+      expect(wildberries.requests.some(request => request.path === '/api/v2/upload/task')).toBe(false);
+    });
+
+    test('should save links and uploaded files as the card media', async () => {
+      const uploadedId = '6f1c2a4e-8b0d-4c3e-9f7a-1d2b3c4d5e6f';
+      (mediaService.getMediaByIds as jest.Mock).mockResolvedValue([{
+        id: uploadedId,
+        file_name: 'dress.png',
+        content_type: 'image/png',
+        size_bytes: 2048,
+        public_url: 'https://storage.example.com/product-media/user-1/dress.png'
+      }]);
+      const wildberries = new FakeMarketplaceClient('wildberries', {
+        'POST /content/v2/get/cards/list': {
+          cards: [{ nmID: 1, photos: [{ big: 'https://basket-01.wbbasket.ru/images/big/1.webp' }] }]
+        },
+        'POST /content/v3/media/save': { error: false, data: {} }
+      });
+      setMarketplaceClientOverride('wildberries', wildberries);
+
+      const [invalidResult, result, replaceResult] = await executeTools([
+        { id: 'call_1', name: 'save_wildberries_product_media', args: { nmID: 1, media: ['https://cdn.example.com/dress.gif'] }, type: 'tool_call' as const },
+        { id: 'call_2', name: 'save_wildberries_product_media', args: { nmID: 1, media: [uploadedId, 'https://cdn.example.com/back.jpg'] }, type: 'tool_call' as const },
+        { id: 'call_3', name: 'save_wildberries_product_media', args: { nmID: 1, media: ['https://cdn.example.com/back.jpg'], replaceExisting: true }, type: 'tool_call' as const }
+      ], 'user-1');
+
+      expect(JSON.parse(invalidResult.content as string)).toMatchObject({ success: false, validationErrors: [expect.stringContaining('unsupported format')] });
+      expect(JSON.parse(result.content as string)).toMatchObject({ success: true });
+      expect(JSON.parse(replaceResult.content as string)).toMatchObject({ success: true });
+      expect(mediaService.getMediaByIds).toHaveBeenCalledWith('user-1', [uploadedId]);
+
+      const saveRequests = wildberries.requests.filter(request => request.path === '/content/v3/media/save');
+      expect(saveRequests).toHaveLength(2);
+      expect(saveRequests[0].body).toEqual({
+        nmId: 1,
+        data: [
+          'https://basket-01.wbbasket.ru/images/big/1.webp',
+          'https://storage.example.com/product-media/user-1/dress.png',
+          'https://cdn.example.com/back.jpg'
+        ]
+      });
+      expect(saveRequests[1].body).toEqual({ nmId: 1, data: ['https://cdn.example.com/back.jpg'] });
+    });
+
+    test('should call the environment saved with the API key', async () => {
+      (apiKeysService.getApiKeyCredentials as jest.Mock).mockResolvedValue({ apiKey: 'wb-key', environment: 'production' });
+      requestSpy.mockResolvedValue({ status: 200, data: [], headers: {} });
+
+      await executeTools([
+        { id: 'call_1', name: 'get_wildberries_seller_warehouses', args: {}, type: 'tool_call' as const }
+      ], 'user-1');
+
+      expect(requestSpy.mock.calls[0][0].url).toBe('https://marketplace-api.wildberries.ru/api/v3/warehouses');
+    });
+
+    test('should report a missing API key when there is no client', async () => {
+      (apiKeysService.getApiKeyCredentials as jest.Mock).mockResolvedValue(null);
+
+      const [result] = await executeTools([
+        { id: 'call_1', name: 'get_yandex_market_campaigns', args: {}, type: 'tool_call' as const }
+      ], 'user-1');
+
+      expect(JSON.parse(result.content as string)).toMatchObject({ success: false });
+      expect(apiKeysService.getApiKeyCredentials).toHaveBeenCalledWith('user-1', 'yandexmarket');
+    });
+  });
+});
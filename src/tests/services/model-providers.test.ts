@@ -0,0 +1,68 @@
+describe('Model Providers', () => {
+  const originalEnv = process.env;
+
+  // Providers read their configuration when loaded
+  function loadModules(env: Record<string, string | undefined>) {
+    process.env = { ...originalEnv, ...env };
+
+    let modules: {
+      providers: typeof import('../../core/ai/model-providers');
+      tokenCalculator: typeof import('../../core/ai/token-calculator');
+      ChatOpenAI: typeof import('@langchain/openai').ChatOpenAI;
+      ChatAnthropic: typeof import('@langchain/anthropic').ChatAnthropic;
+    };
+    jest.isolateModules(() => {
+      modules = {
+        providers: require('../../core/ai/model-providers'),
+        tokenCalculator: require('../../core/ai/token-calculator'),
+        ChatOpenAI: require('@langchain/openai').ChatOpenAI,
+        ChatAnthropic: require('@langchain/anthropic').ChatAnthropic
+      };
+    });
+    return modules!;
+  }
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test('should route models to their provider', () => {
+    const { providers, ChatOpenAI, ChatAnthropic } = loadModules({
+      OPENAI_API_KEY: 'sk-test',
+      ANTHROPIC_API_KEY: 'sk-ant-test',
+      LOCAL_LLM_BASE_URL: 'http://localhost:11434/v1',
+      LOCAL_LLM_MODELS: 'llama3.1, qwen2.5'
+    });
+
+    expect(providers.getConfiguredProviders()).toEqual(['openai', 'anthropic', 'local']);
+    expect(providers.createProviderChatModel({ modelName: 'gpt-4o-mini', temperature: 0.7, maxTokens: 100 })).toBeInstanceOf(ChatOpenAI);
+    expect(providers.createProviderChatModel({ modelName: 'claude-3-5-haiku-20241022', temperature: 0.7, maxTokens: 100 })).toBeInstanceOf(ChatAnthropic);
+
+    const localModel = providers.createProviderChatModel({ modelName: 'qwen2.5', temperature: 0.7, maxTokens: 100 }) as any;
+    expect(localModel).toBeInstanceOf(ChatOpenAI);
+    expect(localModel.clientConfig.baseURL).toBe('http://localhost:11434/v1');
+  });
+
+  test('should run on a local endpoint only', () => {
+    const { providers, tokenCalculator } = loadModules({
+      OPENAI_API_KEY: undefined,
+      ANTHROPIC_API_KEY: undefined,
+      LOCAL_LLM_BASE_URL: 'http://localhost:8000/v1',
+      LOCAL_LLM_MODELS: 'llama3.1'
+    });
+
+    expect(providers.getConfiguredProviders()).toEqual(['local']);
+    expect(() => providers.createProviderChatModel({ modelName: 'gpt-4o-mini', temperature: 0.7, maxTokens: 100 }))
+      .toThrow('Model provider "openai" is not configured');
+    expect(() => providers.createProviderChatModel({ modelName: 'mistral', temperature: 0.7, maxTokens: 100 }))
+      .toThrow('Unknown model "mistral"');
+    expect(tokenCalculator.calculateTokenCost(1000, 500, 'llama3.1')).toBe(0);
+  });
+
+  test('should reject embeddings of providers without them', () => {
+    const { providers } = loadModules({ ANTHROPIC_API_KEY: 'sk-ant-test' });
+
+    expect(() => providers.createProviderEmbeddingModel('claude-3-5-haiku-20241022', true))
+      .toThrow('Model provider "anthropic" does not provide embeddings');
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  getPermittedModels,
+  getPlanPermittedModels,
+  validateModelEntitlement,
+  validateUserUsageLimit
+} from '../../core/plans/validation.utils';
+import { getPlanDetails } from '../../config/plans.config';
+import { ModelNotEntitledError } from '../../shared/utils/errors';
+import * as userPlansService from '../../core/plans/user-plans.service';
+
+jest.mock('../../core/plans/user-plans.service', () => ({
+  getUserPlan: jest.fn(),
+  checkUserDailyUsage: jest.fn()
+}));
+
+jest.mock('../../core/ai/model-providers', () => ({
+  getAvailableChatModels: jest.fn(() => ['gpt-4.1', 'gpt-4.1-mini', 'gpt-4o-mini'])
+}));
+
+const mockGetUserPlan = userPlansService.getUserPlan as jest.Mock;
+const mockCheckUserDailyUsage = userPlansService.checkUserDailyUsage as jest.Mock;
+
+describe('Plan Model Entitlements', () => {
+  const userId = 'user-123';
+
+  const plan = (planName: string) => ({
+    id: 'plan-1',
+    user_id: userId,
+    plan_name: planName,
+    max_credits_per_day: 10,
+    max_credits_per_month: 100,
+    reset_date: '2026-10-01',
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+    active: true
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCheckUserDailyUsage.mockResolvedValue({ hasReachedLimit: false });
+  });
+
+  test('should find plans by ID or name and fall back to the free plan', () => {
+    expect(getPlanDetails('premium').name).toBe('Premium');
+    expect(getPlanDetails('Standard').name).toBe('Standard');
+    expect(getPlanDetails('enterprise').name).toBe('Free');
+    expect(getPlanDetails(undefined).name).toBe('Free');
+  });
+
+  test('should permit the available models of the plan', async () => {
+    expect(getPlanPermittedModels('Premium')).toEqual(['gpt-4.1', 'gpt-4.1-mini', 'gpt-4o-mini']);
+    expect(getPlanPermittedModels('Standard')).toEqual(['gpt-4.1-mini', 'gpt-4o-mini']);
+
+    mockGetUserPlan.mockResolvedValue(null);
+    expect(await getPermittedModels(userId)).toEqual(['gpt-4o-mini']);
+  });
+
+  test('should reject models outside of the plan', async () => {
+    mockGetUserPlan.mockResolvedValue(plan('Free'));
+
+    await expect(validateModelEntitlement(userId, 'gpt-4o-mini')).resolves.toBeUndefined();
+
+    const validation = validateModelEntitlement(userId, 'gpt-4.1');
+    await expect(validation).rejects.toBeInstanceOf(ModelNotEntitledError);
+    await expect(validation).rejects.toThrow('Model "gpt-4.1" is not included in the Free plan. Available models: gpt-4o-mini');
+  });
+
+  test('should check the model together with the usage limit', async () => {
+    mockGetUserPlan.mockResolvedValue(plan('standard'));
+
+    await expect(validateUserUsageLimit(userId, 'gpt-4.1-mini')).resolves.toBeUndefined();
+    await expect(validateUserUsageLimit(userId, 'gpt-4.1')).rejects.toBeInstanceOf(ModelNotEntitledError);
+    expect(mockCheckUserDailyUsage).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,179 @@
+import { clearMarketplaceClientOverrides, FakeMarketplaceClient, setMarketplaceClientOverride } from '../../infrastructure/marketplaces';
+import { RepricingRule } from '../../infrastructure/database/supabase.client';
+
+// Mock the API keys service so no database or encryption key is needed
+jest.mock('../../core/apiKeys/apikeys.service', () => ({
+  apiKeysService: {
+    getApiKeyCredentials: jest.fn()
+  }
+}));
+
+jest.mock('../../infrastructure/database/database.service', () => ({
+  getPricingGuardrails: jest.fn(),
+  createPriceHistoryEntries: jest.fn(),
+  getDueRepricingRules: jest.fn(),
+  updateRepricingRule: jest.fn(),
+  createRepricingRun: jest.fn()
+}));
+
+import * as databaseService from '../../infrastructure/database/database.service';
+import { processDueRepricingRules, runRepricingRule } from '../../core/repricing/repricing.service';
+
+const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>;
+
+describe('Repricing Service', () => {
+  const now = new Date('2026-10-18T10:00:00Z');
+
+  function createRule(overrides: Partial<RepricingRule>): RepricingRule {
+    return {
+      id: 'rule-1',
+      user_id: 'user-1',
+      name: 'Rule',
+      nm_ids: [],
+      condition: { type: 'always' },
+      action: { type: 'set_discount', discount: 20 },
+      dry_run: false,
+      is_active: true,
+      interval_hours: 24,
+      next_run_at: '2026-10-18T09:00:00Z',
+      created_at: '2026-10-01T10:00:00Z',
+      updated_at: '2026-10-01T10:00:00Z',
+      ...overrides
+    };
+  }
+
+  function createWildberries() {
+    return new FakeMarketplaceClient('wildberries', {
+      'GET /api/v2/list/goods/filter': {
+        data: {
+          listGoods: [
+            { nmID: 1, vendorCode: 'DRESS-RED', sizes: [{ price: 3000 }], discount: 10 },
+            { nmID: 2, vendorCode: 'DRESS-BLUE', sizes: [{ price: 1000 }], discount: 0 }
+          ]
+        }
+      },
+      'GET /api/v1/supplier/stocks': [
+        { warehouseName: 'Koledino', nmId: 1, quantity: 50 },
+        { warehouseName: 'Koledino', nmId: 2, quantity: 2 }
+      ],
+      // 14 orders in two weeks, the stock of nmID 2 lasts 2 days
+      'GET /api/v1/supplier/orders': Array.from({ length: 14 }, () => ({ date: '2026-10-10T10:00:00', nmId: 2, isCancel: false })),
+      'POST /api/v2/upload/task': { error: false, data: { id: 42, alreadyExists: false } }
+    });
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDatabaseService.getPricingGuardrails.mockResolvedValue(null);
+    mockDatabaseService.createRepricingRun.mockImplementation(async run => ({ id: 'run-1', created_at: now.toISOString(), ...run }));
+    mockDatabaseService.updateRepricingRule.mockImplementation(async (userId, ruleId) => createRule({ id: ruleId }));
+  });
+
+  afterEach(() => {
+    clearMarketplaceClientOverrides();
+  });
+
+  test('should run due rules of a user on the same data and schedule their next run', async () => {
+    const wildberries = createWildberries();
+    setMarketplaceClientOverride('wildberries', wildberries);
+    mockDatabaseService.getDueRepricingRules.mockResolvedValue([
+      createRule({ id: 'rule-1', condition: { type: 'stock_above', quantity: 10 }, action: { type: 'set_discount', discount: 20 } }),
+      createRule({ id: 'rule-2', condition: { type: 'sells_out_within', days: 3 }, action: { type: 'change_price', percent: 5 } }),
+      createRule({ id: 'rule-3', dry_run: true, action: { type: 'set_discount', discount: 30 } })
+    ]);
+
+    expect(await processDueRepricingRules(now)).toBe(3);
+
+    const uploads = wildberries.requests.filter(request => request.path === '/api/v2/upload/task');
+    expect(uploads.map(upload => upload.body)).toEqual([
+      { data: [{ nmID: 1, price: 3000, discount: 20 }] },
+      { data: [{ nmID: 2, price: 1050, discount: 0 }] }
+    ]);
+    expect(wildberries.requests.filter(request => request.path === '/api/v1/supplier/stocks')).toHaveLength(1);
+
+    expect(mockDatabaseService.createRepricingRun.mock.calls.map(([run]) => [run.rule_id, run.status, run.upload_ids])).toEqual([
+      ['rule-1', 'applied', [42]],
+      ['rule-2', 'applied', [42]],
+      ['rule-3', 'dry_run', []]
+    ]);
+    // The dry run sees the discount set by the first rule
+    expect(mockDatabaseService.createRepricingRun.mock.calls[2][0].changes).toEqual([
+      expect.objectContaining({ nmID: 1, oldDiscount: 20, newDiscount: 30 }),
+      expect.objectContaining({ nmID: 2, oldDiscount: 0, newDiscount: 30 })
+    ]);
+    expect(mockDatabaseService.createPriceHistoryEntries).toHaveBeenCalledWith([
+      expect.objectContaining({ nm_id: 1, source: 'repricing', upload_id: 42 })
+    ]);
+    expect(mockDatabaseService.updateRepricingRule).toHaveBeenCalledWith('user-1', 'rule-1', {
+      last_run_at: '2026-10-18T10:00:00.000Z',
+      next_run_at: '2026-10-19T10:00:00.000Z'
+    });
+  });
+
+  test('should record a blocked run when the changes break the pricing guardrails', async () => {
+    const wildberries = createWildberries();
+    setMarketplaceClientOverride('wildberries', wildberries);
+    mockDatabaseService.getPricingGuardrails.mockResolvedValue({
+      user_id: 'user-1',
+      min_price: null,
+      max_price: null,
+      max_change_percent: 10,
+      forbidden_nm_ids: [],
+      created_at: now.toISOString(),
+      updated_at: now.toISOString()
+    });
+
+    const run = await runRepricingRule(createRule({ action: { type: 'change_price', percent: -50 } }), { trigger: 'manual', now });
+
+    expect(run).toMatchObject({
+      trigger: 'manual',
+      status: 'blocked',
+      errors: [
+        { nmID: 1, error: expect.stringContaining('at most 10%') },
+        { nmID: 2, error: expect.stringContaining('at most 10%') }
+      ]
+    });
+    expect(wildberries.requests.some(request => request.path === '/api/v2/upload/task')).toBe(false);
+  });
+
+  test('should schedule the next run before running a rule and go on when a rule fails', async () => {
+    const wildberries = createWildberries();
+    setMarketplaceClientOverride('wildberries', wildberries);
+    mockDatabaseService.getDueRepricingRules.mockResolvedValue([
+      createRule({ id: 'rule-1', action: { type: 'change_price', percent: 5 } }),
+      createRule({ id: 'rule-2', dry_run: true }),
+      createRule({ id: 'rule-3', dry_run: true })
+    ]);
+    mockDatabaseService.createRepricingRun.mockRejectedValueOnce(new Error('Insert failed'));
+    mockDatabaseService.updateRepricingRule
+      .mockImplementationOnce(async () => createRule({ id: 'rule-1' }))
+      .mockRejectedValueOnce(new Error('Update failed'));
+
+    expect(await processDueRepricingRules(now)).toBe(3);
+
+    // The first rule was claimed before its prices were uploaded, the second one could not be claimed and didn't run
+    expect(mockDatabaseService.updateRepricingRule.mock.invocationCallOrder[0])
+      .toBeLessThan(mockDatabaseService.createPriceHistoryEntries.mock.invocationCallOrder[0]);
+    expect(wildberries.requests.filter(request => request.path === '/api/v2/upload/task')).toHaveLength(1);
+    expect(mockDatabaseService.createRepricingRun.mock.calls.map(([run]) => run.rule_id)).toEqual(['rule-1', 'rule-3']);
+  });
+
+  test('should keep an applied run when its audit row can not be saved', async () => {
+    setMarketplaceClientOverride('wildberries', createWildberries());
+    mockDatabaseService.createRepricingRun.mockRejectedValueOnce(new Error('Insert failed'));
+
+    const run = await runRepricingRule(createRule({ action: { type: 'change_price', percent: 5 } }), { trigger: 'manual', now });
+
+    expect(run).toMatchObject({ status: 'applied', upload_ids: [42] });
+    expect(mockDatabaseService.createRepricingRun).toHaveBeenCalledTimes(1);
+  });
+
+  test('should record a failed run when the data can not be loaded', async () => {
+    setMarketplaceClientOverride('wildberries', new FakeMarketplaceClient('wildberries', {})
+      .fail('GET /api/v2/list/goods/filter', 401));
+
+    const run = await runRepricingRule(createRule({}), { trigger: 'manual', dryRun: true, now });
+
+    expect(run).toMatchObject({ status: 'failed', dry_run: true, errors: [{ error: expect.stringContaining('401') }] });
+  });
+});
@@ -0,0 +1,122 @@
+import { clearMarketplaceClientOverrides, FakeMarketplaceClient, setMarketplaceClientOverride } from '../../infrastructure/marketplaces';
+import { MarketplaceTask } from '../../infrastructure/database/supabase.client';
+
+// Mock the API keys service so no database or encryption key is needed
+jest.mock('../../core/apiKeys/apikeys.service', () => ({
+  apiKeysService: {
+    getApiKeyCredentials: jest.fn()
+  }
+}));
+
+jest.mock('../../infrastructure/database/database.service', () => ({
+  createMarketplaceTask: jest.fn(),
+  getDueMarketplaceTasks: jest.fn(),
+  updateMarketplaceTask: jest.fn()
+}));
+
+jest.mock('../../core/conversations/message.utils', () => ({
+  saveMessage: jest.fn()
+}));
+
+import * as databaseService from '../../infrastructure/database/database.service';
+import { saveMessage } from '../../core/conversations/message.utils';
+import { processDueUploadTasks, registerUploadTask } from '../../core/uploads/upload-tasks.service';
+
+const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>;
+
+describe('Upload Tasks Service', () => {
+  const now = new Date('2026-10-18T10:05:00Z');
+  const task: MarketplaceTask = {
+    id: 'task-1',
+    user_id: 'user-1',
+    conversation_id: 'conv-1',
+    service: 'wildberries',
+    task_type: 'price_upload',
+    reference: { uploadID: 42 },
+    status: 'pending',
+    attempts: 0,
+    next_check_at: '2026-10-18T10:01:00Z',
+    created_at: '2026-10-18T10:00:00Z',
+    updated_at: '2026-10-18T10:00:00Z'
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    clearMarketplaceClientOverrides();
+  });
+
+  test('should register a task for an upload started by a tool call', async () => {
+    mockDatabaseService.createMarketplaceTask.mockResolvedValue(task);
+
+    await registerUploadTask('user-1', 'conv-1', 'set_wildberries_products_price', {}, JSON.stringify({
+      success: true,
+      uploadID: 42
+    }));
+
+    expect(mockDatabaseService.createMarketplaceTask).toHaveBeenCalledWith(expect.objectContaining({
+      user_id: 'user-1',
+      conversation_id: 'conv-1',
+      task_type: 'price_upload',
+      reference: { uploadID: 42 }
+    }));
+  });
+
+  test('should post the outcome of a finished task into the conversation', async () => {
+    mockDatabaseService.getDueMarketplaceTasks.mockResolvedValue([task]);
+    setMarketplaceClientOverride('wildberries', new FakeMarketplaceClient('wildberries', {
+      'GET /api/v2/history/tasks': { data: { uploadID: 42, status: 3, overAllGoodsNumber: 2, successGoodsNumber: 2 } }
+    }));
+
+    const finished = await processDueUploadTasks(now);
+
+    expect(finished).toBe(1);
+    expect(mockDatabaseService.updateMarketplaceTask).toHaveBeenCalledWith('task-1', expect.objectContaining({
+      status: 'completed',
+      attempts: 1
+    }));
+    expect(saveMessage).toHaveBeenCalledWith(expect.objectContaining({
+      conversationId: 'conv-1',
+      role: 'assistant',
+      content: 'The new prices (upload 42) were applied on Wildberries.',
+      metadata: { uploadTask: { id: 'task-1', type: 'price_upload', status: 'completed' } }
+    }));
+  });
+
+  test('should schedule the next check of a task that is still processing', async () => {
+    mockDatabaseService.getDueMarketplaceTasks.mockResolvedValue([task]);
+    setMarketplaceClientOverride('wildberries', new FakeMarketplaceClient('wildberries', {
+      'GET /api/v2/history/tasks': { data: null },
+      'GET /api/v2/buffer/tasks': { data: { uploadID: 42, status: 1 } }
+    }));
+
+    const finished = await processDueUploadTasks(now);
+
+    expect(finished).toBe(0);
+    expect(mockDatabaseService.updateMarketplaceTask).toHaveBeenCalledWith('task-1', {
+      attempts: 1,
+      next_check_at: '2026-10-18T10:07:00.000Z'
+    });
+    expect(saveMessage).not.toHaveBeenCalled();
+  });
+
+  test('should report rejected cards and expire tasks that never finish', async () => {
+    const cardTask: MarketplaceTask = { ...task, id: 'task-2', task_type: 'card_upload', reference: { vendorCodes: ['DRESS-RED'] } };
+    const oldTask: MarketplaceTask = { ...task, id: 'task-3', created_at: '2026-10-16T10:00:00Z' };
+    mockDatabaseService.getDueMarketplaceTasks.mockResolvedValue([cardTask, oldTask]);
+    setMarketplaceClientOverride('wildberries', new FakeMarketplaceClient('wildberries', {
+      'GET /content/v2/cards/error/list': { data: [{ vendorCode: 'DRESS-RED', updateAt: '2026-10-18T10:01:00Z', errors: ['Invalid subject'] }] },
+      'GET /api/v2/history/tasks': { data: { uploadID: 42, status: 1 } }
+    }));
+
+    await processDueUploadTasks(now);
+
+    expect(saveMessage).toHaveBeenCalledWith(expect.objectContaining({
+      conversationId: 'conv-1',
+      content: 'Wildberries rejected the product card upload (DRESS-RED):\n- DRESS-RED: Invalid subject'
+    }));
+    expect(mockDatabaseService.updateMarketplaceTask).toHaveBeenCalledWith('task-3', { status: 'expired', attempts: 1 });
+  });
+});
@@ -0,0 +1,57 @@
+import { assignBarcodes, buildCardSizes, validateCardVariants } from '../../core/tools/product/card-variants.utils';
+
+describe('Card Variants Utils', () => {
+  describe('buildCardSizes', () => {
+    test('should trim values and drop empty fields', () => {
+      expect(buildCardSizes([
+        { techSize: ' S ', wbSize: '42', price: 1500, skus: [' 2000000000011 '] },
+        { techSize: 'M', skus: [] }
+      ])).toEqual([
+        { techSize: 'S', wbSize: '42', price: 1500, skus: ['2000000000011'] },
+        { techSize: 'M' }
+      ]);
+    });
+  });
+
+  describe('validateCardVariants', () => {
+    test('should accept a size grid split between variants', () => {
+      expect(validateCardVariants([
+        { vendorCode: 'DRESS-RED', sizes: [{ techSize: 'S', skus: ['1'] }, { techSize: 'M', skus: ['2'] }] },
+        { vendorCode: 'DRESS-BLUE', sizes: [{ techSize: 'S', skus: ['3'] }, { techSize: 'M' }] }
+      ])).toEqual([]);
+    });
+
+    test('should accept a single size without techSize', () => {
+      expect(validateCardVariants([{ vendorCode: 'BAG-01', sizes: [{ price: 2000 }] }])).toEqual([]);
+    });
+
+    test('should report duplicate sizes, barcodes and vendor codes', () => {
+      expect(validateCardVariants([
+        { vendorCode: 'DRESS-RED', sizes: [{ techSize: 'S', skus: ['1'] }, { techSize: ' s ', skus: ['2'] }] },
+        { vendorCode: 'dress-red', sizes: [{ techSize: 'M', skus: ['2'] }, { price: 1000 }] }
+      ])).toEqual([
+        'Size " s " is listed more than once in variant "DRESS-RED"',
+        'Vendor code "dress-red" is used by several variants',
+        'Barcode 2 is used more than once (variant "DRESS-RED" and variant "dress-red")',
+        'Every size of variant "dress-red" needs techSize'
+      ]);
+    });
+  });
+
+  describe('assignBarcodes', () => {
+    test('should assign barcodes to sizes in order', () => {
+      expect(assignBarcodes(
+        [{ vendorCode: 'DRESS-RED', techSize: 'S' }, { techSize: 'M' }],
+        ['2000000000011', '2000000000012']
+      )).toEqual([
+        { vendorCode: 'DRESS-RED', techSize: 'S', sku: '2000000000011' },
+        { techSize: 'M', sku: '2000000000012' }
+      ]);
+    });
+
+    test('should fail when there are fewer barcodes than sizes', () => {
+      expect(() => assignBarcodes([{ techSize: 'S' }, { techSize: 'M' }], ['2000000000011']))
+        .toThrow('Expected 2 barcodes, got 1');
+    });
+  });
+});
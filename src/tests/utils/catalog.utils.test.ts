@@ -0,0 +1,68 @@
+import {
+  compactProductCard,
+  filterCatalog,
+  summarizeCatalog,
+  WildberriesProductCard
+} from '../../core/tools/product/catalog.utils';
+
+describe('Catalog Utils', () => {
+  const cards: WildberriesProductCard[] = [
+    {
+      nmID: 1,
+      vendorCode: 'DRESS-01',
+      title: 'Summer dress',
+      brand: 'Sunny',
+      subjectName: 'Dresses',
+      description: 'Light cotton dress',
+      photos: [{}, {}],
+      sizes: [{ techSize: 'S', skus: ['2000000000011'] }, { techSize: 'M', skus: ['2000000000012'] }]
+    },
+    { nmID: 2, vendorCode: 'DRESS-02', title: 'Evening dress', brand: 'Sunny', subjectName: 'Dresses', photos: [] },
+    { nmID: 3, vendorCode: 'BAG-01', title: 'Leather bag', brand: 'Urban', subjectName: 'Bags', description: ' ' }
+  ];
+
+  describe('compactProductCard', () => {
+    test('should keep identifying fields and flatten sizes', () => {
+      expect(compactProductCard(cards[0])).toEqual({
+        nmID: 1,
+        vendorCode: 'DRESS-01',
+        title: 'Summer dress',
+        brand: 'Sunny',
+        subjectName: 'Dresses',
+        photosCount: 2,
+        sizes: ['S', 'M'],
+        skus: ['2000000000011', '2000000000012'],
+        updatedAt: undefined
+      });
+    });
+  });
+
+  describe('summarizeCatalog', () => {
+    test('should count cards by subject and brand and cards missing content', () => {
+      expect(summarizeCatalog(cards)).toEqual({
+        totalCards: 3,
+        withoutPhotos: 2,
+        withoutDescription: 2,
+        subjects: [{ subjectName: 'Dresses', count: 2 }, { subjectName: 'Bags', count: 1 }],
+        brands: [{ brand: 'Sunny', count: 2 }, { brand: 'Urban', count: 1 }]
+      });
+    });
+
+    test('should limit the number of subjects and brands', () => {
+      expect(summarizeCatalog(cards, 1).subjects).toEqual([{ subjectName: 'Dresses', count: 2 }]);
+    });
+  });
+
+  describe('filterCatalog', () => {
+    test('should search title, vendor code and brand case-insensitively', () => {
+      expect(filterCatalog(cards, { textSearch: 'DRESS' }).map(card => card.nmID)).toEqual([1, 2]);
+      expect(filterCatalog(cards, { textSearch: 'bag-01' }).map(card => card.nmID)).toEqual([3]);
+      expect(filterCatalog(cards, { textSearch: 'urban' }).map(card => card.nmID)).toEqual([3]);
+    });
+
+    test('should combine filters', () => {
+      expect(filterCatalog(cards, { subjectName: 'dresses', withoutPhotos: true }).map(card => card.nmID)).toEqual([2]);
+      expect(filterCatalog(cards, { brand: 'Sunny', nmIDs: [1, 3] }).map(card => card.nmID)).toEqual([1]);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  describeCharacteristicType,
+  validateCharacteristics,
+  WildberriesCharacteristic
+} from '../../core/tools/product/characteristics.utils';
+
+describe('Characteristics Utils', () => {
+  const schema: WildberriesCharacteristic[] = [
+    { charcID: 14177449, name: 'Цвет', required: true, maxCount: 3, charcType: 1 },
+    { charcID: 90630, name: 'Высота предмета', required: false, unitName: 'см', maxCount: 0, charcType: 4 },
+    { charcID: 12, name: 'Комплектация', required: false, maxCount: 0, charcType: 1 },
+    { charcID: 13, name: 'Устаревшая', required: false, maxCount: 0, charcType: 0 }
+  ];
+
+  describe('describeCharacteristicType', () => {
+    test('should map the Wildberries charcType', () => {
+      expect(describeCharacteristicType(1)).toBe('strings');
+      expect(describeCharacteristicType(4)).toBe('number');
+      expect(describeCharacteristicType(0)).toBe('unused');
+    });
+  });
+
+  describe('validateCharacteristics', () => {
+    test('should convert valid characteristics to the API format', () => {
+      const result = validateCharacteristics(schema, [
+        { id: 14177449, value: ['красный', ' синий '] },
+        { id: 90630, value: '12,5' },
+        { id: 12, value: 'платье' }
+      ]);
+
+      expect(result.errors).toEqual([]);
+      expect(result.characteristics).toEqual([
+        { id: 14177449, value: ['красный', 'синий'] },
+        { id: 90630, value: 12.5 },
+        { id: 12, value: ['платье'] }
+      ]);
+    });
+
+    test('should report missing required characteristics', () => {
+      const result = validateCharacteristics(schema, [{ id: 90630, value: 10 }]);
+
+      expect(result.errors).toEqual(['Required characteristic "Цвет" (14177449) is missing']);
+    });
+
+    test('should report unknown, unused and mistyped characteristics', () => {
+      const result = validateCharacteristics(schema, [
+        { id: 14177449, value: ['красный', 'синий', 'белый', 'чёрный'] },
+        { id: 90630, value: 'высокий' },
+        { id: 13, value: 'да' },
+        { id: 999, value: 'нет' },
+        { id: 12, value: [' '] },
+        { id: 90630, value: '12' }
+      ]);
+
+      expect(result.characteristics).toEqual([]);
+      expect(result.errors).toEqual([
+        'Characteristic "Цвет" (14177449) accepts at most 3 values',
+        'Characteristic "Высота предмета" (90630) must be a number in см',
+        'Characteristic "Устаревшая" (13) is not used for this subject',
+        'Characteristic 999 does not exist for this subject',
+        'Characteristic "Комплектация" (12) must not be empty',
+        'Characteristic 90630 is listed more than once'
+      ]);
+    });
+
+    test('should not read blank numbers as zero', () => {
+      const result = validateCharacteristics(schema, [
+        { id: 14177449, value: 'красный' },
+        { id: 90630, value: '  ' }
+      ]);
+
+      expect(result.errors).toEqual(['Characteristic "Высота предмета" (90630) must be a number in см']);
+    });
+  });
+});
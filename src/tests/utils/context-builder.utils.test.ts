@@ -0,0 +1,140 @@
+import {
+  buildConversationContext,
+  buildSystemPromptWithSummary,
+  compressToolContent,
+  formatSummaryTranscript,
+  getHistoryTokenBudget,
+  splitIntoTurns,
+  MIN_HISTORY_TOKENS
+} from '../../core/conversations/context-builder.utils';
+import { Message } from '../../infrastructure/database/supabase.client';
+import { estimateMessageTokens } from '../../core/ai/token-calculator';
+
+describe('Context Builder Utils', () => {
+  let sequence = 0;
+  const message = (role: Message['role'], content: string, extra: Partial<Message> = {}): Message => ({
+    id: `msg-${++sequence}`,
+    conversation_id: 'conv-1',
+    role,
+    content,
+    created_at: new Date(Date.UTC(2026, 9, 18, 10, sequence)).toISOString(),
+    ...extra
+  });
+
+  const largeToolOutput = JSON.stringify({
+    success: true,
+    data: Array.from({ length: 100 }, (_, index) => ({ nmID: index, price: 1000 + index }))
+  });
+
+  describe('splitIntoTurns', () => {
+    test('should start a turn at every user message', () => {
+      const messages = [
+        message('user', 'Show prices'),
+        message('assistant', '', { tool_calls: [{ id: 'call-1', name: 'get_prices', args: {} }] }),
+        message('tool', largeToolOutput, { tool_call_id: 'call-1', tool_name: 'get_prices' }),
+        message('assistant', 'Here are the prices'),
+        message('user', 'Thanks')
+      ];
+
+      expect(splitIntoTurns(messages).map(turn => turn.length)).toEqual([4, 1]);
+    });
+  });
+
+  describe('compressToolContent', () => {
+    test('should keep short outputs', () => {
+      expect(compressToolContent('{"success":true,"data":[]}')).toBe('{"success":true,"data":[]}');
+    });
+
+    test('should keep only the outcome of long JSON outputs', () => {
+      const compressed = JSON.parse(compressToolContent(largeToolOutput));
+
+      expect(compressed).toEqual({
+        success: true,
+        note: 'Output of an earlier turn was shortened, call the tool again if its data is needed'
+      });
+    });
+
+    test('should truncate long text outputs', () => {
+      const compressed = compressToolContent('y'.repeat(5000));
+
+      expect(compressed.startsWith('y'.repeat(800))).toBe(true);
+      expect(compressed.length).toBeLessThan(1000);
+    });
+  });
+
+  describe('getHistoryTokenBudget', () => {
+    test('should leave room for the reply, the prompt, the summary and the tools', () => {
+      expect(getHistoryTokenBudget(128_000, 2048, 'x'.repeat(4000))).toBe(128_000 - 2048 - 1000 - 1000 - 4000);
+      expect(getHistoryTokenBudget(8192, 4096, 'x'.repeat(4000))).toBe(MIN_HISTORY_TOKENS);
+    });
+  });
+
+  describe('buildConversationContext', () => {
+    const history = () => [
+      message('user', 'Show prices'),
+      message('assistant', '', { tool_calls: [{ id: 'call-1', name: 'get_prices', args: {} }] }),
+      message('tool', largeToolOutput, { tool_call_id: 'call-1', tool_name: 'get_prices' }),
+      message('assistant', 'Here are the prices'),
+      message('user', 'Raise the first one'),
+      message('assistant', '', { tool_calls: [{ id: 'call-2', name: 'get_prices', args: {} }] }),
+      message('tool', largeToolOutput, { tool_call_id: 'call-2', tool_name: 'get_prices' })
+    ];
+
+    test('should compress tool outputs of earlier turns only', () => {
+      const messages = history();
+      const context = buildConversationContext(messages, 100_000);
+
+      expect(context.droppedMessages).toEqual([]);
+      expect(context.messages).toHaveLength(7);
+      expect(context.messages[2].content).toContain('shortened');
+      expect(context.messages[6].content).toBe(largeToolOutput);
+    });
+
+    const countTokens = (messages: Message[]) =>
+      messages.reduce((total, item) => total + estimateMessageTokens(item), 0);
+
+    test('should drop the oldest turns that don\'t fit', () => {
+      const messages = history();
+      const budget = countTokens(messages.slice(4));
+      const context = buildConversationContext(messages, budget);
+
+      expect(context.droppedMessages).toEqual(messages.slice(0, 4));
+      expect(context.messages).toEqual(messages.slice(4));
+      expect(context.estimatedTokens).toBe(budget);
+    });
+
+    test('should compress the current turn when it doesn\'t fit on its own', () => {
+      const messages = history();
+      const budget = countTokens(messages.slice(4)) - 1;
+      const context = buildConversationContext(messages, budget);
+
+      expect(context.messages.map(item => item.id)).toEqual(messages.map(item => item.id));
+      expect(context.messages[6].content).toContain('shortened');
+      expect(context.estimatedTokens).toBeLessThanOrEqual(budget);
+    });
+  });
+
+  describe('summary helpers', () => {
+    test('should add the summary to the system prompt', () => {
+      expect(buildSystemPromptWithSummary('You are an assistant', null)).toBe('You are an assistant');
+      expect(buildSystemPromptWithSummary('You are an assistant', 'The user sells sneakers.'))
+        .toContain('older messages are not shown):\nThe user sells sneakers.');
+    });
+
+    test('should format a transcript of the dropped messages', () => {
+      const transcript = formatSummaryTranscript([
+        message('user', 'Show prices'),
+        message('assistant', '', { tool_calls: [{ id: 'call-1', name: 'get_prices', args: { limit: 10 } }] }),
+        message('tool', '{"success":true,"data":[]}', { tool_call_id: 'call-1', tool_name: 'get_prices' }),
+        message('assistant', 'There are no goods yet')
+      ]);
+
+      expect(transcript).toBe([
+        'User: Show prices',
+        'Assistant:  [called get_prices({"limit":10})]',
+        'Tool get_prices: {"success":true,"data":[]}',
+        'Assistant: There are no goods yet'
+      ].join('\n'));
+    });
+  });
+});
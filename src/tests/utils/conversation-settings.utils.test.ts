@@ -0,0 +1,87 @@
+import {
+  applyConversationSettingsUpdate,
+  getConversationSettings,
+  ConversationSettings
+} from '../../core/conversations/conversation-settings.utils';
+
+describe('Conversation Settings Utils', () => {
+  const permittedModels = ['gpt-4o-mini', 'gpt-4.1', 'claude-3-5-haiku-20241022'];
+
+  const current: ConversationSettings = {
+    modelName: 'gpt-4o-mini',
+    temperature: 0.7,
+    maxTokens: 2048,
+    contextLength: 128_000
+  };
+
+  describe('getConversationSettings', () => {
+    test('should read the settings columns', () => {
+      expect(getConversationSettings({
+        id: 'conv-1',
+        user_id: 'user-1',
+        title: 'Prices',
+        created_at: '2026-10-01T00:00:00Z',
+        model_name: 'gpt-4.1',
+        temperature: 0,
+        max_tokens: 4096,
+        context_length: 64_000
+      })).toEqual({ modelName: 'gpt-4.1', temperature: 0, maxTokens: 4096, contextLength: 64_000 });
+    });
+
+    test('should fall back to the defaults and cap the context at the model window', () => {
+      expect(getConversationSettings({
+        id: 'conv-1',
+        user_id: 'user-1',
+        title: 'Prices',
+        created_at: '2026-10-01T00:00:00Z',
+        model_name: 'gpt-4o-mini',
+        context_length: 200_000
+      })).toEqual({ modelName: 'gpt-4o-mini', temperature: 0.7, maxTokens: 2048, contextLength: 128_000 });
+    });
+  });
+
+  describe('applyConversationSettingsUpdate', () => {
+    test('should use the window of a new model as the context length', () => {
+      const { settings, errors } = applyConversationSettingsUpdate(current, { modelName: 'claude-3-5-haiku-20241022' }, permittedModels);
+
+      expect(errors).toEqual([]);
+      expect(settings).toEqual({ ...current, modelName: 'claude-3-5-haiku-20241022', contextLength: 200_000 });
+    });
+
+    test('should keep an explicit context length within the window of the new model', () => {
+      const { settings, errors } = applyConversationSettingsUpdate(
+        current,
+        { modelName: 'gpt-4.1', contextLength: 300_000, maxTokens: 8000 },
+        permittedModels
+      );
+
+      expect(errors).toEqual([]);
+      expect(settings).toEqual({ modelName: 'gpt-4.1', temperature: 0.7, maxTokens: 8000, contextLength: 300_000 });
+    });
+
+    test('should report every invalid value', () => {
+      const { errors } = applyConversationSettingsUpdate(
+        current,
+        { modelName: 'gpt-4.1-mini', temperature: 3, maxTokens: 0.5, contextLength: 300_000 },
+        permittedModels
+      );
+
+      expect(errors).toEqual([
+        'Model "gpt-4.1-mini" is not available. Available models: gpt-4o-mini, gpt-4.1, claude-3-5-haiku-20241022',
+        'temperature must be a number between 0 and 2',
+        'maxTokens must be an integer between 1 and 16384',
+        'contextLength must be an integer between 8192 and 128000 for gpt-4o-mini'
+      ]);
+    });
+
+    test('should require room for the reply in the context', () => {
+      const { errors } = applyConversationSettingsUpdate(
+        { ...current, maxTokens: 16000 },
+        { contextLength: 10_000 },
+        permittedModels
+      );
+
+      expect(errors).toEqual(['maxTokens must be less than contextLength']);
+    });
+  });
+});
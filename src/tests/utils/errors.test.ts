@@ -4,6 +4,7 @@ import {
   BadRequestError,
   UnauthorizedError,
   ForbiddenError,
+  ModelNotEntitledError,
   NotFoundError,
   ConflictError,
   InternalServerError,
@@ -119,6 +120,20 @@ describe('Error Classes', () => {
     });
   });
 
+  describe('ModelNotEntitledError', () => {
+    test('should create a 403 error with the permitted models', () => {
+      const error = new ModelNotEntitledError('gpt-4.1', 'Free', ['gpt-4o-mini']);
+
+      expect(error).toBeInstanceOf(ForbiddenError);
+      expect(error).toBeInstanceOf(ModelNotEntitledError);
+      expect(error.message).toBe('Model "gpt-4.1" is not included in the Free plan. Available models: gpt-4o-mini');
+      expect(error.statusCode).toBe(403);
+      expect(error.modelName).toBe('gpt-4.1');
+      expect(error.planName).toBe('Free');
+      expect(error.permittedModels).toEqual(['gpt-4o-mini']);
+    });
+  });
+
   describe('NotFoundError', () => {
     test('should create NotFoundError with default message', () => {
       const error = new NotFoundError();
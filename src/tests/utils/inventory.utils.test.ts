@@ -0,0 +1,62 @@
+import {
+  buildStockCoverReport,
+  calculateDaysOfCover,
+  groupStocksByWarehouse,
+  WildberriesStockRecord
+} from '../../core/tools/product/inventory.utils';
+
+describe('Inventory Utils', () => {
+  const stocks: WildberriesStockRecord[] = [
+    { warehouseName: 'Коледино', nmId: 1, barcode: '111', quantity: 10, inWayToClient: 2 },
+    { warehouseName: 'Казань', nmId: 1, barcode: '111', quantity: 5, inWayToClient: 1 },
+    { warehouseName: 'Коледино', nmId: 2, barcode: '222', quantity: 100 },
+    { warehouseName: 'Казань', nmId: 3, barcode: '333', quantity: 0 },
+    { warehouseName: 'Казань', nmId: 4, barcode: '444', quantity: 7 },
+  ];
+
+  describe('groupStocksByWarehouse', () => {
+    test('should group stocks and sort warehouses by quantity', () => {
+      const result = groupStocksByWarehouse(stocks);
+
+      expect(result.map(w => w.warehouseName)).toEqual(['Коледино', 'Казань']);
+      expect(result[0]).toMatchObject({ totalQuantity: 110, inWayToClient: 2 });
+      expect(result[1].products).toHaveLength(3);
+    });
+  });
+
+  describe('calculateDaysOfCover', () => {
+    test('should divide stock by average daily sales', () => {
+      // 14 units in 7 days = 2 per day, 15 units last 7.5 days
+      expect(calculateDaysOfCover(15, 14, 7)).toBe(7.5);
+    });
+
+    test('should return null when nothing was sold', () => {
+      expect(calculateDaysOfCover(15, 0, 7)).toBeNull();
+    });
+
+    test('should return zero for empty stock', () => {
+      expect(calculateDaysOfCover(0, 14, 7)).toBe(0);
+    });
+  });
+
+  describe('buildStockCoverReport', () => {
+    test('should classify products and sort the most urgent first', () => {
+      const sold = [
+        ...Array(14).fill(1), // 1 unit per day, 15 in stock
+        ...Array(7).fill(2),  // 0.5 per day, 100 in stock
+        ...Array(3).fill(3),  // sold out
+      ];
+
+      const report = buildStockCoverReport(stocks, sold, 14, 30);
+
+      expect(report.map(item => [item.nmID, item.status])).toEqual([
+        [3, 'out_of_stock'],
+        [1, 'low'],
+        [2, 'ok'],
+        [4, 'no_sales'],
+      ]);
+      expect(report[1]).toMatchObject({ stock: 15, inWayToClient: 3, unitsSold: 14, avgDailySales: 1, daysOfCover: 15 });
+      expect(report[2].daysOfCover).toBe(200);
+    });
+  });
+});
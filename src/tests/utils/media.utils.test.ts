@@ -0,0 +1,124 @@
+import {
+  getMediaTypeByContentType,
+  getMediaTypeByUrl,
+  MAX_CARD_PHOTOS,
+  matchesMediaSignature,
+  mergeCardMedia,
+  validateCardMediaUrls,
+  validateMediaFile
+} from '../../core/media/media.utils';
+
+describe('Media Utils', () => {
+  describe('getMediaTypeByContentType', () => {
+    test('should detect photos and videos', () => {
+      expect(getMediaTypeByContentType('image/jpeg')).toBe('photo');
+      expect(getMediaTypeByContentType('Image/PNG; charset=binary')).toBe('photo');
+      expect(getMediaTypeByContentType('video/quicktime')).toBe('video');
+      expect(getMediaTypeByContentType('image/gif')).toBeNull();
+    });
+  });
+
+  describe('getMediaTypeByUrl', () => {
+    test('should detect the format by the extension of the path', () => {
+      expect(getMediaTypeByUrl('https://cdn.example.com/photos/dress.JPG?width=900')).toBe('photo');
+      expect(getMediaTypeByUrl('https://cdn.example.com/video.mp4')).toBe('video');
+      expect(getMediaTypeByUrl('https://cdn.example.com/dress')).toBeNull();
+      expect(getMediaTypeByUrl('not a url')).toBeNull();
+    });
+  });
+
+  describe('validateMediaFile', () => {
+    test('should accept files within the limits', () => {
+      expect(validateMediaFile('image/webp', 1024)).toBeNull();
+      expect(validateMediaFile('video/mp4', 50 * 1024 * 1024)).toBeNull();
+    });
+
+    test('should reject unsupported, empty and too large files', () => {
+      expect(validateMediaFile('application/pdf', 1024)).toMatch(/^Unsupported media format application\/pdf/);
+      expect(validateMediaFile('image/png', 0)).toBe('Media file is empty');
+      expect(validateMediaFile('image/jpeg', 33 * 1024 * 1024)).toMatch(/^The photo is too large/);
+    });
+  });
+
+  describe('validateCardMediaUrls', () => {
+    test('should accept photos and one video', () => {
+      expect(validateCardMediaUrls([
+        'https://cdn.example.com/1.jpg',
+        'https://cdn.example.com/2.png',
+        'https://cdn.example.com/video.mov'
+      ])).toEqual([]);
+    });
+
+    test('should report insecure links, unsupported formats and duplicates', () => {
+      expect(validateCardMediaUrls([
+        'http://cdn.example.com/1.jpg',
+        'https://cdn.example.com/1.gif',
+        'https://cdn.example.com/2.jpg',
+        'https://cdn.example.com/2.jpg'
+      ])).toEqual([
+        'http://cdn.example.com/1.jpg is not a public https link',
+        'https://cdn.example.com/1.gif has an unsupported format. Allowed formats: jpg, jpeg, png, webp, mp4, mov',
+        'The same media link is listed more than once'
+      ]);
+    });
+
+    test('should enforce the card limits', () => {
+      const photos = Array.from({ length: MAX_CARD_PHOTOS + 1 }, (_, index) => `https://cdn.example.com/${index}.jpg`);
+
+      expect(validateCardMediaUrls([...photos, 'https://cdn.example.com/a.mp4', 'https://cdn.example.com/b.mp4'])).toEqual([
+        `A card can have at most ${MAX_CARD_PHOTOS} photos, got ${MAX_CARD_PHOTOS + 1}`,
+        'A card can have at most 1 video, got 2'
+      ]);
+    });
+  });
+
+  describe('matchesMediaSignature', () => {
+    test('should accept files that start with the signature of their format', () => {
+      expect(matchesMediaSignature('image/jpeg', Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00]))).toBe(true);
+      expect(matchesMediaSignature('image/png', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]))).toBe(true);
+      expect(matchesMediaSignature('image/webp', Buffer.from('RIFF\x00\x00\x00\x00WEBPVP8 ', 'latin1'))).toBe(true);
+      expect(matchesMediaSignature('video/mp4', Buffer.from('\x00\x00\x00\x18ftypmp42', 'latin1'))).toBe(true);
+      expect(matchesMediaSignature('video/quicktime; charset=binary', Buffer.from('\x00\x00\x00\x08wide', 'latin1'))).toBe(true);
+    });
+
+    test('should reject files whose content doesn\'t match the declared format', () => {
+      expect(matchesMediaSignature('image/jpeg', Buffer.from('<html></html>'))).toBe(false);
+      expect(matchesMediaSignature('image/png', Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe(false);
+      expect(matchesMediaSignature('video/mp4', Buffer.from('\x00\x00\x00\x08wide', 'latin1'))).toBe(false);
+      expect(matchesMediaSignature('application/pdf', Buffer.from('%PDF-1.7'))).toBe(false);
+    });
+  });
+
+  describe('mergeCardMedia', () => {
+    const current = {
+      photos: ['https://basket-01.wbbasket.ru/1.webp', 'https://basket-01.wbbasket.ru/2.webp'],
+      video: 'https://video.wbbasket.ru/old.mp4'
+    };
+
+    test('should keep the current photos and add the new ones after them', () => {
+      expect(mergeCardMedia(current, ['https://cdn.example.com/3.jpg'], 'end')).toEqual({
+        media: [
+          'https://basket-01.wbbasket.ru/1.webp',
+          'https://basket-01.wbbasket.ru/2.webp',
+          'https://cdn.example.com/3.jpg',
+          'https://video.wbbasket.ru/old.mp4'
+        ],
+        photosCount: 3
+      });
+    });
+
+    test('should make a new photo the main one and replace the video', () => {
+      expect(mergeCardMedia(current, [
+        'https://basket-01.wbbasket.ru/2.webp',
+        'https://cdn.example.com/new.mp4'
+      ], 'start')).toEqual({
+        media: [
+          'https://basket-01.wbbasket.ru/2.webp',
+          'https://basket-01.wbbasket.ru/1.webp',
+          'https://cdn.example.com/new.mp4'
+        ],
+        photosCount: 2
+      });
+    });
+  });
+});
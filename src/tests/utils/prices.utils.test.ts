@@ -0,0 +1,114 @@
+import {
+  buildPriceDiff,
+  checkPriceGuardrails,
+  CurrentPrice,
+  parsePriceRows,
+  readPriceFileRows,
+  splitIntoBatches,
+  validatePriceChanges
+} from '../../core/prices/prices.utils';
+
+describe('Prices Utils', () => {
+  const current = new Map<number, CurrentPrice>([
+    [1, { nmID: 1, vendorCode: 'DRESS-RED', price: 3000, discount: 10 }],
+    [2, { nmID: 2, vendorCode: 'DRESS-BLUE', price: 2000, discount: 0 }]
+  ]);
+
+  describe('readPriceFileRows', () => {
+    test('should read CSV files and reject other types', () => {
+      expect(readPriceFileRows('text/csv; charset=utf-8', Buffer.from('nmID;price\n1;2500'))).toEqual([['nmID', 'price'], ['1', '2500']]);
+      expect(() => readPriceFileRows('application/pdf', Buffer.from('%PDF'))).toThrow('Unsupported file type "application/pdf"');
+    });
+  });
+
+  describe('parsePriceRows', () => {
+    test('should read changes by the header names', () => {
+      expect(parsePriceRows([
+        ['Артикул WB', 'Новая цена', 'Скидка'],
+        ['1', '2 500', '15%'],
+        ['2', '', '5']
+      ])).toEqual({
+        changes: [{ row: 2, nmID: 1, price: 2500, discount: 15 }, { row: 3, nmID: 2, discount: 5 }],
+        errors: []
+      });
+    });
+
+    test('should report rows without an nmID or any change', () => {
+      expect(parsePriceRows([['nmID', 'price'], ['abc', '100'], ['2', '']]).errors).toEqual([
+        { row: 2, error: 'Invalid nmID "abc"' },
+        { row: 3, nmID: 2, error: 'Neither price nor discount is set' }
+      ]);
+    });
+
+    test('should require the nmID and a price or discount column', () => {
+      expect(parsePriceRows([['nmID', 'name'], ['1', 'Dress']]).errors).toEqual([
+        { error: 'The file needs an nmID column and a price or discount column' }
+      ]);
+    });
+  });
+
+  describe('validatePriceChanges', () => {
+    test('should accept valid changes', () => {
+      expect(validatePriceChanges([{ nmID: 1, price: 2500 }, { nmID: 2, discount: 30 }], current)).toEqual([]);
+    });
+
+    test('should reject invalid values, unknown goods and duplicates', () => {
+      expect(validatePriceChanges([
+        { row: 2, nmID: 1, price: 99.5 },
+        { row: 3, nmID: 2, discount: 100 },
+        { row: 4, nmID: 3, price: 1000 },
+        { row: 5, nmID: 1, price: 2000 }
+      ], current).map(error => error.row)).toEqual([2, 3, 4, 5]);
+    });
+
+    test('should reject a price with discount 3 or more times lower than the current one', () => {
+      expect(validatePriceChanges([{ nmID: 1, price: 900 }], current)).toEqual([
+        { nmID: 1, error: 'The price with discount 810 is 3 or more times lower than the current 2700' }
+      ]);
+    });
+  });
+
+  describe('buildPriceDiff', () => {
+    test('should compare changes with the current prices and skip unchanged goods', () => {
+      expect(buildPriceDiff([{ nmID: 1, discount: 20 }, { nmID: 2, price: 2000, discount: 0 }], current)).toEqual([{
+        nmID: 1,
+        vendorCode: 'DRESS-RED',
+        oldPrice: 3000,
+        newPrice: 3000,
+        oldDiscount: 10,
+        newDiscount: 20,
+        oldDiscountedPrice: 2700,
+        newDiscountedPrice: 2400
+      }]);
+    });
+  });
+
+  describe('checkPriceGuardrails', () => {
+    const diff = buildPriceDiff([{ nmID: 1, discount: 50 }, { nmID: 2, price: 2100 }], current);
+    const noRules = { min_price: null, max_price: null, max_change_percent: null, forbidden_nm_ids: [] };
+
+    test('should accept any change without rules', () => {
+      expect(checkPriceGuardrails(diff, noRules)).toEqual([]);
+    });
+
+    test('should check the price with discount against the limits', () => {
+      expect(checkPriceGuardrails(diff, { ...noRules, min_price: 1600, max_price: 2050 })).toEqual([
+        { nmID: 1, error: 'The price with discount 1500 is below your minimum price 1600' },
+        { nmID: 2, error: 'The price with discount 2100 is above your maximum price 2050' }
+      ]);
+    });
+
+    test('should limit the change in percent and refuse forbidden goods', () => {
+      expect(checkPriceGuardrails(diff, { ...noRules, max_change_percent: 10, forbidden_nm_ids: [2] })).toEqual([
+        { nmID: 1, error: 'The price with discount changes by 44.4%, your pricing rules allow at most 10%' },
+        { nmID: 2, error: 'Price changes are forbidden for this product by your pricing rules' }
+      ]);
+    });
+  });
+
+  describe('splitIntoBatches', () => {
+    test('should split items into batches of the given size', () => {
+      expect(splitIntoBatches([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { TokenBucket } from '../../infrastructure/marketplaces/rate-limiter';
+
+describe('TokenBucket', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  test('should allow a burst up to capacity without waiting', () => {
+    const bucket = new TokenBucket({ capacity: 3, intervalMs: 1000 }, clock);
+
+    expect(bucket.reserve().waitMs).toBe(0);
+    expect(bucket.reserve().waitMs).toBe(0);
+    expect(bucket.reserve().waitMs).toBe(0);
+  });
+
+  test('should queue requests over capacity one interval apart', () => {
+    const bucket = new TokenBucket({ capacity: 1, intervalMs: 1000 }, clock);
+
+    expect(bucket.reserve().waitMs).toBe(0);
+    expect(bucket.reserve().waitMs).toBe(1000);
+    expect(bucket.reserve().waitMs).toBe(2000);
+  });
+
+  test('should refill tokens over time', () => {
+    const bucket = new TokenBucket({ capacity: 2, intervalMs: 1000 }, clock);
+
+    bucket.reserve();
+    bucket.reserve();
+    now = 1500;
+
+    expect(bucket.reserve().waitMs).toBe(0);
+    expect(bucket.reserve().waitMs).toBe(500);
+  });
+
+  test('should not reserve when the wait is longer than allowed', () => {
+    const bucket = new TokenBucket({ capacity: 1, intervalMs: 60000 }, clock);
+
+    bucket.reserve();
+
+    expect(bucket.reserve(30000)).toEqual({ reserved: false, waitMs: 60000 });
+    now = 60000;
+    expect(bucket.reserve(30000)).toEqual({ reserved: true, waitMs: 0 });
+  });
+
+  test('should wait until a block set from Retry-After is over', () => {
+    const bucket = new TokenBucket({ capacity: 5, intervalMs: 100 }, clock);
+
+    bucket.block(2000);
+    now = 500;
+
+    expect(bucket.reserve().waitMs).toBe(1500);
+  });
+});
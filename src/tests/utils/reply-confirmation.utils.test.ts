@@ -0,0 +1,109 @@
+import { AIMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
+import {
+  findUnconfirmedReplyCalls,
+  isAffirmativeAnswer,
+  isReplyConfirmed,
+  normalizeReplyText
+} from '../../core/tools/feedback/reply-confirmation.utils';
+
+describe('Reply Confirmation Utils', () => {
+  const draft = 'Спасибо за отзыв! Рады, что товар вам понравился.';
+
+  const replyCall = (text: string) => new AIMessage({
+    content: '',
+    tool_calls: [{ id: 'call_1', name: 'reply_to_wildberries_feedback', args: { id: 'fb1', text } }]
+  });
+
+  describe('normalizeReplyText', () => {
+    test('should ignore markdown quotes, emphasis, case and whitespace', () => {
+      expect(normalizeReplyText(`> **Спасибо   за отзыв!**\n> «Рады»`)).toBe('спасибо за отзыв! рады');
+    });
+  });
+
+  describe('isReplyConfirmed', () => {
+    test('should confirm a draft shown before the latest user message', () => {
+      const messages = [
+        new SystemMessage('system'),
+        new HumanMessage('Ответь на отзыв fb1'),
+        new AIMessage(`Черновик ответа:\n\n> ${draft}\n\nОтправить?`),
+        new HumanMessage('Да'),
+      ];
+
+      expect(isReplyConfirmed(messages, draft)).toBe(true);
+    });
+
+    test('should not confirm a draft the user has not answered yet', () => {
+      const messages = [
+        new HumanMessage('Ответь на отзыв fb1'),
+        new AIMessage(`Черновик ответа:\n${draft}`),
+      ];
+
+      expect(isReplyConfirmed(messages, draft)).toBe(false);
+    });
+
+    test('should not confirm text that differs from the draft', () => {
+      const messages = [
+        new HumanMessage('Ответь на отзыв fb1'),
+        new AIMessage(`Черновик ответа:\n${draft}`),
+        new HumanMessage('Да'),
+      ];
+
+      expect(isReplyConfirmed(messages, 'Спасибо!!! Приходите ещё')).toBe(false);
+    });
+
+    test('should not confirm a reply that is only a part of the shown draft', () => {
+      const messages = [
+        new HumanMessage('Ответь на отзыв fb1'),
+        new AIMessage(`Черновик ответа:\n${draft}\nОтправить?`),
+        new HumanMessage('Да'),
+      ];
+
+      expect(isReplyConfirmed(messages, 'Спасибо за отзыв!')).toBe(false);
+    });
+
+    test('should not confirm a draft the user asked to change', () => {
+      const messages = [
+        new HumanMessage('Ответь на отзыв fb1'),
+        new AIMessage(`Черновик ответа:\n> ${draft}`),
+        new HumanMessage('нет, перепиши'),
+      ];
+
+      expect(isReplyConfirmed(messages, draft)).toBe(false);
+    });
+  });
+
+  describe('isAffirmativeAnswer', () => {
+    test('should accept approvals and reject objections', () => {
+      expect(isAffirmativeAnswer('Да, отправляй!')).toBe(true);
+      expect(isAffirmativeAnswer('ok, post it')).toBe(true);
+      expect(isAffirmativeAnswer('no, rewrite it')).toBe(false);
+      expect(isAffirmativeAnswer('да, но короче')).toBe(false);
+      expect(isAffirmativeAnswer('Сделай теплее')).toBe(false);
+    });
+  });
+
+  describe('findUnconfirmedReplyCalls', () => {
+    test('should flag a reply posted in the same turn it was requested', () => {
+      const messages = [new HumanMessage('Ответь на отзыв fb1'), replyCall(draft)];
+
+      expect(findUnconfirmedReplyCalls(messages).map(call => call.id)).toEqual(['call_1']);
+    });
+
+    test('should allow a confirmed reply and ignore other tools', () => {
+      const messages = [
+        new HumanMessage('Ответь на отзыв fb1'),
+        new AIMessage(`Черновик ответа:\n\n${draft}`),
+        new HumanMessage('Отправляй'),
+        new AIMessage({
+          content: '',
+          tool_calls: [
+            { id: 'call_1', name: 'reply_to_wildberries_feedback', args: { id: 'fb1', text: draft } },
+            { id: 'call_2', name: 'get_wildberries_unanswered_feedbacks', args: {} }
+          ]
+        })
+      ];
+
+      expect(findUnconfirmedReplyCalls(messages)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  applyRepricingAction,
+  buildRepricingProducts,
+  evaluateRepricingRule,
+  getRepricingRunStatus,
+  matchesRepricingCondition,
+  normalizeRepricingAction,
+  normalizeRepricingCondition,
+  RepricingProduct
+} from '../../core/repricing/repricing.utils';
+import { CurrentPrice } from '../../core/prices/prices.utils';
+
+describe('Repricing Utils', () => {
+  const current = new Map<number, CurrentPrice>([
+    [1, { nmID: 1, vendorCode: 'DRESS-RED', price: 3000, discount: 10 }],
+    [2, { nmID: 2, vendorCode: 'DRESS-BLUE', price: 1000, discount: 0 }],
+    [3, { nmID: 3, vendorCode: 'DRESS-GREEN', price: 2000, discount: 5 }]
+  ]);
+  const products: RepricingProduct[] = buildRepricingProducts(current, [
+    { nmID: 1, stock: 50, inWayToClient: 0, unitsSold: 0, avgDailySales: 0, daysOfCover: null, status: 'no_sales' },
+    { nmID: 2, stock: 2, inWayToClient: 0, unitsSold: 14, avgDailySales: 1, daysOfCover: 2, status: 'low' }
+  ]);
+
+  describe('buildRepricingProducts', () => {
+    test('should join prices with stock, goods without stock records have none', () => {
+      expect(products.map(product => [product.nmID, product.stock, product.daysOfCover])).toEqual([
+        [1, 50, null],
+        [2, 2, 2],
+        [3, 0, null]
+      ]);
+    });
+  });
+
+  describe('matchesRepricingCondition', () => {
+    test('should compare the stock with the quantity', () => {
+      expect(matchesRepricingCondition({ type: 'stock_above', quantity: 10 }, products[0])).toBe(true);
+      expect(matchesRepricingCondition({ type: 'stock_above', quantity: 50 }, products[0])).toBe(false);
+      expect(matchesRepricingCondition({ type: 'stock_below', quantity: 5 }, products[1])).toBe(true);
+    });
+
+    test('should match goods in stock that sell out within the days', () => {
+      expect(matchesRepricingCondition({ type: 'sells_out_within', days: 3 }, products[1])).toBe(true);
+      expect(matchesRepricingCondition({ type: 'sells_out_within', days: 1 }, products[1])).toBe(false);
+      expect(matchesRepricingCondition({ type: 'sells_out_within', days: 3 }, products[0])).toBe(false);
+      expect(matchesRepricingCondition({ type: 'sells_out_within', days: 3 }, products[2])).toBe(false);
+    });
+  });
+
+  describe('applyRepricingAction', () => {
+    test('should change the price or the discount', () => {
+      expect(applyRepricingAction({ type: 'change_price', percent: 5 }, current.get(2)!)).toEqual({ nmID: 2, price: 1050 });
+      expect(applyRepricingAction({ type: 'change_price', percent: -10 }, current.get(1)!)).toEqual({ nmID: 1, price: 2700 });
+      expect(applyRepricingAction({ type: 'set_discount', discount: 20 }, current.get(1)!)).toEqual({ nmID: 1, discount: 20 });
+      expect(applyRepricingAction({ type: 'set_price', price: 2500 }, current.get(3)!)).toEqual({ nmID: 3, price: 2500 });
+    });
+
+    test('should skip goods that already have the price', () => {
+      expect(applyRepricingAction({ type: 'set_discount', discount: 10 }, current.get(1)!)).toBeNull();
+      expect(applyRepricingAction({ type: 'set_price', price: 1000 }, current.get(2)!)).toBeNull();
+    });
+  });
+
+  describe('evaluateRepricingRule', () => {
+    test('should change the goods in scope that match the condition', () => {
+      expect(evaluateRepricingRule({
+        nm_ids: [],
+        condition: { type: 'stock_below', quantity: 10 },
+        action: { type: 'set_discount', discount: 0 }
+      }, products)).toEqual([{ nmID: 3, discount: 0 }]);
+
+      expect(evaluateRepricingRule({
+        nm_ids: [1, 2],
+        condition: { type: 'always' },
+        action: { type: 'change_price', percent: 5 }
+      }, products)).toEqual([{ nmID: 1, price: 3150 }, { nmID: 2, price: 1050 }]);
+    });
+  });
+
+  describe('normalizeRepricingCondition and normalizeRepricingAction', () => {
+    test('should keep only the fields of the type', () => {
+      expect(normalizeRepricingCondition({ type: 'sells_out_within', days: '3', quantity: 5 })).toEqual({ type: 'sells_out_within', days: 3 });
+      expect(normalizeRepricingAction({ type: 'change_price', percent: 5, price: 100 })).toEqual({ type: 'change_price', percent: 5 });
+    });
+  });
+
+  describe('getRepricingRunStatus', () => {
+    const diff = [{ nmID: 1, oldPrice: 3000, newPrice: 3000, oldDiscount: 10, newDiscount: 20, oldDiscountedPrice: 2700, newDiscountedPrice: 2400 }];
+
+    test('should describe the outcome of the submission', () => {
+      expect(getRepricingRunStatus({ dryRun: false, errors: [{ nmID: 1, error: 'Too low' }], diff, uploads: [] })).toBe('blocked');
+      expect(getRepricingRunStatus({ dryRun: false, errors: [], diff: [], uploads: [] })).toBe('no_changes');
+      expect(getRepricingRunStatus({ dryRun: true, errors: [], diff, uploads: [] })).toBe('dry_run');
+      expect(getRepricingRunStatus({ dryRun: false, errors: [], diff, uploads: [{ count: 1, uploadID: 42 }] })).toBe('applied');
+      expect(getRepricingRunStatus({ dryRun: false, errors: [], diff, uploads: [{ count: 1, error: 'Rejected' }] })).toBe('failed');
+    });
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, test, expect, jest, beforeEach } from '@jest/globals';
 import { Response } from 'express';
 import { handleErrorResponse, validateRequiredFields } from '../../shared/utils/response-handlers';
-import { AppError, BadRequestError, UnauthorizedError, NotFoundError } from '../../shared/utils/errors';
+import { AppError, BadRequestError, UnauthorizedError, NotFoundError, ModelNotEntitledError } from '../../shared/utils/errors';
 
 // Mock logger
 jest.mock('../../shared/utils/logger', () => ({
@@ -52,6 +52,22 @@ describe('Response Handlers', () => {
       });
     });
 
+    test('should add the type and permitted models of ModelNotEntitledError', () => {
+      const error = new ModelNotEntitledError('gpt-4.1', 'Free', ['gpt-4o-mini']);
+
+      handleErrorResponse(error, mockResponse as Response, 'process chat message');
+
+      expect(mockStatus).toHaveBeenCalledWith(403);
+      expect(mockJson).toHaveBeenCalledWith({
+        error: error.message,
+        details: error.message,
+        type: 'model_not_entitled',
+        modelName: 'gpt-4.1',
+        planName: 'Free',
+        permittedModels: ['gpt-4o-mini']
+      });
+    });
+
     test('should handle access denied errors', () => {
       const error = new Error('Access denied to resource');
       
@@ -0,0 +1,86 @@
+import { tool } from '@langchain/core/tools';
+import { ToolMessage } from '@langchain/core/messages';
+import { z } from 'zod';
+import {
+  MAX_RESULT_ARRAY_ITEMS,
+  MAX_RESULT_STRING_LENGTH,
+  shapeToolResult,
+  truncateResult,
+  withResultShaping
+} from '../../core/tools/result-shaping.utils';
+
+describe('Result Shaping Utils', () => {
+  const cards = Array.from({ length: 50 }, (_, index) => ({
+    nmID: index + 1,
+    vendorCode: `ART-${index + 1}`,
+    title: `Product ${index + 1}`,
+    description: 'x'.repeat(2000),
+    photos: [{ big: 'https://example.com/1.jpg' }, { big: 'https://example.com/2.jpg' }],
+    nmUUID: 'uuid'
+  }));
+  const cardsResult = JSON.stringify({ success: true, data: { cards, cursor: { total: 50 } } });
+
+  describe('truncateResult', () => {
+    test('should keep the first array items and note how many were omitted', () => {
+      const result = truncateResult({ items: Array.from({ length: 25 }, (_, index) => index) });
+
+      expect(result.items).toHaveLength(MAX_RESULT_ARRAY_ITEMS + 1);
+      expect(result.items[MAX_RESULT_ARRAY_ITEMS]).toBe('... 5 more items (25 in total) omitted');
+    });
+
+    test('should shorten long strings', () => {
+      const result = truncateResult({ text: 'a'.repeat(MAX_RESULT_STRING_LENGTH + 10) });
+
+      expect(result.text).toBe(`${'a'.repeat(MAX_RESULT_STRING_LENGTH)}... (${MAX_RESULT_STRING_LENGTH + 10} characters)`);
+    });
+  });
+
+  describe('shapeToolResult', () => {
+    test('should pass small results through without an artifact', () => {
+      const content = JSON.stringify({ success: true, data: [1, 2, 3] });
+
+      expect(shapeToolResult('get_wildberries_seller_warehouses', content)).toEqual({ content });
+    });
+
+    test('should pass results that are not JSON through', () => {
+      const content = 'error: '.repeat(1000);
+
+      expect(shapeToolResult('get_wildberries_seller_warehouses', content)).toEqual({ content });
+    });
+
+    test('should project card fields, truncate and keep the full result as artifact', () => {
+      const { content, artifact } = shapeToolResult('get_wildberries_seller_product_cards', cardsResult);
+      const shaped = JSON.parse(content);
+
+      expect(content.length).toBeLessThan(cardsResult.length / 5);
+      expect(shaped.success).toBe(true);
+      expect(shaped.shortened).toBe(true);
+      expect(shaped.data.cards).toHaveLength(MAX_RESULT_ARRAY_ITEMS + 1);
+      expect(shaped.data.cards[0]).toMatchObject({ nmID: 1, vendorCode: 'ART-1', photosCount: 2 });
+      expect(shaped.data.cards[0]).not.toHaveProperty('photos');
+      expect(shaped.data.cards[0]).not.toHaveProperty('nmUUID');
+      expect(artifact).toEqual(JSON.parse(cardsResult));
+    });
+  });
+
+  describe('withResultShaping', () => {
+    test('should return a ToolMessage with shaped content and the full result as artifact', async () => {
+      const baseTool = tool(async () => cardsResult, {
+        name: 'get_wildberries_seller_product_cards',
+        description: 'Test tool',
+        schema: z.object({})
+      });
+
+      const message = await withResultShaping(baseTool).invoke({
+        id: 'call_1',
+        name: 'get_wildberries_seller_product_cards',
+        args: {},
+        type: 'tool_call'
+      }) as ToolMessage;
+
+      expect(message).toBeInstanceOf(ToolMessage);
+      expect(JSON.parse(message.content as string).shortened).toBe(true);
+      expect(message.artifact.data.cards).toHaveLength(50);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import zlib from 'zlib';
+import { MAX_XLSX_ENTRY_BYTES, parseCsv, parseXlsx } from '../../shared/utils/spreadsheet.utils';
+
+/**
+ * Build a zip archive with deflated entries, checksums are not verified by the reader
+ * @param declaredSizes - Uncompressed sizes written instead of the real ones
+ */
+function createZip(files: Record<string, string>, declaredSizes: Record<string, number> = {}): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuffer = Buffer.from(name, 'utf8');
+    const data = zlib.deflateRawSync(Buffer.from(content, 'utf8'));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    localParts.push(local, nameBuffer, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(declaredSizes[name] ?? Buffer.byteLength(content), 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, nameBuffer);
+
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+describe('Spreadsheet Utils', () => {
+  describe('parseCsv', () => {
+    test('should detect the semicolon delimiter and skip empty lines', () => {
+      expect(parseCsv('\uFEFFnmID;price;discount\r\n123;1 500;10\r\n\r\n456;2000;\r\n')).toEqual([
+        ['nmID', 'price', 'discount'],
+        ['123', '1 500', '10'],
+        ['456', '2000', '']
+      ]);
+    });
+
+    test('should read quoted cells with delimiters, quotes and line breaks', () => {
+      expect(parseCsv('name,price\n"Dress, red ""summer""",1500\n"Two\nlines",900')).toEqual([
+        ['name', 'price'],
+        ['Dress, red "summer"', '1500'],
+        ['Two\nlines', '900']
+      ]);
+    });
+  });
+
+  describe('parseXlsx', () => {
+    test('should read the first sheet with shared and inline strings', () => {
+      const workbook = createZip({
+        'xl/sharedStrings.xml': '<sst><si><t>nmID</t></si><si><r><t>pri</t></r><r><t>ce</t></r></si><si><t>Tom &amp; Co</t></si></sst>',
+        'xl/worksheets/sheet2.xml': '<worksheet><sheetData><row r="1"><c r="A1"><v>1</v></c></row></sheetData></worksheet>',
+        'xl/worksheets/sheet1.xml': [
+          '<worksheet><sheetData>',
+          '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="inlineStr"><is><t>note</t></is></c></row>',
+          '<row r="2"><c r="A2"><v>123</v></c><c r="B2"><v>1500</v></c><c r="D2" t="s"><v>2</v></c></row>',
+          '<row r="3"><c r="A3"/></row>',
+          '</sheetData></worksheet>'
+        ].join('')
+      });
+
+      expect(parseXlsx(workbook)).toEqual([
+        ['nmID', 'price', '', 'note'],
+        ['123', '1500', '', 'Tom & Co']
+      ]);
+    });
+
+    test('should read the first sheet of the workbook order', () => {
+      const workbook = createZip({
+        'xl/workbook.xml': '<workbook><sheets><sheet name="Prices" sheetId="2" r:id="rId7"/><sheet name="Notes" sheetId="1" r:id="rId1"/></sheets></workbook>',
+        'xl/_rels/workbook.xml.rels': [
+          '<Relationships>',
+          '<Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/>',
+          '<Relationship Id="rId7" Type="worksheet" Target="/xl/worksheets/sheet2.xml"/>',
+          '</Relationships>'
+        ].join(''),
+        'xl/worksheets/sheet1.xml': '<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>notes</t></is></c></row></sheetData></worksheet>',
+        'xl/worksheets/sheet2.xml': '<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>nmID</t></is></c></row></sheetData></worksheet>'
+      });
+
+      expect(parseXlsx(workbook)).toEqual([['nmID']]);
+    });
+
+    test('should reject sheets that expand beyond the size limit', () => {
+      const content = '<worksheet>' + ' '.repeat(MAX_XLSX_ENTRY_BYTES) + '</worksheet>';
+
+      expect(() => parseXlsx(createZip({ 'xl/worksheets/sheet1.xml': content })))
+        .toThrow('The workbook is too large to read');
+      // The reader doesn't rely on the size written in the archive
+      expect(() => parseXlsx(createZip({ 'xl/worksheets/sheet1.xml': content }, { 'xl/worksheets/sheet1.xml': 100 })))
+        .toThrow('The workbook is too large to read');
+    });
+
+    test('should not read files other than the sheet and the shared strings', () => {
+      const workbook = createZip({
+        'xl/media/image1.png': 'image',
+        'xl/worksheets/sheet1.xml': '<worksheet><sheetData><row r="1"><c r="A1"><v>1</v></c></row></sheetData></worksheet>'
+      }, { 'xl/media/image1.png': MAX_XLSX_ENTRY_BYTES * 10 });
+
+      expect(parseXlsx(workbook)).toEqual([['1']]);
+    });
+
+    test('should reject files that are not zip archives', () => {
+      expect(() => parseXlsx(Buffer.from('nmID;price\n123;1500'))).toThrow('The file is not a valid XLSX workbook');
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  aggregateByNmId,
+  aggregateByPeriod,
+  filterByDateRange,
+  getPeriodKey,
+  isReturnRecord,
+  summarizeOrders,
+  summarizeSales,
+  WildberriesOrderRecord,
+  WildberriesSaleRecord
+} from '../../core/tools/statistics/statistics.utils';
+
+describe('Statistics Utils', () => {
+  const sales: WildberriesSaleRecord[] = [
+    { date: '2024-05-06T10:00:00', nmId: 1, saleID: 'S1', priceWithDisc: 1000, forPay: 850, supplierArticle: 'A-1' },
+    { date: '2024-05-07T12:00:00', nmId: 1, saleID: 'S2', priceWithDisc: 1000, forPay: 850, supplierArticle: 'A-1' },
+    { date: '2024-05-08T09:00:00', nmId: 2, saleID: 'S3', priceWithDisc: 2500.5, forPay: 2100, supplierArticle: 'B-2' },
+    { date: '2024-05-13T15:00:00', nmId: 1, saleID: 'R1', priceWithDisc: -1000, forPay: -850, supplierArticle: 'A-1' },
+  ];
+
+  const orders: WildberriesOrderRecord[] = [
+    { date: '2024-05-06T10:00:00', nmId: 1, priceWithDisc: 1000 },
+    { date: '2024-05-06T11:00:00', nmId: 2, priceWithDisc: 2500, isCancel: true },
+    { date: '2024-06-01T11:00:00', nmId: 2, priceWithDisc: 2500 },
+  ];
+
+  describe('isReturnRecord', () => {
+    test('should detect returns by sale ID prefix', () => {
+      expect(isReturnRecord({ saleID: 'R123' })).toBe(true);
+      expect(isReturnRecord({ saleID: 'S123' })).toBe(false);
+    });
+  });
+
+  describe('filterByDateRange', () => {
+    test('should keep records inside an inclusive date range', () => {
+      const result = filterByDateRange(sales, '2024-05-07', '2024-05-08');
+
+      expect(result.map(r => r.saleID)).toEqual(['S2', 'S3']);
+    });
+
+    test('should keep all records when no range is given', () => {
+      expect(filterByDateRange(sales)).toHaveLength(sales.length);
+    });
+  });
+
+  describe('summarizeSales', () => {
+    test('should separate sales from returns', () => {
+      const summary = summarizeSales(sales);
+
+      expect(summary).toEqual({
+        salesCount: 3,
+        returnsCount: 1,
+        grossSales: 4500.5,
+        returnsAmount: 1000,
+        netSales: 3500.5,
+        payout: 2950
+      });
+    });
+  });
+
+  describe('summarizeOrders', () => {
+    test('should separate cancelled orders', () => {
+      expect(summarizeOrders(orders)).toEqual({
+        ordersCount: 2,
+        cancelledCount: 1,
+        ordersAmount: 3500,
+        cancelledAmount: 2500
+      });
+    });
+  });
+
+  describe('getPeriodKey', () => {
+    test('should key days, weeks starting on Monday and months', () => {
+      expect(getPeriodKey('2024-05-08T09:00:00', 'day')).toBe('2024-05-08');
+      expect(getPeriodKey('2024-05-08T09:00:00', 'week')).toBe('2024-05-06');
+      expect(getPeriodKey('2024-05-12T09:00:00', 'week')).toBe('2024-05-06');
+      expect(getPeriodKey('2024-05-08T09:00:00', 'month')).toBe('2024-05');
+    });
+  });
+
+  describe('aggregateByPeriod', () => {
+    test('should aggregate sales by week in chronological order', () => {
+      const result = aggregateByPeriod(sales, 'week');
+
+      expect(result).toEqual([
+        { key: '2024-05-06', count: 3, amount: 4500.5, returnsCount: 0, returnsAmount: 0 },
+        { key: '2024-05-13', count: 0, amount: 0, returnsCount: 1, returnsAmount: 1000 }
+      ]);
+    });
+
+    test('should count cancelled orders separately', () => {
+      const result = aggregateByPeriod(orders, 'month');
+
+      expect(result).toEqual([
+        { key: '2024-05', count: 1, amount: 1000, returnsCount: 1, returnsAmount: 2500 },
+        { key: '2024-06', count: 1, amount: 2500, returnsCount: 0, returnsAmount: 0 }
+      ]);
+    });
+  });
+
+  describe('aggregateByNmId', () => {
+    test('should aggregate by product sorted by amount', () => {
+      const result = aggregateByNmId(sales);
+
+      expect(result[0]).toMatchObject({ nmID: 2, count: 1, amount: 2500.5, supplierArticle: 'B-2' });
+      expect(result[1]).toMatchObject({ nmID: 1, count: 2, amount: 2000, returnsCount: 1, returnsAmount: 1000 });
+    });
+  });
+});
@@ -1,5 +1,5 @@
-import { extractTokenUsage, calculateTokenCost, TOKEN_COSTS } from '../../core/ai/token-calculator';
-import { AIMessage } from '@langchain/core/messages';
+import { extractTokenUsage, calculateTokenCost, estimateInputTokens, estimateMessageTokens, getTokenCostRates, TOKEN_COSTS } from '../../core/ai/token-calculator';
+import { AIMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
 
 describe('Token Cost Calculator', () => {
   describe('calculateTokenCost', () => {
@@ -38,6 +38,43 @@ describe('Token Cost Calculator', () => {
     });
   });
 
+  describe('estimateMessageTokens', () => {
+    test('should count the content, the tool calls and the message overhead', () => {
+      expect(estimateMessageTokens({ role: 'user', content: 'x'.repeat(400) })).toBe(104);
+
+      const toolCalls = [{ id: 'call-1', name: 'get_prices', args: {} }];
+      expect(estimateMessageTokens({ role: 'assistant', content: '', tool_calls: toolCalls }))
+        .toBe(4 + Math.ceil(JSON.stringify(toolCalls).length / 4));
+    });
+  });
+
+  describe('estimateInputTokens', () => {
+    test('should add up the messages of a model call', () => {
+      const toolCalls = [{ id: 'call-1', name: 'get_prices', args: {}, type: 'tool_call' as const }];
+      const messages = [
+        new SystemMessage('x'.repeat(40)),
+        new HumanMessage('x'.repeat(400)),
+        new AIMessage({ content: '', tool_calls: toolCalls })
+      ];
+
+      expect(estimateInputTokens(messages)).toBe(
+        14 + 104 + estimateMessageTokens({ role: 'ai', content: '', tool_calls: toolCalls })
+      );
+    });
+  });
+
+  describe('getTokenCostRates', () => {
+    test('should use the rates of Anthropic models', () => {
+      expect(getTokenCostRates('claude-3-5-haiku-20241022')).toEqual({ input: 0.8, output: 4.0 });
+      expect(calculateTokenCost(1000, 500, 'claude-sonnet-4-20250514')).toBeCloseTo(0.0105);
+    });
+
+    test('should fall back to the rates of the provider for unlisted models', () => {
+      expect(getTokenCostRates('claude-opus-4-20250514')).toEqual({ input: 3.0, output: 15.0 });
+      expect(getTokenCostRates('gpt-5')).toEqual(TOKEN_COSTS.default);
+    });
+  });
+
   describe('TOKEN_COSTS', () => {
     test('should have defined cost rates for known models', () => {
       expect(TOKEN_COSTS['gpt-4o-mini']).toBeDefined();
@@ -0,0 +1,52 @@
+import { AIMessage, HumanMessage, ToolMessage } from '@langchain/core/messages';
+import {
+  buildPendingToolContent,
+  buildToolApprovalRequest,
+  findPendingApprovalCalls,
+  isMutatingToolCall,
+  selectPendingApprovalCalls
+} from '../../core/tools/tool-approval.utils';
+
+describe('Tool Approval Utils', () => {
+  const priceCall = { id: 'call_1', name: 'set_wildberries_products_price', args: { data: [{ nmID: 1, price: 1000 }] } };
+  const readCall = { id: 'call_2', name: 'get_wildberries_seller_product_cards', args: {} };
+
+  test('should detect mutating tool calls', () => {
+    expect(isMutatingToolCall(priceCall)).toBe(true);
+    expect(isMutatingToolCall(readCall)).toBe(false);
+  });
+
+  test('should select mutating calls without a result', () => {
+    expect(selectPendingApprovalCalls([priceCall, readCall], [])).toEqual([priceCall]);
+    expect(selectPendingApprovalCalls([priceCall, readCall], ['call_1'])).toEqual([]);
+  });
+
+  test('should find pending calls of the last assistant message', () => {
+    const messages = [
+      new HumanMessage('Set price 1000 for 1'),
+      new AIMessage({ content: '', tool_calls: [priceCall, readCall] }),
+      new ToolMessage({ content: '{"success":true}', tool_call_id: 'call_2' }),
+    ];
+
+    expect(findPendingApprovalCalls(messages).map(call => call.id)).toEqual(['call_1']);
+  });
+
+  test('should ignore calls that already have a result', () => {
+    const messages = [
+      new AIMessage({ content: '', tool_calls: [priceCall] }),
+      new ToolMessage({ content: '{"success":true}', tool_call_id: 'call_1' }),
+      new AIMessage('Done'),
+    ];
+
+    expect(findPendingApprovalCalls(messages)).toEqual([]);
+  });
+
+  test('should build the approval payload with the exact arguments', () => {
+    expect(buildToolApprovalRequest(priceCall)).toMatchObject({
+      toolCallId: 'call_1',
+      toolName: 'set_wildberries_products_price',
+      args: priceCall.args
+    });
+    expect(JSON.parse(buildPendingToolContent(priceCall))).toMatchObject({ success: false, pending: true, args: priceCall.args });
+  });
+});
@@ -137,6 +137,26 @@ describe('UI Converters', () => {
       });
     });
 
+    test('should include the model of assistant messages', () => {
+      const message: Message = {
+        id: 'msg-321',
+        conversation_id: 'conv-123',
+        content: 'AI response here',
+        role: 'assistant',
+        status: 'success',
+        created_at: '2024-01-01T10:00:00Z',
+        metadata: { model: 'claude-3-5-haiku-20241022' }
+      };
+
+      expect(convertMessageToUi(message)).toEqual({
+        role: 'assistant',
+        content: 'AI response here',
+        status: 'success',
+        timestamp: '2024-01-01T10:00:00Z',
+        model: 'claude-3-5-haiku-20241022'
+      });
+    });
+
     test('should handle message without optional status field', () => {
       const message: Message = {
         id: 'msg-789',
@@ -179,6 +199,31 @@ describe('UI Converters', () => {
       });
     });
 
+    test('should include tool name and full tool result of tool messages', () => {
+      const message: Message = {
+        id: 'msg-tool',
+        conversation_id: 'conv-tool',
+        content: '{"success":true,"shortened":true}',
+        role: 'tool',
+        status: 'success',
+        created_at: '2024-01-01T11:00:00Z',
+        tool_call_id: 'tool-call-123',
+        tool_name: 'get_wildberries_seller_product_cards',
+        metadata: { toolResult: { success: true, data: { cards: [] } } }
+      };
+
+      const result = convertMessageToUi(message);
+
+      expect(result).toEqual({
+        role: 'tool',
+        content: '{"success":true,"shortened":true}',
+        status: 'success',
+        timestamp: '2024-01-01T11:00:00Z',
+        toolName: 'get_wildberries_seller_product_cards',
+        metadata: { toolResult: { success: true, data: { cards: [] } } }
+      });
+    });
+
     test('should handle user message with different roles', () => {
       const roles: Array<'user' | 'assistant' | 'tool'> = ['user', 'assistant', 'tool'];
 
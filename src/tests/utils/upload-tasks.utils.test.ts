@@ -0,0 +1,111 @@
+import { MarketplaceTask } from '../../infrastructure/database/supabase.client';
+import {
+  buildUploadTaskMessage,
+  getNextCheckDelay,
+  getUploadTaskReference,
+  MAX_CHECK_DELAY_MS
+} from '../../core/uploads/upload-tasks.utils';
+import { getCardUploadOutcome, getPriceUploadOutcome } from '../../core/tools/product/upload-status.utils';
+
+describe('Upload Tasks Utils', () => {
+  const task: MarketplaceTask = {
+    id: 'task-1',
+    user_id: 'user-1',
+    conversation_id: 'conv-1',
+    service: 'wildberries',
+    task_type: 'card_upload',
+    reference: { vendorCodes: ['DRESS-RED', 'DRESS-BLUE'] },
+    status: 'pending',
+    attempts: 0,
+    next_check_at: '2026-10-18T10:01:00Z',
+    created_at: '2026-10-18T10:00:00Z',
+    updated_at: '2026-10-18T10:00:00Z'
+  };
+
+  describe('getUploadTaskReference', () => {
+    test('should track the vendor codes of created cards with their variants', () => {
+      expect(getUploadTaskReference(
+        'create_wildberries_product_card',
+        { vendorCode: 'DRESS-RED', variants: [{ vendorCode: 'DRESS-BLUE' }] },
+        JSON.stringify({ success: true })
+      )).toEqual({ taskType: 'card_upload', reference: { vendorCodes: ['DRESS-RED', 'DRESS-BLUE'] } });
+    });
+
+    test('should track the uploadID of a price upload', () => {
+      expect(getUploadTaskReference(
+        'set_wildberries_products_price',
+        { data: [] },
+        JSON.stringify({ success: true, uploadID: 42, diff: [] })
+      )).toEqual({ taskType: 'price_upload', reference: { uploadID: 42 } });
+    });
+
+    test('should ignore failed calls and other tools', () => {
+      expect(getUploadTaskReference('update_wildberries_product_card', { vendorCode: 'A' }, JSON.stringify({ success: false }))).toBeNull();
+      expect(getUploadTaskReference('update_wildberries_fbs_stocks', {}, JSON.stringify({ success: true }))).toBeNull();
+      expect(getUploadTaskReference('update_wildberries_product_card', { vendorCode: 'A' }, 'not json')).toBeNull();
+    });
+  });
+
+  describe('getNextCheckDelay', () => {
+    test('should double the delay up to the maximum', () => {
+      expect(getNextCheckDelay(1)).toBe(2 * 60 * 1000);
+      expect(getNextCheckDelay(2)).toBe(4 * 60 * 1000);
+      expect(getNextCheckDelay(10)).toBe(MAX_CHECK_DELAY_MS);
+    });
+  });
+
+  describe('getCardUploadOutcome', () => {
+    const startedAt = new Date('2026-10-18T10:00:00Z');
+
+    test('should fail on errors reported after the upload started', () => {
+      expect(getCardUploadOutcome(['DRESS-RED'], [
+        { vendorCode: 'DRESS-RED', updateAt: '2026-10-18T10:02:00Z', errors: ['Invalid subject'] }
+      ], {}, startedAt)).toBe('failed');
+    });
+
+    test('should complete when every card was updated after the upload started', () => {
+      const updatedAt = { 'DRESS-RED': '2026-10-18T10:03:00Z', 'DRESS-BLUE': '2026-10-18T10:03:00Z' };
+
+      expect(getCardUploadOutcome(['DRESS-RED', 'DRESS-BLUE'], [
+        { vendorCode: 'DRESS-RED', updateAt: '2026-10-01T10:00:00Z', errors: ['Old error'] }
+      ], updatedAt, startedAt)).toBe('completed');
+      expect(getCardUploadOutcome(['DRESS-RED', 'DRESS-BLUE'], [], { 'DRESS-RED': updatedAt['DRESS-RED'] }, startedAt)).toBe('pending');
+    });
+  });
+
+  describe('getPriceUploadOutcome', () => {
+    test('should map the task status', () => {
+      const status = { uploadID: 42, statusText: '', errors: [] };
+
+      expect(getPriceUploadOutcome({ ...status, status: 3 })).toBe('completed');
+      expect(getPriceUploadOutcome({ ...status, status: 5 })).toBe('failed');
+      expect(getPriceUploadOutcome({ ...status, status: 1 })).toBe('pending');
+      expect(getPriceUploadOutcome({ ...status, status: null })).toBe('pending');
+    });
+  });
+
+  describe('buildUploadTaskMessage', () => {
+    test('should list the card errors', () => {
+      expect(buildUploadTaskMessage(task, {
+        outcome: 'failed',
+        result: { cardErrors: [{ vendorCode: 'DRESS-BLUE', errors: ['Invalid subject', 'Title is too long'] }] }
+      })).toBe('Wildberries rejected the product card upload (DRESS-RED, DRESS-BLUE):\n- DRESS-BLUE: Invalid subject; Title is too long');
+    });
+
+    test('should summarize a price upload with errors', () => {
+      expect(buildUploadTaskMessage({ ...task, task_type: 'price_upload', reference: { uploadID: 42 } }, {
+        outcome: 'failed',
+        result: {
+          priceStatus: {
+            uploadID: 42,
+            status: 5,
+            statusText: 'processed with errors',
+            overAllGoodsNumber: 2,
+            successGoodsNumber: 1,
+            errors: [{ nmID: 1, vendorCode: 'DRESS-RED', errorText: 'The new price is too low' }]
+          }
+        }
+      })).toBe('The price upload 42 finished with status "processed with errors".\nUpdated 1 of 2 goods.\n- DRESS-RED: The new price is too low');
+    });
+  });
+});